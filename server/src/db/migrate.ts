@@ -1,147 +1,170 @@
+import { PoolClient } from 'pg'
 import pool from './pool'
+import { migrations, Migration } from './migrations'
 
-const dropSchema = `
--- Drop tables in reverse dependency order
-DROP TABLE IF EXISTS qualifications CASCADE;
-DROP TABLE IF EXISTS category_colors CASCADE;
-DROP TABLE IF EXISTS skills CASCADE;
-DROP TABLE IF EXISTS pilots CASCADE;
-DROP TABLE IF EXISTS users CASCADE;
-DROP TABLE IF EXISTS wings CASCADE;
-`;
-
-const schema = `
--- Wings table
-CREATE TABLE IF NOT EXISTS wings (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  name VARCHAR(100) UNIQUE NOT NULL,
-  created_at TIMESTAMPTZ DEFAULT NOW(),
-  updated_at TIMESTAMPTZ DEFAULT NOW()
-);
-
--- Users table (for authentication)
-CREATE TABLE IF NOT EXISTS users (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  email VARCHAR(255) UNIQUE NOT NULL,
-  password_hash VARCHAR(255) NOT NULL,
-  role VARCHAR(20) NOT NULL DEFAULT 'pilot' CHECK (role IN ('pilot', 'instructor', 'admin')),
-  created_at TIMESTAMPTZ DEFAULT NOW(),
-  updated_at TIMESTAMPTZ DEFAULT NOW()
-);
+// Usage (via `npm run db:migrate -- <flags>`):
+//   (no flags)    apply all pending migrations in order
+//   --status      list applied and pending migrations
+//   --down [n]    roll back the last n applied migrations (default 1)
+//   --reset       roll back everything and re-apply from scratch (blocked in production)
+//   --dry-run     print the SQL that would run instead of executing it
 
--- Pilots table
-CREATE TABLE IF NOT EXISTS pilots (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
-  callsign VARCHAR(100) NOT NULL,
-  first_name VARCHAR(100) NOT NULL,
-  last_name VARCHAR(100) NOT NULL,
-  wing_id UUID NOT NULL REFERENCES wings(id),
-  board_number VARCHAR(20),
-  role VARCHAR(20) NOT NULL DEFAULT 'pilot' CHECK (role IN ('pilot', 'instructor', 'admin')),
-  email VARCHAR(255) NOT NULL,
-  created_at TIMESTAMPTZ DEFAULT NOW(),
-  updated_at TIMESTAMPTZ DEFAULT NOW()
-);
+// Arbitrary advisory lock key so two runners never migrate concurrently
+const MIGRATION_LOCK_KEY = 814300
 
--- Skills table (linked to a wing)
-CREATE TABLE IF NOT EXISTS skills (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  wing_id UUID NOT NULL REFERENCES wings(id) ON DELETE CASCADE,
+const trackingTable = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  id VARCHAR(20) PRIMARY KEY,
   name VARCHAR(200) NOT NULL,
-  category VARCHAR(100) NOT NULL,
-  description TEXT,
-  sort_order INT NOT NULL DEFAULT 0,
-  created_at TIMESTAMPTZ DEFAULT NOW()
+  applied_at TIMESTAMPTZ DEFAULT NOW()
 );
+`
 
--- Qualifications table
-CREATE TABLE IF NOT EXISTS qualifications (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
-  skill_id UUID NOT NULL REFERENCES skills(id) ON DELETE CASCADE,
-  status VARCHAR(10) NOT NULL CHECK (status IN ('NMQ', 'MQT', 'FMQ', 'IP')),
-  last_updated TIMESTAMPTZ DEFAULT NOW(),
-  updated_by VARCHAR(255),
-  UNIQUE(pilot_id, skill_id)
-);
+const label = (m: Migration) => `${m.id}_${m.name}`
 
--- Category colors table (per-wing category colors)
-CREATE TABLE IF NOT EXISTS category_colors (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  wing_id UUID NOT NULL REFERENCES wings(id) ON DELETE CASCADE,
-  category VARCHAR(100) NOT NULL,
-  color VARCHAR(7) NOT NULL DEFAULT '#3B82F6',
-  sort_order INTEGER DEFAULT 0,
-  UNIQUE(wing_id, category)
-);
+function validateMigrations() {
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].id <= migrations[i - 1].id) {
+      throw new Error(`Migrations out of order: ${label(migrations[i - 1])} must come before ${label(migrations[i])}`)
+    }
+  }
+}
 
--- Indexes
-CREATE INDEX IF NOT EXISTS idx_qualifications_pilot_id ON qualifications(pilot_id);
-CREATE INDEX IF NOT EXISTS idx_qualifications_skill_id ON qualifications(skill_id);
-CREATE INDEX IF NOT EXISTS idx_pilots_wing_id ON pilots(wing_id);
-CREATE INDEX IF NOT EXISTS idx_pilots_user_id ON pilots(user_id);
-CREATE INDEX IF NOT EXISTS idx_skills_wing_id ON skills(wing_id);
-
--- Settings table for UX customization
-CREATE TABLE IF NOT EXISTS settings (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  key VARCHAR(100) UNIQUE NOT NULL,
-  value TEXT NOT NULL,
-  description TEXT,
-  created_at TIMESTAMPTZ DEFAULT NOW(),
-  updated_at TIMESTAMPTZ DEFAULT NOW()
-);
+async function getApplied(client: PoolClient): Promise<Map<string, { name: string; applied_at: Date }>> {
+  const exists = await client.query(`SELECT to_regclass('schema_migrations') IS NOT NULL AS exists`)
+  if (!exists.rows[0].exists) return new Map()
+
+  const result = await client.query('SELECT id, name, applied_at FROM schema_migrations ORDER BY id')
+  return new Map(result.rows.map(r => [r.id, { name: r.name, applied_at: r.applied_at }]))
+}
 
--- Default settings
-INSERT INTO settings (key, value, description) VALUES
-  ('nav_title', 'DCS Squadron', 'Title shown in the navigation bar'),
-  ('nav_color', '#2563EB', 'Navigation bar color (hex code)'),
-  ('nav_icon', 'Plane', 'Navigation bar icon (lucide icon name)'),
-  ('app_subtitle', 'Squadron Management System', 'Subtitle/tagline')
-ON CONFLICT (key) DO NOTHING;
-
--- Migrations
--- Add sort_order column to category_colors if it doesn't exist
-ALTER TABLE IF EXISTS category_colors ADD COLUMN IF NOT EXISTS sort_order INTEGER DEFAULT 0;
-
--- Add board_number to pilots if it doesn't exist
-ALTER TABLE IF EXISTS pilots ADD COLUMN IF NOT EXISTS board_number VARCHAR(20);
-
--- Backfill missing qualifications with NMQ status
--- This ensures every pilot-skill combination has a status
-INSERT INTO qualifications (pilot_id, skill_id, status, last_updated, updated_by)
-SELECT p.id, s.id, 'NMQ', NOW(), 'system_migration'
-FROM pilots p
-CROSS JOIN skills s
-WHERE s.wing_id = p.wing_id
-  AND NOT EXISTS (
-    SELECT 1 FROM qualifications q 
-    WHERE q.pilot_id = p.id AND q.skill_id = s.id
-  )
-ON CONFLICT (pilot_id, skill_id) DO NOTHING;
-`;
+async function runUp(client: PoolClient, migration: Migration, dryRun: boolean, isDebug: boolean) {
+  if (dryRun) {
+    console.log(`-- up: ${label(migration)}${migration.up}`)
+    return
+  }
+  await client.query('BEGIN')
+  try {
+    await client.query(migration.up)
+    await client.query('INSERT INTO schema_migrations (id, name) VALUES ($1, $2)', [migration.id, migration.name])
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw new Error(`${label(migration)} failed: ${(error as Error).message}`)
+  }
+  if (isDebug) console.log(`Applied ${label(migration)}`)
+}
+
+async function runDown(client: PoolClient, migration: Migration, dryRun: boolean, isDebug: boolean) {
+  if (dryRun) {
+    console.log(`-- down: ${label(migration)}${migration.down}`)
+    return
+  }
+  await client.query('BEGIN')
+  try {
+    await client.query(migration.down)
+    await client.query('DELETE FROM schema_migrations WHERE id = $1', [migration.id])
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw new Error(`${label(migration)} rollback failed: ${(error as Error).message}`)
+  }
+  if (isDebug) console.log(`Rolled back ${label(migration)}`)
+}
+
+async function printStatus(client: PoolClient) {
+  const applied = await getApplied(client)
+  for (const m of migrations) {
+    const row = applied.get(m.id)
+    console.log(`${row ? 'applied' : 'pending'}  ${label(m)}${row ? `  (${row.applied_at.toISOString()})` : ''}`)
+  }
+  // Rows recorded by a newer checkout of the code than the one running now
+  for (const [id, row] of applied) {
+    if (!migrations.some(m => m.id === id)) {
+      console.log(`unknown  ${id}_${row.name}  (not present in this codebase)`)
+    }
+  }
+}
 
 async function migrate() {
-  const shouldReset = process.argv.includes('--reset')
-  const isDebug = process.env.DEBUG_MIGRATIONS === 'true'
-  
-  if (isDebug) console.log('Running database migrations...')
+  const args = process.argv.slice(2)
+  const shouldReset = args.includes('--reset')
+  const showStatus = args.includes('--status')
+  const dryRun = args.includes('--dry-run')
+  const downIndex = args.indexOf('--down')
+  const isDebug = process.env.DEBUG_MIGRATIONS === 'true' || dryRun
+
+  if (shouldReset && process.env.NODE_ENV === 'production') {
+    console.error('ERROR: --reset is not allowed in production. Aborting.')
+    process.exit(1)
+  }
+
+  let downCount = 0
+  if (downIndex !== -1) {
+    const raw = args[downIndex + 1]
+    downCount = raw && !raw.startsWith('--') ? parseInt(raw) : 1
+    if (!Number.isInteger(downCount) || downCount < 1) {
+      console.error('ERROR: --down expects a positive number of migrations to roll back.')
+      process.exit(1)
+    }
+  }
+
+  const client = await pool.connect()
   try {
+    validateMigrations()
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY])
+
+    if (showStatus) {
+      await printStatus(client)
+      return
+    }
+
     if (shouldReset) {
-      if (process.env.NODE_ENV === 'production') {
-        console.error('ERROR: --reset is not allowed in production. Aborting.')
-        process.exit(1)
+      if (isDebug) console.log('Resetting database (rolling back all migrations)...')
+      // Run every down, applied or not: databases that predate the runner
+      // have tables but no schema_migrations rows. Downs of unrecorded
+      // migrations are best-effort since their objects may not exist.
+      const recorded = await getApplied(client)
+      for (const m of [...migrations].reverse()) {
+        if (dryRun) {
+          console.log(`-- down: ${label(m)}${m.down}`)
+        } else if (recorded.has(m.id)) {
+          await client.query(m.down)
+        } else {
+          await client.query(m.down).catch(() => {})
+        }
       }
-      if (isDebug) console.log('Resetting database (dropping all tables)...')
-      await pool.query(dropSchema)
+      if (!dryRun) await client.query('DROP TABLE IF EXISTS schema_migrations')
     }
-    await pool.query(schema)
-    if (isDebug) console.log('Migrations completed successfully.')
+
+    if (!dryRun) await client.query(trackingTable)
+    const applied = shouldReset && !dryRun ? new Map() : await getApplied(client)
+
+    if (downCount > 0) {
+      const appliedMigrations = [...applied.keys()].sort().reverse().slice(0, downCount)
+      for (const id of appliedMigrations) {
+        const migration = migrations.find(m => m.id === id)
+        if (!migration) {
+          throw new Error(`Cannot roll back migration ${id}: it is not present in this codebase`)
+        }
+        await runDown(client, migration, dryRun, isDebug)
+      }
+      if (appliedMigrations.length === 0 && isDebug) console.log('Nothing to roll back.')
+      return
+    }
+
+    const pending = shouldReset ? migrations : migrations.filter(m => !applied.has(m.id))
+    if (isDebug) console.log(pending.length > 0 ? `Running ${pending.length} migration(s)...` : 'Database is up to date.')
+    for (const migration of pending) {
+      await runUp(client, migration, dryRun, isDebug)
+    }
+    if (isDebug && pending.length > 0) console.log('Migrations completed successfully.')
   } catch (error) {
     console.error('Migration failed:', error)
-    process.exit(1)
+    process.exitCode = 1
   } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => {})
+    client.release()
     await pool.end()
   }
 }
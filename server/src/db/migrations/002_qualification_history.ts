@@ -0,0 +1,27 @@
+import { Migration } from './types'
+
+// Shipped before the migration runner, hence IF NOT EXISTS.
+const migration: Migration = {
+  id: '002',
+  name: 'qualification_history',
+  up: `
+CREATE TABLE IF NOT EXISTS qualification_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+  skill_id UUID NOT NULL REFERENCES skills(id) ON DELETE CASCADE,
+  old_status VARCHAR(10) CHECK (old_status IN ('NMQ', 'MQT', 'FMQ', 'IP')),
+  new_status VARCHAR(10) NOT NULL CHECK (new_status IN ('NMQ', 'MQT', 'FMQ', 'IP')),
+  changed_by VARCHAR(255),
+  changed_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  note TEXT,
+  changed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qualification_history_pilot_skill ON qualification_history(pilot_id, skill_id, changed_at DESC);
+`,
+  down: `
+DROP TABLE IF EXISTS qualification_history CASCADE;
+`,
+}
+
+export default migration
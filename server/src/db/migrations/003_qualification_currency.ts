@@ -0,0 +1,22 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '003',
+  name: 'qualification_currency',
+  up: `
+-- Days a FMQ/IP stays current after the skill was last flown; NULL never lapses
+ALTER TABLE skills ADD COLUMN currency_days INT CHECK (currency_days IS NULL OR currency_days > 0);
+ALTER TABLE qualifications ADD COLUMN last_performed TIMESTAMPTZ;
+
+INSERT INTO settings (key, value, description) VALUES
+  ('currency_warning_days', '14', 'Days before a qualification lapses that it is flagged as expiring soon')
+ON CONFLICT (key) DO NOTHING;
+`,
+  down: `
+DELETE FROM settings WHERE key = 'currency_warning_days';
+ALTER TABLE qualifications DROP COLUMN IF EXISTS last_performed;
+ALTER TABLE skills DROP COLUMN IF EXISTS currency_days;
+`,
+}
+
+export default migration
@@ -0,0 +1,23 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '004',
+  name: 'skill_prerequisites',
+  up: `
+-- skill_id may only be signed off as FMQ/IP once prerequisite_id is FMQ/IP
+CREATE TABLE skill_prerequisites (
+  skill_id UUID NOT NULL REFERENCES skills(id) ON DELETE CASCADE,
+  prerequisite_id UUID NOT NULL REFERENCES skills(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (skill_id, prerequisite_id),
+  CHECK (skill_id <> prerequisite_id)
+);
+
+CREATE INDEX idx_skill_prerequisites_prerequisite_id ON skill_prerequisites(prerequisite_id);
+`,
+  down: `
+DROP TABLE IF EXISTS skill_prerequisites CASCADE;
+`,
+}
+
+export default migration
@@ -0,0 +1,29 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '005',
+  name: 'readiness_rules',
+  up: `
+-- A pilot is combat ready when they satisfy every rule of their wing.
+--   min_qualified      at least min_count FMQ/IP skills (within category when set)
+--   category_complete  every skill in category at FMQ/IP
+--   skills_required    every skill in skill_ids at FMQ/IP, plus min_count others
+CREATE TABLE readiness_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wing_id UUID NOT NULL REFERENCES wings(id) ON DELETE CASCADE,
+  rule_type VARCHAR(30) NOT NULL CHECK (rule_type IN ('min_qualified', 'category_complete', 'skills_required')),
+  category VARCHAR(100),
+  skill_ids UUID[] NOT NULL DEFAULT '{}',
+  min_count INT NOT NULL DEFAULT 0 CHECK (min_count >= 0),
+  sort_order INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_readiness_rules_wing_id ON readiness_rules(wing_id);
+`,
+  down: `
+DROP TABLE IF EXISTS readiness_rules CASCADE;
+`,
+}
+
+export default migration
@@ -0,0 +1,47 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '006',
+  name: 'training_events',
+  up: `
+CREATE TABLE training_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wing_id UUID NOT NULL REFERENCES wings(id) ON DELETE CASCADE,
+  title VARCHAR(200) NOT NULL,
+  event_date DATE NOT NULL,
+  lead_instructor_id UUID REFERENCES pilots(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by VARCHAR(255),
+  created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  -- Set once proposed upgrades have been confirmed; the event is then read-only
+  applied_at TIMESTAMPTZ,
+  applied_by VARCHAR(255),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE training_event_skills (
+  event_id UUID NOT NULL REFERENCES training_events(id) ON DELETE CASCADE,
+  skill_id UUID NOT NULL REFERENCES skills(id) ON DELETE CASCADE,
+  PRIMARY KEY (event_id, skill_id)
+);
+
+CREATE TABLE training_event_attendees (
+  event_id UUID NOT NULL REFERENCES training_events(id) ON DELETE CASCADE,
+  pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+  outcome VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (outcome IN ('pending', 'pass', 'partial', 'fail', 'no_show')),
+  notes TEXT,
+  PRIMARY KEY (event_id, pilot_id)
+);
+
+CREATE INDEX idx_training_events_wing_date ON training_events(wing_id, event_date DESC);
+CREATE INDEX idx_training_event_attendees_pilot_id ON training_event_attendees(pilot_id);
+`,
+  down: `
+DROP TABLE IF EXISTS training_event_attendees CASCADE;
+DROP TABLE IF EXISTS training_event_skills CASCADE;
+DROP TABLE IF EXISTS training_events CASCADE;
+`,
+}
+
+export default migration
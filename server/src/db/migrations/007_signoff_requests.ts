@@ -0,0 +1,34 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '007',
+  name: 'signoff_requests',
+  up: `
+-- Promotions to FMQ/IP by anyone but an admin are held here until a second
+-- instructor or an admin reviews them.
+CREATE TABLE signoff_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+  skill_id UUID NOT NULL REFERENCES skills(id) ON DELETE CASCADE,
+  requested_status VARCHAR(10) NOT NULL CHECK (requested_status IN ('FMQ', 'IP')),
+  note TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  requested_by VARCHAR(255) NOT NULL,
+  requested_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_by VARCHAR(255),
+  reviewed_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  review_comment TEXT,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one open request per cell
+CREATE UNIQUE INDEX idx_signoff_requests_pending ON signoff_requests(pilot_id, skill_id) WHERE status = 'pending';
+CREATE INDEX idx_signoff_requests_status ON signoff_requests(status, created_at DESC);
+`,
+  down: `
+DROP TABLE IF EXISTS signoff_requests CASCADE;
+`,
+}
+
+export default migration
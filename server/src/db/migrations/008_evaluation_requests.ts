@@ -0,0 +1,33 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '008',
+  name: 'evaluation_requests',
+  up: `
+-- A pilot asking to be evaluated on a skill ("ready for checkride").
+-- pending -> accepted / scheduled / declined by an instructor, or cancelled by the pilot.
+CREATE TABLE evaluation_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+  skill_id UUID NOT NULL REFERENCES skills(id) ON DELETE CASCADE,
+  message TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'scheduled', 'declined', 'cancelled')),
+  response TEXT,
+  scheduled_for TIMESTAMPTZ,
+  handled_by VARCHAR(255),
+  handled_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One open request per pilot and skill
+CREATE UNIQUE INDEX idx_evaluation_requests_open ON evaluation_requests(pilot_id, skill_id)
+  WHERE status IN ('pending', 'accepted', 'scheduled');
+CREATE INDEX idx_evaluation_requests_status ON evaluation_requests(status, created_at DESC);
+`,
+  down: `
+DROP TABLE IF EXISTS evaluation_requests CASCADE;
+`,
+}
+
+export default migration
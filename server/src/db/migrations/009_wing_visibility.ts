@@ -0,0 +1,16 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '009',
+  name: 'wing_visibility',
+  up: `
+INSERT INTO settings (key, value, description) VALUES
+  ('pilots_view_all_wings', 'false', 'Let pilots see the pilots, skills and qualifications of every wing, not just their own')
+ON CONFLICT (key) DO NOTHING;
+`,
+  down: `
+DELETE FROM settings WHERE key = 'pilots_view_all_wings';
+`,
+}
+
+export default migration
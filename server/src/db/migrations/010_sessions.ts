@@ -0,0 +1,30 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '010',
+  name: 'sessions',
+  up: `
+-- One row per signed-in device. Only SHA-256 hashes of refresh tokens are stored;
+-- previous_token_hash lets a replayed (already rotated) token kill the session.
+CREATE TABLE IF NOT EXISTS sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,
+  previous_token_hash VARCHAR(64),
+  user_agent TEXT,
+  ip_address VARCHAR(64),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_previous_token ON sessions(previous_token_hash);
+`,
+  down: `
+DROP TABLE IF EXISTS sessions CASCADE;
+`,
+}
+
+export default migration
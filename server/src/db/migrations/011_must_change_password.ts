@@ -0,0 +1,15 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '011',
+  name: 'must_change_password',
+  up: `
+-- Set for temporary passwords (new accounts, admin resets) until the user picks their own
+ALTER TABLE users ADD COLUMN IF NOT EXISTS must_change_password BOOLEAN NOT NULL DEFAULT false;
+`,
+  down: `
+ALTER TABLE users DROP COLUMN IF EXISTS must_change_password;
+`,
+}
+
+export default migration
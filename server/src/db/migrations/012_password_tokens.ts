@@ -0,0 +1,25 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '012',
+  name: 'password_tokens',
+  up: `
+-- One-time links for password resets and new-account onboarding; only hashes are stored
+CREATE TABLE IF NOT EXISTS password_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('reset', 'onboarding')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_tokens_user ON password_tokens(user_id);
+`,
+  down: `
+DROP TABLE IF EXISTS password_tokens CASCADE;
+`,
+}
+
+export default migration
@@ -0,0 +1,19 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '013',
+  name: 'discord_accounts',
+  up: `
+-- Discord account linked for OAuth sign-in; the username is refreshed on every Discord sign-in
+ALTER TABLE users ADD COLUMN IF NOT EXISTS discord_id VARCHAR(32);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS discord_username VARCHAR(100);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_discord_id ON users(discord_id);
+`,
+  down: `
+DROP INDEX IF EXISTS idx_users_discord_id;
+ALTER TABLE users DROP COLUMN IF EXISTS discord_username;
+ALTER TABLE users DROP COLUMN IF EXISTS discord_id;
+`,
+}
+
+export default migration
@@ -0,0 +1,28 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '014',
+  name: 'discord_webhooks',
+  up: `
+-- One Discord webhook per wing. events maps each notification type to
+-- { "enabled": boolean, "template": string }; missing types use the defaults.
+CREATE TABLE IF NOT EXISTS wing_discord_webhooks (
+  wing_id UUID PRIMARY KEY REFERENCES wings(id) ON DELETE CASCADE,
+  webhook_url TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  events JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- When the lapse of this qualification's currency was last announced; a renewal
+-- moves the expiry past it so the next lapse is announced again
+ALTER TABLE qualifications ADD COLUMN IF NOT EXISTS currency_lapse_notified_at TIMESTAMPTZ;
+`,
+  down: `
+ALTER TABLE qualifications DROP COLUMN IF EXISTS currency_lapse_notified_at;
+DROP TABLE IF EXISTS wing_discord_webhooks;
+`,
+}
+
+export default migration
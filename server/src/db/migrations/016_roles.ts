@@ -0,0 +1,53 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '016',
+  name: 'roles',
+  up: `
+-- Roles are named bundles of permissions. A wing-scoped role only acts on the
+-- holder's own wing; the permission names are listed in services/permissions.ts.
+CREATE TABLE IF NOT EXISTS roles (
+  name VARCHAR(50) PRIMARY KEY,
+  description VARCHAR(255),
+  permissions TEXT[] NOT NULL DEFAULT '{}',
+  wing_scoped BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO roles (name, description, permissions, wing_scoped) VALUES
+  ('admin', 'Full access to every wing', ARRAY[
+    'pilots:create', 'qualifications:write', 'qualifications:approve', 'qualifications:skip_signoff',
+    'skills:manage', 'categories:manage', 'readiness:manage', 'events:manage', 'evaluations:respond',
+    'export:all', 'wings:manage', 'users:manage', 'roles:manage', 'settings:manage', 'webhooks:manage'
+  ], false),
+  ('instructor', 'Trains and qualifies pilots in their own wing', ARRAY[
+    'pilots:create', 'qualifications:write', 'qualifications:approve', 'categories:manage',
+    'readiness:manage', 'events:manage', 'evaluations:respond', 'export:all'
+  ], true),
+  ('pilot', 'Views their wing and requests sign-offs and evaluations', '{}', true)
+ON CONFLICT (name) DO NOTHING;
+
+-- users.role now names a row in roles; renaming a role carries over to its users
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ALTER COLUMN role TYPE VARCHAR(50);
+ALTER TABLE users ADD CONSTRAINT users_role_fkey FOREIGN KEY (role) REFERENCES roles(name) ON UPDATE CASCADE;
+
+-- The role lives on the user account only
+ALTER TABLE pilots DROP COLUMN IF EXISTS role;
+`,
+  down: `
+ALTER TABLE pilots ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'pilot'
+  CHECK (role IN ('pilot', 'instructor', 'admin'));
+UPDATE pilots p SET role = u.role FROM users u WHERE u.id = p.user_id AND u.role IN ('pilot', 'instructor', 'admin');
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_fkey;
+UPDATE users SET role = 'pilot' WHERE role NOT IN ('pilot', 'instructor', 'admin');
+ALTER TABLE users ALTER COLUMN role TYPE VARCHAR(20);
+ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('pilot', 'instructor', 'admin'));
+
+DROP TABLE IF EXISTS roles;
+`,
+}
+
+export default migration
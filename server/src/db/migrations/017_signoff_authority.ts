@@ -0,0 +1,16 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '017',
+  name: 'signoff_authority',
+  up: `
+INSERT INTO settings (key, value, description) VALUES
+  ('instructors_require_ip', 'false', 'Limit wing-scoped roles such as instructor to signing off the skills they hold IP on')
+ON CONFLICT (key) DO NOTHING;
+`,
+  down: `
+DELETE FROM settings WHERE key = 'instructors_require_ip';
+`,
+}
+
+export default migration
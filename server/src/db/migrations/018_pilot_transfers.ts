@@ -0,0 +1,69 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '018',
+  name: 'pilot_transfers',
+  up: `
+-- Wings a pilot belongs to besides their primary wing (pilots.wing_id): a
+-- guest flying with another wing, or a pilot dual-qualified in two wings.
+CREATE TABLE pilot_wings (
+  pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+  wing_id UUID NOT NULL REFERENCES wings(id) ON DELETE CASCADE,
+  kind VARCHAR(10) NOT NULL DEFAULT 'guest' CHECK (kind IN ('guest', 'dual')),
+  added_by VARCHAR(255),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (pilot_id, wing_id)
+);
+
+CREATE INDEX idx_pilot_wings_wing ON pilot_wings(wing_id);
+
+-- One row per change of primary wing. Wing names are copied so the history
+-- still reads after a wing is deleted.
+CREATE TABLE pilot_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+  from_wing_id UUID REFERENCES wings(id) ON DELETE SET NULL,
+  from_wing_name VARCHAR(100) NOT NULL,
+  to_wing_id UUID REFERENCES wings(id) ON DELETE SET NULL,
+  to_wing_name VARCHAR(100) NOT NULL,
+  mode VARCHAR(20) NOT NULL CHECK (mode IN ('archive', 'carry_over', 'keep')),
+  carried_count INT NOT NULL DEFAULT 0,
+  archived_count INT NOT NULL DEFAULT 0,
+  created_count INT NOT NULL DEFAULT 0,
+  note TEXT,
+  transferred_by VARCHAR(255) NOT NULL,
+  transferred_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  transferred_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_pilot_transfers_pilot ON pilot_transfers(pilot_id, transferred_at DESC);
+
+-- Qualifications a pilot held in a wing they left, kept read-only with a
+-- copy of the skill so they survive the skill being deleted
+CREATE TABLE archived_qualifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+  skill_id UUID REFERENCES skills(id) ON DELETE SET NULL,
+  wing_id UUID REFERENCES wings(id) ON DELETE SET NULL,
+  wing_name VARCHAR(100) NOT NULL,
+  skill_name VARCHAR(200) NOT NULL,
+  category VARCHAR(100) NOT NULL,
+  status VARCHAR(10) NOT NULL CHECK (status IN ('NMQ', 'MQT', 'FMQ', 'IP')),
+  last_performed TIMESTAMPTZ,
+  last_updated TIMESTAMPTZ,
+  updated_by VARCHAR(255),
+  transfer_id UUID REFERENCES pilot_transfers(id) ON DELETE SET NULL,
+  archived_by VARCHAR(255) NOT NULL,
+  archived_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_archived_qualifications_pilot ON archived_qualifications(pilot_id, archived_at DESC);
+`,
+  down: `
+DROP TABLE IF EXISTS archived_qualifications CASCADE;
+DROP TABLE IF EXISTS pilot_transfers CASCADE;
+DROP TABLE IF EXISTS pilot_wings CASCADE;
+`,
+}
+
+export default migration
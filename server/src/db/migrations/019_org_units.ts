@@ -0,0 +1,34 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '019',
+  name: 'org_units',
+  up: `
+-- Squadrons and flights beneath a wing. Top-level units have no parent; a
+-- unit's parent always belongs to the same wing.
+CREATE TABLE org_units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wing_id UUID NOT NULL REFERENCES wings(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES org_units(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  kind VARCHAR(20) NOT NULL DEFAULT 'squadron' CHECK (kind IN ('squadron', 'flight')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Sibling units need distinct names
+CREATE UNIQUE INDEX idx_org_units_sibling_name
+  ON org_units(wing_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+CREATE INDEX idx_org_units_parent ON org_units(parent_id);
+
+-- A pilot sits in at most one unit of their primary wing
+ALTER TABLE pilots ADD COLUMN unit_id UUID REFERENCES org_units(id) ON DELETE SET NULL;
+CREATE INDEX idx_pilots_unit ON pilots(unit_id);
+`,
+  down: `
+ALTER TABLE pilots DROP COLUMN IF EXISTS unit_id;
+DROP TABLE IF EXISTS org_units CASCADE;
+`,
+}
+
+export default migration
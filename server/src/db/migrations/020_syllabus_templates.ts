@@ -0,0 +1,32 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '020',
+  name: 'syllabus_templates',
+  up: `
+-- A named set of categories (with colors and order), skills and their
+-- prerequisites that can be applied to any wing. content holds the
+-- categories and skills as in services/syllabi.ts; version goes up each time
+-- the content is replaced.
+CREATE TABLE syllabus_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  airframe VARCHAR(50),
+  description TEXT,
+  version INT NOT NULL DEFAULT 1 CHECK (version > 0),
+  content JSONB NOT NULL,
+  source_wing_id UUID REFERENCES wings(id) ON DELETE SET NULL,
+  created_by VARCHAR(255) NOT NULL,
+  created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_syllabus_templates_name ON syllabus_templates(lower(name));
+`,
+  down: `
+DROP TABLE IF EXISTS syllabus_templates CASCADE;
+`,
+}
+
+export default migration
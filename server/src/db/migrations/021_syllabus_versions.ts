@@ -0,0 +1,43 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '021',
+  name: 'syllabus_versions',
+  up: `
+-- Retired skills stay in place so qualification history keeps pointing at
+-- them; their qualifications move to archived_qualifications.
+ALTER TABLE skills ADD COLUMN archived_at TIMESTAMPTZ;
+ALTER TABLE skills ADD COLUMN archived_by VARCHAR(255);
+CREATE INDEX idx_skills_wing_live ON skills(wing_id) WHERE archived_at IS NULL;
+
+ALTER TABLE wings ADD COLUMN syllabus_version INT NOT NULL DEFAULT 1;
+
+-- One row per syllabus revision of a wing. mapping lists every retired skill
+-- with the skills that replace it (none when it was dropped), names copied.
+CREATE TABLE syllabus_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wing_id UUID NOT NULL REFERENCES wings(id) ON DELETE CASCADE,
+  version INT NOT NULL,
+  note TEXT,
+  mapping JSONB NOT NULL,
+  carried_count INT NOT NULL DEFAULT 0,
+  archived_count INT NOT NULL DEFAULT 0,
+  created_by VARCHAR(255) NOT NULL,
+  created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (wing_id, version)
+);
+
+ALTER TABLE archived_qualifications ADD COLUMN revision_id UUID REFERENCES syllabus_revisions(id) ON DELETE SET NULL;
+`,
+  down: `
+ALTER TABLE archived_qualifications DROP COLUMN IF EXISTS revision_id;
+DROP TABLE IF EXISTS syllabus_revisions CASCADE;
+ALTER TABLE wings DROP COLUMN IF EXISTS syllabus_version;
+DROP INDEX IF EXISTS idx_skills_wing_live;
+ALTER TABLE skills DROP COLUMN IF EXISTS archived_by;
+ALTER TABLE skills DROP COLUMN IF EXISTS archived_at;
+`,
+}
+
+export default migration
@@ -0,0 +1,38 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '022',
+  name: 'soft_delete',
+  up: `
+-- Deleting a user, wing or category archives it instead; the Archive view in
+-- the admin panel restores or purges. An archived user cannot sign in and their
+-- pilot keeps every qualification for when they come back.
+ALTER TABLE users ADD COLUMN archived_at TIMESTAMPTZ;
+ALTER TABLE users ADD COLUMN archived_by VARCHAR(255);
+
+ALTER TABLE pilots ADD COLUMN archived_at TIMESTAMPTZ;
+ALTER TABLE pilots ADD COLUMN archived_by VARCHAR(255);
+CREATE INDEX idx_pilots_wing_live ON pilots(wing_id) WHERE archived_at IS NULL;
+
+ALTER TABLE wings ADD COLUMN archived_at TIMESTAMPTZ;
+ALTER TABLE wings ADD COLUMN archived_by VARCHAR(255);
+
+-- An archived category archives its skills with the same timestamp, which is
+-- how restoring the category finds them again
+ALTER TABLE category_colors ADD COLUMN archived_at TIMESTAMPTZ;
+ALTER TABLE category_colors ADD COLUMN archived_by VARCHAR(255);
+`,
+  down: `
+ALTER TABLE category_colors DROP COLUMN IF EXISTS archived_by;
+ALTER TABLE category_colors DROP COLUMN IF EXISTS archived_at;
+ALTER TABLE wings DROP COLUMN IF EXISTS archived_by;
+ALTER TABLE wings DROP COLUMN IF EXISTS archived_at;
+DROP INDEX IF EXISTS idx_pilots_wing_live;
+ALTER TABLE pilots DROP COLUMN IF EXISTS archived_by;
+ALTER TABLE pilots DROP COLUMN IF EXISTS archived_at;
+ALTER TABLE users DROP COLUMN IF EXISTS archived_by;
+ALTER TABLE users DROP COLUMN IF EXISTS archived_at;
+`,
+}
+
+export default migration
@@ -0,0 +1,37 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '023',
+  name: 'roster_status',
+  up: `
+-- Where a pilot stands on the roster. Only active pilots count towards a
+-- wing's readiness unless a caller asks for everyone.
+ALTER TABLE pilots ADD COLUMN roster_status VARCHAR(10) NOT NULL DEFAULT 'active'
+  CHECK (roster_status IN ('active', 'reserve', 'loa', 'retired'));
+ALTER TABLE pilots ADD COLUMN roster_status_date DATE;
+ALTER TABLE pilots ADD COLUMN roster_status_reason TEXT;
+
+-- One row per status change, newest last
+CREATE TABLE pilot_status_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+  from_status VARCHAR(10) NOT NULL,
+  status VARCHAR(10) NOT NULL CHECK (status IN ('active', 'reserve', 'loa', 'retired')),
+  effective_date DATE NOT NULL,
+  reason TEXT,
+  changed_by VARCHAR(255) NOT NULL,
+  changed_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_pilot_status_changes_pilot ON pilot_status_changes(pilot_id, changed_at DESC);
+`,
+  down: `
+DROP TABLE IF EXISTS pilot_status_changes;
+ALTER TABLE pilots DROP COLUMN IF EXISTS roster_status_reason;
+ALTER TABLE pilots DROP COLUMN IF EXISTS roster_status_date;
+ALTER TABLE pilots DROP COLUMN IF EXISTS roster_status;
+`,
+}
+
+export default migration
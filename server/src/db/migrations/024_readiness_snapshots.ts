@@ -0,0 +1,33 @@
+import { Migration } from './types'
+
+const migration: Migration = {
+  id: '024',
+  name: 'readiness_snapshots',
+  up: `
+-- Daily readiness per wing (category NULL) and per category of each wing,
+-- counting active pilots only. Today's rows are refreshed until the day is
+-- over, so past days keep the figures they ended on.
+CREATE TABLE readiness_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  snapshot_date DATE NOT NULL,
+  wing_id UUID NOT NULL REFERENCES wings(id) ON DELETE CASCADE,
+  category VARCHAR(100),
+  total_pilots INT NOT NULL,
+  -- Wing rows: pilots meeting the wing's readiness rules.
+  -- Category rows: pilots FMQ/IP and current in every skill of the category.
+  ready_pilots INT NOT NULL,
+  readiness_percentage NUMERIC(5, 2) NOT NULL,
+  -- Average share of FMQ/IP skills per pilot
+  completion_percentage NUMERIC(5, 2) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_readiness_snapshots_day ON readiness_snapshots(wing_id, snapshot_date, COALESCE(category, ''));
+CREATE INDEX idx_readiness_snapshots_date ON readiness_snapshots(snapshot_date);
+`,
+  down: `
+DROP TABLE IF EXISTS readiness_snapshots;
+`,
+}
+
+export default migration
@@ -0,0 +1,56 @@
+import { Migration } from './types'
+import m001 from './001_initial_schema'
+import m002 from './002_qualification_history'
+import m003 from './003_qualification_currency'
+import m004 from './004_skill_prerequisites'
+import m005 from './005_readiness_rules'
+import m006 from './006_training_events'
+import m007 from './007_signoff_requests'
+import m008 from './008_evaluation_requests'
+import m009 from './009_wing_visibility'
+import m010 from './010_sessions'
+import m011 from './011_must_change_password'
+import m012 from './012_password_tokens'
+import m013 from './013_discord_accounts'
+import m014 from './014_discord_webhooks'
+import m015 from './015_webhooks'
+import m016 from './016_roles'
+import m017 from './017_signoff_authority'
+import m018 from './018_pilot_transfers'
+import m019 from './019_org_units'
+import m020 from './020_syllabus_templates'
+import m021 from './021_syllabus_versions'
+import m022 from './022_soft_delete'
+import m023 from './023_roster_status'
+import m024 from './024_readiness_snapshots'
+
+// Ordered list of all migrations. Append new files here; never reorder or
+// edit a migration that has already shipped.
+export const migrations: Migration[] = [
+  m001,
+  m002,
+  m003,
+  m004,
+  m005,
+  m006,
+  m007,
+  m008,
+  m009,
+  m010,
+  m011,
+  m012,
+  m013,
+  m014,
+  m015,
+  m016,
+  m017,
+  m018,
+  m019,
+  m020,
+  m021,
+  m022,
+  m023,
+  m024,
+]
+
+export type { Migration }
@@ -0,0 +1,7 @@
+export interface Migration {
+  // Zero-padded, strictly increasing identifier, e.g. '003'
+  id: string
+  name: string
+  up: string
+  down: string
+}
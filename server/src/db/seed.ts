@@ -1,5 +1,6 @@
 import bcrypt from 'bcryptjs'
 import pool from './pool'
+import { captureWingSyllabus } from '../services/syllabi'
 
 const seed = async () => {
   console.log('Seeding database...')
@@ -39,17 +40,17 @@ const seed = async () => {
 
     // Create admin pilot
     const pilots = [
-      { callsign: 'Juicebox', first_name: 'Sander', last_name: 'Adamse', wing: 'VFA-143', role: 'admin', email: 'juicebox@dcs.mil' },
+      { callsign: 'Juicebox', first_name: 'Sander', last_name: 'Adamse', wing: 'VFA-143', email: 'juicebox@dcs.mil' },
     ]
 
     const pilotIds: Record<string, string> = {}
     for (const p of pilots) {
       const result = await pool.query(
-        `INSERT INTO pilots (user_id, callsign, first_name, last_name, wing_id, role, email)
-         VALUES ($1, $2, $3, $4, $5, $6, $7)
+        `INSERT INTO pilots (user_id, callsign, first_name, last_name, wing_id, email)
+         VALUES ($1, $2, $3, $4, $5, $6)
          ON CONFLICT DO NOTHING
          RETURNING id`,
-        [userIds[p.email], p.callsign, p.first_name, p.last_name, wingIds[p.wing], p.role, p.email]
+        [userIds[p.email], p.callsign, p.first_name, p.last_name, wingIds[p.wing], p.email]
       )
       if (result.rows.length > 0) {
         pilotIds[p.callsign] = result.rows[0].id
@@ -140,6 +141,34 @@ const seed = async () => {
       }
     }
 
+    // Each checkride requires every other skill in its category
+    for (const checkride of skills.filter(s => s.name.includes('Checkride'))) {
+      if (!skillIds[checkride.name]) continue
+      for (const s of skills.filter(s => s.category === checkride.category && s !== checkride)) {
+        if (!skillIds[s.name]) continue
+        await pool.query(
+          `INSERT INTO skill_prerequisites (skill_id, prerequisite_id)
+           VALUES ($1, $2)
+           ON CONFLICT DO NOTHING`,
+          [skillIds[checkride.name], skillIds[s.name]]
+        )
+      }
+    }
+
+    // The same syllabus as a template, so other wings can start from it
+    await pool.query(
+      `INSERT INTO syllabus_templates (name, airframe, description, content, source_wing_id, created_by)
+       VALUES ($1, $2, $3, $4, $5, 'seed')
+       ON CONFLICT ((lower(name))) DO NOTHING`,
+      [
+        'VFA-143 F/A-18C Hornet',
+        'F/A-18C',
+        'Hornet qualification structure of VFA-143',
+        await captureWingSyllabus(pool, vfa143),
+        vfa143,
+      ]
+    )
+
     // No sample qualifications - admin starts with clean slate
 
     console.log('Seeding completed successfully.')
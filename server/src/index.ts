@@ -9,7 +9,19 @@ import skillsRoutes from './routes/skills'
 import qualificationsRoutes from './routes/qualifications'
 import adminRoutes from './routes/admin'
 import wingsRoutes from './routes/wings'
+import eventsRoutes from './routes/events'
+import signoffsRoutes from './routes/signoffs'
+import evaluationRequestsRoutes from './routes/evaluationRequests'
+import webhooksRoutes from './routes/webhooks'
+import rolesRoutes from './routes/roles'
+import unitsRoutes from './routes/units'
+import syllabiRoutes from './routes/syllabi'
+import archiveRoutes from './routes/archive'
+import analyticsRoutes from './routes/analytics'
 import pool from './db/pool'
+import { startNotifications } from './services/notifications'
+import { startWebhookWorker } from './services/webhooks'
+import { startReadinessSnapshots } from './services/analytics'
 
 dotenv.config()
 
@@ -30,6 +42,7 @@ app.use(helmet())
 app.use(cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:5173',
   credentials: true,
+  exposedHeaders: ['X-Total-Count'],
 }))
 app.use(express.json({ limit: '100kb' }))
 
@@ -51,12 +64,24 @@ const generalLimiter = rateLimit({
 })
 
 // Routes
-app.use('/api/auth', authLimiter, authRoutes)
+// Every endpoint that checks a password or token gets the strict limit; /me,
+// /refresh and /logout are called on every page load and token renewal
+app.use(['/api/auth/login', '/api/auth/change-password', '/api/auth/forgot-password', '/api/auth/reset-password'], authLimiter)
+app.use('/api/auth', generalLimiter, authRoutes)
 app.use('/api/pilots', generalLimiter, pilotsRoutes)
 app.use('/api/skills', generalLimiter, skillsRoutes)
 app.use('/api/qualifications', generalLimiter, qualificationsRoutes)
 app.use('/api/admin', generalLimiter, adminRoutes)
 app.use('/api/wings', generalLimiter, wingsRoutes)
+app.use('/api/events', generalLimiter, eventsRoutes)
+app.use('/api/signoffs', generalLimiter, signoffsRoutes)
+app.use('/api/evaluation-requests', generalLimiter, evaluationRequestsRoutes)
+app.use('/api/webhooks', generalLimiter, webhooksRoutes)
+app.use('/api/roles', generalLimiter, rolesRoutes)
+app.use('/api/units', generalLimiter, unitsRoutes)
+app.use('/api/syllabi', generalLimiter, syllabiRoutes)
+app.use('/api/archive', generalLimiter, archiveRoutes)
+app.use('/api/analytics', generalLimiter, analyticsRoutes)
 
 // Health check — verifies DB connectivity
 app.get('/api/health', async (req, res) => {
@@ -71,6 +96,9 @@ app.get('/api/health', async (req, res) => {
 // Graceful shutdown
 const server = app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`)
+  startNotifications()
+  startWebhookWorker()
+  startReadinessSnapshots()
 })
 
 process.on('SIGTERM', () => {
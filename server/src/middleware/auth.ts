@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express'
 import jwt from 'jsonwebtoken'
+import { loadSessionUser } from '../services/sessions'
+import { Permission } from '../services/permissions'
 
 export interface AuthRequest extends Request {
   user?: {
@@ -7,35 +9,79 @@ export interface AuthRequest extends Request {
     email: string
     role: string
     wing_id?: string
+    permissions: Permission[]
+    // Whether the role's permissions only apply to the user's own wing
+    wing_scoped: boolean
   }
+  sessionId?: string
+  // Wings the caller may read, set by scopeToWings; null means every wing
+  wingScope?: string[] | null
 }
 
-export const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
+// Verifies the access token and re-reads the user through its session, so
+// revoked sessions and role or wing changes take effect on the next request.
+export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return res.status(401).json({ error: 'No token provided' })
   }
 
   const token = authHeader.split(' ')[1]
+  let decoded: { id: string; sid?: string }
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!, { algorithms: ['HS256'] }) as {
-      id: string
-      email: string
-      role: string
-      wing_id?: string
-    }
-    req.user = decoded
-    next()
+    decoded = jwt.verify(token, process.env.JWT_SECRET!, { algorithms: ['HS256'] }) as { id: string; sid?: string }
   } catch (err) {
     return res.status(401).json({ error: 'Invalid token' })
   }
+  if (!decoded.sid) {
+    return res.status(401).json({ error: 'Invalid token' })
+  }
+
+  try {
+    const user = await loadSessionUser(decoded.sid)
+    if (!user || user.id !== decoded.id) {
+      return res.status(401).json({ error: 'Session expired or revoked' })
+    }
+    // Until a temporary password is replaced only the auth routes are usable
+    if (user.must_change_password && req.baseUrl !== '/api/auth') {
+      return res.status(403).json({ error: 'You must change your password before continuing' })
+    }
+    req.user = {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      wing_id: user.wing_id || undefined,
+      permissions: user.permissions,
+      wing_scoped: user.wing_scoped,
+    }
+    req.sessionId = decoded.sid
+    next()
+  } catch (error) {
+    console.error('Authenticate error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
 }
 
-export const requireRole = (...roles: string[]) => {
+export const hasPermission = (req: AuthRequest, permission: Permission) =>
+  Boolean(req.user?.permissions.includes(permission))
+
+export const requirePermission = (permission: Permission) => {
   return (req: AuthRequest, res: Response, next: NextFunction) => {
-    if (!req.user || !roles.includes(req.user.role)) {
+    if (!hasPermission(req, permission)) {
       return res.status(403).json({ error: 'Insufficient permissions' })
     }
     next()
   }
 }
+
+// Whether the caller's role reaches a wing: wing-scoped roles act on their own wing only
+export const canActOnWing = (req: AuthRequest, wingId: string | null | undefined) =>
+  !req.user!.wing_scoped || (Boolean(wingId) && wingId === req.user!.wing_id)
+
+// For /:id routes on a wing: refuse wing-scoped roles acting on another wing
+export const requireOwnWing = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!canActOnWing(req, req.params.id)) {
+    return res.status(403).json({ error: 'Your role can only manage your own wing' })
+  }
+  next()
+}
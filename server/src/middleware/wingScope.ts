@@ -0,0 +1,56 @@
+import { Response, NextFunction } from 'express'
+import pool from '../db/pool'
+import { AuthRequest } from './auth'
+
+// Resolve which wings the caller may read. Must run after authenticate.
+// Roles that are not wing-scoped see every wing; wing-scoped roles see their
+// own wing plus any they belong to as a guest or dual member. Plain member
+// roles (no permissions, such as pilot) also see every wing when the
+// pilots_view_all_wings setting is on. A user without a wing sees nothing.
+export const scopeToWings = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { id, wing_scoped, permissions, wing_id } = req.user!
+  if (!wing_scoped) {
+    req.wingScope = null
+    return next()
+  }
+
+  try {
+    if (permissions.length === 0) {
+      const result = await pool.query(`SELECT value FROM settings WHERE key = 'pilots_view_all_wings'`)
+      if (result.rows[0]?.value === 'true') {
+        req.wingScope = null
+        return next()
+      }
+    }
+
+    const memberships = await pool.query(
+      `SELECT pw.wing_id FROM pilot_wings pw
+       JOIN pilots p ON p.id = pw.pilot_id AND p.archived_at IS NULL
+       WHERE p.user_id = $1`,
+      [id]
+    )
+    const wings = new Set<string>(memberships.rows.map(r => r.wing_id))
+    if (wing_id) wings.add(wing_id)
+    req.wingScope = [...wings]
+    next()
+  } catch (error) {
+    console.error('Resolve wing scope error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+}
+
+export const canSeeWing = (req: AuthRequest, wingId: string) =>
+  req.wingScope === null || (req.wingScope ?? []).includes(wingId)
+
+// Wings a list query should cover: the requested one (check canSeeWing
+// first) or the caller's whole scope. Use as `($n::uuid[] IS NULL OR x.wing_id = ANY($n))`.
+export const visibleWings = (req: AuthRequest, requested?: string): string[] | null =>
+  requested ? [requested] : req.wingScope === undefined ? [] : req.wingScope
+
+// For /:id routes on a wing: refuse wings outside the caller's scope
+export const requireWingAccess = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!canSeeWing(req, req.params.id)) {
+    return res.status(403).json({ error: 'You do not have access to this wing' })
+  }
+  next()
+}
@@ -1,27 +1,31 @@
 import { Router, Response } from 'express'
 import bcrypt from 'bcryptjs'
 import pool from '../db/pool'
-import { authenticate, requireRole, AuthRequest } from '../middleware/auth'
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth'
 import { BCRYPT_ROUNDS } from './auth'
+import { revokeUserSessions } from '../services/sessions'
+import { DISCORD_ID_RE } from '../services/discord'
+import { archiveUser } from '../services/archive'
+import { ADMIN_ROLE } from '../services/permissions'
 
 const router = Router()
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 const isUUID = (v: string) => UUID_RE.test(v)
 
-// All admin routes require admin role
-router.use(authenticate, requireRole('admin'))
+router.use(authenticate)
 
 // GET /api/admin/users - list all users with their pilot data
-router.get('/users', async (req: AuthRequest, res: Response) => {
+router.get('/users', requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
   try {
     const result = await pool.query(`
       SELECT 
-        u.id, u.email, u.role, u.created_at, u.updated_at,
-        p.id as pilot_id, p.callsign, p.first_name, p.last_name, p.wing_id, w.name as wing_name, p.board_number
+        u.id, u.email, u.role, u.created_at, u.updated_at, u.discord_id, u.discord_username,
+        p.id as pilot_id, p.callsign, p.first_name, p.last_name, p.wing_id, w.name as wing_name, p.board_number, p.roster_status
       FROM users u
       LEFT JOIN pilots p ON p.user_id = u.id
       LEFT JOIN wings w ON p.wing_id = w.id
+      WHERE u.archived_at IS NULL
       ORDER BY u.created_at ASC
     `)
     res.json(result.rows)
@@ -32,17 +36,12 @@ router.get('/users', async (req: AuthRequest, res: Response) => {
 })
 
 // PUT /api/admin/users/:id/role - update a user's role
-router.put('/users/:id/role', async (req: AuthRequest, res: Response) => {
+router.put('/users/:id/role', requirePermission('roles:manage'), async (req: AuthRequest, res: Response) => {
   const { id } = req.params
   if (!isUUID(id)) return res.status(400).json({ error: 'Invalid user ID' })
 
   const { role } = req.body
-  if (!role) return res.status(400).json({ error: 'Role is required' })
-
-  const validRoles = ['pilot', 'instructor', 'admin']
-  if (!validRoles.includes(role)) {
-    return res.status(400).json({ error: `Role must be one of: ${validRoles.join(', ')}` })
-  }
+  if (!role || typeof role !== 'string') return res.status(400).json({ error: 'Role is required' })
 
   if (id === req.user!.id) {
     return res.status(400).json({ error: 'Cannot change your own role' })
@@ -51,26 +50,40 @@ router.put('/users/:id/role', async (req: AuthRequest, res: Response) => {
   const client = await pool.connect()
   try {
     await client.query('BEGIN')
-
-    const userResult = await client.query(
-      'UPDATE users SET role = $1, updated_at = NOW() WHERE id = $2 RETURNING id, email, role',
-      [role, id]
-    )
-    if (userResult.rows.length === 0) {
+    const target = await client.query('SELECT role FROM users WHERE id = $1 AND archived_at IS NULL FOR UPDATE', [id])
+    if (target.rows.length === 0) {
       await client.query('ROLLBACK')
       return res.status(404).json({ error: 'User not found' })
     }
 
-    // Keep pilots.role in sync
-    await client.query(
-      'UPDATE pilots SET role = $1, updated_at = NOW() WHERE user_id = $2',
+    // Admin holds every permission, so only an admin may hand it out or take it away
+    const currentRole = target.rows[0].role
+    if ((role === ADMIN_ROLE || currentRole === ADMIN_ROLE) && req.user!.role !== ADMIN_ROLE) {
+      await client.query('ROLLBACK')
+      return res.status(403).json({ error: 'Only an admin can grant or remove the admin role' })
+    }
+    if (currentRole === ADMIN_ROLE && role !== ADMIN_ROLE) {
+      const admins = await client.query(
+        'SELECT COUNT(*)::int as n FROM users WHERE role = $1 AND archived_at IS NULL',
+        [ADMIN_ROLE]
+      )
+      if (admins.rows[0].n <= 1) {
+        await client.query('ROLLBACK')
+        return res.status(400).json({ error: 'Cannot remove the last admin' })
+      }
+    }
+
+    const result = await client.query(
+      'UPDATE users SET role = $1, updated_at = NOW() WHERE id = $2 RETURNING id, email, role',
       [role, id]
     )
-
     await client.query('COMMIT')
-    res.json(userResult.rows[0])
-  } catch (error) {
+    res.json(result.rows[0])
+  } catch (error: any) {
     await client.query('ROLLBACK')
+    if (error.code === '23503') {
+      return res.status(400).json({ error: 'Role not found' })
+    }
     console.error('Update user role error:', error)
     res.status(500).json({ error: 'Internal server error' })
   } finally {
@@ -78,8 +91,9 @@ router.put('/users/:id/role', async (req: AuthRequest, res: Response) => {
   }
 })
 
-// DELETE /api/admin/users/:id - delete a user and their pilot record
-router.delete('/users/:id', async (req: AuthRequest, res: Response) => {
+// DELETE /api/admin/users/:id - archive a user and their pilot record; the
+// Archive view restores them or deletes them for good
+router.delete('/users/:id', requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
   const { id } = req.params
   if (!isUUID(id)) return res.status(400).json({ error: 'Invalid user ID' })
 
@@ -91,17 +105,15 @@ router.delete('/users/:id', async (req: AuthRequest, res: Response) => {
   try {
     await client.query('BEGIN')
 
-    // Delete pilot first (cascades to qualifications)
-    await client.query('DELETE FROM pilots WHERE user_id = $1', [id])
-
-    const result = await client.query('DELETE FROM users WHERE id = $1 RETURNING id', [id])
+    const result = await client.query('SELECT id FROM users WHERE id = $1 AND archived_at IS NULL FOR UPDATE', [id])
     if (result.rows.length === 0) {
       await client.query('ROLLBACK')
       return res.status(404).json({ error: 'User not found' })
     }
 
+    await archiveUser(client, id, req.user!)
     await client.query('COMMIT')
-    res.json({ deleted: true })
+    res.json({ deleted: true, archived: true })
   } catch (error) {
     await client.query('ROLLBACK')
     console.error('Delete user error:', error)
@@ -112,7 +124,7 @@ router.delete('/users/:id', async (req: AuthRequest, res: Response) => {
 })
 
 // PUT /api/admin/users/:id - update user details
-router.put('/users/:id', async (req: AuthRequest, res: Response) => {
+router.put('/users/:id', requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
   const { id } = req.params
   if (!isUUID(id)) return res.status(400).json({ error: 'Invalid user ID' })
 
@@ -135,6 +147,16 @@ router.put('/users/:id', async (req: AuthRequest, res: Response) => {
       await client.query('UPDATE users SET email = $1, updated_at = NOW() WHERE id = $2', [email, id])
     }
 
+    // Changing wings has to deal with the pilot's qualifications, so it goes
+    // through POST /api/pilots/:id/transfer instead
+    if (wing_id) {
+      const current = await client.query('SELECT wing_id FROM pilots WHERE user_id = $1', [id])
+      if (current.rows.length > 0 && current.rows[0].wing_id !== wing_id) {
+        await client.query('ROLLBACK')
+        return res.status(400).json({ error: 'Use a pilot transfer to move a pilot to another wing' })
+      }
+    }
+
     const updates: string[] = []
     const values: any[] = []
     let paramIndex = 1
@@ -142,7 +164,6 @@ router.put('/users/:id', async (req: AuthRequest, res: Response) => {
     if (callsign) { updates.push(`callsign = $${paramIndex++}`); values.push(callsign) }
     if (first_name) { updates.push(`first_name = $${paramIndex++}`); values.push(first_name) }
     if (last_name) { updates.push(`last_name = $${paramIndex++}`); values.push(last_name) }
-    if (wing_id) { updates.push(`wing_id = $${paramIndex++}`); values.push(wing_id) }
     if (board_number !== undefined) { updates.push(`board_number = $${paramIndex++}`); values.push(board_number || null) }
     if (email) { updates.push(`email = $${paramIndex++}`); values.push(email) }
 
@@ -157,8 +178,8 @@ router.put('/users/:id', async (req: AuthRequest, res: Response) => {
 
     const result = await client.query(`
       SELECT 
-        u.id, u.email, u.role, u.created_at, u.updated_at,
-        p.id as pilot_id, p.callsign, p.first_name, p.last_name, p.wing_id, w.name as wing_name, p.board_number
+        u.id, u.email, u.role, u.created_at, u.updated_at, u.discord_id, u.discord_username,
+        p.id as pilot_id, p.callsign, p.first_name, p.last_name, p.wing_id, w.name as wing_name, p.board_number, p.roster_status
       FROM users u
       LEFT JOIN pilots p ON p.user_id = u.id
       LEFT JOIN wings w ON p.wing_id = w.id
@@ -185,7 +206,7 @@ router.put('/users/:id', async (req: AuthRequest, res: Response) => {
 })
 
 // POST /api/admin/users/:id/reset-password
-router.post('/users/:id/reset-password', async (req: AuthRequest, res: Response) => {
+router.post('/users/:id/reset-password', requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
   const { id } = req.params
   if (!isUUID(id)) return res.status(400).json({ error: 'Invalid user ID' })
 
@@ -197,12 +218,14 @@ router.post('/users/:id/reset-password', async (req: AuthRequest, res: Response)
   try {
     const hash = await bcrypt.hash(password, BCRYPT_ROUNDS)
     const result = await pool.query(
-      'UPDATE users SET password_hash = $1, updated_at = NOW() WHERE id = $2 RETURNING id',
+      'UPDATE users SET password_hash = $1, must_change_password = true, updated_at = NOW() WHERE id = $2 RETURNING id',
       [hash, id]
     )
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'User not found' })
     }
+    // Anyone signed in with the old password is signed out
+    await revokeUserSessions(id)
     res.json({ success: true })
   } catch (error) {
     console.error('Reset password error:', error)
@@ -210,8 +233,82 @@ router.post('/users/:id/reset-password', async (req: AuthRequest, res: Response)
   }
 })
 
+// DELETE /api/admin/users/:id/sessions - sign a user out everywhere
+router.delete('/users/:id/sessions', requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  const { id } = req.params
+  if (!isUUID(id)) return res.status(400).json({ error: 'Invalid user ID' })
+
+  try {
+    const userResult = await pool.query('SELECT id FROM users WHERE id = $1', [id])
+    if (userResult.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' })
+    }
+    // Revoking your own sessions keeps the one making this request alive
+    const revoked = await revokeUserSessions(id, id === req.user!.id ? req.sessionId : undefined)
+    res.json({ revoked })
+  } catch (error) {
+    console.error('Revoke sessions error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// PUT /api/admin/users/:id/discord - link a Discord account by its user id
+router.put('/users/:id/discord', requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  const { id } = req.params
+  if (!isUUID(id)) return res.status(400).json({ error: 'Invalid user ID' })
+
+  const { discord_id, discord_username } = req.body
+  if (typeof discord_id !== 'string' || !DISCORD_ID_RE.test(discord_id)) {
+    return res.status(400).json({ error: 'Discord ID must be a 17-20 digit number' })
+  }
+  if (discord_username !== undefined && discord_username !== null && (typeof discord_username !== 'string' || discord_username.length > 100)) {
+    return res.status(400).json({ error: 'Invalid Discord username' })
+  }
+
+  try {
+    const result = await pool.query(
+      `UPDATE users SET discord_id = $1, discord_username = $2, updated_at = NOW()
+       WHERE id = $3
+       RETURNING id, discord_id, discord_username`,
+      [discord_id, discord_username?.trim() || null, id]
+    )
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' })
+    }
+    res.json(result.rows[0])
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'That Discord account is already linked to another user' })
+    }
+    console.error('Link Discord error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// DELETE /api/admin/users/:id/discord - unlink a user's Discord account
+router.delete('/users/:id/discord', requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  const { id } = req.params
+  if (!isUUID(id)) return res.status(400).json({ error: 'Invalid user ID' })
+
+  try {
+    const result = await pool.query(
+      `UPDATE users SET discord_id = NULL, discord_username = NULL, updated_at = NOW()
+       WHERE id = $1
+       RETURNING id, discord_id, discord_username`,
+      [id]
+    )
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' })
+    }
+    res.json(result.rows[0])
+  } catch (error) {
+    console.error('Unlink Discord error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
 // GET /api/admin/settings
-router.get('/settings', async (req: AuthRequest, res: Response) => {
+router.get('/settings', requirePermission('settings:manage'), async (req: AuthRequest, res: Response) => {
   try {
     const result = await pool.query('SELECT key, value, description FROM settings ORDER BY key')
     const settings = result.rows.reduce((acc: Record<string, string>, row: any) => {
@@ -226,9 +323,11 @@ router.get('/settings', async (req: AuthRequest, res: Response) => {
 })
 
 // PUT /api/admin/settings
-const ALLOWED_SETTINGS_KEYS = new Set(['nav_title', 'nav_color', 'nav_icon', 'app_subtitle'])
+const ALLOWED_SETTINGS_KEYS = new Set(['nav_title', 'nav_color', 'nav_icon', 'app_subtitle', 'currency_warning_days', 'pilots_view_all_wings', 'instructors_require_ip'])
+const NUMERIC_SETTINGS_KEYS = new Set(['currency_warning_days'])
+const BOOLEAN_SETTINGS_KEYS = new Set(['pilots_view_all_wings', 'instructors_require_ip'])
 
-router.put('/settings', async (req: AuthRequest, res: Response) => {
+router.put('/settings', requirePermission('settings:manage'), async (req: AuthRequest, res: Response) => {
   const { settings } = req.body
   if (!settings || typeof settings !== 'object') {
     return res.status(400).json({ error: 'Settings object is required' })
@@ -241,6 +340,12 @@ router.put('/settings', async (req: AuthRequest, res: Response) => {
     if (typeof value !== 'string' || value.length > 500) {
       return res.status(400).json({ error: `Invalid value for setting: ${key}` })
     }
+    if (NUMERIC_SETTINGS_KEYS.has(key) && !/^\d{1,4}$/.test(value)) {
+      return res.status(400).json({ error: `Setting ${key} must be a whole number` })
+    }
+    if (BOOLEAN_SETTINGS_KEYS.has(key) && value !== 'true' && value !== 'false') {
+      return res.status(400).json({ error: `Setting ${key} must be true or false` })
+    }
   }
 
   try {
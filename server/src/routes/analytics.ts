@@ -0,0 +1,105 @@
+import { Router, Response } from 'express'
+import pool from '../db/pool'
+import { authenticate, AuthRequest } from '../middleware/auth'
+import { scopeToWings, canSeeWing, visibleWings } from '../middleware/wingScope'
+
+const router = Router()
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const isUUID = (v: string) => UUID_RE.test(v)
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+const DEFAULT_RANGE_DAYS = 90
+const MAX_RANGE_DAYS = 731
+const DAY_MS = 86_400_000
+
+const isDate = (v: unknown): v is string => typeof v === 'string' && DATE_RE.test(v) && !isNaN(Date.parse(v))
+
+// The requested date range, by default the last 90 days up to today
+function parseRange(query: any): { from: string; to: string } | string {
+  const { from, to } = query
+  if (from !== undefined && !isDate(from)) return 'from must be a date in YYYY-MM-DD format'
+  if (to !== undefined && !isDate(to)) return 'to must be a date in YYYY-MM-DD format'
+
+  const end = to ?? new Date().toISOString().slice(0, 10)
+  const start = from ?? new Date(Date.parse(end) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS).toISOString().slice(0, 10)
+  if (start > end) return 'from must not be after to'
+  if ((Date.parse(end) - Date.parse(start)) / DAY_MS >= MAX_RANGE_DAYS) {
+    return `The range can cover at most ${MAX_RANGE_DAYS} days`
+  }
+  return { from: start, to: end }
+}
+
+const toPoint = (row: any) => ({
+  date: row.date,
+  total_pilots: row.total_pilots,
+  ready_pilots: row.ready_pilots,
+  readiness_percentage: Number(row.readiness_percentage),
+  completion_percentage: Number(row.completion_percentage),
+})
+
+// GET /api/analytics/trends?wing_id=&from=&to= - daily readiness and completion
+// from the snapshots, one point per day that has one. Without wing_id the
+// caller's wings are combined, weighted by their pilots; with it, each of the
+// wing's categories gets its own series as well.
+router.get('/trends', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  const wingId = req.query.wing_id as string | undefined
+  if (wingId && !isUUID(wingId)) return res.status(400).json({ error: 'Invalid wing_id' })
+  if (wingId && !canSeeWing(req, wingId)) {
+    return res.status(403).json({ error: 'You do not have access to this wing' })
+  }
+  const range = parseRange(req.query)
+  if (typeof range === 'string') return res.status(400).json({ error: range })
+
+  try {
+    const wings = visibleWings(req, wingId)
+    const [overall, categories] = await Promise.all([
+      pool.query(
+        `SELECT r.snapshot_date::text as date,
+           SUM(r.total_pilots)::int as total_pilots,
+           SUM(r.ready_pilots)::int as ready_pilots,
+           COALESCE(ROUND(SUM(r.ready_pilots) * 100.0 / NULLIF(SUM(r.total_pilots), 0), 2), 0) as readiness_percentage,
+           COALESCE(ROUND(SUM(r.completion_percentage * r.total_pilots) / NULLIF(SUM(r.total_pilots), 0), 2), 0) as completion_percentage
+         FROM readiness_snapshots r
+         JOIN wings w ON w.id = r.wing_id AND w.archived_at IS NULL
+         WHERE r.category IS NULL AND ($1::uuid[] IS NULL OR r.wing_id = ANY($1))
+           AND r.snapshot_date BETWEEN $2 AND $3
+         GROUP BY r.snapshot_date
+         ORDER BY r.snapshot_date`,
+        [wings, range.from, range.to]
+      ),
+      // Archived categories drop out of the chart along with their skills
+      wingId
+        ? pool.query(
+            `SELECT r.category, c.color, r.snapshot_date::text as date, r.total_pilots, r.ready_pilots,
+               r.readiness_percentage, r.completion_percentage
+             FROM readiness_snapshots r
+             LEFT JOIN category_colors c ON c.wing_id = r.wing_id AND c.category = r.category
+             WHERE r.wing_id = $1 AND r.category IS NOT NULL AND c.archived_at IS NULL
+               AND r.snapshot_date BETWEEN $2 AND $3
+             ORDER BY c.sort_order NULLS LAST, r.category, r.snapshot_date`,
+            [wingId, range.from, range.to]
+          )
+        : Promise.resolve({ rows: [] }),
+    ])
+
+    const byCategory = new Map<string, { category: string; color: string | null; points: ReturnType<typeof toPoint>[] }>()
+    for (const row of categories.rows) {
+      if (!byCategory.has(row.category)) byCategory.set(row.category, { category: row.category, color: row.color, points: [] })
+      byCategory.get(row.category)!.points.push(toPoint(row))
+    }
+
+    res.json({
+      wing_id: wingId ?? null,
+      from: range.from,
+      to: range.to,
+      points: overall.rows.map(toPoint),
+      categories: [...byCategory.values()],
+    })
+  } catch (error) {
+    console.error('Get readiness trends error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+export default router
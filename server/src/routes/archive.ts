@@ -0,0 +1,338 @@
+import { Router, Response } from 'express'
+import pool from '../db/pool'
+import { authenticate, requirePermission, hasPermission, canActOnWing, AuthRequest } from '../middleware/auth'
+import { scopeToWings, visibleWings } from '../middleware/wingScope'
+import { restoreCategory, restoreUser } from '../services/archive'
+import { restoreSkill } from '../services/syllabusVersions'
+
+const router = Router()
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const isUUID = (v: string) => UUID_RE.test(v)
+
+router.use(authenticate)
+
+// Skills archived together with their category come back with it, so they are
+// listed under the category rather than on their own
+const STANDALONE_SKILL = `NOT EXISTS (
+  SELECT 1 FROM category_colors c
+  WHERE c.wing_id = s.wing_id AND c.category = s.category AND c.archived_at = s.archived_at)`
+
+// GET /api/archive - archived users, wings, skills and categories, each section
+// only for callers who may manage that kind of record
+router.get('/', scopeToWings, async (req: AuthRequest, res: Response) => {
+  const wings = visibleWings(req)
+  const empty = Promise.resolve({ rows: [] })
+
+  try {
+    const [users, archivedWings, skills, categories] = await Promise.all([
+      hasPermission(req, 'users:manage')
+        ? pool.query(
+            `SELECT u.id, u.email, u.role, u.archived_at, u.archived_by,
+               p.id as pilot_id, p.callsign, p.first_name, p.last_name, p.wing_id, w.name as wing_name,
+               (SELECT COUNT(*)::int FROM qualifications q WHERE q.pilot_id = p.id AND q.status IN ('FMQ', 'IP')) as qualified_count
+             FROM users u
+             LEFT JOIN pilots p ON p.user_id = u.id
+             LEFT JOIN wings w ON w.id = p.wing_id
+             WHERE u.archived_at IS NOT NULL
+             ORDER BY u.archived_at DESC`
+          )
+        : empty,
+      hasPermission(req, 'wings:manage')
+        ? pool.query(
+            `SELECT w.id, w.name, w.archived_at, w.archived_by,
+               (SELECT COUNT(*)::int FROM skills s WHERE s.wing_id = w.id AND s.archived_at IS NULL) as skill_count,
+               (SELECT COUNT(*)::int FROM pilots p WHERE p.wing_id = w.id) as archived_pilot_count
+             FROM wings w
+             WHERE w.archived_at IS NOT NULL AND ($1::uuid[] IS NULL OR w.id = ANY($1))
+             ORDER BY w.archived_at DESC`,
+            [wings]
+          )
+        : empty,
+      hasPermission(req, 'skills:manage')
+        ? pool.query(
+            `SELECT s.id, s.wing_id, w.name as wing_name, s.name, s.category, s.archived_at, s.archived_by,
+               (SELECT COUNT(*)::int FROM archived_qualifications a
+                WHERE a.skill_id = s.id AND a.transfer_id IS NULL AND a.status <> 'NMQ') as holder_count
+             FROM skills s
+             JOIN wings w ON w.id = s.wing_id
+             WHERE s.archived_at IS NOT NULL AND w.archived_at IS NULL AND ${STANDALONE_SKILL}
+               AND ($1::uuid[] IS NULL OR s.wing_id = ANY($1))
+             ORDER BY s.archived_at DESC`,
+            [wings]
+          )
+        : empty,
+      hasPermission(req, 'categories:manage')
+        ? pool.query(
+            `SELECT c.wing_id, w.name as wing_name, c.category, c.color, c.archived_at, c.archived_by,
+               (SELECT COUNT(*)::int FROM skills s
+                WHERE s.wing_id = c.wing_id AND s.category = c.category AND s.archived_at = c.archived_at) as skill_count
+             FROM category_colors c
+             JOIN wings w ON w.id = c.wing_id
+             WHERE c.archived_at IS NOT NULL AND w.archived_at IS NULL
+               AND ($1::uuid[] IS NULL OR c.wing_id = ANY($1))
+             ORDER BY c.archived_at DESC`,
+            [wings]
+          )
+        : empty,
+    ])
+
+    res.json({ users: users.rows, wings: archivedWings.rows, skills: skills.rows, categories: categories.rows })
+  } catch (error) {
+    console.error('Get archive error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/archive/users/:id/restore - let the user sign in again and bring their pilot back
+router.post('/users/:id/restore', requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid user ID' })
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const user = await client.query(
+      `SELECT u.id, w.archived_at as wing_archived_at
+       FROM users u
+       LEFT JOIN pilots p ON p.user_id = u.id
+       LEFT JOIN wings w ON w.id = p.wing_id
+       WHERE u.id = $1 AND u.archived_at IS NOT NULL
+       FOR UPDATE OF u`,
+      [req.params.id]
+    )
+    if (user.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Archived user not found' })
+    }
+    if (user.rows[0].wing_archived_at) {
+      await client.query('ROLLBACK')
+      return res.status(400).json({ error: "Restore the pilot's wing first" })
+    }
+
+    await restoreUser(client, req.params.id)
+    await client.query('COMMIT')
+    res.json({ restored: true })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Restore user error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// DELETE /api/archive/users/:id - permanently delete an archived user and their pilot record
+router.delete('/users/:id', requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid user ID' })
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const user = await client.query('SELECT id FROM users WHERE id = $1 AND archived_at IS NOT NULL FOR UPDATE', [req.params.id])
+    if (user.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Archived user not found' })
+    }
+
+    // Delete pilot first (cascades to qualifications)
+    await client.query('DELETE FROM pilots WHERE user_id = $1', [req.params.id])
+    await client.query('DELETE FROM users WHERE id = $1', [req.params.id])
+    await client.query('COMMIT')
+    res.json({ deleted: true })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Purge user error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// POST /api/archive/wings/:id/restore
+router.post('/wings/:id/restore', requirePermission('wings:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid wing ID' })
+  if (!canActOnWing(req, req.params.id)) {
+    return res.status(403).json({ error: 'Your role can only manage your own wing' })
+  }
+
+  try {
+    const result = await pool.query(
+      `UPDATE wings SET archived_at = NULL, archived_by = NULL, updated_at = NOW()
+       WHERE id = $1 AND archived_at IS NOT NULL RETURNING *`,
+      [req.params.id]
+    )
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Archived wing not found' })
+    }
+    res.json(result.rows[0])
+  } catch (error) {
+    console.error('Restore wing error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// DELETE /api/archive/wings/:id - permanently delete an archived wing with its skills and history
+router.delete('/wings/:id', requirePermission('wings:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid wing ID' })
+  if (!canActOnWing(req, req.params.id)) {
+    return res.status(403).json({ error: 'Your role can only manage your own wing' })
+  }
+
+  try {
+    const wing = await pool.query('SELECT id FROM wings WHERE id = $1 AND archived_at IS NOT NULL', [req.params.id])
+    if (wing.rows.length === 0) {
+      return res.status(404).json({ error: 'Archived wing not found' })
+    }
+    const pilots = await pool.query('SELECT COUNT(*)::int as n FROM pilots WHERE wing_id = $1', [req.params.id])
+    if (pilots.rows[0].n > 0) {
+      return res.status(400).json({ error: 'Purge or restore the archived pilots of this wing first' })
+    }
+
+    await pool.query('DELETE FROM wings WHERE id = $1', [req.params.id])
+    res.json({ deleted: true })
+  } catch (error) {
+    console.error('Purge wing error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// Load an archived skill the caller may manage, or send the error response
+async function loadArchivedSkill(req: AuthRequest, res: Response) {
+  if (!isUUID(req.params.id)) {
+    res.status(400).json({ error: 'Invalid skill ID' })
+    return null
+  }
+  const result = await pool.query(
+    `SELECT s.id, s.wing_id, s.archived_at, w.archived_at as wing_archived_at, c.archived_at as category_archived_at
+     FROM skills s
+     JOIN wings w ON w.id = s.wing_id
+     LEFT JOIN category_colors c ON c.wing_id = s.wing_id AND c.category = s.category
+     WHERE s.id = $1 AND s.archived_at IS NOT NULL`,
+    [req.params.id]
+  )
+  if (result.rows.length === 0) {
+    res.status(404).json({ error: 'Archived skill not found' })
+    return null
+  }
+  if (!canActOnWing(req, result.rows[0].wing_id)) {
+    res.status(403).json({ error: 'Your role can only manage your own wing' })
+    return null
+  }
+  return result.rows[0]
+}
+
+// POST /api/archive/skills/:id/restore - bring a skill back with the qualifications archived with it
+router.post('/skills/:id/restore', requirePermission('skills:manage'), async (req: AuthRequest, res: Response) => {
+  const client = await pool.connect()
+  try {
+    const skill = await loadArchivedSkill(req, res)
+    if (!skill) return
+    if (skill.wing_archived_at) {
+      return res.status(400).json({ error: "Restore the skill's wing first" })
+    }
+    if (skill.category_archived_at) {
+      return res.status(400).json({ error: "The skill's category is archived; restore the category instead" })
+    }
+
+    await client.query('BEGIN')
+    const restored = await restoreSkill(client, skill.id)
+    await client.query('COMMIT')
+    res.json({ restored: true, restored_qualifications: restored })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Restore skill error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// DELETE /api/archive/skills/:id - permanently delete an archived skill and its qualification
+// history; copies in pilots' archived qualifications stay
+router.delete('/skills/:id', requirePermission('skills:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const skill = await loadArchivedSkill(req, res)
+    if (!skill) return
+
+    await pool.query('DELETE FROM skills WHERE id = $1', [skill.id])
+    res.json({ deleted: true })
+  } catch (error) {
+    console.error('Purge skill error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// Load an archived category the caller may manage, or send the error response
+async function loadArchivedCategory(req: AuthRequest, res: Response) {
+  if (!isUUID(req.params.wingId)) {
+    res.status(400).json({ error: 'Invalid wing ID' })
+    return null
+  }
+  if (!canActOnWing(req, req.params.wingId)) {
+    res.status(403).json({ error: 'Your role can only manage your own wing' })
+    return null
+  }
+  const result = await pool.query(
+    `SELECT c.wing_id, c.category, c.archived_at, w.archived_at as wing_archived_at
+     FROM category_colors c JOIN wings w ON w.id = c.wing_id
+     WHERE c.wing_id = $1 AND c.category = $2 AND c.archived_at IS NOT NULL`,
+    [req.params.wingId, req.params.category]
+  )
+  if (result.rows.length === 0) {
+    res.status(404).json({ error: 'Archived category not found' })
+    return null
+  }
+  return result.rows[0]
+}
+
+// POST /api/archive/categories/:wingId/:category/restore - restore a category and its skills
+router.post('/categories/:wingId/:category/restore', requirePermission('categories:manage'), async (req: AuthRequest, res: Response) => {
+  const client = await pool.connect()
+  try {
+    const category = await loadArchivedCategory(req, res)
+    if (!category) return
+    if (category.wing_archived_at) {
+      return res.status(400).json({ error: "Restore the category's wing first" })
+    }
+
+    await client.query('BEGIN')
+    const restored = await restoreCategory(client, category.wing_id, category.category)
+    await client.query('COMMIT')
+    res.json({ restored: true, restored_skills: restored })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Restore category error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// DELETE /api/archive/categories/:wingId/:category - permanently delete an archived
+// category and the skills archived with it
+router.delete('/categories/:wingId/:category', requirePermission('categories:manage'), async (req: AuthRequest, res: Response) => {
+  const client = await pool.connect()
+  try {
+    const category = await loadArchivedCategory(req, res)
+    if (!category) return
+
+    await client.query('BEGIN')
+    await client.query(
+      `DELETE FROM skills s USING category_colors c
+       WHERE c.wing_id = s.wing_id AND c.category = s.category AND c.archived_at = s.archived_at
+         AND s.wing_id = $1 AND s.category = $2`,
+      [category.wing_id, category.category]
+    )
+    await client.query('DELETE FROM category_colors WHERE wing_id = $1 AND category = $2', [category.wing_id, category.category])
+    await client.query('COMMIT')
+    res.json({ deleted: true })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Purge category error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+export default router
@@ -1,15 +1,91 @@
-import { Router, Response } from 'express'
+import { Router, Request, Response } from 'express'
 import bcrypt from 'bcryptjs'
+import crypto from 'crypto'
 import jwt from 'jsonwebtoken'
 import pool from '../db/pool'
 import { authenticate, AuthRequest } from '../middleware/auth'
+import {
+  createSession,
+  revokeSessionByToken,
+  revokeUserSessions,
+  rotateSession,
+  signAccessToken,
+} from '../services/sessions'
+import { APP_URL, sendMail } from '../services/mail'
+import {
+  RESET_TOKEN_MINUTES,
+  consumePasswordToken,
+  issuePasswordToken,
+  passwordTokenLink,
+} from '../services/passwordTokens'
+import { discordAuthorizeUrl, discordEnabled, exchangeDiscordCode } from '../services/discord'
+import { rolePermissions } from '../services/permissions'
 
 const router = Router()
 
 const BCRYPT_ROUNDS = parseInt(process.env.BCRYPT_ROUNDS || '12')
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h'
 
-// POST /api/auth/login
+// The refresh token lives in an httpOnly cookie scoped to the auth routes
+const REFRESH_COOKIE = 'refresh_token'
+const REFRESH_COOKIE_PATH = '/api/auth'
+
+function setRefreshCookie(res: Response, token: string, expiresAt: Date) {
+  res.cookie(REFRESH_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: REFRESH_COOKIE_PATH,
+    expires: expiresAt,
+  })
+}
+
+function clearRefreshCookie(res: Response) {
+  res.clearCookie(REFRESH_COOKIE, { path: REFRESH_COOKIE_PATH })
+}
+
+function readCookie(req: Request, cookie: string): string | undefined {
+  const header = req.headers.cookie
+  if (!header) return undefined
+  for (const part of header.split(';')) {
+    const [name, ...rest] = part.trim().split('=')
+    if (name === cookie) return decodeURIComponent(rest.join('='))
+  }
+  return undefined
+}
+
+const readRefreshCookie = (req: Request) => readCookie(req, REFRESH_COOKIE)
+
+// User payload returned by login, refresh and /me, including the linked pilot
+async function loadAuthUser(userId: string) {
+  const result = await pool.query(
+    `SELECT u.id, u.email, u.role, u.must_change_password, u.discord_id, u.discord_username, r.permissions, r.wing_scoped
+     FROM users u
+     JOIN roles r ON r.name = u.role
+     WHERE u.id = $1`,
+    [userId]
+  )
+  if (result.rows.length === 0) return null
+  const user = result.rows[0]
+
+  const pilotResult = await pool.query(
+    `SELECT p.id, p.wing_id, w.name as wing_name
+     FROM pilots p
+     JOIN wings w ON p.wing_id = w.id
+     WHERE p.user_id = $1`,
+    [userId]
+  )
+  const pilot = pilotResult.rows.length > 0 ? pilotResult.rows[0] : null
+
+  return {
+    ...user,
+    permissions: rolePermissions(user.role, user.permissions, user.wing_scoped),
+    pilot_id: pilot?.id || null,
+    wing_id: pilot?.wing_id || null,
+    wing_name: pilot?.wing_name || null,
+  }
+}
+
+// POST /api/auth/login - returns a short-lived access token and sets the refresh cookie
 router.post('/login', async (req: AuthRequest, res: Response) => {
   const { email, password } = req.body
 
@@ -26,50 +102,332 @@ router.post('/login', async (req: AuthRequest, res: Response) => {
   }
 
   try {
-    const result = await pool.query('SELECT * FROM users WHERE email = $1', [email.trim().toLowerCase()])
+    const result = await pool.query('SELECT * FROM users WHERE email = $1 AND archived_at IS NULL', [email.trim().toLowerCase()])
     if (result.rows.length === 0) {
       return res.status(401).json({ error: 'Invalid email or password' })
     }
 
-    const user = result.rows[0]
-    const validPassword = await bcrypt.compare(password, user.password_hash)
+    const validPassword = await bcrypt.compare(password, result.rows[0].password_hash)
     if (!validPassword) {
       return res.status(401).json({ error: 'Invalid email or password' })
     }
 
-    // Get associated pilot data with wing name
-    const pilotResult = await pool.query(
-      `SELECT p.id, p.wing_id, w.name as wing_name
-       FROM pilots p
-       JOIN wings w ON p.wing_id = w.id
-       WHERE p.user_id = $1`,
-      [user.id]
+    const user = (await loadAuthUser(result.rows[0].id))!
+    const session = await createSession(user.id, { userAgent: req.get('user-agent'), ip: req.ip })
+    setRefreshCookie(res, session.refreshToken, session.expiresAt)
+
+    res.json({ token: signAccessToken(user, session.sessionId), user })
+  } catch (error) {
+    console.error('Login error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/auth/refresh - rotate the refresh cookie and issue a new access token
+router.post('/refresh', async (req: AuthRequest, res: Response) => {
+  const refreshToken = readRefreshCookie(req)
+  if (!refreshToken) {
+    return res.status(401).json({ error: 'No refresh token' })
+  }
+
+  try {
+    const session = await rotateSession(refreshToken)
+    if (!session) {
+      clearRefreshCookie(res)
+      return res.status(401).json({ error: 'Session expired or revoked' })
+    }
+
+    const user = await loadAuthUser(session.userId)
+    if (!user) {
+      clearRefreshCookie(res)
+      return res.status(401).json({ error: 'Session expired or revoked' })
+    }
+    if (session.refreshToken) {
+      setRefreshCookie(res, session.refreshToken, session.expiresAt)
+    }
+
+    res.json({ token: signAccessToken(user, session.sessionId), user })
+  } catch (error) {
+    console.error('Refresh error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/auth/logout - revoke the session behind the refresh cookie
+router.post('/logout', async (req: AuthRequest, res: Response) => {
+  const refreshToken = readRefreshCookie(req)
+  try {
+    if (refreshToken) {
+      await revokeSessionByToken(refreshToken)
+    }
+    clearRefreshCookie(res)
+    res.json({ success: true })
+  } catch (error) {
+    console.error('Logout error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/auth/change-password - replace the caller's password; other sessions are signed out
+router.post('/change-password', authenticate, async (req: AuthRequest, res: Response) => {
+  const { current_password, new_password } = req.body
+
+  if (!current_password || typeof current_password !== 'string' || current_password.length > 72) {
+    return res.status(400).json({ error: 'Current password is required' })
+  }
+  if (!new_password || typeof new_password !== 'string' || new_password.length < 8 || new_password.length > 72) {
+    return res.status(400).json({ error: 'New password must be between 8 and 72 characters' })
+  }
+  if (new_password === current_password) {
+    return res.status(400).json({ error: 'New password must be different from the current one' })
+  }
+
+  try {
+    const result = await pool.query('SELECT password_hash FROM users WHERE id = $1', [req.user!.id])
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' })
+    }
+
+    const validPassword = await bcrypt.compare(current_password, result.rows[0].password_hash)
+    if (!validPassword) {
+      return res.status(400).json({ error: 'Current password is incorrect' })
+    }
+
+    const hash = await bcrypt.hash(new_password, BCRYPT_ROUNDS)
+    await pool.query(
+      'UPDATE users SET password_hash = $1, must_change_password = false, updated_at = NOW() WHERE id = $2',
+      [hash, req.user!.id]
     )
-    const pilot = pilotResult.rows.length > 0 ? pilotResult.rows[0] : null
+    await revokeUserSessions(req.user!.id, req.sessionId)
 
-    const token = jwt.sign(
-      { id: user.id, email: user.email, role: user.role, wing_id: pilot?.wing_id },
-      process.env.JWT_SECRET!,
-      { algorithm: 'HS256', expiresIn: JWT_EXPIRES_IN as any }
+    res.json({ user: await loadAuthUser(req.user!.id) })
+  } catch (error) {
+    console.error('Change password error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/auth/forgot-password - email a one-time reset link
+// Always answers the same way so it cannot be used to probe which emails exist.
+router.post('/forgot-password', async (req: AuthRequest, res: Response) => {
+  const { email } = req.body
+  if (!email || typeof email !== 'string' || email.length > 255) {
+    return res.status(400).json({ error: 'Email is required' })
+  }
+
+  try {
+    const result = await pool.query('SELECT id, email FROM users WHERE email = $1 AND archived_at IS NULL', [email.trim().toLowerCase()])
+    if (result.rows.length > 0) {
+      const user = result.rows[0]
+      const token = await issuePasswordToken(user.id, 'reset')
+      try {
+        await sendMail({
+          to: user.email,
+          subject: 'Reset your password',
+          text: `Someone asked to reset the password for ${user.email}.\n\n`
+            + `Choose a new password here (the link works once and expires in ${RESET_TOKEN_MINUTES} minutes):\n`
+            + `${passwordTokenLink(APP_URL, token, 'reset')}\n\n`
+            + `If this was not you, you can ignore this email.`,
+        })
+      } catch (mailError) {
+        console.error('Send reset email error:', mailError)
+      }
+    }
+    res.json({ success: true, message: 'If that email belongs to an account, a reset link is on its way' })
+  } catch (error) {
+    console.error('Forgot password error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/auth/reset-password - set a new password with a reset or onboarding token
+router.post('/reset-password', async (req: AuthRequest, res: Response) => {
+  const { token, new_password } = req.body
+  if (!token || typeof token !== 'string' || token.length > 200) {
+    return res.status(400).json({ error: 'Reset token is required' })
+  }
+  if (!new_password || typeof new_password !== 'string' || new_password.length < 8 || new_password.length > 72) {
+    return res.status(400).json({ error: 'New password must be between 8 and 72 characters' })
+  }
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const userId = await consumePasswordToken(token, client)
+    if (!userId) {
+      await client.query('ROLLBACK')
+      return res.status(400).json({ error: 'This reset link is invalid or has expired' })
+    }
+
+    const hash = await bcrypt.hash(new_password, BCRYPT_ROUNDS)
+    await client.query(
+      'UPDATE users SET password_hash = $1, must_change_password = false, updated_at = NOW() WHERE id = $2',
+      [hash, userId]
     )
+    await client.query('COMMIT')
 
-    res.json({
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-        pilot_id: pilot?.id || null,
-        wing_id: pilot?.wing_id || null,
-        wing_name: pilot?.wing_name || null,
-      },
-    })
+    // Whoever knew the old password is signed out
+    await revokeUserSessions(userId)
+    res.json({ success: true })
   } catch (error) {
-    console.error('Login error:', error)
+    await client.query('ROLLBACK')
+    console.error('Reset password error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// ── Discord OAuth ─────────────────────────────────────────────
+// The OAuth state is a signed JWT carrying a nonce that must match the
+// browser's state cookie, plus the user id when the flow links an account.
+const DISCORD_STATE_COOKIE = 'discord_oauth'
+const DISCORD_COOKIE_PATH = '/api/auth/discord'
+const DISCORD_STATE_MINUTES = 10
+
+interface DiscordState {
+  purpose: 'discord_state'
+  nonce: string
+  link_user_id?: string
+}
+
+// Send the browser back to the web app with the outcome in the query string
+function discordRedirect(res: Response, path: string, params: Record<string, string> = {}) {
+  const query = new URLSearchParams(params).toString()
+  res.redirect(`${APP_URL}${path}${query ? `?${query}` : ''}`)
+}
+
+function verifyToken<T extends { purpose: string }>(token: unknown, purpose: T['purpose']): T | null {
+  if (typeof token !== 'string' || token.length > 1000) return null
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!, { algorithms: ['HS256'] }) as T
+    return payload.purpose === purpose ? payload : null
+  } catch {
+    return null
+  }
+}
+
+// GET /api/auth/discord/config - whether the Discord button should be offered
+router.get('/discord/config', (_req: AuthRequest, res: Response) => {
+  res.json({ enabled: discordEnabled() })
+})
+
+// POST /api/auth/discord/link - short-lived ticket that lets the browser start a link flow
+// The authorize redirect is a plain navigation, so it cannot carry the bearer token.
+router.post('/discord/link', authenticate, (req: AuthRequest, res: Response) => {
+  if (!discordEnabled()) {
+    return res.status(404).json({ error: 'Discord sign-in is not configured' })
+  }
+  const ticket = jwt.sign({ purpose: 'discord_link', user_id: req.user!.id }, process.env.JWT_SECRET!, {
+    algorithm: 'HS256',
+    expiresIn: '2m',
+  })
+  res.json({ ticket })
+})
+
+// DELETE /api/auth/discord/link - unlink the caller's Discord account
+router.delete('/discord/link', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    await pool.query(
+      'UPDATE users SET discord_id = NULL, discord_username = NULL, updated_at = NOW() WHERE id = $1',
+      [req.user!.id]
+    )
+    res.json({ user: await loadAuthUser(req.user!.id) })
+  } catch (error) {
+    console.error('Unlink Discord error:', error)
     res.status(500).json({ error: 'Internal server error' })
   }
 })
 
+// GET /api/auth/discord/authorize[?link=<ticket>] - redirect to Discord's consent screen
+router.get('/discord/authorize', (req: AuthRequest, res: Response) => {
+  const linking = req.query.link !== undefined
+  if (!discordEnabled()) {
+    return discordRedirect(res, linking ? '/profile' : '/login', { discord_error: 'disabled' })
+  }
+
+  const state: DiscordState = { purpose: 'discord_state', nonce: crypto.randomBytes(16).toString('hex') }
+  if (linking) {
+    const ticket = verifyToken<{ purpose: 'discord_link'; user_id: string }>(req.query.link, 'discord_link')
+    if (!ticket) {
+      return discordRedirect(res, '/profile', { discord_error: 'expired' })
+    }
+    state.link_user_id = ticket.user_id
+  }
+
+  // Lax, not strict: the callback arrives as a cross-site navigation from Discord
+  res.cookie(DISCORD_STATE_COOKIE, state.nonce, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: DISCORD_COOKIE_PATH,
+    maxAge: DISCORD_STATE_MINUTES * 60 * 1000,
+  })
+  const signed = jwt.sign(state, process.env.JWT_SECRET!, { algorithm: 'HS256', expiresIn: `${DISCORD_STATE_MINUTES}m` })
+  res.redirect(discordAuthorizeUrl(signed))
+})
+
+// GET /api/auth/discord/callback - finish a Discord sign-in or account link
+router.get('/discord/callback', async (req: AuthRequest, res: Response) => {
+  const state = verifyToken<DiscordState>(req.query.state, 'discord_state')
+  const nonce = readCookie(req, DISCORD_STATE_COOKIE)
+  res.clearCookie(DISCORD_STATE_COOKIE, { path: DISCORD_COOKIE_PATH })
+
+  if (!state || !nonce || nonce !== state.nonce) {
+    return discordRedirect(res, '/login', { discord_error: 'expired' })
+  }
+  // Link flows return to the caller's own profile, sign-ins to the login page.
+  // Only a result code goes in the URL; the profile page knows who is signed in.
+  const finish = (params: Record<string, string>) => state.link_user_id
+    ? discordRedirect(res, '/profile', params)
+    : discordRedirect(res, '/login', params)
+
+  if (typeof req.query.code !== 'string') {
+    // Discord sends error=access_denied when the user cancels
+    return finish({ discord_error: req.query.error === 'access_denied' ? 'denied' : 'failed' })
+  }
+
+  let discordUser
+  try {
+    discordUser = await exchangeDiscordCode(req.query.code)
+  } catch (error) {
+    console.error('Discord OAuth error:', error)
+    return finish({ discord_error: 'failed' })
+  }
+
+  try {
+    if (state.link_user_id) {
+      const result = await pool.query(
+        'UPDATE users SET discord_id = $1, discord_username = $2, updated_at = NOW() WHERE id = $3 RETURNING id',
+        [discordUser.id, discordUser.username, state.link_user_id]
+      )
+      if (result.rows.length === 0) {
+        return finish({ discord_error: 'failed' })
+      }
+      return finish({ discord: 'linked' })
+    }
+
+    const result = await pool.query(
+      'UPDATE users SET discord_username = $1 WHERE discord_id = $2 AND archived_at IS NULL RETURNING id',
+      [discordUser.username, discordUser.id]
+    )
+    if (result.rows.length === 0) {
+      return finish({ discord_error: 'not_linked' })
+    }
+
+    // The web app picks the session up from the refresh cookie on load
+    const session = await createSession(result.rows[0].id, { userAgent: req.get('user-agent'), ip: req.ip })
+    setRefreshCookie(res, session.refreshToken, session.expiresAt)
+    discordRedirect(res, '/dashboard')
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return finish({ discord_error: 'in_use' })
+    }
+    console.error('Discord callback error:', error)
+    finish({ discord_error: 'failed' })
+  }
+})
+
 // POST /api/auth/register — disabled; pilots are created by admins only
 router.post('/register', (_req: AuthRequest, res: Response) => {
   return res.status(403).json({ error: 'Self-registration is disabled. Contact an administrator.' })
@@ -78,33 +436,16 @@ router.post('/register', (_req: AuthRequest, res: Response) => {
 // GET /api/auth/me
 router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const result = await pool.query('SELECT id, email, role FROM users WHERE id = $1', [req.user!.id])
-    if (result.rows.length === 0) {
+    const user = await loadAuthUser(req.user!.id)
+    if (!user) {
       return res.status(404).json({ error: 'User not found' })
     }
-
-    const pilotResult = await pool.query(
-      `SELECT p.id, p.wing_id, w.name as wing_name
-       FROM pilots p
-       JOIN wings w ON p.wing_id = w.id
-       WHERE p.user_id = $1`,
-      [req.user!.id]
-    )
-    const pilot = pilotResult.rows.length > 0 ? pilotResult.rows[0] : null
-
-    res.json({
-      user: {
-        ...result.rows[0],
-        pilot_id: pilot?.id || null,
-        wing_id: pilot?.wing_id || null,
-        wing_name: pilot?.wing_name || null,
-      },
-    })
+    res.json({ user })
   } catch (error) {
     console.error('Get user error:', error)
     res.status(500).json({ error: 'Internal server error' })
   }
 })
 
-export { BCRYPT_ROUNDS, JWT_EXPIRES_IN }
+export { BCRYPT_ROUNDS }
 export default router
@@ -0,0 +1,204 @@
+import { Router, Response } from 'express'
+import pool from '../db/pool'
+import { authenticate, requirePermission, hasPermission, canActOnWing, AuthRequest } from '../middleware/auth'
+import { scopeToWings, canSeeWing, visibleWings } from '../middleware/wingScope'
+import { pilotInWingSql } from '../services/transfers'
+
+const router = Router()
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const isUUID = (v: string) => UUID_RE.test(v)
+
+const REQUEST_STATUSES = ['pending', 'accepted', 'scheduled', 'declined', 'cancelled']
+const OPEN_STATUSES = ['pending', 'accepted', 'scheduled']
+// Statuses an instructor can move an open request to
+const RESPONSE_STATUSES = ['accepted', 'scheduled', 'declined']
+
+// GET /api/evaluation-requests?status=open&pilot_id=&wing_id=
+// Callers who cannot respond only see their own requests; responders see the wings in their scope.
+router.get('/', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  const status = (req.query.status as string) || 'open'
+  const pilotId = req.query.pilot_id as string | undefined
+  const wingId = req.query.wing_id as string | undefined
+
+  if (status !== 'open' && status !== 'all' && !REQUEST_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `Status must be one of: open, all, ${REQUEST_STATUSES.join(', ')}` })
+  }
+  if ((pilotId && !isUUID(pilotId)) || (wingId && !isUUID(wingId))) {
+    return res.status(400).json({ error: 'Invalid pilot_id or wing_id' })
+  }
+  if (wingId && !canSeeWing(req, wingId)) {
+    return res.status(403).json({ error: 'You do not have access to this wing' })
+  }
+
+  try {
+    const conditions: string[] = []
+    const params: any[] = []
+    if (status === 'open') {
+      params.push(OPEN_STATUSES)
+      conditions.push(`r.status = ANY($${params.length})`)
+    } else if (status !== 'all') {
+      params.push(status)
+      conditions.push(`r.status = $${params.length}`)
+    }
+    if (pilotId) {
+      params.push(pilotId)
+      conditions.push(`r.pilot_id = $${params.length}`)
+    }
+    if (!hasPermission(req, 'evaluations:respond')) {
+      params.push(req.user!.id)
+      conditions.push(`p.user_id = $${params.length}`)
+    } else {
+      params.push(visibleWings(req, wingId))
+      conditions.push(`($${params.length}::uuid[] IS NULL OR s.wing_id = ANY($${params.length}))`)
+    }
+
+    const result = await pool.query(
+      `SELECT r.*, p.callsign, s.wing_id, s.name as skill_name, s.category, q.status as current_status
+       FROM evaluation_requests r
+       JOIN pilots p ON p.id = r.pilot_id
+       JOIN skills s ON s.id = r.skill_id
+       LEFT JOIN qualifications q ON q.pilot_id = r.pilot_id AND q.skill_id = r.skill_id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY r.created_at DESC
+       LIMIT 500`,
+      params
+    )
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get evaluation requests error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/evaluation-requests - a pilot asks to be evaluated on one of their wing's skills
+router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
+  const { skill_id, message } = req.body
+
+  if (!skill_id || !isUUID(skill_id)) {
+    return res.status(400).json({ error: 'A valid skill_id is required' })
+  }
+  if (message !== undefined && message !== null && (typeof message !== 'string' || message.length > 1000)) {
+    return res.status(400).json({ error: 'Message must be 1000 characters or fewer' })
+  }
+
+  try {
+    const pilotResult = await pool.query(
+      `SELECT p.id, ${pilotInWingSql('p', 's.wing_id')} as in_wing, q.status as current_status
+       FROM pilots p
+       JOIN skills s ON s.id = $2 AND s.archived_at IS NULL
+       LEFT JOIN qualifications q ON q.pilot_id = p.id AND q.skill_id = s.id
+       WHERE p.user_id = $1 AND p.archived_at IS NULL`,
+      [req.user!.id, skill_id]
+    )
+    if (pilotResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Skill not found, or your account has no pilot record' })
+    }
+    const pilot = pilotResult.rows[0]
+    if (!pilot.in_wing) {
+      return res.status(400).json({ error: 'Skill does not belong to your wing' })
+    }
+    if (pilot.current_status === 'IP') {
+      return res.status(400).json({ error: 'You already hold IP on this skill' })
+    }
+
+    const result = await pool.query(
+      `INSERT INTO evaluation_requests (pilot_id, skill_id, message)
+       VALUES ($1, $2, $3) RETURNING *`,
+      [pilot.id, skill_id, message?.trim() || null]
+    )
+    res.status(201).json(result.rows[0])
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'You already have an open evaluation request for this skill' })
+    }
+    console.error('Create evaluation request error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// PUT /api/evaluation-requests/:id - accept, schedule or decline an open request
+router.put('/:id', authenticate, requirePermission('evaluations:respond'), async (req: AuthRequest, res: Response) => {
+  const { status, response, scheduled_for } = req.body
+
+  if (!isUUID(req.params.id)) {
+    return res.status(400).json({ error: 'Invalid evaluation request ID' })
+  }
+  if (!RESPONSE_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `Status must be one of: ${RESPONSE_STATUSES.join(', ')}` })
+  }
+  if (response !== undefined && response !== null && (typeof response !== 'string' || response.length > 1000)) {
+    return res.status(400).json({ error: 'Response must be 1000 characters or fewer' })
+  }
+  if (status === 'declined' && !response?.trim()) {
+    return res.status(400).json({ error: 'A response is required when declining' })
+  }
+  const scheduledFor = scheduled_for ? new Date(scheduled_for) : null
+  if (status === 'scheduled' && (!scheduledFor || isNaN(scheduledFor.getTime()))) {
+    return res.status(400).json({ error: 'scheduled_for must be a valid date when scheduling' })
+  }
+
+  try {
+    const existing = await pool.query(
+      `SELECT r.status, s.wing_id FROM evaluation_requests r
+       JOIN skills s ON s.id = r.skill_id
+       WHERE r.id = $1`,
+      [req.params.id]
+    )
+    if (existing.rows.length === 0) {
+      return res.status(404).json({ error: 'Evaluation request not found' })
+    }
+    if (!canActOnWing(req, existing.rows[0].wing_id)) {
+      return res.status(403).json({ error: 'You can only handle requests from your own wing' })
+    }
+
+    const result = await pool.query(
+      `UPDATE evaluation_requests
+       SET status = $1, response = COALESCE($2, response), scheduled_for = $3, handled_by = $4, handled_by_user_id = $5, updated_at = NOW()
+       WHERE id = $6 AND status = ANY($7)
+       RETURNING *`,
+      [
+        status,
+        response?.trim() || null,
+        status === 'scheduled' ? scheduledFor : null,
+        req.user!.email,
+        req.user!.id,
+        req.params.id,
+        OPEN_STATUSES,
+      ]
+    )
+    if (result.rows.length === 0) {
+      return res.status(409).json({ error: `Evaluation request is already ${existing.rows[0].status}` })
+    }
+    res.json(result.rows[0])
+  } catch (error) {
+    console.error('Update evaluation request error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// DELETE /api/evaluation-requests/:id - the pilot withdraws their open request
+router.delete('/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) {
+    return res.status(400).json({ error: 'Invalid evaluation request ID' })
+  }
+
+  try {
+    const result = await pool.query(
+      `UPDATE evaluation_requests r SET status = 'cancelled', updated_at = NOW()
+       FROM pilots p
+       WHERE r.id = $1 AND p.id = r.pilot_id AND p.user_id = $2 AND r.status = ANY($3)
+       RETURNING r.*`,
+      [req.params.id, req.user!.id, OPEN_STATUSES]
+    )
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'No open evaluation request of yours with this ID' })
+    }
+    res.json(result.rows[0])
+  } catch (error) {
+    console.error('Cancel evaluation request error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+export default router
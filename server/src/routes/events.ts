@@ -0,0 +1,427 @@
+import { Router, Response } from 'express'
+import pool from '../db/pool'
+import { authenticate, requirePermission, hasPermission, canActOnWing, AuthRequest } from '../middleware/auth'
+import { scopeToWings, canSeeWing, visibleWings } from '../middleware/wingScope'
+import { writeQualification, publishQualificationChanges, QualificationChange } from '../services/qualifications'
+import { computeProposals, EVENT_OUTCOMES } from '../services/events'
+import { findMissingPrerequisites } from '../services/prerequisites'
+import { requiresSignoff, submitSignoff } from '../services/signoffs'
+import { pilotInWingSql } from '../services/transfers'
+
+const router = Router()
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const isUUID = (v: string) => UUID_RE.test(v)
+
+const EVENT_COLUMNS = `
+  e.id, e.wing_id, w.name as wing_name, e.title, e.event_date::text as event_date,
+  e.lead_instructor_id, lp.callsign as lead_instructor_callsign, e.notes,
+  e.created_by, e.applied_at, e.applied_by, e.created_at, e.updated_at`
+
+interface EventInput {
+  wing_id: string
+  title: string
+  event_date: string
+  lead_instructor_id: string | null
+  notes: string | null
+  skill_ids: string[]
+  attendees: { pilot_id: string; outcome: string; notes: string | null }[]
+}
+
+// Validate a create/update body; returns an error message or the normalized input
+function parseEventInput(body: any): string | EventInput {
+  const { wing_id, title, event_date, lead_instructor_id, notes, skill_ids, attendees } = body
+
+  if (!wing_id || !isUUID(wing_id)) return 'A valid wing_id is required'
+  if (!title || typeof title !== 'string' || !title.trim() || title.length > 200) {
+    return 'Title is required (max 200 characters)'
+  }
+  if (typeof event_date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(event_date) || isNaN(Date.parse(event_date))) {
+    return 'event_date must be a date in YYYY-MM-DD format'
+  }
+  if (lead_instructor_id && !isUUID(lead_instructor_id)) return 'Invalid lead_instructor_id'
+  if (notes && (typeof notes !== 'string' || notes.length > 5000)) return 'Notes must be 5000 characters or fewer'
+  if (!Array.isArray(skill_ids) || !skill_ids.every(isUUID)) return 'skill_ids must be an array of skill IDs'
+  if (!Array.isArray(attendees) || attendees.length > 100) return 'attendees must be an array of at most 100 pilots'
+
+  for (const a of attendees) {
+    if (!a || !isUUID(a.pilot_id)) return 'Each attendee needs a valid pilot_id'
+    if (a.outcome !== undefined && !EVENT_OUTCOMES.includes(a.outcome)) {
+      return `Outcome must be one of: ${EVENT_OUTCOMES.join(', ')}`
+    }
+    if (a.notes && (typeof a.notes !== 'string' || a.notes.length > 1000)) return 'Attendee notes must be 1000 characters or fewer'
+  }
+
+  return {
+    wing_id,
+    title: title.trim(),
+    event_date,
+    lead_instructor_id: lead_instructor_id || null,
+    notes: notes?.trim() || null,
+    skill_ids: [...new Set<string>(skill_ids)],
+    attendees: attendees.map((a: any) => ({ pilot_id: a.pilot_id, outcome: a.outcome || 'pending', notes: a.notes?.trim() || null })),
+  }
+}
+
+// Check that every referenced pilot and skill belongs to the event's wing;
+// guests and dual members of the wing count as its pilots
+async function checkEventWing(client: any, input: EventInput): Promise<string | null> {
+  const pilotIds = [...new Set([...input.attendees.map(a => a.pilot_id), ...(input.lead_instructor_id ? [input.lead_instructor_id] : [])])]
+  if (pilotIds.length > 0) {
+    const pilots = await client.query(
+      `SELECT p.id FROM pilots p WHERE ${pilotInWingSql('p', '$1')} AND p.archived_at IS NULL AND p.id = ANY($2)`,
+      [input.wing_id, pilotIds]
+    )
+    if (pilots.rows.length !== pilotIds.length) return 'All pilots must belong to the event wing'
+  }
+  if (input.skill_ids.length > 0) {
+    const skills = await client.query('SELECT id FROM skills WHERE wing_id = $1 AND archived_at IS NULL AND id = ANY($2)', [input.wing_id, input.skill_ids])
+    if (skills.rows.length !== input.skill_ids.length) return 'All skills must belong to the event wing'
+  }
+  return null
+}
+
+async function saveEventLinks(client: any, eventId: string, input: EventInput) {
+  await client.query('DELETE FROM training_event_skills WHERE event_id = $1', [eventId])
+  await client.query('DELETE FROM training_event_attendees WHERE event_id = $1', [eventId])
+  for (const skillId of input.skill_ids) {
+    await client.query('INSERT INTO training_event_skills (event_id, skill_id) VALUES ($1, $2)', [eventId, skillId])
+  }
+  for (const a of input.attendees) {
+    await client.query(
+      `INSERT INTO training_event_attendees (event_id, pilot_id, outcome, notes) VALUES ($1, $2, $3, $4)
+       ON CONFLICT (event_id, pilot_id) DO UPDATE SET outcome = $3, notes = $4`,
+      [eventId, a.pilot_id, a.outcome, a.notes]
+    )
+  }
+}
+
+async function loadEvent(client: any, eventId: string) {
+  const eventResult = await client.query(
+    `SELECT ${EVENT_COLUMNS}
+     FROM training_events e
+     JOIN wings w ON w.id = e.wing_id
+     LEFT JOIN pilots lp ON lp.id = e.lead_instructor_id
+     WHERE e.id = $1`,
+    [eventId]
+  )
+  if (eventResult.rows.length === 0) return null
+
+  const [skillsResult, attendeesResult] = await Promise.all([
+    client.query(
+      `SELECT s.id, s.name, s.category FROM training_event_skills es
+       JOIN skills s ON s.id = es.skill_id
+       WHERE es.event_id = $1 ORDER BY s.sort_order`,
+      [eventId]
+    ),
+    client.query(
+      `SELECT a.pilot_id, p.callsign, a.outcome, a.notes FROM training_event_attendees a
+       JOIN pilots p ON p.id = a.pilot_id
+       WHERE a.event_id = $1 ORDER BY p.callsign`,
+      [eventId]
+    ),
+  ])
+
+  return { ...eventResult.rows[0], skills: skillsResult.rows, attendees: attendeesResult.rows }
+}
+
+// GET /api/events?wing_id= - list events in the caller's wings, newest first
+router.get('/', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  const wingId = req.query.wing_id as string | undefined
+  if (wingId && !isUUID(wingId)) {
+    return res.status(400).json({ error: 'Invalid wing_id' })
+  }
+  if (wingId && !canSeeWing(req, wingId)) {
+    return res.status(403).json({ error: 'You do not have access to this wing' })
+  }
+
+  try {
+    const result = await pool.query(
+      `SELECT ${EVENT_COLUMNS},
+         (SELECT COUNT(*)::int FROM training_event_attendees a WHERE a.event_id = e.id) as attendee_count,
+         (SELECT COUNT(*)::int FROM training_event_skills es WHERE es.event_id = e.id) as skill_count
+       FROM training_events e
+       JOIN wings w ON w.id = e.wing_id
+       LEFT JOIN pilots lp ON lp.id = e.lead_instructor_id
+       WHERE ($1::uuid[] IS NULL OR e.wing_id = ANY($1))
+       ORDER BY e.event_date DESC, e.created_at DESC
+       LIMIT 200`,
+      [visibleWings(req, wingId)]
+    )
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get events error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/events/:id - event with skills and attendees
+router.get('/:id', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) {
+    return res.status(400).json({ error: 'Invalid event ID' })
+  }
+
+  const client = await pool.connect()
+  try {
+    const event = await loadEvent(client, req.params.id)
+    if (!event || !canSeeWing(req, event.wing_id)) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+    res.json(event)
+  } catch (error) {
+    console.error('Get event error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// POST /api/events - log a training event
+router.post('/', authenticate, requirePermission('events:manage'), async (req: AuthRequest, res: Response) => {
+  const input = parseEventInput(req.body)
+  if (typeof input === 'string') {
+    return res.status(400).json({ error: input })
+  }
+  if (!canActOnWing(req, input.wing_id)) {
+    return res.status(403).json({ error: 'You can only log events for your own wing' })
+  }
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const wingError = await checkEventWing(client, input)
+    if (wingError) {
+      await client.query('ROLLBACK')
+      return res.status(400).json({ error: wingError })
+    }
+
+    const result = await client.query(
+      `INSERT INTO training_events (wing_id, title, event_date, lead_instructor_id, notes, created_by, created_by_user_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
+      [input.wing_id, input.title, input.event_date, input.lead_instructor_id, input.notes, req.user!.email, req.user!.id]
+    )
+    const eventId = result.rows[0].id
+    await saveEventLinks(client, eventId, input)
+    await client.query('COMMIT')
+
+    res.status(201).json(await loadEvent(client, eventId))
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Create event error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// PUT /api/events/:id - update an event that has not been applied yet
+router.put('/:id', authenticate, requirePermission('events:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) {
+    return res.status(400).json({ error: 'Invalid event ID' })
+  }
+  const input = parseEventInput(req.body)
+  if (typeof input === 'string') {
+    return res.status(400).json({ error: input })
+  }
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const existing = await client.query('SELECT wing_id, applied_at FROM training_events WHERE id = $1 FOR UPDATE', [req.params.id])
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Event not found' })
+    }
+    if (!canActOnWing(req, existing.rows[0].wing_id) || !canActOnWing(req, input.wing_id)) {
+      await client.query('ROLLBACK')
+      return res.status(403).json({ error: 'You can only edit events for your own wing' })
+    }
+    if (existing.rows[0].applied_at) {
+      await client.query('ROLLBACK')
+      return res.status(409).json({ error: 'Event upgrades have already been applied; it can no longer be edited' })
+    }
+
+    const wingError = await checkEventWing(client, input)
+    if (wingError) {
+      await client.query('ROLLBACK')
+      return res.status(400).json({ error: wingError })
+    }
+
+    await client.query(
+      `UPDATE training_events
+       SET wing_id = $1, title = $2, event_date = $3, lead_instructor_id = $4, notes = $5, updated_at = NOW()
+       WHERE id = $6`,
+      [input.wing_id, input.title, input.event_date, input.lead_instructor_id, input.notes, req.params.id]
+    )
+    await saveEventLinks(client, req.params.id, input)
+    await client.query('COMMIT')
+
+    res.json(await loadEvent(client, req.params.id))
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Update event error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// DELETE /api/events/:id
+router.delete('/:id', authenticate, requirePermission('events:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) {
+    return res.status(400).json({ error: 'Invalid event ID' })
+  }
+
+  try {
+    const existing = await pool.query('SELECT wing_id FROM training_events WHERE id = $1', [req.params.id])
+    if (existing.rows.length === 0) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+    if (!canActOnWing(req, existing.rows[0].wing_id)) {
+      return res.status(403).json({ error: 'You can only delete events for your own wing' })
+    }
+
+    await pool.query('DELETE FROM training_events WHERE id = $1', [req.params.id])
+    res.json({ deleted: true })
+  } catch (error) {
+    console.error('Delete event error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/events/:id/proposals - qualification changes implied by the graded outcomes
+router.get('/:id/proposals', authenticate, requirePermission('events:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) {
+    return res.status(400).json({ error: 'Invalid event ID' })
+  }
+
+  const client = await pool.connect()
+  try {
+    // Events outside the caller's wing look the same as missing ones
+    const existing = await client.query('SELECT wing_id FROM training_events WHERE id = $1', [req.params.id])
+    if (existing.rows.length === 0 || !canActOnWing(req, existing.rows[0].wing_id)) {
+      return res.status(404).json({ error: 'Event not found' })
+    }
+    res.json(await computeProposals(client, req.params.id))
+  } catch (error) {
+    console.error('Get event proposals error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// POST /api/events/:id/apply - confirm proposed upgrades in one step
+// Body: { selected?: [{ pilot_id, skill_id }], override?: boolean }. Without a
+// selection every proposal is applied; proposals with missing prerequisites are
+// skipped unless override is set. FMQ promotions by instructors become sign-off
+// requests rather than being written directly.
+router.post('/:id/apply', authenticate, requirePermission('events:manage'), async (req: AuthRequest, res: Response) => {
+  const { selected, override } = req.body
+  if (!isUUID(req.params.id)) {
+    return res.status(400).json({ error: 'Invalid event ID' })
+  }
+  if (selected !== undefined && (!Array.isArray(selected) || !selected.every((s: any) => s && isUUID(s.pilot_id) && isUUID(s.skill_id)))) {
+    return res.status(400).json({ error: 'selected must be an array of { pilot_id, skill_id }' })
+  }
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const eventResult = await client.query(
+      'SELECT id, wing_id, title, event_date::text as event_date, applied_at FROM training_events WHERE id = $1 FOR UPDATE',
+      [req.params.id]
+    )
+    if (eventResult.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Event not found' })
+    }
+    const event = eventResult.rows[0]
+    if (!canActOnWing(req, event.wing_id)) {
+      await client.query('ROLLBACK')
+      return res.status(403).json({ error: 'You can only apply events for your own wing' })
+    }
+    if (event.applied_at) {
+      await client.query('ROLLBACK')
+      return res.status(409).json({ error: 'Event upgrades have already been applied' })
+    }
+
+    const wanted = selected ? new Set(selected.map((s: any) => `${s.pilot_id}:${s.skill_id}`)) : null
+    const proposals = (await computeProposals(client, event.id))
+      .filter(p => !wanted || wanted.has(`${p.pilot_id}:${p.skill_id}`))
+
+    const performedAt = new Date(event.event_date)
+    const note = `Training event: ${event.title} (${event.event_date})`
+    const applied: typeof proposals = []
+    const skipped: typeof proposals = []
+    const requested: typeof proposals = [] // promotions waiting on a sign-off review
+    const changes: QualificationChange[] = []
+
+    for (const proposal of proposals) {
+      // Re-check against upgrades already applied earlier in this loop
+      if (proposal.missing_prerequisites.length > 0) {
+        proposal.missing_prerequisites = await findMissingPrerequisites(client, proposal.pilot_id, proposal.skill_id)
+      }
+      if (proposal.missing_prerequisites.length > 0 && override !== true) {
+        skipped.push(proposal)
+        continue
+      }
+      if (proposal.action === 'renew') {
+        await client.query(
+          `UPDATE qualifications SET last_performed = GREATEST(COALESCE(last_performed, $1), $1)
+           WHERE pilot_id = $2 AND skill_id = $3`,
+          [performedAt, proposal.pilot_id, proposal.skill_id]
+        )
+      } else if (requiresSignoff(hasPermission(req, 'qualifications:skip_signoff'), proposal.current_status, proposal.proposed_status)) {
+        await submitSignoff(client, {
+          pilotId: proposal.pilot_id,
+          skillId: proposal.skill_id,
+          requestedStatus: proposal.proposed_status,
+          requestedBy: req.user!.email,
+          requestedByUserId: req.user!.id,
+          note,
+        })
+        requested.push(proposal)
+        continue
+      } else {
+        const { oldStatus } = await writeQualification(client, {
+          pilotId: proposal.pilot_id,
+          skillId: proposal.skill_id,
+          status: proposal.proposed_status,
+          changedBy: req.user!.email,
+          changedByUserId: req.user!.id,
+          note,
+          lastPerformed: performedAt,
+        })
+        changes.push({
+          pilotId: proposal.pilot_id,
+          skillId: proposal.skill_id,
+          oldStatus,
+          newStatus: proposal.proposed_status,
+          changedBy: req.user!.email,
+        })
+      }
+      applied.push(proposal)
+    }
+
+    await client.query(
+      'UPDATE training_events SET applied_at = NOW(), applied_by = $1, updated_at = NOW() WHERE id = $2',
+      [req.user!.email, event.id]
+    )
+    await client.query('COMMIT')
+    publishQualificationChanges(changes)
+
+    res.json({ applied, skipped, requested })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Apply event error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+export default router
@@ -1,18 +1,51 @@
 import { Router, Response } from 'express'
 import bcrypt from 'bcryptjs'
 import crypto from 'crypto'
+import { PoolClient } from 'pg'
 import pool from '../db/pool'
-import { authenticate, requireRole, AuthRequest } from '../middleware/auth'
+import { authenticate, requirePermission, hasPermission, canActOnWing, AuthRequest } from '../middleware/auth'
+import { scopeToWings, canSeeWing, visibleWings } from '../middleware/wingScope'
 import { BCRYPT_ROUNDS } from './auth'
+import { APP_URL, sendMail } from '../services/mail'
+import { ONBOARDING_TOKEN_DAYS, issuePasswordToken, passwordTokenLink } from '../services/passwordTokens'
+import { enqueueWebhookEvent } from '../services/webhooks'
+import { ADMIN_ROLE, DEFAULT_ROLE, ROLE_NAME_RE } from '../services/permissions'
+import {
+  MEMBERSHIP_KINDS,
+  TRANSFER_MODES,
+  TransferMode,
+  TransferPilot,
+  TransferWing,
+  applyTransfer,
+  archiveWingQualifications,
+  createMissingQualifications,
+  pilotInWingsSql,
+  planTransfer,
+} from '../services/transfers'
+import { RosterStatus, STATUS_CHANGE_COLUMNS, parseRosterStatusFilter, parseRosterStatusInput, setRosterStatus } from '../services/roster'
 
 const router = Router()
 
+// The role lives on the user account; pilots without one have a null role.
+// memberships lists the wings the pilot belongs to besides their primary one.
+// The status date is re-read as text so it is not shifted into a timestamp.
+const PILOT_COLUMNS = `p.*, p.roster_status_date::text as roster_status_date, w.name as wing_name, u.role, ou.name as unit_name,
+  COALESCE((
+    SELECT json_agg(json_build_object('wing_id', pw.wing_id, 'wing_name', mw.name, 'kind', pw.kind) ORDER BY mw.name)
+    FROM pilot_wings pw JOIN wings mw ON mw.id = pw.wing_id
+    WHERE pw.pilot_id = p.id
+  ), '[]') as memberships`
+const PILOT_JOINS = `FROM pilots p
+  JOIN wings w ON p.wing_id = w.id
+  LEFT JOIN users u ON u.id = p.user_id
+  LEFT JOIN org_units ou ON ou.id = p.unit_id`
+
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 const isUUID = (v: string) => UUID_RE.test(v)
 
 // POST /api/pilots - create a new pilot + user account
-// Accessible by instructors (locked to their wing) and admins (any wing)
-router.post('/', authenticate, requireRole('instructor', 'admin'), async (req: AuthRequest, res: Response) => {
+// Wing-scoped roles are locked to their own wing
+router.post('/', authenticate, requirePermission('pilots:create'), async (req: AuthRequest, res: Response) => {
   const { callsign, first_name, last_name, email, wing_id, board_number, role } = req.body
 
   if (!callsign || !first_name || !last_name || !email) {
@@ -33,7 +66,7 @@ router.post('/', authenticate, requireRole('instructor', 'admin'), async (req: A
 
     // Determine the wing to assign — inside transaction to avoid race conditions
     let targetWingId = wing_id
-    if (req.user!.role === 'instructor') {
+    if (req.user!.wing_scoped) {
       const pilotRow = await client.query('SELECT wing_id FROM pilots WHERE user_id = $1', [req.user!.id])
       if (pilotRow.rows.length === 0) {
         await client.query('ROLLBACK')
@@ -46,56 +79,86 @@ router.post('/', authenticate, requireRole('instructor', 'admin'), async (req: A
     }
 
     // Validate wing exists
-    const wingCheck = await client.query('SELECT id FROM wings WHERE id = $1', [targetWingId])
+    const wingCheck = await client.query('SELECT id FROM wings WHERE id = $1 AND archived_at IS NULL', [targetWingId])
     if (wingCheck.rows.length === 0) {
       await client.query('ROLLBACK')
       return res.status(400).json({ error: 'Wing not found' })
     }
 
-    // Only admins can set roles other than 'pilot'
-    const pilotRole = (req.user!.role === 'admin' && role) ? role : 'pilot'
-    const validRoles = ['pilot', 'instructor', 'admin']
-    if (!validRoles.includes(pilotRole)) {
+    // Only callers who may assign roles can pick one other than the default
+    const pilotRole = (hasPermission(req, 'roles:manage') && role) ? role : DEFAULT_ROLE
+    const roleCheck = await client.query('SELECT 1 FROM roles WHERE name = $1', [pilotRole])
+    if (roleCheck.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(400).json({ error: 'Role not found' })
+    }
+    if (pilotRole === ADMIN_ROLE && req.user!.role !== ADMIN_ROLE) {
       await client.query('ROLLBACK')
-      return res.status(400).json({ error: `Role must be one of: ${validRoles.join(', ')}` })
+      return res.status(403).json({ error: 'Only an admin can grant the admin role' })
     }
 
     // Check email uniqueness inside the transaction
-    const existing = await client.query('SELECT id FROM users WHERE email = $1', [email])
+    const existing = await client.query('SELECT archived_at FROM users WHERE email = $1', [email])
     if (existing.rows.length > 0) {
       await client.query('ROLLBACK')
-      return res.status(409).json({ error: 'A user with this email already exists' })
+      // Returning pilots keep their records by restoring the old account
+      const error = existing.rows[0].archived_at
+        ? 'An archived user has this email; restore them from the Archive instead'
+        : 'A user with this email already exists'
+      return res.status(409).json({ error })
     }
 
-    // Generate a secure random temporary password — shown once to the admin
+    // Generate a secure random temporary password — only shown to the admin
+    // when the onboarding email cannot be sent
     const tempPassword = crypto.randomBytes(8).toString('hex') // 16 hex chars
     const passwordHash = await bcrypt.hash(tempPassword, BCRYPT_ROUNDS)
 
     const userResult = await client.query(
-      'INSERT INTO users (email, password_hash, role) VALUES ($1, $2, $3) RETURNING id',
+      'INSERT INTO users (email, password_hash, role, must_change_password) VALUES ($1, $2, $3, true) RETURNING id',
       [email, passwordHash, pilotRole]
     )
     const userId = userResult.rows[0].id
 
     // Create pilot record
     const pilotResult = await client.query(
-      `INSERT INTO pilots (user_id, callsign, first_name, last_name, wing_id, board_number, role, email)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING id`,
-      [userId, callsign.trim(), first_name.trim(), last_name.trim(), targetWingId, board_number?.trim() || null, pilotRole, email]
+      `INSERT INTO pilots (user_id, callsign, first_name, last_name, wing_id, board_number, email)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id, callsign, first_name, last_name, wing_id, board_number, created_at`,
+      [userId, callsign.trim(), first_name.trim(), last_name.trim(), targetWingId, board_number?.trim() || null, email]
     )
 
+    const inviteToken = await issuePasswordToken(userId, 'onboarding', client)
+    await enqueueWebhookEvent('pilot.created', { ...pilotResult.rows[0], role: pilotRole }, targetWingId, client)
+
     await client.query('COMMIT')
 
-    // Return the full pilot record with wing name, plus the one-time temp password
+    let inviteSent = true
+    try {
+      await sendMail({
+        to: email,
+        subject: 'Your squadron account is ready',
+        text: `Welcome aboard, ${callsign.trim()}!\n\n`
+          + `An account has been created for you. Set your password here to sign in `
+          + `(the link works once and expires in ${ONBOARDING_TOKEN_DAYS} days):\n`
+          + `${passwordTokenLink(APP_URL, inviteToken, 'onboarding')}\n`,
+      })
+    } catch (mailError) {
+      console.error('Send onboarding email error:', mailError)
+      inviteSent = false
+    }
+
+    // Return the full pilot record with wing name; the temp password only as a fallback
     const result = await pool.query(
-      `SELECT p.*, w.name as wing_name
-       FROM pilots p
-       JOIN wings w ON p.wing_id = w.id
+      `SELECT ${PILOT_COLUMNS}
+       ${PILOT_JOINS}
        WHERE p.id = $1`,
       [pilotResult.rows[0].id]
     )
 
-    res.status(201).json({ ...result.rows[0], temp_password: tempPassword })
+    res.status(201).json(
+      inviteSent
+        ? { ...result.rows[0], invite_sent: true }
+        : { ...result.rows[0], invite_sent: false, temp_password: tempPassword }
+    )
   } catch (error: any) {
     await client.query('ROLLBACK')
     console.error('Create pilot error:', error)
@@ -108,15 +171,139 @@ router.post('/', authenticate, requireRole('instructor', 'admin'), async (req: A
   }
 })
 
-// GET /api/pilots
-router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+const MAX_PAGE_SIZE = 200
+
+// Sort keys accepted by GET /api/pilots; callsign breaks ties everywhere
+const PILOT_SORTS: Record<string, string[]> = {
+  callsign: ['p.callsign'],
+  name: ['p.last_name', 'p.first_name'],
+  board_number: ['p.board_number'],
+  wing: ['w.name', 'p.callsign'],
+  created_at: ['p.created_at'],
+}
+
+interface PilotQuery {
+  where: string
+  params: any[]
+  // Lower is better: exact callsign/email, then callsign prefix, then name/email prefix
+  rank: string | null
+}
+
+// Filters shared by the pilot list and search: wing scope, wing_id, role,
+// board_number, roster status and free text over callsign, name and email. A wing covers its
+// secondary members as well as the pilots whose primary wing it is.
+function parsePilotQuery(req: AuthRequest): PilotQuery | string {
+  const wingId = req.query.wing_id as string | undefined
+  const role = req.query.role as string | undefined
+  const boardNumber = req.query.board_number as string | undefined
+  const q = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+
+  if (wingId && !isUUID(wingId)) return 'Invalid wing_id'
+  if (role && !ROLE_NAME_RE.test(role)) return 'Invalid role'
+  if (q.length > 100) return 'Search query must be 100 characters or fewer'
+  const statuses = parseRosterStatusFilter(req.query.status)
+  if (typeof statuses === 'string') return statuses
+
+  const params: any[] = [visibleWings(req, wingId)]
+  const conditions = ['p.archived_at IS NULL', `($1::uuid[] IS NULL OR ${pilotInWingsSql('p', '$1')})`]
+  if (role) {
+    params.push(role)
+    conditions.push(`p.user_id IN (SELECT id FROM users WHERE role = $${params.length})`)
+  }
+  if (boardNumber) {
+    params.push(boardNumber)
+    conditions.push(`p.board_number = $${params.length}`)
+  }
+  if (statuses) {
+    params.push(statuses)
+    conditions.push(`p.roster_status = ANY($${params.length})`)
+  }
+
+  let rank: string | null = null
+  if (q) {
+    // Wildcards are escaped, so ILIKE against the bare pattern is a case-insensitive equality
+    params.push(q.replace(/[\\%_]/g, '\\$&'))
+    const like = `$${params.length}`
+    conditions.push(`(p.callsign ILIKE '%' || ${like} || '%'
+      OR p.email ILIKE '%' || ${like} || '%'
+      OR (p.first_name || ' ' || p.last_name) ILIKE '%' || ${like} || '%')`)
+    rank = `CASE
+      WHEN p.callsign ILIKE ${like} OR p.email ILIKE ${like} THEN 0
+      WHEN p.callsign ILIKE ${like} || '%' THEN 1
+      WHEN p.first_name ILIKE ${like} || '%' OR p.last_name ILIKE ${like} || '%' OR p.email ILIKE ${like} || '%' THEN 2
+      ELSE 3
+    END`
+  }
+
+  return { where: conditions.join(' AND '), params, rank }
+}
+
+// GET /api/pilots?q=&wing_id=&role=&board_number=&status=&sort=&order=&limit=&offset=
+// Pilots in the wings the caller may see. Without `limit` every match is
+// returned; X-Total-Count always carries the unpaginated total. A search
+// term sorts by relevance unless another sort is asked for.
+router.get('/', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  const wingId = req.query.wing_id as string | undefined
+  if (wingId && isUUID(wingId) && !canSeeWing(req, wingId)) {
+    return res.status(403).json({ error: 'You do not have access to this wing' })
+  }
+
+  const query = parsePilotQuery(req)
+  if (typeof query === 'string') {
+    return res.status(400).json({ error: query })
+  }
+
+  const sort = req.query.sort as string | undefined
+  const order = req.query.order as string | undefined
+  if (sort && sort !== 'relevance' && !PILOT_SORTS[sort]) {
+    return res.status(400).json({ error: `Sort must be one of: relevance, ${Object.keys(PILOT_SORTS).join(', ')}` })
+  }
+  if (sort === 'relevance' && !query.rank) {
+    return res.status(400).json({ error: 'Sorting by relevance requires a search query' })
+  }
+  if (order && order !== 'asc' && order !== 'desc') {
+    return res.status(400).json({ error: 'Order must be asc or desc' })
+  }
+
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : null
+  const offset = req.query.offset !== undefined ? Number(req.query.offset) : 0
+  if (limit !== null && (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE)) {
+    return res.status(400).json({ error: `limit must be a whole number between 1 and ${MAX_PAGE_SIZE}` })
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return res.status(400).json({ error: 'offset must be a whole number of 0 or more' })
+  }
+
+  const direction = order === 'desc' ? 'DESC' : 'ASC'
+  let orderBy: string[]
+  if (sort && sort !== 'relevance') {
+    orderBy = [...PILOT_SORTS[sort].map(col => `${col} ${direction} NULLS LAST`), 'p.callsign', 'p.id']
+  } else if (query.rank) {
+    orderBy = [`${query.rank} ${direction}`, 'p.callsign', 'p.id']
+  } else {
+    orderBy = ['w.name', 'p.callsign', 'p.id']
+  }
+
   try {
-    const result = await pool.query(
-      `SELECT p.*, w.name as wing_name
-       FROM pilots p
-       JOIN wings w ON p.wing_id = w.id
-       ORDER BY w.name, p.callsign`
-    )
+    const params = [...query.params]
+    let page = ''
+    if (limit !== null) {
+      params.push(limit, offset)
+      page = `LIMIT $${params.length - 1} OFFSET $${params.length}`
+    }
+
+    const [result, countResult] = await Promise.all([
+      pool.query(
+        `SELECT ${PILOT_COLUMNS}
+         ${PILOT_JOINS}
+         WHERE ${query.where}
+         ORDER BY ${orderBy.join(', ')}
+         ${page}`,
+        params
+      ),
+      pool.query(`SELECT COUNT(*)::int as total FROM pilots p WHERE ${query.where}`, query.params),
+    ])
+    res.setHeader('X-Total-Count', String(countResult.rows[0].total))
     res.json(result.rows)
   } catch (error) {
     console.error('Get pilots error:', error)
@@ -124,21 +311,29 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   }
 })
 
-// GET /api/pilots/search?q=callsign
-router.get('/search', authenticate, async (req: AuthRequest, res: Response) => {
-  const query = req.query.q as string
-  if (!query) {
+// GET /api/pilots/search?q=callsign - the single best match, used to open a profile
+router.get('/search', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  if (typeof req.query.q !== 'string' || !req.query.q.trim()) {
     return res.status(400).json({ error: 'Search query required' })
   }
+  const wingId = req.query.wing_id as string | undefined
+  if (wingId && isUUID(wingId) && !canSeeWing(req, wingId)) {
+    return res.status(403).json({ error: 'You do not have access to this wing' })
+  }
+
+  const query = parsePilotQuery(req)
+  if (typeof query === 'string') {
+    return res.status(400).json({ error: query })
+  }
 
   try {
     const result = await pool.query(
-      `SELECT p.*, w.name as wing_name
-       FROM pilots p
-       JOIN wings w ON p.wing_id = w.id
-       WHERE p.callsign ILIKE $1 OR p.email ILIKE $1
+      `SELECT ${PILOT_COLUMNS}
+       ${PILOT_JOINS}
+       WHERE ${query.where}
+       ORDER BY ${query.rank}, p.callsign
        LIMIT 1`,
-      [`%${query}%`]
+      query.params
     )
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'Pilot not found' })
@@ -150,18 +345,17 @@ router.get('/search', authenticate, async (req: AuthRequest, res: Response) => {
   }
 })
 
-// GET /api/pilots/:id
-router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
+// GET /api/pilots/:id - pilots outside the caller's wings read as not found
+router.get('/:id', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
   if (!isUUID(req.params.id)) {
     return res.status(400).json({ error: 'Invalid pilot ID' })
   }
   try {
     const result = await pool.query(
-      `SELECT p.*, w.name as wing_name
-       FROM pilots p
-       JOIN wings w ON p.wing_id = w.id
-       WHERE p.id = $1`,
-      [req.params.id]
+      `SELECT ${PILOT_COLUMNS}
+       ${PILOT_JOINS}
+       WHERE p.id = $1 AND p.archived_at IS NULL AND ($2::uuid[] IS NULL OR ${pilotInWingsSql('p', '$2')})`,
+      [req.params.id, visibleWings(req)]
     )
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'Pilot not found' })
@@ -173,4 +367,301 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   }
 })
 
+// PUT /api/pilots/:id/unit - place a pilot in a squadron or flight of their
+// primary wing, or take them out of one with a null unit_id
+router.put('/:id/unit', authenticate, requirePermission('wings:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid pilot ID' })
+  const { unit_id } = req.body
+  if (unit_id !== null && (typeof unit_id !== 'string' || !isUUID(unit_id))) {
+    return res.status(400).json({ error: 'unit_id must be a unit ID or null' })
+  }
+
+  try {
+    const pilot = await pool.query('SELECT wing_id FROM pilots WHERE id = $1 AND archived_at IS NULL', [req.params.id])
+    if (pilot.rows.length === 0) return res.status(404).json({ error: 'Pilot not found' })
+    if (!canActOnWing(req, pilot.rows[0].wing_id)) {
+      return res.status(403).json({ error: 'Your role can only manage your own wing' })
+    }
+    if (unit_id) {
+      const unit = await pool.query('SELECT wing_id FROM org_units WHERE id = $1', [unit_id])
+      if (unit.rows.length === 0) return res.status(400).json({ error: 'Unit not found' })
+      if (unit.rows[0].wing_id !== pilot.rows[0].wing_id) {
+        return res.status(400).json({ error: "The unit is not in the pilot's primary wing" })
+      }
+    }
+
+    await pool.query('UPDATE pilots SET unit_id = $1, updated_at = NOW() WHERE id = $2', [unit_id, req.params.id])
+    const result = await pool.query(`SELECT ${PILOT_COLUMNS} ${PILOT_JOINS} WHERE p.id = $1`, [req.params.id])
+    res.json(result.rows[0])
+  } catch (error) {
+    console.error('Set pilot unit error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// PUT /api/pilots/:id/status - put a pilot on the active roster, the reserve,
+// leave of absence or the retired list, with an effective date and a reason
+router.put('/:id/status', authenticate, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid pilot ID' })
+  const input = parseRosterStatusInput(req.body)
+  if (typeof input === 'string') return res.status(400).json({ error: input })
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const pilot = await client.query(
+      'SELECT wing_id, roster_status FROM pilots WHERE id = $1 AND archived_at IS NULL FOR UPDATE',
+      [req.params.id]
+    )
+    if (pilot.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Pilot not found' })
+    }
+    if (!canActOnWing(req, pilot.rows[0].wing_id)) {
+      await client.query('ROLLBACK')
+      return res.status(403).json({ error: 'Your role can only manage your own wing' })
+    }
+
+    await setRosterStatus(client, req.params.id, pilot.rows[0].roster_status as RosterStatus, input, req.user!)
+    await client.query('COMMIT')
+
+    const result = await pool.query(`SELECT ${PILOT_COLUMNS} ${PILOT_JOINS} WHERE p.id = $1`, [req.params.id])
+    res.json(result.rows[0])
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Set pilot status error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// GET /api/pilots/:id/status-history - the pilot's roster status changes, newest first
+router.get('/:id/status-history', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid pilot ID' })
+  try {
+    const pilot = await pool.query(
+      `SELECT 1 FROM pilots p WHERE p.id = $1 AND ($2::uuid[] IS NULL OR ${pilotInWingsSql('p', '$2')})`,
+      [req.params.id, visibleWings(req)]
+    )
+    if (pilot.rows.length === 0) return res.status(404).json({ error: 'Pilot not found' })
+
+    const result = await pool.query(
+      `SELECT ${STATUS_CHANGE_COLUMNS} FROM pilot_status_changes WHERE pilot_id = $1 ORDER BY changed_at DESC`,
+      [req.params.id]
+    )
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get pilot status history error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// The pilot being moved and the wing it goes to, or an HTTP error
+async function loadTransferSubjects(
+  db: typeof pool | PoolClient,
+  pilotId: string,
+  toWingId: string
+): Promise<{ pilot: TransferPilot; toWing: TransferWing } | { status: number; error: string }> {
+  const pilot = await db.query(
+    `SELECT p.id, p.callsign, p.wing_id, w.name as wing_name
+     FROM pilots p JOIN wings w ON w.id = p.wing_id
+     WHERE p.id = $1 AND p.archived_at IS NULL`,
+    [pilotId]
+  )
+  if (pilot.rows.length === 0) return { status: 404, error: 'Pilot not found' }
+  const wing = await db.query('SELECT id, name FROM wings WHERE id = $1 AND archived_at IS NULL', [toWingId])
+  if (wing.rows.length === 0) return { status: 400, error: 'Wing not found' }
+  if (pilot.rows[0].wing_id === toWingId) return { status: 400, error: 'The pilot is already in this wing' }
+  return { pilot: pilot.rows[0], toWing: wing.rows[0] }
+}
+
+function parseTransferRequest(source: any): string | { toWingId: string; mode: TransferMode } {
+  const { to_wing_id, mode } = source
+  if (typeof to_wing_id !== 'string' || !isUUID(to_wing_id)) return 'A valid to_wing_id is required'
+  if (!TRANSFER_MODES.includes(mode)) return `mode must be one of: ${TRANSFER_MODES.join(', ')}`
+  return { toWingId: to_wing_id, mode }
+}
+
+// GET /api/pilots/:id/transfer-preview?to_wing_id=&mode= - what a transfer would
+// carry over, archive and create, without changing anything
+router.get('/:id/transfer-preview', authenticate, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid pilot ID' })
+  const input = parseTransferRequest(req.query)
+  if (typeof input === 'string') return res.status(400).json({ error: input })
+
+  try {
+    const subjects = await loadTransferSubjects(pool, req.params.id, input.toWingId)
+    if ('error' in subjects) return res.status(subjects.status).json({ error: subjects.error })
+    res.json(await planTransfer(pool, subjects.pilot, subjects.toWing, input.mode))
+  } catch (error) {
+    console.error('Preview pilot transfer error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/pilots/:id/transfer - move a pilot to another primary wing
+router.post('/:id/transfer', authenticate, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid pilot ID' })
+  const input = parseTransferRequest(req.body)
+  if (typeof input === 'string') return res.status(400).json({ error: input })
+  const { note } = req.body
+  if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 1000)) {
+    return res.status(400).json({ error: 'Note must be 1000 characters or fewer' })
+  }
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    // Lock the pilot so two transfers cannot interleave
+    await client.query('SELECT id FROM pilots WHERE id = $1 FOR UPDATE', [req.params.id])
+    const subjects = await loadTransferSubjects(client, req.params.id, input.toWingId)
+    if ('error' in subjects) {
+      await client.query('ROLLBACK')
+      return res.status(subjects.status).json({ error: subjects.error })
+    }
+
+    const plan = await planTransfer(client, subjects.pilot, subjects.toWing, input.mode)
+    const transfer = await applyTransfer(client, plan, req.user!, note?.trim() || null)
+    await client.query('COMMIT')
+    res.status(201).json(transfer)
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Transfer pilot error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// GET /api/pilots/:id/transfers - the pilot's wing changes, newest first
+router.get('/:id/transfers', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid pilot ID' })
+  try {
+    const pilot = await pool.query(
+      `SELECT 1 FROM pilots p WHERE p.id = $1 AND ($2::uuid[] IS NULL OR ${pilotInWingsSql('p', '$2')})`,
+      [req.params.id, visibleWings(req)]
+    )
+    if (pilot.rows.length === 0) return res.status(404).json({ error: 'Pilot not found' })
+
+    const result = await pool.query(
+      'SELECT * FROM pilot_transfers WHERE pilot_id = $1 ORDER BY transferred_at DESC',
+      [req.params.id]
+    )
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get pilot transfers error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/pilots/:id/archived-qualifications - qualifications left behind in former wings
+router.get('/:id/archived-qualifications', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid pilot ID' })
+  try {
+    const pilot = await pool.query(
+      `SELECT 1 FROM pilots p WHERE p.id = $1 AND ($2::uuid[] IS NULL OR ${pilotInWingsSql('p', '$2')})`,
+      [req.params.id, visibleWings(req)]
+    )
+    if (pilot.rows.length === 0) return res.status(404).json({ error: 'Pilot not found' })
+
+    const result = await pool.query(
+      `SELECT * FROM archived_qualifications WHERE pilot_id = $1
+       ORDER BY archived_at DESC, wing_name, category, skill_name`,
+      [req.params.id]
+    )
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get archived qualifications error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/pilots/:id/wings - add a secondary wing membership; the pilot gets
+// NMQ rows for that wing's skills and shows up on its board
+router.post('/:id/wings', authenticate, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid pilot ID' })
+  const { wing_id, kind = 'guest' } = req.body
+  if (typeof wing_id !== 'string' || !isUUID(wing_id)) {
+    return res.status(400).json({ error: 'A valid wing_id is required' })
+  }
+  if (!MEMBERSHIP_KINDS.includes(kind)) {
+    return res.status(400).json({ error: `kind must be one of: ${MEMBERSHIP_KINDS.join(', ')}` })
+  }
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const pilot = await client.query('SELECT wing_id FROM pilots WHERE id = $1 AND archived_at IS NULL FOR UPDATE', [req.params.id])
+    if (pilot.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Pilot not found' })
+    }
+    const wing = await client.query('SELECT id FROM wings WHERE id = $1 AND archived_at IS NULL', [wing_id])
+    if (wing.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(400).json({ error: 'Wing not found' })
+    }
+    if (pilot.rows[0].wing_id === wing_id) {
+      await client.query('ROLLBACK')
+      return res.status(400).json({ error: "This is already the pilot's primary wing" })
+    }
+
+    const result = await client.query(
+      `INSERT INTO pilot_wings (pilot_id, wing_id, kind, added_by) VALUES ($1, $2, $3, $4)
+       ON CONFLICT (pilot_id, wing_id) DO NOTHING
+       RETURNING *`,
+      [req.params.id, wing_id, kind, req.user!.email]
+    )
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(409).json({ error: 'The pilot is already a member of this wing' })
+    }
+    await createMissingQualifications(client, req.params.id, wing_id, req.user!.email)
+
+    await client.query('COMMIT')
+    res.status(201).json(result.rows[0])
+  } catch (error: any) {
+    await client.query('ROLLBACK')
+    if (error.code === '23503') {
+      return res.status(400).json({ error: 'Wing not found' })
+    }
+    console.error('Add wing membership error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// DELETE /api/pilots/:id/wings/:wingId - end a secondary membership; the pilot's
+// qualifications on that wing's skills are archived
+router.delete('/:id/wings/:wingId', authenticate, requirePermission('users:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id) || !isUUID(req.params.wingId)) {
+    return res.status(400).json({ error: 'Invalid pilot or wing ID' })
+  }
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const result = await client.query(
+      'DELETE FROM pilot_wings WHERE pilot_id = $1 AND wing_id = $2 RETURNING wing_id',
+      [req.params.id, req.params.wingId]
+    )
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'The pilot is not a secondary member of this wing' })
+    }
+    const archived = await archiveWingQualifications(client, req.params.id, req.params.wingId, req.user!)
+
+    await client.query('COMMIT')
+    res.json({ deleted: true, archived })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Remove wing membership error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
 export default router
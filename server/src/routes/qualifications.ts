@@ -1,9 +1,19 @@
 import { Router, Response } from 'express'
 import pool from '../db/pool'
-import { authenticate, requireRole, AuthRequest } from '../middleware/auth'
+import { authenticate, requirePermission, hasPermission, AuthRequest } from '../middleware/auth'
+import { scopeToWings, canSeeWing, visibleWings } from '../middleware/wingScope'
+import { writeQualification, deleteQualification, recordPerformed, currencySql, publishQualificationChanges, QualificationChange } from '../services/qualifications'
+import { findMissingPrerequisites } from '../services/prerequisites'
+import { evaluateReadiness, pilotCompletion } from '../services/readiness'
+import { loadSignoffAuthority, requiresSignoff, signoffDenial, submitSignoff } from '../services/signoffs'
+import { pilotBelongsToWing, pilotInWingSql } from '../services/transfers'
+import { OrgUnit, unitSubtree } from '../services/orgUnits'
 
 const router = Router()
 
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const isUUID = (v: string) => UUID_RE.test(v)
+
 // Sanitize a CSV field value to prevent formula injection
 function csvSafe(value: string): string {
   const s = String(value ?? '')
@@ -11,19 +21,35 @@ function csvSafe(value: string): string {
   return s.replace(/^[=+\-@\t\r]+/, '')
 }
 
-// GET /api/qualifications
-router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+// Parse an optional last_performed body field; undefined means "not given"
+function parseLastPerformed(value: unknown): Date | null | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  if (typeof value !== 'string') return null
+  const date = new Date(value)
+  if (isNaN(date.getTime()) || date.getTime() > Date.now() + 60_000) return null
+  return date
+}
+
+// GET /api/qualifications - limited to skills of the wings the caller may see
+router.get('/', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
   try {
     const pilotId = req.query.pilot_id as string
+    const currency = currencySql('q', 's')
+    const select = `
+      SELECT q.*, ${currency.state} as currency_state, ${currency.expiresAt} as currency_expires_at
+      FROM qualifications q
+      JOIN skills s ON q.skill_id = s.id
+      JOIN pilots p ON p.id = q.pilot_id AND p.archived_at IS NULL
+      WHERE ($1::uuid[] IS NULL OR s.wing_id = ANY($1))`
     let result
 
     if (pilotId) {
       result = await pool.query(
-        'SELECT * FROM qualifications WHERE pilot_id = $1 ORDER BY skill_id',
-        [pilotId]
+        `${select} AND q.pilot_id = $2 ORDER BY q.skill_id`,
+        [visibleWings(req), pilotId]
       )
     } else {
-      result = await pool.query('SELECT * FROM qualifications ORDER BY pilot_id, skill_id')
+      result = await pool.query(`${select} ORDER BY q.pilot_id, q.skill_id`, [visibleWings(req)])
     }
 
     res.json(result.rows)
@@ -33,9 +59,82 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   }
 })
 
+// GET /api/qualifications/history?pilot_id=&skill_id= - status change timeline for one cell
+router.get('/history', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  const pilotId = req.query.pilot_id as string
+  const skillId = req.query.skill_id as string | undefined
+
+  if (!pilotId || !isUUID(pilotId)) {
+    return res.status(400).json({ error: 'A valid pilot_id is required' })
+  }
+  if (skillId && !isUUID(skillId)) {
+    return res.status(400).json({ error: 'Invalid skill_id' })
+  }
+
+  try {
+    const params: any[] = [pilotId, visibleWings(req)]
+    let skillFilter = ''
+    if (skillId) {
+      params.push(skillId)
+      skillFilter = 'AND h.skill_id = $3'
+    }
+
+    const result = await pool.query(
+      `SELECT h.id, h.pilot_id, h.skill_id, s.name as skill_name, h.old_status, h.new_status,
+              h.changed_by, h.note, h.changed_at
+       FROM qualification_history h
+       JOIN skills s ON h.skill_id = s.id
+       WHERE h.pilot_id = $1 AND ($2::uuid[] IS NULL OR s.wing_id = ANY($2)) ${skillFilter}
+       ORDER BY h.changed_at DESC
+       LIMIT 200`,
+      params
+    )
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get qualification history error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// Why the caller may not touch a pilot's existing qualification on a skill,
+// with the status to answer, or null if they may. Same authority as PUT.
+async function qualificationDenial(req: AuthRequest, pilotId: string, skillId: string): Promise<{ status: number; error: string } | null> {
+  const pilotCheck = await pool.query('SELECT id FROM pilots WHERE id = $1 AND archived_at IS NULL', [pilotId])
+  if (pilotCheck.rows.length === 0) return { status: 404, error: 'Pilot not found' }
+  const skillCheck = await pool.query('SELECT id, wing_id FROM skills WHERE id = $1', [skillId])
+  if (skillCheck.rows.length === 0) return { status: 404, error: 'Skill not found' }
+  if (!(await pilotBelongsToWing(pool, pilotId, skillCheck.rows[0].wing_id))) {
+    return { status: 400, error: "Skill does not belong to the pilot's wing" }
+  }
+  const authority = await loadSignoffAuthority(req.user!)
+  const denial = signoffDenial(authority, req.user!, pilotId, skillCheck.rows[0])
+  return denial ? { status: 403, error: denial } : null
+}
+
+// GET /api/qualifications/authority - which qualifications the caller may sign off
+router.get('/authority', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const authority = await loadSignoffAuthority(req.user!)
+    res.json({
+      wing_wide: authority.wingWide,
+      ip_only: authority.ipOnly,
+      ip_skill_ids: authority.ipSkillIds,
+      pilot_id: authority.pilotId,
+    })
+  } catch (error) {
+    console.error('Get sign-off authority error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
 // PUT /api/qualifications
-router.put('/', authenticate, requireRole('instructor', 'admin'), async (req: AuthRequest, res: Response) => {
-  const { pilot_id, skill_id, status } = req.body
+// Promotions to FMQ/IP are refused with 409 while prerequisites are missing,
+// unless the caller re-sends with override: true (recorded in the history note).
+// Non-admin promotions to FMQ/IP open a sign-off request instead and answer 202.
+// Open to roles that write qualifications and to pilots holding IP on the skill.
+router.put('/', authenticate, async (req: AuthRequest, res: Response) => {
+  const { pilot_id, skill_id, status, note, override } = req.body
+  const lastPerformed = parseLastPerformed(req.body.last_performed)
 
   if (!pilot_id || !skill_id || !status) {
     return res.status(400).json({ error: 'pilot_id, skill_id, and status are required' })
@@ -46,115 +145,194 @@ router.put('/', authenticate, requireRole('instructor', 'admin'), async (req: Au
     return res.status(400).json({ error: `Status must be one of: ${validStatuses.join(', ')}` })
   }
 
+  if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 1000)) {
+    return res.status(400).json({ error: 'Note must be 1000 characters or fewer' })
+  }
+
+  if (lastPerformed === null) {
+    return res.status(400).json({ error: 'last_performed must be a valid date that is not in the future' })
+  }
+
+  const client = await pool.connect()
   try {
-    // Check if instructor is editing a pilot in their own wing
-    if (req.user!.role === 'instructor') {
-      const pilotCheck = await pool.query('SELECT wing_id FROM pilots WHERE id = $1', [pilot_id])
-      if (pilotCheck.rows.length === 0) {
-        return res.status(404).json({ error: 'Pilot not found' })
-      }
-      if (pilotCheck.rows[0].wing_id !== req.user!.wing_id) {
-        return res.status(403).json({ error: 'Instructors can only edit pilots in their own wing' })
-      }
+    const pilotCheck = await client.query('SELECT id FROM pilots WHERE id = $1 AND archived_at IS NULL', [pilot_id])
+    if (pilotCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Pilot not found' })
+    }
+    const skillCheck = await client.query('SELECT id, wing_id FROM skills WHERE id = $1 AND archived_at IS NULL', [skill_id])
+    if (skillCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Skill not found' })
+    }
+    if (!(await pilotBelongsToWing(client, pilot_id, skillCheck.rows[0].wing_id))) {
+      return res.status(400).json({ error: "Skill does not belong to the pilot's wing" })
+    }
 
-      const skillCheck = await pool.query('SELECT wing_id FROM skills WHERE id = $1', [skill_id])
-      if (skillCheck.rows.length === 0) {
-        return res.status(404).json({ error: 'Skill not found' })
-      }
-      if (skillCheck.rows[0].wing_id !== req.user!.wing_id) {
-        return res.status(403).json({ error: 'Skill does not belong to your wing' })
+    const authority = await loadSignoffAuthority(req.user!, client)
+    const denial = signoffDenial(authority, req.user!, pilot_id, skillCheck.rows[0])
+    if (denial) {
+      return res.status(403).json({ error: denial })
+    }
+
+    await client.query('BEGIN')
+
+    let historyNote: string | null = note?.trim() || null
+    if (status === 'FMQ' || status === 'IP') {
+      const missing = await findMissingPrerequisites(client, pilot_id, skill_id)
+      if (missing.length > 0) {
+        if (override !== true) {
+          await client.query('ROLLBACK')
+          return res.status(409).json({
+            error: `Missing prerequisites: ${missing.map(m => m.name).join(', ')}`,
+            missing_prerequisites: missing,
+          })
+        }
+        const overrideNote = `Prerequisites overridden: ${missing.map(m => m.name).join(', ')}`
+        historyNote = historyNote ? `${historyNote} (${overrideNote})` : overrideNote
       }
     }
 
-    const result = await pool.query(
-      `INSERT INTO qualifications (pilot_id, skill_id, status, last_updated, updated_by)
-       VALUES ($1, $2, $3, NOW(), $4)
-       ON CONFLICT (pilot_id, skill_id)
-       DO UPDATE SET status = $3, last_updated = NOW(), updated_by = $4
-       RETURNING *`,
-      [pilot_id, skill_id, status, req.user!.email]
+    const current = await client.query(
+      'SELECT status FROM qualifications WHERE pilot_id = $1 AND skill_id = $2',
+      [pilot_id, skill_id]
     )
+    if (requiresSignoff(hasPermission(req, 'qualifications:skip_signoff'), current.rows[0]?.status ?? null, status)) {
+      const signoffRequest = await submitSignoff(client, {
+        pilotId: pilot_id,
+        skillId: skill_id,
+        requestedStatus: status,
+        requestedBy: req.user!.email,
+        requestedByUserId: req.user!.id,
+        note: historyNote,
+      })
+      await client.query('COMMIT')
+      return res.status(202).json({ signoff_request: signoffRequest })
+    }
+
+    const { qualification, oldStatus } = await writeQualification(client, {
+      pilotId: pilot_id,
+      skillId: skill_id,
+      status,
+      changedBy: req.user!.email,
+      changedByUserId: req.user!.id,
+      note: historyNote,
+      lastPerformed,
+    })
+    await client.query('COMMIT')
+    publishQualificationChanges([{ pilotId: pilot_id, skillId: skill_id, oldStatus, newStatus: status, changedBy: req.user!.email }])
 
-    res.json(result.rows[0])
+    res.json(qualification)
   } catch (error) {
+    await client.query('ROLLBACK')
     console.error('Update qualification error:', error)
     res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
   }
 })
 
-// DELETE /api/qualifications
-router.delete('/', authenticate, requireRole('instructor', 'admin'), async (req: AuthRequest, res: Response) => {
+// POST /api/qualifications/performed - record that a pilot flew a skill, renewing its currency
+router.post('/performed', authenticate, requirePermission('qualifications:write'), async (req: AuthRequest, res: Response) => {
   const { pilot_id, skill_id } = req.body
+  const performedAt = req.body.performed_at ? parseLastPerformed(req.body.performed_at) : new Date()
 
-  if (!pilot_id || !skill_id) {
-    return res.status(400).json({ error: 'pilot_id and skill_id are required' })
+  if (!pilot_id || !skill_id || !isUUID(pilot_id) || !isUUID(skill_id)) {
+    return res.status(400).json({ error: 'Valid pilot_id and skill_id are required' })
+  }
+  if (!performedAt) {
+    return res.status(400).json({ error: 'performed_at must be a valid date that is not in the future' })
   }
 
+  const client = await pool.connect()
   try {
-    if (req.user!.role === 'instructor') {
-      const pilotCheck = await pool.query('SELECT wing_id FROM pilots WHERE id = $1', [pilot_id])
-      if (pilotCheck.rows.length === 0) {
-        return res.status(404).json({ error: 'Pilot not found' })
-      }
-      if (pilotCheck.rows[0].wing_id !== req.user!.wing_id) {
-        return res.status(403).json({ error: 'Instructors can only edit pilots in their own wing' })
-      }
+    const denial = await qualificationDenial(req, pilot_id, skill_id)
+    if (denial) {
+      return res.status(denial.status).json({ error: denial.error })
     }
 
-    const result = await pool.query(
-      'DELETE FROM qualifications WHERE pilot_id = $1 AND skill_id = $2 RETURNING *',
-      [pilot_id, skill_id]
-    )
+    await client.query('BEGIN')
+    const qualification = await recordPerformed(client, {
+      pilotId: pilot_id,
+      skillId: skill_id,
+      performedAt,
+      changedBy: req.user!.email,
+      changedByUserId: req.user!.id,
+    })
+    if (!qualification) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'No FMQ or IP qualification found for this pilot and skill' })
+    }
+    await client.query('COMMIT')
+
+    res.json(qualification)
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Record performed error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
 
-    if (result.rowCount === 0) {
+// DELETE /api/qualifications - clear a qualification; the history records the drop to NMQ
+router.delete('/', authenticate, requirePermission('qualifications:write'), async (req: AuthRequest, res: Response) => {
+  const { pilot_id, skill_id } = req.body
+
+  if (!pilot_id || !skill_id || !isUUID(pilot_id) || !isUUID(skill_id)) {
+    return res.status(400).json({ error: 'Valid pilot_id and skill_id are required' })
+  }
+
+  const client = await pool.connect()
+  try {
+    const denial = await qualificationDenial(req, pilot_id, skill_id)
+    if (denial) {
+      return res.status(denial.status).json({ error: denial.error })
+    }
+
+    await client.query('BEGIN')
+    const oldStatus = await deleteQualification(client, {
+      pilotId: pilot_id,
+      skillId: skill_id,
+      changedBy: req.user!.email,
+      changedByUserId: req.user!.id,
+    })
+    if (oldStatus === null) {
+      await client.query('ROLLBACK')
       return res.status(404).json({ error: 'Qualification not found' })
     }
+    await client.query('COMMIT')
+    publishQualificationChanges([{ pilotId: pilot_id, skillId: skill_id, oldStatus, newStatus: 'NMQ', changedBy: req.user!.email }])
 
     res.json({ deleted: true })
   } catch (error) {
+    await client.query('ROLLBACK')
     console.error('Delete qualification error:', error)
     res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
   }
 })
 
 // GET /api/qualifications/export
-router.get('/export', authenticate, requireRole('instructor', 'admin'), async (req: AuthRequest, res: Response) => {
-  try {
-    // Instructors are scoped to their own wing; admins may pass an optional wing_id
-    let wingId = req.query.wing_id as string | undefined
-    if (req.user!.role === 'instructor') {
-      wingId = req.user!.wing_id
-    }
+router.get('/export', authenticate, requirePermission('export:all'), scopeToWings, async (req: AuthRequest, res: Response) => {
+  const wingId = req.query.wing_id as string | undefined
+  if (wingId && !canSeeWing(req, wingId)) {
+    return res.status(403).json({ error: 'You do not have access to this wing' })
+  }
 
-    let query: string
-    let params: any[] = []
-
-    if (wingId) {
-      query = `
-        SELECT 
-          p.callsign, p.first_name, p.last_name, w.name as wing_name,
-          s.name as skill_name, s.category, q.status, q.last_updated, q.updated_by
-        FROM pilots p
-        JOIN wings w ON p.wing_id = w.id
-        CROSS JOIN skills s
-        LEFT JOIN qualifications q ON q.pilot_id = p.id AND q.skill_id = s.id
-        WHERE p.wing_id = $1 AND s.wing_id = $1
-        ORDER BY p.callsign, s.sort_order
-      `
-      params = [wingId]
-    } else {
-      query = `
-        SELECT 
-          p.callsign, p.first_name, p.last_name, w.name as wing_name,
-          s.name as skill_name, s.category, q.status, q.last_updated, q.updated_by
-        FROM pilots p
-        JOIN wings w ON p.wing_id = w.id
-        CROSS JOIN skills s
-        LEFT JOIN qualifications q ON q.pilot_id = p.id AND q.skill_id = s.id
-        WHERE s.wing_id = p.wing_id
-        ORDER BY w.name, p.callsign, s.sort_order
-      `
-    }
+  try {
+    const query = `
+      SELECT 
+        p.callsign, p.first_name, p.last_name, w.name as wing_name,
+        s.name as skill_name, s.category, q.status, q.last_updated, q.updated_by
+      FROM pilots p
+      CROSS JOIN skills s
+      JOIN wings w ON s.wing_id = w.id
+      LEFT JOIN qualifications q ON q.pilot_id = p.id AND q.skill_id = s.id
+      WHERE ${pilotInWingSql('p', 's.wing_id')} AND s.archived_at IS NULL AND p.archived_at IS NULL
+        AND ($1::uuid[] IS NULL OR s.wing_id = ANY($1))
+      ORDER BY w.name, p.callsign, s.sort_order
+    `
+    const params = [visibleWings(req, wingId)]
 
     const result = await pool.query(query, params)
 
@@ -186,7 +364,8 @@ router.get('/export', authenticate, requireRole('instructor', 'admin'), async (r
 })
 
 // POST /api/qualifications/bulk - bulk import qualifications from CSV data
-router.post('/bulk', authenticate, requireRole('instructor', 'admin'), async (req: AuthRequest, res: Response) => {
+// Each row is checked against the caller's sign-off authority, like PUT /
+router.post('/bulk', authenticate, async (req: AuthRequest, res: Response) => {
   const { records } = req.body
 
   if (!records || !Array.isArray(records) || records.length === 0) {
@@ -200,10 +379,14 @@ router.post('/bulk', authenticate, requireRole('instructor', 'admin'), async (re
   const validStatuses = ['NMQ', 'MQT', 'FMQ', 'IP']
   let imported = 0
   let skipped = 0
+  let requested = 0 // rows turned into sign-off requests
   const errors: string[] = []
+  const warnings: string[] = []
+  const changes: QualificationChange[] = []
 
   const client = await pool.connect()
   try {
+    const authority = await loadSignoffAuthority(req.user!, client)
     await client.query('BEGIN')
 
     for (let i = 0; i < records.length; i++) {
@@ -223,7 +406,7 @@ router.post('/bulk', authenticate, requireRole('instructor', 'admin'), async (re
       }
 
       const pilotResult = await client.query(
-        'SELECT id, wing_id FROM pilots WHERE callsign ILIKE $1',
+        'SELECT id FROM pilots WHERE callsign ILIKE $1 AND archived_at IS NULL',
         [callsign.trim()]
       )
       if (pilotResult.rows.length === 0) {
@@ -233,17 +416,14 @@ router.post('/bulk', authenticate, requireRole('instructor', 'admin'), async (re
       }
 
       const pilotId = pilotResult.rows[0].id
-      const pilotWingId = pilotResult.rows[0].wing_id
-
-      if (req.user!.role === 'instructor' && pilotWingId !== req.user!.wing_id) {
-        errors.push(`Row ${i + 1}: pilot "${callsign}" is not in your wing`)
-        skipped++
-        continue
-      }
 
+      // Skill names repeat across wings; prefer the pilot's primary wing, then their other wings
       const skillResult = await client.query(
-        'SELECT id, wing_id FROM skills WHERE name ILIKE $1',
-        [skill_name.trim()]
+        `SELECT s.id, s.wing_id FROM skills s JOIN pilots p ON p.id = $2
+         WHERE s.name ILIKE $1 AND s.archived_at IS NULL
+         ORDER BY s.wing_id = p.wing_id DESC, ${pilotInWingSql('p', 's.wing_id')} DESC
+         LIMIT 1`,
+        [skill_name.trim(), pilotId]
       )
       if (skillResult.rows.length === 0) {
         errors.push(`Row ${i + 1}: skill "${skill_name}" not found`)
@@ -254,30 +434,60 @@ router.post('/bulk', authenticate, requireRole('instructor', 'admin'), async (re
       const skillId = skillResult.rows[0].id
       const skillWingId = skillResult.rows[0].wing_id
 
-      if (skillWingId !== pilotWingId) {
+      if (!(await pilotBelongsToWing(client, pilotId, skillWingId))) {
         errors.push(`Row ${i + 1}: skill "${skill_name}" does not belong to pilot's wing`)
         skipped++
         continue
       }
 
-      if (req.user!.role === 'instructor' && skillWingId !== req.user!.wing_id) {
-        errors.push(`Row ${i + 1}: skill "${skill_name}" is not in your wing`)
+      const denial = signoffDenial(authority, req.user!, pilotId, skillResult.rows[0])
+      if (denial) {
+        errors.push(`Row ${i + 1}: ${denial} ("${callsign}", "${skill_name}")`)
         skipped++
         continue
       }
 
-      await client.query(
-        `INSERT INTO qualifications (pilot_id, skill_id, status, last_updated, updated_by)
-         VALUES ($1, $2, $3, NOW(), $4)
-         ON CONFLICT (pilot_id, skill_id)
-         DO UPDATE SET status = $3, last_updated = NOW(), updated_by = $4`,
-        [pilotId, skillId, status.toUpperCase(), req.user!.email]
+      // Imports are not blocked by prerequisites since rows may arrive in any order
+      const upperStatus = status.toUpperCase()
+      if (upperStatus === 'FMQ' || upperStatus === 'IP') {
+        const missing = await findMissingPrerequisites(client, pilotId, skillId)
+        if (missing.length > 0) {
+          warnings.push(`Row ${i + 1}: "${callsign}" is missing prerequisites for "${skill_name}": ${missing.map(m => m.name).join(', ')}`)
+        }
+      }
+
+      const current = await client.query(
+        'SELECT status FROM qualifications WHERE pilot_id = $1 AND skill_id = $2',
+        [pilotId, skillId]
       )
+      if (requiresSignoff(hasPermission(req, 'qualifications:skip_signoff'), current.rows[0]?.status ?? null, upperStatus)) {
+        await submitSignoff(client, {
+          pilotId,
+          skillId,
+          requestedStatus: upperStatus,
+          requestedBy: req.user!.email,
+          requestedByUserId: req.user!.id,
+          note: 'CSV import',
+        })
+        requested++
+        continue
+      }
+
+      const { oldStatus } = await writeQualification(client, {
+        pilotId,
+        skillId,
+        status: upperStatus,
+        changedBy: req.user!.email,
+        changedByUserId: req.user!.id,
+        note: 'CSV import',
+      })
+      changes.push({ pilotId, skillId, oldStatus, newStatus: upperStatus, changedBy: req.user!.email })
       imported++
     }
 
     await client.query('COMMIT')
-    res.json({ imported, skipped, errors: errors.slice(0, 20) })
+    publishQualificationChanges(changes)
+    res.json({ imported, skipped, requested, errors: errors.slice(0, 20), warnings: warnings.slice(0, 20) })
   } catch (error) {
     await client.query('ROLLBACK')
     console.error('Bulk import error:', error)
@@ -287,94 +497,74 @@ router.post('/bulk', authenticate, requireRole('instructor', 'admin'), async (re
   }
 })
 
-// GET /api/qualifications/stats
-router.get('/stats', authenticate, async (req: AuthRequest, res: Response) => {
+// GET /api/qualifications/stats?wing_id=&unit_id=&include_inactive= - readiness
+// within the caller's wings, optionally narrowed to one wing or to a unit and
+// the units beneath it. For a single wing, `units` rolls the same figures up
+// every unit's subtree. Pilots on the reserve, on leave or retired are left out
+// of every figure unless include_inactive=true; `inactive_pilots` counts them.
+router.get('/stats', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  const wingId = req.query.wing_id as string | undefined
+  const unitId = req.query.unit_id as string | undefined
+  const includeInactive = req.query.include_inactive === 'true'
+  if (wingId && !canSeeWing(req, wingId)) {
+    return res.status(403).json({ error: 'You do not have access to this wing' })
+  }
+  if (unitId && !isUUID(unitId)) {
+    return res.status(400).json({ error: 'Invalid unit_id' })
+  }
+
   try {
-    const wingId = req.query.wing_id as string
-
-    let totalPilotsQuery: string
-    let totalPilotsParams: any[] = []
-    let combatReadyQuery: string
-    let combatReadyParams: any[] = []
-    let completionQuery: string
-    let completionParams: any[] = []
-
-    if (wingId) {
-      totalPilotsQuery = 'SELECT COUNT(*) FROM pilots WHERE wing_id = $1'
-      totalPilotsParams = [wingId]
-
-      combatReadyQuery = `
-        SELECT COUNT(DISTINCT pilot_id) as combat_ready_pilots
-        FROM (
-          SELECT q.pilot_id, COUNT(*) as fmq_count
-          FROM qualifications q
-          JOIN pilots p ON q.pilot_id = p.id
-          WHERE q.status IN ('FMQ', 'IP') AND p.wing_id = $1
-          GROUP BY q.pilot_id
-          HAVING COUNT(*) >= 3
-        ) combat_ready
-      `
-      combatReadyParams = [wingId]
-
-      completionQuery = `
-        SELECT 
-          p.id,
-          COUNT(q.id) FILTER (WHERE q.status IN ('FMQ', 'IP')) as qualified_count,
-          COUNT(q.id) as total_qualifications,
-          (SELECT COUNT(*) FROM skills WHERE wing_id = $1) as total_skills
-        FROM pilots p
-        LEFT JOIN qualifications q ON p.id = q.pilot_id AND (SELECT wing_id FROM skills WHERE id = q.skill_id) = $1
-        WHERE p.wing_id = $1
-        GROUP BY p.id
-      `
-      completionParams = [wingId]
-    } else {
-      totalPilotsQuery = 'SELECT COUNT(*) FROM pilots'
-
-      combatReadyQuery = `
-        SELECT COUNT(DISTINCT pilot_id) as combat_ready_pilots
-        FROM (
-          SELECT pilot_id, COUNT(*) as fmq_count
-          FROM qualifications 
-          WHERE status IN ('FMQ', 'IP')
-          GROUP BY pilot_id
-          HAVING COUNT(*) >= 3
-        ) combat_ready
-      `
-
-      completionQuery = `
-        SELECT 
-          p.id,
-          COUNT(q.id) FILTER (WHERE q.status IN ('FMQ', 'IP')) as qualified_count,
-          COUNT(q.id) as total_qualifications,
-          (SELECT COUNT(*) FROM skills s WHERE s.wing_id = p.wing_id) as total_skills
-        FROM pilots p
-        LEFT JOIN qualifications q ON p.id = q.pilot_id
-        GROUP BY p.id, p.wing_id
-      `
+    let scopeWingId = wingId
+    if (unitId) {
+      const unit = await pool.query('SELECT wing_id FROM org_units WHERE id = $1', [unitId])
+      if (unit.rows.length === 0 || !canSeeWing(req, unit.rows[0].wing_id)) {
+        return res.status(404).json({ error: 'Unit not found' })
+      }
+      if (wingId && unit.rows[0].wing_id !== wingId) {
+        return res.status(400).json({ error: 'The unit belongs to another wing' })
+      }
+      scopeWingId = unit.rows[0].wing_id
     }
 
-    const [totalResult, combatResult, completionResult] = await Promise.all([
-      pool.query(totalPilotsQuery, totalPilotsParams),
-      pool.query(combatReadyQuery, combatReadyParams),
-      pool.query(completionQuery, completionParams),
-    ])
+    const wingIds = visibleWings(req, scopeWingId)
 
-    const totalPilots = parseInt(totalResult.rows[0].count)
-    const combatReadyPilots = parseInt(combatResult.rows[0].combat_ready_pilots)
+    // Combat readiness is evaluated against each wing's configured rules
+    const [readiness, pilots, unitsResult] = await Promise.all([
+      evaluateReadiness(wingIds),
+      pilotCompletion(wingIds),
+      scopeWingId
+        ? pool.query('SELECT id, wing_id, parent_id, name, kind FROM org_units WHERE wing_id = $1 ORDER BY name', [scopeWingId])
+        : Promise.resolve({ rows: [] as OrgUnit[] }),
+    ])
 
-    const avgCompletion = completionResult.rows.length > 0
-      ? completionResult.rows.reduce((sum, row) => {
-          const total = parseInt(row.total_qualifications) || parseInt(row.total_skills) || 1
-          return sum + (parseInt(row.qualified_count) / total) * 100
-        }, 0) / completionResult.rows.length
-      : 0
+    const summarize = (all: typeof pilots) => {
+      const group = includeInactive ? all : all.filter(p => p.active)
+      const combatReady = group.filter(p => readiness.combatReady.has(p.id)).length
+      return {
+        total_pilots: group.length,
+        inactive_pilots: all.filter(p => !p.active).length,
+        combat_ready_pilots: combatReady,
+        overall_readiness_percentage: group.length > 0 ? (combatReady / group.length) * 100 : 0,
+        average_completion_percentage: group.length > 0
+          ? group.reduce((sum, p) => sum + p.completion, 0) / group.length
+          : 0,
+      }
+    }
+    const inSubtree = (rootId: string) => {
+      const ids = unitSubtree(unitsResult.rows, rootId)
+      return pilots.filter(p => p.unit_id && ids.has(p.unit_id))
+    }
 
     res.json({
-      total_pilots: totalPilots,
-      combat_ready_pilots: combatReadyPilots,
-      overall_readiness_percentage: totalPilots > 0 ? (combatReadyPilots / totalPilots) * 100 : 0,
-      average_completion_percentage: avgCompletion,
+      ...summarize(unitId ? inSubtree(unitId) : pilots),
+      combat_ready_rule: readiness.ruleSummary,
+      units: unitsResult.rows.map(u => ({
+        id: u.id,
+        parent_id: u.parent_id,
+        name: u.name,
+        kind: u.kind,
+        ...summarize(inSubtree(u.id)),
+      })),
     })
   } catch (error) {
     console.error('Get stats error:', error)
@@ -382,21 +572,23 @@ router.get('/stats', authenticate, async (req: AuthRequest, res: Response) => {
   }
 })
 
-// POST /api/qualifications/backfill
-router.post('/backfill', authenticate, requireRole('admin'), async (req: AuthRequest, res: Response) => {
+// POST /api/qualifications/backfill - create missing NMQ rows (in the caller's own wing for wing-scoped roles)
+router.post('/backfill', authenticate, requirePermission('skills:manage'), async (req: AuthRequest, res: Response) => {
   try {
     const result = await pool.query(`
       INSERT INTO qualifications (pilot_id, skill_id, status, last_updated, updated_by)
       SELECT p.id, s.id, 'NMQ', NOW(), $1
       FROM pilots p
       CROSS JOIN skills s
-      WHERE s.wing_id = p.wing_id
+      WHERE ${pilotInWingSql('p', 's.wing_id')}
+        AND s.archived_at IS NULL AND p.archived_at IS NULL
+        AND (NOT $2::boolean OR s.wing_id = $3)
         AND NOT EXISTS (
           SELECT 1 FROM qualifications q 
           WHERE q.pilot_id = p.id AND q.skill_id = s.id
         )
       ON CONFLICT (pilot_id, skill_id) DO NOTHING
-    `, [req.user!.email])
+    `, [req.user!.email, req.user!.wing_scoped, req.user!.wing_id || null])
 
     res.json({ message: 'Backfill completed successfully', rowsInserted: result.rowCount })
   } catch (error) {
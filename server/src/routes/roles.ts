@@ -0,0 +1,166 @@
+import { Router, Response } from 'express'
+import pool from '../db/pool'
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth'
+import {
+  ADMIN_ROLE,
+  BUILTIN_ROLES,
+  PERMISSIONS,
+  ROLE_NAME_RE,
+  SITE_PERMISSIONS,
+  isPermission,
+  rolePermissions,
+} from '../services/permissions'
+
+const router = Router()
+
+interface RoleInput {
+  name: string
+  description: string | null
+  permissions: string[]
+  wing_scoped: boolean
+}
+
+function parseRoleInput(body: any): string | RoleInput {
+  const { name, description, permissions, wing_scoped } = body
+
+  if (typeof name !== 'string' || !ROLE_NAME_RE.test(name)) {
+    return 'Name must be 2-50 lowercase letters, digits, - or _, starting with a letter'
+  }
+  if (description !== undefined && description !== null && (typeof description !== 'string' || description.length > 255)) {
+    return 'Description must be 255 characters or fewer'
+  }
+  if (!Array.isArray(permissions) || !permissions.every(isPermission)) {
+    return `permissions must be a list of: ${Object.keys(PERMISSIONS).join(', ')}`
+  }
+  if (typeof wing_scoped !== 'boolean') return 'wing_scoped must be a boolean'
+  if (wing_scoped) {
+    const site = permissions.filter(p => SITE_PERMISSIONS.includes(p))
+    if (site.length > 0) return `A wing-scoped role cannot hold site-wide permissions: ${site.join(', ')}`
+  }
+
+  return {
+    name,
+    description: description?.trim() || null,
+    permissions: [...new Set<string>(permissions)],
+    wing_scoped,
+  }
+}
+
+const ROLE_COLUMNS = `
+  r.name, r.description, r.permissions, r.wing_scoped, r.created_at, r.updated_at,
+  (SELECT COUNT(*)::int FROM users u WHERE u.role = r.name) as user_count`
+
+// Effective permissions and the built-in flag, as clients display them
+const present = (row: any) => ({
+  ...row,
+  permissions: rolePermissions(row.name, row.permissions, row.wing_scoped),
+  builtin: BUILTIN_ROLES.includes(row.name),
+})
+
+// GET /api/roles - every role; readable by any signed-in user so forms can offer them
+router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await pool.query(`SELECT ${ROLE_COLUMNS} FROM roles r ORDER BY r.name`)
+    res.json(result.rows.map(present))
+  } catch (error) {
+    console.error('Get roles error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/roles/permissions - the permission catalog with descriptions
+router.get('/permissions', authenticate, (req: AuthRequest, res: Response) => {
+  res.json({
+    permissions: Object.entries(PERMISSIONS).map(([name, description]) => ({
+      name,
+      description,
+      site_wide: SITE_PERMISSIONS.includes(name as keyof typeof PERMISSIONS),
+    })),
+  })
+})
+
+// POST /api/roles - create a role
+router.post('/', authenticate, requirePermission('roles:manage'), async (req: AuthRequest, res: Response) => {
+  const input = parseRoleInput(req.body)
+  if (typeof input === 'string') {
+    return res.status(400).json({ error: input })
+  }
+
+  try {
+    await pool.query(
+      'INSERT INTO roles (name, description, permissions, wing_scoped) VALUES ($1, $2, $3, $4)',
+      [input.name, input.description, input.permissions, input.wing_scoped]
+    )
+    const result = await pool.query(`SELECT ${ROLE_COLUMNS} FROM roles r WHERE r.name = $1`, [input.name])
+    res.status(201).json(present(result.rows[0]))
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A role with this name already exists' })
+    }
+    console.error('Create role error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// PUT /api/roles/:name - rename a role or change its permissions and scoping.
+// Built-in roles keep their names, and admin cannot be edited at all. Only an
+// admin may edit the role they hold, so nobody can grant themselves permissions.
+router.put('/:name', authenticate, requirePermission('roles:manage'), async (req: AuthRequest, res: Response) => {
+  const current = req.params.name
+  if (current === ADMIN_ROLE) {
+    return res.status(400).json({ error: 'The admin role always holds every permission and cannot be edited' })
+  }
+  if (current === req.user!.role) {
+    return res.status(403).json({ error: 'You cannot edit the role you hold' })
+  }
+  const input = parseRoleInput(req.body)
+  if (typeof input === 'string') {
+    return res.status(400).json({ error: input })
+  }
+  if (BUILTIN_ROLES.includes(current) && input.name !== current) {
+    return res.status(400).json({ error: 'Built-in roles cannot be renamed' })
+  }
+
+  try {
+    // Users follow a rename through ON UPDATE CASCADE
+    const result = await pool.query(
+      `UPDATE roles SET name = $1, description = $2, permissions = $3, wing_scoped = $4, updated_at = NOW()
+       WHERE name = $5 RETURNING name`,
+      [input.name, input.description, input.permissions, input.wing_scoped, current]
+    )
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Role not found' })
+    }
+    const role = await pool.query(`SELECT ${ROLE_COLUMNS} FROM roles r WHERE r.name = $1`, [input.name])
+    res.json(present(role.rows[0]))
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A role with this name already exists' })
+    }
+    console.error('Update role error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// DELETE /api/roles/:name - remove a custom role nobody holds
+router.delete('/:name', authenticate, requirePermission('roles:manage'), async (req: AuthRequest, res: Response) => {
+  if (BUILTIN_ROLES.includes(req.params.name)) {
+    return res.status(400).json({ error: 'Built-in roles cannot be deleted' })
+  }
+
+  try {
+    const result = await pool.query('DELETE FROM roles WHERE name = $1 RETURNING name', [req.params.name])
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Role not found' })
+    }
+    res.json({ deleted: true })
+  } catch (error: any) {
+    if (error.code === '23503') {
+      return res.status(409).json({ error: 'Reassign the users holding this role before deleting it' })
+    }
+    console.error('Delete role error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+export default router
@@ -0,0 +1,329 @@
+import { Router, Response } from 'express'
+import { PoolClient } from 'pg'
+import pool from '../db/pool'
+import { authenticate, requirePermission, hasPermission, canActOnWing, AuthRequest } from '../middleware/auth'
+import { scopeToWings, canSeeWing, visibleWings } from '../middleware/wingScope'
+import { writeQualification, publishQualificationChanges } from '../services/qualifications'
+import { findMissingPrerequisites } from '../services/prerequisites'
+import { isQualifyingPromotion, loadSignoffAuthority, signoffDenial, submitSignoff } from '../services/signoffs'
+import { pilotInWingSql } from '../services/transfers'
+
+const router = Router()
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const isUUID = (v: string) => UUID_RE.test(v)
+
+const REQUEST_STATUSES = ['pending', 'approved', 'rejected', 'cancelled']
+
+const SIGNOFF_COLUMNS = `
+  r.*, p.callsign, s.name as skill_name, s.category, s.wing_id, w.name as wing_name,
+  q.status as current_status`
+
+const SIGNOFF_JOINS = `
+  FROM signoff_requests r
+  JOIN pilots p ON p.id = r.pilot_id
+  JOIN skills s ON s.id = r.skill_id
+  JOIN wings w ON w.id = s.wing_id
+  LEFT JOIN qualifications q ON q.pilot_id = r.pilot_id AND q.skill_id = r.skill_id`
+
+// Lock a request for review and check the reviewer may act on it.
+// Returns the request row, or an HTTP status and message to send back.
+async function lockForReview(client: PoolClient, req: AuthRequest): Promise<{ row?: any; ownPilotId?: string | null; status?: number; error?: string }> {
+  const result = await client.query(
+    `SELECT r.*, s.wing_id, p.callsign, s.name as skill_name
+     FROM signoff_requests r
+     JOIN pilots p ON p.id = r.pilot_id
+     JOIN skills s ON s.id = r.skill_id
+     WHERE r.id = $1
+     FOR UPDATE OF r`,
+    [req.params.id]
+  )
+  if (result.rows.length === 0) return { status: 404, error: 'Sign-off request not found' }
+
+  const row = result.rows[0]
+  if (row.status !== 'pending') return { status: 409, error: `Sign-off request is already ${row.status}` }
+  if (!canActOnWing(req, row.wing_id)) {
+    return { status: 403, error: 'You can only review sign-offs in your own wing' }
+  }
+  const authority = await loadSignoffAuthority(req.user!, client)
+  if (authority.ipOnly && !authority.ipSkillIds.includes(row.skill_id)) {
+    return { status: 403, error: 'You can only sign off skills you hold IP on' }
+  }
+  // Reviewing your own request is only allowed when you could have skipped sign-off anyway
+  if (row.requested_by_user_id === req.user!.id && !hasPermission(req, 'qualifications:skip_signoff')) {
+    return { status: 403, error: 'A sign-off must be reviewed by someone other than the requester' }
+  }
+  return { row, ownPilotId: authority.pilotId }
+}
+
+// GET /api/signoffs?status=pending&wing_id=&mine=true
+router.get('/', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  const status = (req.query.status as string) || 'pending'
+  const wingId = req.query.wing_id as string | undefined
+
+  if (status !== 'all' && !REQUEST_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `Status must be one of: all, ${REQUEST_STATUSES.join(', ')}` })
+  }
+  if (wingId && !isUUID(wingId)) {
+    return res.status(400).json({ error: 'Invalid wing_id' })
+  }
+  if (wingId && !canSeeWing(req, wingId)) {
+    return res.status(403).json({ error: 'You do not have access to this wing' })
+  }
+
+  try {
+    const params: any[] = [visibleWings(req, wingId)]
+    const conditions: string[] = ['($1::uuid[] IS NULL OR s.wing_id = ANY($1))']
+    if (status !== 'all') {
+      params.push(status)
+      conditions.push(`r.status = $${params.length}`)
+    }
+    if (req.query.mine === 'true') {
+      params.push(req.user!.id)
+      conditions.push(`(r.requested_by_user_id = $${params.length} OR p.user_id = $${params.length})`)
+    }
+
+    const result = await pool.query(
+      `SELECT ${SIGNOFF_COLUMNS}
+       ${SIGNOFF_JOINS}
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY r.created_at DESC
+       LIMIT 500`,
+      params
+    )
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get sign-offs error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/signoffs - request a sign-off to FMQ or IP
+// Open to anyone with sign-off authority over the pilot and skill (see signoffDenial).
+router.post('/', authenticate, async (req: AuthRequest, res: Response) => {
+  const { pilot_id, skill_id, requested_status, note, override } = req.body
+
+  if (!pilot_id || !isUUID(pilot_id) || !skill_id || !isUUID(skill_id)) {
+    return res.status(400).json({ error: 'Valid pilot_id and skill_id are required' })
+  }
+  if (requested_status !== 'FMQ' && requested_status !== 'IP') {
+    return res.status(400).json({ error: 'requested_status must be FMQ or IP' })
+  }
+  if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 1000)) {
+    return res.status(400).json({ error: 'Note must be 1000 characters or fewer' })
+  }
+
+  const client = await pool.connect()
+  try {
+    const target = await client.query(
+      `SELECT ${pilotInWingSql('p', 's.wing_id')} as in_wing, s.wing_id as skill_wing_id, q.status as current_status
+       FROM pilots p
+       CROSS JOIN skills s
+       LEFT JOIN qualifications q ON q.pilot_id = p.id AND q.skill_id = s.id
+       WHERE p.id = $1 AND s.id = $2 AND s.archived_at IS NULL AND p.archived_at IS NULL`,
+      [pilot_id, skill_id]
+    )
+    if (target.rows.length === 0) {
+      return res.status(404).json({ error: 'Pilot or skill not found' })
+    }
+    const { in_wing, skill_wing_id, current_status } = target.rows[0]
+    if (!in_wing) {
+      return res.status(400).json({ error: "Skill does not belong to the pilot's wing" })
+    }
+
+    const authority = await loadSignoffAuthority(req.user!, client)
+    const denial = signoffDenial(authority, req.user!, pilot_id, { id: skill_id, wing_id: skill_wing_id })
+    if (denial) {
+      return res.status(403).json({ error: denial })
+    }
+
+    if (!isQualifyingPromotion(current_status, requested_status)) {
+      return res.status(400).json({ error: `Pilot already holds ${current_status} on this skill` })
+    }
+
+    await client.query('BEGIN')
+
+    let requestNote: string | null = note?.trim() || null
+    const missing = await findMissingPrerequisites(client, pilot_id, skill_id)
+    if (missing.length > 0) {
+      if (override !== true) {
+        await client.query('ROLLBACK')
+        return res.status(409).json({
+          error: `Missing prerequisites: ${missing.map(m => m.name).join(', ')}`,
+          missing_prerequisites: missing,
+        })
+      }
+      const overrideNote = `Prerequisites overridden: ${missing.map(m => m.name).join(', ')}`
+      requestNote = requestNote ? `${requestNote} (${overrideNote})` : overrideNote
+    }
+
+    const request = await submitSignoff(client, {
+      pilotId: pilot_id,
+      skillId: skill_id,
+      requestedStatus: requested_status,
+      requestedBy: req.user!.email,
+      requestedByUserId: req.user!.id,
+      note: requestNote,
+    })
+    await client.query('COMMIT')
+
+    res.status(201).json(request)
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Create sign-off error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// POST /api/signoffs/:id/approve - apply the requested status
+router.post('/:id/approve', authenticate, requirePermission('qualifications:approve'), async (req: AuthRequest, res: Response) => {
+  const { comment } = req.body
+  if (!isUUID(req.params.id)) {
+    return res.status(400).json({ error: 'Invalid sign-off request ID' })
+  }
+  if (comment !== undefined && comment !== null && (typeof comment !== 'string' || comment.length > 1000)) {
+    return res.status(400).json({ error: 'Comment must be 1000 characters or fewer' })
+  }
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const { row, ownPilotId, status, error } = await lockForReview(client, req)
+    if (!row) {
+      await client.query('ROLLBACK')
+      return res.status(status!).json({ error })
+    }
+    if (row.pilot_id === ownPilotId) {
+      await client.query('ROLLBACK')
+      return res.status(403).json({ error: 'You cannot approve your own sign-off' })
+    }
+    // The qualification may have moved on since the request was made; never demote
+    const current = await client.query(
+      'SELECT status FROM qualifications WHERE pilot_id = $1 AND skill_id = $2 FOR UPDATE',
+      [row.pilot_id, row.skill_id]
+    )
+    const currentStatus = current.rows[0]?.status ?? null
+    if (!isQualifyingPromotion(currentStatus, row.requested_status)) {
+      await client.query('ROLLBACK')
+      return res.status(409).json({ error: `${row.callsign} already holds ${currentStatus} on ${row.skill_name}` })
+    }
+
+    const reviewComment = comment?.trim() || null
+    const parts = [`Signed off: requested by ${row.requested_by}, approved by ${req.user!.email}`]
+    if (row.note) parts.push(row.note)
+    if (reviewComment) parts.push(reviewComment)
+
+    const { qualification, oldStatus } = await writeQualification(client, {
+      pilotId: row.pilot_id,
+      skillId: row.skill_id,
+      status: row.requested_status,
+      changedBy: req.user!.email,
+      changedByUserId: req.user!.id,
+      note: parts.join(' - '),
+    })
+
+    const updated = await client.query(
+      `UPDATE signoff_requests
+       SET status = 'approved', reviewed_by = $1, reviewed_by_user_id = $2, review_comment = $3, reviewed_at = NOW()
+       WHERE id = $4 RETURNING *`,
+      [req.user!.email, req.user!.id, reviewComment, row.id]
+    )
+    await client.query('COMMIT')
+    publishQualificationChanges([{
+      pilotId: row.pilot_id,
+      skillId: row.skill_id,
+      oldStatus,
+      newStatus: row.requested_status,
+      changedBy: req.user!.email,
+    }])
+
+    res.json({ request: updated.rows[0], qualification })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Approve sign-off error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// POST /api/signoffs/:id/reject - close the request without changing the qualification
+router.post('/:id/reject', authenticate, requirePermission('qualifications:approve'), async (req: AuthRequest, res: Response) => {
+  const { comment } = req.body
+  if (!isUUID(req.params.id)) {
+    return res.status(400).json({ error: 'Invalid sign-off request ID' })
+  }
+  if (!comment || typeof comment !== 'string' || !comment.trim() || comment.length > 1000) {
+    return res.status(400).json({ error: 'A comment (max 1000 characters) is required when rejecting' })
+  }
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const { row, status, error } = await lockForReview(client, req)
+    if (!row) {
+      await client.query('ROLLBACK')
+      return res.status(status!).json({ error })
+    }
+
+    const updated = await client.query(
+      `UPDATE signoff_requests
+       SET status = 'rejected', reviewed_by = $1, reviewed_by_user_id = $2, review_comment = $3, reviewed_at = NOW()
+       WHERE id = $4 RETURNING *`,
+      [req.user!.email, req.user!.id, comment.trim(), row.id]
+    )
+    await client.query('COMMIT')
+
+    res.json({ request: updated.rows[0] })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Reject sign-off error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// DELETE /api/signoffs/:id - withdraw a pending request (requester or a reviewer for the wing)
+router.delete('/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) {
+    return res.status(400).json({ error: 'Invalid sign-off request ID' })
+  }
+
+  try {
+    const existing = await pool.query(
+      `SELECT r.requested_by_user_id, r.status, s.wing_id
+       FROM signoff_requests r
+       JOIN skills s ON s.id = r.skill_id
+       WHERE r.id = $1`,
+      [req.params.id]
+    )
+    if (existing.rows.length === 0) {
+      return res.status(404).json({ error: 'Sign-off request not found' })
+    }
+    const { requested_by_user_id, wing_id } = existing.rows[0]
+    const isReviewer = hasPermission(req, 'qualifications:approve') && canActOnWing(req, wing_id)
+    if (!isReviewer && requested_by_user_id !== req.user!.id) {
+      return res.status(403).json({ error: 'Only the requester or a reviewer can withdraw a sign-off request' })
+    }
+
+    const result = await pool.query(
+      `UPDATE signoff_requests SET status = 'cancelled', reviewed_by = $1, reviewed_by_user_id = $2, reviewed_at = NOW()
+       WHERE id = $3 AND status = 'pending' RETURNING *`,
+      [req.user!.email, req.user!.id, req.params.id]
+    )
+    if (result.rows.length === 0) {
+      return res.status(409).json({ error: `Sign-off request is already ${existing.rows[0].status}` })
+    }
+    res.json(result.rows[0])
+  } catch (error) {
+    console.error('Cancel sign-off error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+export default router
@@ -1,23 +1,25 @@
 import { Router, Response } from 'express'
 import pool from '../db/pool'
 import { authenticate, AuthRequest } from '../middleware/auth'
+import { scopeToWings, canSeeWing, visibleWings } from '../middleware/wingScope'
 
 const router = Router()
 
-// GET /api/skills - optionally filter by wing_id
-router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+// GET /api/skills - optionally filter by wing_id, always within the caller's wings
+router.get('/', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  const wingId = req.query.wing_id as string | undefined
+  if (wingId && !canSeeWing(req, wingId)) {
+    return res.status(403).json({ error: 'You do not have access to this wing' })
+  }
+
   try {
-    const wingId = req.query.wing_id as string
-    if (wingId) {
-      const result = await pool.query(
-        'SELECT * FROM skills WHERE wing_id = $1 ORDER BY sort_order, name',
-        [wingId]
-      )
-      res.json(result.rows)
-    } else {
-      const result = await pool.query('SELECT * FROM skills ORDER BY wing_id, sort_order, name')
-      res.json(result.rows)
-    }
+    const result = await pool.query(
+      `SELECT * FROM skills
+       WHERE archived_at IS NULL AND ($1::uuid[] IS NULL OR wing_id = ANY($1))
+       ORDER BY wing_id, sort_order, name`,
+      [visibleWings(req, wingId)]
+    )
+    res.json(result.rows)
   } catch (error) {
     console.error('Get skills error:', error)
     res.status(500).json({ error: 'Internal server error' })
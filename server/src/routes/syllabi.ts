@@ -0,0 +1,255 @@
+import { Router, Response } from 'express'
+import pool from '../db/pool'
+import { authenticate, requirePermission, hasPermission, canActOnWing, AuthRequest } from '../middleware/auth'
+import { scopeToWings, canSeeWing } from '../middleware/wingScope'
+import {
+  SyllabusContent,
+  applySyllabus,
+  captureWingSyllabus,
+  parseSyllabusFile,
+  parseSyllabusMeta,
+  toSyllabusFile,
+} from '../services/syllabi'
+
+const router = Router()
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const isUUID = (v: string) => UUID_RE.test(v)
+
+// The list leaves out content but counts what is in it
+const SUMMARY_COLUMNS = `
+  t.id, t.name, t.airframe, t.description, t.version, t.source_wing_id, w.name as source_wing_name,
+  t.created_by, t.created_at, t.updated_at,
+  jsonb_array_length(t.content->'categories') as category_count,
+  jsonb_array_length(t.content->'skills') as skill_count`
+
+// Templates are shared by every wing; wing-scoped roles may only change the ones they made
+const canChangeTemplate = (req: AuthRequest, template: { created_by_user_id: string | null }) =>
+  !req.user!.wing_scoped || template.created_by_user_id === req.user!.id
+
+async function loadTemplate(id: string) {
+  const result = await pool.query('SELECT * FROM syllabus_templates WHERE id = $1', [id])
+  return result.rows[0] || null
+}
+
+async function loadSummary(id: string) {
+  const result = await pool.query(
+    `SELECT ${SUMMARY_COLUMNS} FROM syllabus_templates t LEFT JOIN wings w ON w.id = t.source_wing_id WHERE t.id = $1`,
+    [id]
+  )
+  return result.rows[0]
+}
+
+// Load a wing whose syllabus is being captured, checking the caller may see it
+async function loadSourceWing(req: AuthRequest, wingId: unknown): Promise<string | { id: string; content: SyllabusContent }> {
+  if (typeof wingId !== 'string' || !isUUID(wingId)) return 'A valid wing_id is required'
+  if (!canSeeWing(req, wingId)) return 'You do not have access to this wing'
+  const content = await captureWingSyllabus(pool, wingId)
+  if (content.skills.length === 0) return 'The wing has no skills to make a template from'
+  return { id: wingId, content }
+}
+
+// GET /api/syllabi - every template, without its content
+router.get('/', authenticate, async (_req: AuthRequest, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT ${SUMMARY_COLUMNS} FROM syllabus_templates t
+       LEFT JOIN wings w ON w.id = t.source_wing_id
+       ORDER BY t.airframe NULLS LAST, t.name`
+    )
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get syllabus templates error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/syllabi/:id - a template with its categories and skills
+router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid template ID' })
+
+  try {
+    const template = await loadTemplate(req.params.id)
+    if (!template) return res.status(404).json({ error: 'Syllabus template not found' })
+    const summary = await loadSummary(req.params.id)
+    res.json({ ...summary, content: template.content })
+  } catch (error) {
+    console.error('Get syllabus template error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/syllabi/:id/export - the template as a file for POST /api/syllabi/import
+router.get('/:id/export', authenticate, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid template ID' })
+
+  try {
+    const template = await loadTemplate(req.params.id)
+    if (!template) return res.status(404).json({ error: 'Syllabus template not found' })
+
+    const filename = `${template.name.replace(/[^A-Za-z0-9_-]+/g, '_')}_v${template.version}.json`
+    res.setHeader('Content-Disposition', `attachment; filename=${filename}`)
+    res.json(toSyllabusFile(template))
+  } catch (error) {
+    console.error('Export syllabus template error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/syllabi - make a template from a wing's current skills { name, airframe, description, wing_id }
+router.post('/', authenticate, requirePermission('skills:manage'), scopeToWings, async (req: AuthRequest, res: Response) => {
+  const meta = parseSyllabusMeta(req.body)
+  if (typeof meta === 'string') return res.status(400).json({ error: meta })
+
+  try {
+    const source = await loadSourceWing(req, req.body.wing_id)
+    if (typeof source === 'string') return res.status(400).json({ error: source })
+
+    const result = await pool.query(
+      `INSERT INTO syllabus_templates (name, airframe, description, content, source_wing_id, created_by, created_by_user_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
+      [meta.name, meta.airframe, meta.description, source.content, source.id, req.user!.email, req.user!.id]
+    )
+    res.status(201).json(await loadSummary(result.rows[0].id))
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A syllabus template with this name already exists' })
+    }
+    console.error('Create syllabus template error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/syllabi/import?replace=true - add a template from an exported file.
+// With replace, a template of the same name takes the file's content as a new version.
+router.post('/import', authenticate, requirePermission('skills:manage'), async (req: AuthRequest, res: Response) => {
+  const parsed = parseSyllabusFile(req.body)
+  if (typeof parsed === 'string') return res.status(400).json({ error: parsed })
+  const { meta, version, content } = parsed
+
+  try {
+    const existing = await pool.query('SELECT * FROM syllabus_templates WHERE lower(name) = lower($1)', [meta.name])
+    if (existing.rows.length > 0) {
+      const template = existing.rows[0]
+      if (req.query.replace !== 'true') {
+        return res.status(409).json({ error: `A syllabus template named "${template.name}" already exists` })
+      }
+      if (!canChangeTemplate(req, template)) {
+        return res.status(403).json({ error: 'You can only replace syllabus templates you created' })
+      }
+      // Never go back in version, even when the file is older than what is here
+      await pool.query(
+        `UPDATE syllabus_templates SET airframe = $1, description = $2, content = $3, version = GREATEST($4, version + 1), updated_at = NOW()
+         WHERE id = $5`,
+        [meta.airframe, meta.description, content, version, template.id]
+      )
+      return res.json(await loadSummary(template.id))
+    }
+
+    const result = await pool.query(
+      `INSERT INTO syllabus_templates (name, airframe, description, version, content, created_by, created_by_user_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
+      [meta.name, meta.airframe, meta.description, version, content, req.user!.email, req.user!.id]
+    )
+    res.status(201).json(await loadSummary(result.rows[0].id))
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A syllabus template with this name already exists' })
+    }
+    console.error('Import syllabus template error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// PUT /api/syllabi/:id - rename or redescribe a template; with wing_id, replace its
+// content with that wing's current skills as a new version
+router.put('/:id', authenticate, requirePermission('skills:manage'), scopeToWings, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid template ID' })
+  const meta = parseSyllabusMeta(req.body)
+  if (typeof meta === 'string') return res.status(400).json({ error: meta })
+
+  try {
+    const template = await loadTemplate(req.params.id)
+    if (!template) return res.status(404).json({ error: 'Syllabus template not found' })
+    if (!canChangeTemplate(req, template)) {
+      return res.status(403).json({ error: 'You can only change syllabus templates you created' })
+    }
+
+    if (req.body.wing_id !== undefined && req.body.wing_id !== null) {
+      const source = await loadSourceWing(req, req.body.wing_id)
+      if (typeof source === 'string') return res.status(400).json({ error: source })
+      await pool.query(
+        `UPDATE syllabus_templates SET name = $1, airframe = $2, description = $3, content = $4, source_wing_id = $5,
+           version = version + 1, updated_at = NOW()
+         WHERE id = $6`,
+        [meta.name, meta.airframe, meta.description, source.content, source.id, template.id]
+      )
+    } else {
+      await pool.query(
+        'UPDATE syllabus_templates SET name = $1, airframe = $2, description = $3, updated_at = NOW() WHERE id = $4',
+        [meta.name, meta.airframe, meta.description, template.id]
+      )
+    }
+    res.json(await loadSummary(template.id))
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A syllabus template with this name already exists' })
+    }
+    console.error('Update syllabus template error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// DELETE /api/syllabi/:id - wings the template was applied to keep their skills
+router.delete('/:id', authenticate, requirePermission('skills:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid template ID' })
+
+  try {
+    const template = await loadTemplate(req.params.id)
+    if (!template) return res.status(404).json({ error: 'Syllabus template not found' })
+    if (!canChangeTemplate(req, template)) {
+      return res.status(403).json({ error: 'You can only delete syllabus templates you created' })
+    }
+    await pool.query('DELETE FROM syllabus_templates WHERE id = $1', [template.id])
+    res.json({ deleted: true })
+  } catch (error) {
+    console.error('Delete syllabus template error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/syllabi/:id/apply { wing_id } - add the template's categories and skills to a wing
+router.post('/:id/apply', authenticate, requirePermission('skills:manage'), async (req: AuthRequest, res: Response) => {
+  const { wing_id } = req.body
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid template ID' })
+  if (typeof wing_id !== 'string' || !isUUID(wing_id)) return res.status(400).json({ error: 'A valid wing_id is required' })
+  if (!hasPermission(req, 'categories:manage')) {
+    return res.status(403).json({ error: 'Applying a template also needs permission to manage categories' })
+  }
+  if (!canActOnWing(req, wing_id)) {
+    return res.status(403).json({ error: 'You can only apply templates to your own wing' })
+  }
+
+  const client = await pool.connect()
+  try {
+    const [template, wing] = await Promise.all([
+      loadTemplate(req.params.id),
+      pool.query('SELECT id FROM wings WHERE id = $1', [wing_id]),
+    ])
+    if (!template) return res.status(404).json({ error: 'Syllabus template not found' })
+    if (wing.rows.length === 0) return res.status(404).json({ error: 'Wing not found' })
+
+    await client.query('BEGIN')
+    const result = await applySyllabus(client, wing_id, template.content, req.user!.email)
+    await client.query('COMMIT')
+    res.json({ template_id: template.id, version: template.version, ...result })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Apply syllabus template error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+export default router
@@ -0,0 +1,161 @@
+import { Router, Response } from 'express'
+import pool from '../db/pool'
+import { authenticate, requirePermission, canActOnWing, AuthRequest } from '../middleware/auth'
+import { scopeToWings, canSeeWing, visibleWings } from '../middleware/wingScope'
+import { UNIT_KINDS, UnitKind, wouldCreateUnitCycle } from '../services/orgUnits'
+
+const router = Router()
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const isUUID = (v: string) => UUID_RE.test(v)
+
+// pilot_count only counts pilots assigned directly to the unit
+const UNIT_COLUMNS = `
+  o.id, o.wing_id, o.parent_id, o.name, o.kind, o.created_at, o.updated_at,
+  (SELECT COUNT(*)::int FROM pilots p WHERE p.unit_id = o.id AND p.archived_at IS NULL) as pilot_count`
+
+interface UnitInput {
+  name: string
+  kind: UnitKind
+  parent_id: string | null
+}
+
+function parseUnitInput(body: any): string | UnitInput {
+  const { name, kind, parent_id } = body
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+    return 'Name is required (max 100 characters)'
+  }
+  if (!UNIT_KINDS.includes(kind)) return `kind must be one of: ${UNIT_KINDS.join(', ')}`
+  if (parent_id !== undefined && parent_id !== null && (typeof parent_id !== 'string' || !isUUID(parent_id))) {
+    return 'parent_id must be a unit ID or null for a top-level unit'
+  }
+  return { name: name.trim(), kind, parent_id: parent_id || null }
+}
+
+// The parent must be a unit of the same wing
+async function checkParent(wingId: string, parentId: string | null): Promise<string | null> {
+  if (!parentId) return null
+  const parent = await pool.query('SELECT wing_id FROM org_units WHERE id = $1', [parentId])
+  if (parent.rows.length === 0) return 'Parent unit not found'
+  if (parent.rows[0].wing_id !== wingId) return 'The parent unit belongs to another wing'
+  return null
+}
+
+async function loadUnit(id: string) {
+  const result = await pool.query(`SELECT ${UNIT_COLUMNS} FROM org_units o WHERE o.id = $1`, [id])
+  return result.rows[0] || null
+}
+
+// GET /api/units?wing_id= - every unit in the caller's wings, as a flat list with parent_id
+router.get('/', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
+  const wingId = req.query.wing_id as string | undefined
+  if (wingId && !isUUID(wingId)) return res.status(400).json({ error: 'Invalid wing_id' })
+  if (wingId && !canSeeWing(req, wingId)) {
+    return res.status(403).json({ error: 'You do not have access to this wing' })
+  }
+
+  try {
+    const result = await pool.query(
+      `SELECT ${UNIT_COLUMNS} FROM org_units o
+       WHERE ($1::uuid[] IS NULL OR o.wing_id = ANY($1))
+       ORDER BY o.wing_id, o.name`,
+      [visibleWings(req, wingId)]
+    )
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get units error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/units - add a squadron or flight to a wing
+router.post('/', authenticate, requirePermission('wings:manage'), async (req: AuthRequest, res: Response) => {
+  const { wing_id } = req.body
+  if (typeof wing_id !== 'string' || !isUUID(wing_id)) {
+    return res.status(400).json({ error: 'A valid wing_id is required' })
+  }
+  if (!canActOnWing(req, wing_id)) {
+    return res.status(403).json({ error: 'Your role can only manage your own wing' })
+  }
+  const input = parseUnitInput(req.body)
+  if (typeof input === 'string') return res.status(400).json({ error: input })
+
+  try {
+    const parentError = await checkParent(wing_id, input.parent_id)
+    if (parentError) return res.status(400).json({ error: parentError })
+
+    const result = await pool.query(
+      'INSERT INTO org_units (wing_id, parent_id, name, kind) VALUES ($1, $2, $3, $4) RETURNING id',
+      [wing_id, input.parent_id, input.name, input.kind]
+    )
+    res.status(201).json(await loadUnit(result.rows[0].id))
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A unit with this name already exists at this level' })
+    }
+    if (error.code === '23503') {
+      return res.status(400).json({ error: 'Wing not found' })
+    }
+    console.error('Create unit error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// PUT /api/units/:id - rename, change kind or move a unit within its wing
+router.put('/:id', authenticate, requirePermission('wings:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid unit ID' })
+  const input = parseUnitInput(req.body)
+  if (typeof input === 'string') return res.status(400).json({ error: input })
+
+  try {
+    const existing = await loadUnit(req.params.id)
+    if (!existing) return res.status(404).json({ error: 'Unit not found' })
+    if (!canActOnWing(req, existing.wing_id)) {
+      return res.status(403).json({ error: 'Your role can only manage your own wing' })
+    }
+
+    const parentError = await checkParent(existing.wing_id, input.parent_id)
+    if (parentError) return res.status(400).json({ error: parentError })
+    if (input.parent_id && await wouldCreateUnitCycle(pool, req.params.id, input.parent_id)) {
+      return res.status(400).json({ error: 'A unit cannot be moved beneath itself' })
+    }
+
+    await pool.query(
+      'UPDATE org_units SET name = $1, kind = $2, parent_id = $3, updated_at = NOW() WHERE id = $4',
+      [input.name, input.kind, input.parent_id, req.params.id]
+    )
+    res.json(await loadUnit(req.params.id))
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A unit with this name already exists at this level' })
+    }
+    console.error('Update unit error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// DELETE /api/units/:id - remove a unit without sub-units; its pilots become unassigned
+router.delete('/:id', authenticate, requirePermission('wings:manage'), async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid unit ID' })
+
+  try {
+    const existing = await loadUnit(req.params.id)
+    if (!existing) return res.status(404).json({ error: 'Unit not found' })
+    if (!canActOnWing(req, existing.wing_id)) {
+      return res.status(403).json({ error: 'Your role can only manage your own wing' })
+    }
+
+    const children = await pool.query('SELECT 1 FROM org_units WHERE parent_id = $1 LIMIT 1', [req.params.id])
+    if (children.rows.length > 0) {
+      return res.status(409).json({ error: 'Delete or move the units beneath this one first' })
+    }
+
+    await pool.query('DELETE FROM org_units WHERE id = $1', [req.params.id])
+    res.json({ deleted: true })
+  } catch (error) {
+    console.error('Delete unit error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+export default router
@@ -0,0 +1,263 @@
+import { Router, Response } from 'express'
+import pool from '../db/pool'
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth'
+import { enqueuePing, isHttpUrl, newWebhookSecret, WEBHOOK_EVENTS, WEBHOOK_MAX_ATTEMPTS } from '../services/webhooks'
+
+const router = Router()
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const isUUID = (v: string) => UUID_RE.test(v)
+
+const DELIVERY_STATUSES = ['pending', 'delivered', 'failed']
+const MAX_PAGE_SIZE = 100
+
+// The secret is only returned when a subscription is created or its secret rotated
+const SUBSCRIPTION_COLUMNS = `
+  s.id, s.name, s.url, s.events, s.wing_id, w.name as wing_name, s.enabled, s.created_by, s.created_at, s.updated_at,
+  (SELECT COUNT(*)::int FROM webhook_deliveries d WHERE d.subscription_id = s.id AND d.status = 'pending') as pending_count,
+  (SELECT COUNT(*)::int FROM webhook_deliveries d WHERE d.subscription_id = s.id AND d.status = 'failed') as failed_count`
+
+interface SubscriptionInput {
+  name: string
+  url: string
+  events: string[]
+  wing_id: string | null
+  enabled: boolean
+}
+
+function parseSubscriptionInput(body: any): string | SubscriptionInput {
+  const { name, url, events, wing_id, enabled } = body
+
+  if (!name || typeof name !== 'string' || !name.trim() || name.length > 100) {
+    return 'Name is required (max 100 characters)'
+  }
+  if (!isHttpUrl(url)) {
+    return 'url must be an http(s) URL of at most 500 characters'
+  }
+  if (!Array.isArray(events) || events.length === 0 || !events.every(e => WEBHOOK_EVENTS.includes(e))) {
+    return `events must list at least one of: ${WEBHOOK_EVENTS.join(', ')}`
+  }
+  if (wing_id !== undefined && wing_id !== null && (typeof wing_id !== 'string' || !isUUID(wing_id))) {
+    return 'wing_id must be a wing ID or null for every wing'
+  }
+  if (enabled !== undefined && typeof enabled !== 'boolean') return 'enabled must be a boolean'
+
+  return {
+    name: name.trim(),
+    url,
+    events: [...new Set<string>(events)],
+    wing_id: wing_id || null,
+    enabled: enabled ?? true,
+  }
+}
+
+router.use(authenticate, requirePermission('webhooks:manage'))
+
+async function loadSubscription(id: string) {
+  const result = await pool.query(
+    `SELECT ${SUBSCRIPTION_COLUMNS}
+     FROM webhook_subscriptions s
+     LEFT JOIN wings w ON w.id = s.wing_id
+     WHERE s.id = $1`,
+    [id]
+  )
+  return result.rows[0] || null
+}
+
+// GET /api/webhooks - every subscription with its queue counts
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT ${SUBSCRIPTION_COLUMNS}
+       FROM webhook_subscriptions s
+       LEFT JOIN wings w ON w.id = s.wing_id
+       ORDER BY s.name, s.created_at`
+    )
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get webhooks error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/webhooks/events - the event types a subscription can follow
+router.get('/events', (req: AuthRequest, res: Response) => {
+  res.json({ events: WEBHOOK_EVENTS, max_attempts: WEBHOOK_MAX_ATTEMPTS })
+})
+
+// POST /api/webhooks - register a subscription; the response carries its signing secret
+router.post('/', async (req: AuthRequest, res: Response) => {
+  const input = parseSubscriptionInput(req.body)
+  if (typeof input === 'string') {
+    return res.status(400).json({ error: input })
+  }
+
+  try {
+    const result = await pool.query(
+      `INSERT INTO webhook_subscriptions (name, url, secret, events, wing_id, enabled, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id, secret`,
+      [input.name, input.url, newWebhookSecret(), input.events, input.wing_id, input.enabled, req.user!.email]
+    )
+    const subscription = await loadSubscription(result.rows[0].id)
+    res.status(201).json({ ...subscription, secret: result.rows[0].secret })
+  } catch (error: any) {
+    if (error.code === '23503') {
+      return res.status(400).json({ error: 'Wing not found' })
+    }
+    console.error('Create webhook error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/webhooks/deliveries?subscription_id=&status=&limit=&offset=
+// The delivery log, newest first; X-Total-Count carries the unpaginated total
+router.get('/deliveries', async (req: AuthRequest, res: Response) => {
+  const subscriptionId = req.query.subscription_id as string | undefined
+  const status = req.query.status as string | undefined
+  if (subscriptionId && !isUUID(subscriptionId)) {
+    return res.status(400).json({ error: 'Invalid subscription_id' })
+  }
+  if (status && !DELIVERY_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `Status must be one of: ${DELIVERY_STATUSES.join(', ')}` })
+  }
+
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : 50
+  const offset = req.query.offset !== undefined ? Number(req.query.offset) : 0
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return res.status(400).json({ error: `limit must be a whole number between 1 and ${MAX_PAGE_SIZE}` })
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return res.status(400).json({ error: 'offset must be a whole number of 0 or more' })
+  }
+
+  const conditions: string[] = []
+  const params: unknown[] = []
+  if (subscriptionId) {
+    params.push(subscriptionId)
+    conditions.push(`d.subscription_id = $${params.length}`)
+  }
+  if (status) {
+    params.push(status)
+    conditions.push(`d.status = $${params.length}`)
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+  try {
+    const [result, countResult] = await Promise.all([
+      pool.query(
+        `SELECT d.id, d.subscription_id, s.name as subscription_name, d.event_type, d.payload, d.status,
+           d.attempts, d.next_attempt_at, d.last_attempt_at, d.last_response_status, d.last_error,
+           d.delivered_at, d.created_at
+         FROM webhook_deliveries d
+         JOIN webhook_subscriptions s ON s.id = d.subscription_id
+         ${where}
+         ORDER BY d.created_at DESC, d.id
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      ),
+      pool.query(`SELECT COUNT(*)::int as total FROM webhook_deliveries d ${where}`, params),
+    ])
+    res.setHeader('X-Total-Count', String(countResult.rows[0].total))
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get webhook deliveries error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/webhooks/deliveries/:id/retry - queue a failed or pending delivery for an immediate attempt
+router.post('/deliveries/:id/retry', async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid delivery ID' })
+  try {
+    // A failed delivery gets a fresh set of attempts
+    const result = await pool.query(
+      `UPDATE webhook_deliveries
+       SET status = 'pending', next_attempt_at = NOW(),
+         attempts = CASE WHEN status = 'failed' THEN 0 ELSE attempts END
+       WHERE id = $1 AND status <> 'delivered'
+       RETURNING id, status, attempts, next_attempt_at`,
+      [req.params.id]
+    )
+    if (result.rows.length === 0) {
+      const exists = await pool.query('SELECT 1 FROM webhook_deliveries WHERE id = $1', [req.params.id])
+      if (exists.rows.length === 0) return res.status(404).json({ error: 'Delivery not found' })
+      return res.status(409).json({ error: 'This delivery has already been delivered' })
+    }
+    res.json(result.rows[0])
+  } catch (error) {
+    console.error('Retry webhook delivery error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// PUT /api/webhooks/:id - replace a subscription's name, URL, events, wing and enabled flag
+router.put('/:id', async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid webhook ID' })
+  const input = parseSubscriptionInput(req.body)
+  if (typeof input === 'string') {
+    return res.status(400).json({ error: input })
+  }
+
+  try {
+    const result = await pool.query(
+      `UPDATE webhook_subscriptions
+       SET name = $1, url = $2, events = $3, wing_id = $4, enabled = $5, updated_at = NOW()
+       WHERE id = $6
+       RETURNING id`,
+      [input.name, input.url, input.events, input.wing_id, input.enabled, req.params.id]
+    )
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Webhook not found' })
+    res.json(await loadSubscription(req.params.id))
+  } catch (error: any) {
+    if (error.code === '23503') {
+      return res.status(400).json({ error: 'Wing not found' })
+    }
+    console.error('Update webhook error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// DELETE /api/webhooks/:id - remove a subscription along with its delivery log
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid webhook ID' })
+  try {
+    const result = await pool.query('DELETE FROM webhook_subscriptions WHERE id = $1 RETURNING id', [req.params.id])
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Webhook not found' })
+    res.json({ message: 'Webhook deleted' })
+  } catch (error) {
+    console.error('Delete webhook error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/webhooks/:id/rotate-secret - issue a new signing secret; the old one stops working at once
+router.post('/:id/rotate-secret', async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid webhook ID' })
+  try {
+    const result = await pool.query(
+      'UPDATE webhook_subscriptions SET secret = $1, updated_at = NOW() WHERE id = $2 RETURNING id, secret',
+      [newWebhookSecret(), req.params.id]
+    )
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Webhook not found' })
+    res.json(result.rows[0])
+  } catch (error) {
+    console.error('Rotate webhook secret error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/webhooks/:id/test - queue a signed ping; the outcome shows up in the delivery log
+router.post('/:id/test', async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid webhook ID' })
+  try {
+    const exists = await pool.query('SELECT 1 FROM webhook_subscriptions WHERE id = $1', [req.params.id])
+    if (exists.rows.length === 0) return res.status(404).json({ error: 'Webhook not found' })
+    res.status(202).json(await enqueuePing(req.params.id))
+  } catch (error) {
+    console.error('Test webhook error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+export default router
@@ -1,13 +1,35 @@
 import { Router, Response } from 'express'
 import pool from '../db/pool'
-import { authenticate, requireRole, AuthRequest } from '../middleware/auth'
+import { authenticate, requirePermission, requireOwnWing, AuthRequest } from '../middleware/auth'
+import { scopeToWings, requireWingAccess, visibleWings } from '../middleware/wingScope'
+import { wouldCreateCycle } from '../services/prerequisites'
+import { DEFAULT_RULES, RULE_TYPES, ruleSkillIdsSql } from '../services/readiness'
+import {
+  NOTIFICATION_EVENT_TYPES,
+  TEMPLATE_FIELDS,
+  getWebhookConfig,
+  isDiscordWebhookUrl,
+  sendTestMessage,
+  withDefaultEvents,
+} from '../services/notifications'
+import { enqueueWebhookEvent } from '../services/webhooks'
+import { applySyllabus } from '../services/syllabi'
+import { applyRevision, archiveSkill, parseRevisionInput, planRevision } from '../services/syllabusVersions'
+import { archiveCategory } from '../services/archive'
+import { pilotInWingSql } from '../services/transfers'
 
 const router = Router()
 
-// GET /api/wings - list all wings
-router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const isUUID = (v: string) => UUID_RE.test(v)
+
+// GET /api/wings - list the wings the caller may see
+router.get('/', authenticate, scopeToWings, async (req: AuthRequest, res: Response) => {
   try {
-    const result = await pool.query('SELECT * FROM wings ORDER BY name')
+    const result = await pool.query(
+      'SELECT * FROM wings WHERE archived_at IS NULL AND ($1::uuid[] IS NULL OR id = ANY($1)) ORDER BY name',
+      [visibleWings(req)]
+    )
     res.json(result.rows)
   } catch (error) {
     console.error('Get wings error:', error)
@@ -16,15 +38,15 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
 })
 
 // GET /api/wings/:id - get a single wing with its skills
-router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/:id', authenticate, scopeToWings, requireWingAccess, async (req: AuthRequest, res: Response) => {
   try {
-    const wingResult = await pool.query('SELECT * FROM wings WHERE id = $1', [req.params.id])
+    const wingResult = await pool.query('SELECT * FROM wings WHERE id = $1 AND archived_at IS NULL', [req.params.id])
     if (wingResult.rows.length === 0) {
       return res.status(404).json({ error: 'Wing not found' })
     }
 
     const skillsResult = await pool.query(
-      'SELECT * FROM skills WHERE wing_id = $1 ORDER BY sort_order, name',
+      'SELECT * FROM skills WHERE wing_id = $1 AND archived_at IS NULL ORDER BY sort_order, name',
       [req.params.id]
     )
 
@@ -38,31 +60,56 @@ router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   }
 })
 
-// POST /api/wings - create a new wing
-router.post('/', authenticate, requireRole('admin'), async (req: AuthRequest, res: Response) => {
-  const { name } = req.body
+// POST /api/wings - create a new wing, optionally starting from a syllabus template { name, template_id }
+router.post('/', authenticate, requirePermission('wings:manage'), async (req: AuthRequest, res: Response) => {
+  const { name, template_id } = req.body
+
+  if (req.user!.wing_scoped) {
+    return res.status(403).json({ error: 'Wing-scoped roles cannot create wings' })
+  }
 
   if (!name || !name.trim()) {
     return res.status(400).json({ error: 'Wing name is required' })
   }
+  if (template_id !== undefined && template_id !== null && (typeof template_id !== 'string' || !isUUID(template_id))) {
+    return res.status(400).json({ error: 'template_id must be a syllabus template ID' })
+  }
 
+  const client = await pool.connect()
   try {
-    const result = await pool.query(
+    let template = null
+    if (template_id) {
+      const templateResult = await client.query('SELECT content FROM syllabus_templates WHERE id = $1', [template_id])
+      if (templateResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Syllabus template not found' })
+      }
+      template = templateResult.rows[0]
+    }
+
+    await client.query('BEGIN')
+    const result = await client.query(
       'INSERT INTO wings (name) VALUES ($1) RETURNING *',
       [name.trim()]
     )
+    if (template) {
+      await applySyllabus(client, result.rows[0].id, template.content, req.user!.email)
+    }
+    await client.query('COMMIT')
     res.status(201).json(result.rows[0])
   } catch (error: any) {
+    await client.query('ROLLBACK')
     if (error.code === '23505') {
-      return res.status(409).json({ error: 'A wing with this name already exists' })
+      return res.status(409).json({ error: 'A wing with this name already exists (check the Archive)' })
     }
     console.error('Create wing error:', error)
     res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
   }
 })
 
 // PUT /api/wings/:id - update a wing
-router.put('/:id', authenticate, requireRole('admin'), async (req: AuthRequest, res: Response) => {
+router.put('/:id', authenticate, requirePermission('wings:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
   const { name } = req.body
 
   if (!name || !name.trim()) {
@@ -71,7 +118,10 @@ router.put('/:id', authenticate, requireRole('admin'), async (req: AuthRequest,
 
   try {
     const result = await pool.query(
-      'UPDATE wings SET name = $1, updated_at = NOW() WHERE id = $2 RETURNING *',
+      `UPDATE wings w SET name = $1, updated_at = NOW()
+       FROM (SELECT id, name FROM wings WHERE id = $2) old
+       WHERE w.id = old.id
+       RETURNING w.*, old.name as old_name`,
       [name.trim(), req.params.id]
     )
 
@@ -79,7 +129,11 @@ router.put('/:id', authenticate, requireRole('admin'), async (req: AuthRequest,
       return res.status(404).json({ error: 'Wing not found' })
     }
 
-    res.json(result.rows[0])
+    const { old_name, ...wing } = result.rows[0]
+    if (old_name !== wing.name) {
+      await enqueueWebhookEvent('wing.renamed', { id: wing.id, old_name, name: wing.name }, wing.id)
+    }
+    res.json(wing)
   } catch (error: any) {
     if (error.code === '23505') {
       return res.status(409).json({ error: 'A wing with this name already exists' })
@@ -89,21 +143,27 @@ router.put('/:id', authenticate, requireRole('admin'), async (req: AuthRequest,
   }
 })
 
-// DELETE /api/wings/:id - delete a wing
-router.delete('/:id', authenticate, requireRole('admin'), async (req: AuthRequest, res: Response) => {
+// DELETE /api/wings/:id - archive a wing; the Archive view restores it or deletes it for good
+router.delete('/:id', authenticate, requirePermission('wings:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
   try {
-    // Check if wing has pilots
-    const pilotCheck = await pool.query('SELECT COUNT(*) FROM pilots WHERE wing_id = $1', [req.params.id])
+    // Check if wing has pilots, as primary or secondary members
+    const pilotCheck = await pool.query(
+      `SELECT COUNT(*) FROM pilots p WHERE p.archived_at IS NULL AND ${pilotInWingSql('p', '$1')}`,
+      [req.params.id]
+    )
     if (parseInt(pilotCheck.rows[0].count) > 0) {
       return res.status(400).json({ error: 'Cannot delete a wing that has pilots assigned to it' })
     }
 
-    const result = await pool.query('DELETE FROM wings WHERE id = $1 RETURNING id', [req.params.id])
+    const result = await pool.query(
+      'UPDATE wings SET archived_at = NOW(), archived_by = $2, updated_at = NOW() WHERE id = $1 AND archived_at IS NULL RETURNING id',
+      [req.params.id, req.user!.email]
+    )
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'Wing not found' })
     }
 
-    res.json({ deleted: true })
+    res.json({ deleted: true, archived: true })
   } catch (error) {
     console.error('Delete wing error:', error)
     res.status(500).json({ error: 'Internal server error' })
@@ -111,7 +171,7 @@ router.delete('/:id', authenticate, requireRole('admin'), async (req: AuthReques
 })
 
 // GET /api/wings/:id/category-colors - get category colors for a wing (legacy, returns map)
-router.get('/:id/category-colors', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/:id/category-colors', authenticate, scopeToWings, requireWingAccess, async (req: AuthRequest, res: Response) => {
   try {
     const result = await pool.query(
       'SELECT category, color FROM category_colors WHERE wing_id = $1 ORDER BY sort_order, category',
@@ -130,11 +190,11 @@ router.get('/:id/category-colors', authenticate, async (req: AuthRequest, res: R
 })
 
 // GET /api/wings/:id/categories - get all categories with colors and order for a wing
-router.get('/:id/categories', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/:id/categories', authenticate, scopeToWings, requireWingAccess, async (req: AuthRequest, res: Response) => {
   try {
     // Get all distinct categories from skills for this wing
     const skillsQuery = await pool.query(
-      'SELECT DISTINCT category FROM skills WHERE wing_id = $1',
+      'SELECT DISTINCT category FROM skills WHERE wing_id = $1 AND archived_at IS NULL',
       [req.params.id]
     )
 
@@ -178,7 +238,7 @@ router.get('/:id/categories', authenticate, async (req: AuthRequest, res: Respon
 })
 
 // PUT /api/wings/:id/category-colors - set a category color for a wing
-router.put('/:id/category-colors', authenticate, requireRole('instructor', 'admin'), async (req: AuthRequest, res: Response) => {
+router.put('/:id/category-colors', authenticate, requirePermission('categories:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
   const { category, color } = req.body
 
   if (!category || !color) {
@@ -191,11 +251,6 @@ router.put('/:id/category-colors', authenticate, requireRole('instructor', 'admi
   }
 
   try {
-    // Check instructor wing scope
-    if (req.user!.role === 'instructor' && req.params.id !== req.user!.wing_id) {
-      return res.status(403).json({ error: 'Instructors can only manage categories in their own wing' })
-    }
-
     await pool.query(
       `INSERT INTO category_colors (wing_id, category, color)
        VALUES ($1, $2, $3)
@@ -211,7 +266,7 @@ router.put('/:id/category-colors', authenticate, requireRole('instructor', 'admi
 })
 
 // POST /api/wings/:id/categories - create a new category for a wing
-router.post('/:id/categories', authenticate, requireRole('instructor', 'admin'), async (req: AuthRequest, res: Response) => {
+router.post('/:id/categories', authenticate, requirePermission('categories:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
   const { category, color } = req.body
 
   if (!category || !category.trim()) {
@@ -228,11 +283,6 @@ router.post('/:id/categories', authenticate, requireRole('instructor', 'admin'),
   }
 
   try {
-    // Check instructor wing scope
-    if (req.user!.role === 'instructor' && req.params.id !== req.user!.wing_id) {
-      return res.status(403).json({ error: 'Instructors can only manage categories in their own wing' })
-    }
-
     // Get the next sort_order
     const maxResult = await pool.query(
       'SELECT COALESCE(MAX(sort_order), -1) + 1 as next_order FROM category_colors WHERE wing_id = $1',
@@ -251,7 +301,14 @@ router.post('/:id/categories', authenticate, requireRole('instructor', 'admin'),
     res.status(201).json(result.rows[0])
   } catch (error: any) {
     if (error.code === '23505') {
-      return res.status(409).json({ error: 'A category with this name already exists for this wing' })
+      const archived = await pool.query(
+        'SELECT 1 FROM category_colors WHERE wing_id = $1 AND category = $2 AND archived_at IS NOT NULL',
+        [req.params.id, category.trim()]
+      )
+      const message = archived.rows.length > 0
+        ? 'This category is archived; restore it from the Archive instead'
+        : 'A category with this name already exists for this wing'
+      return res.status(409).json({ error: message })
     }
     console.error('Create category error:', error)
     res.status(500).json({ error: 'Internal server error' })
@@ -259,7 +316,7 @@ router.post('/:id/categories', authenticate, requireRole('instructor', 'admin'),
 })
 
 // PUT /api/wings/:id/categories/reorder - reorder categories for a wing
-router.put('/:id/categories/reorder', authenticate, requireRole('instructor', 'admin'), async (req: AuthRequest, res: Response) => {
+router.put('/:id/categories/reorder', authenticate, requirePermission('categories:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
   const { categoryOrder } = req.body
 
   if (!categoryOrder || !Array.isArray(categoryOrder) || categoryOrder.length === 0) {
@@ -267,11 +324,6 @@ router.put('/:id/categories/reorder', authenticate, requireRole('instructor', 'a
   }
 
   try {
-    // Check instructor wing scope
-    if (req.user!.role === 'instructor' && req.params.id !== req.user!.wing_id) {
-      return res.status(403).json({ error: 'Instructors can only manage categories in their own wing' })
-    }
-
     // Update or insert sort_order for each category
     for (let i = 0; i < categoryOrder.length; i++) {
       const categoryName = categoryOrder[i]
@@ -291,47 +343,75 @@ router.put('/:id/categories/reorder', authenticate, requireRole('instructor', 'a
   }
 })
 
-// DELETE /api/wings/:id/categories/:category - delete category color and sort order
-router.delete('/:id/categories/:category', authenticate, requireRole('instructor', 'admin'), async (req: AuthRequest, res: Response) => {
+// DELETE /api/wings/:id/categories/:category - archive a category and every skill in it;
+// pilots' statuses on those skills move to the archive until the category is restored
+router.delete('/:id/categories/:category', authenticate, requirePermission('categories:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
   const { category } = req.params
 
   if (!category) {
     return res.status(400).json({ error: 'category is required' })
   }
 
+  const client = await pool.connect()
   try {
-    // Check instructor wing scope
-    if (req.user!.role === 'instructor' && req.params.id !== req.user!.wing_id) {
-      return res.status(403).json({ error: 'Instructors can only manage categories in their own wing' })
-    }
-
-    // Delete the category color entry (resets color to default and sort_order to 0)
-    await pool.query(
-      'DELETE FROM category_colors WHERE wing_id = $1 AND category = $2',
+    await client.query('BEGIN')
+    const existing = await client.query(
+      `SELECT 1 FROM skills WHERE wing_id = $1 AND category = $2 AND archived_at IS NULL
+       UNION ALL
+       SELECT 1 FROM category_colors WHERE wing_id = $1 AND category = $2 AND archived_at IS NULL`,
       [req.params.id, category]
     )
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Category not found' })
+    }
 
-    res.json({ deleted: true })
+    const archived = await archiveCategory(client, req.params.id, category, req.user!)
+    await client.query('COMMIT')
+    res.json({ deleted: true, archived_skills: archived })
   } catch (error) {
+    await client.query('ROLLBACK')
     console.error('Delete category error:', error)
     res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
   }
 })
 
+// Whether a category of the wing is archived; skills cannot be added to it until it is restored
+async function isArchivedCategory(wingId: string, category: string) {
+  const result = await pool.query(
+    'SELECT 1 FROM category_colors WHERE wing_id = $1 AND category = $2 AND archived_at IS NOT NULL',
+    [wingId, category]
+  )
+  return result.rows.length > 0
+}
+
+// currency_days is optional: null/empty clears it, otherwise a whole number of days
+const isValidCurrencyDays = (v: unknown) =>
+  v === undefined || v === null || v === '' || (Number.isInteger(v) && (v as number) > 0 && (v as number) <= 3650)
+
 // POST /api/wings/:id/skills - add a skill to a wing
-router.post('/:id/skills', authenticate, requireRole('admin'), async (req: AuthRequest, res: Response) => {
-  const { name, category, sort_order } = req.body
+router.post('/:id/skills', authenticate, requirePermission('skills:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
+  const { name, category, sort_order, currency_days } = req.body
 
   if (!name || !category) {
     return res.status(400).json({ error: 'Skill name and category are required' })
   }
 
+  if (!isValidCurrencyDays(currency_days)) {
+    return res.status(400).json({ error: 'currency_days must be a whole number between 1 and 3650' })
+  }
+
   try {
     // Verify wing exists
-    const wingCheck = await pool.query('SELECT id FROM wings WHERE id = $1', [req.params.id])
+    const wingCheck = await pool.query('SELECT id FROM wings WHERE id = $1 AND archived_at IS NULL', [req.params.id])
     if (wingCheck.rows.length === 0) {
       return res.status(404).json({ error: 'Wing not found' })
     }
+    if (await isArchivedCategory(req.params.id, category.trim())) {
+      return res.status(400).json({ error: 'This category is archived; restore it from the Archive first' })
+    }
 
     // Get max sort_order for this wing if not provided
     let order = sort_order
@@ -344,9 +424,10 @@ router.post('/:id/skills', authenticate, requireRole('admin'), async (req: AuthR
     }
 
     const result = await pool.query(
-      'INSERT INTO skills (wing_id, name, category, sort_order) VALUES ($1, $2, $3, $4) RETURNING *',
-      [req.params.id, name.trim(), category.trim(), order]
+      'INSERT INTO skills (wing_id, name, category, sort_order, currency_days) VALUES ($1, $2, $3, $4, $5) RETURNING *',
+      [req.params.id, name.trim(), category.trim(), order, currency_days || null]
     )
+    await enqueueWebhookEvent('skill.created', result.rows[0], req.params.id)
 
     res.status(201).json(result.rows[0])
   } catch (error) {
@@ -357,7 +438,7 @@ router.post('/:id/skills', authenticate, requireRole('admin'), async (req: AuthR
 
 // PUT /api/wings/:id/skills/reorder - bulk reorder skills
 // NOTE: This must be defined BEFORE /:id/skills/:skillId to avoid Express matching "reorder" as a skillId
-router.put('/:id/skills/reorder', authenticate, requireRole('admin'), async (req: AuthRequest, res: Response) => {
+router.put('/:id/skills/reorder', authenticate, requirePermission('skills:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
   const { skill_ids } = req.body
 
   if (!Array.isArray(skill_ids) || skill_ids.length === 0) {
@@ -370,7 +451,7 @@ router.put('/:id/skills/reorder', authenticate, requireRole('admin'), async (req
 
     // Verify all skills belong to this wing
     const check = await client.query(
-      'SELECT id FROM skills WHERE wing_id = $1 AND id = ANY($2)',
+      'SELECT id FROM skills WHERE wing_id = $1 AND archived_at IS NULL AND id = ANY($2)',
       [req.params.id, skill_ids]
     )
     if (check.rows.length !== skill_ids.length) {
@@ -390,7 +471,7 @@ router.put('/:id/skills/reorder', authenticate, requireRole('admin'), async (req
 
     // Return updated skills
     const result = await client.query(
-      'SELECT * FROM skills WHERE wing_id = $1 ORDER BY sort_order, name',
+      'SELECT * FROM skills WHERE wing_id = $1 AND archived_at IS NULL ORDER BY sort_order, name',
       [req.params.id]
     )
 
@@ -405,8 +486,12 @@ router.put('/:id/skills/reorder', authenticate, requireRole('admin'), async (req
 })
 
 // PUT /api/wings/:id/skills/:skillId - update a skill
-router.put('/:id/skills/:skillId', authenticate, requireRole('admin'), async (req: AuthRequest, res: Response) => {
-  const { name, category, sort_order } = req.body
+router.put('/:id/skills/:skillId', authenticate, requirePermission('skills:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
+  const { name, category, sort_order, currency_days } = req.body
+
+  if (!isValidCurrencyDays(currency_days)) {
+    return res.status(400).json({ error: 'currency_days must be a whole number between 1 and 3650' })
+  }
 
   try {
     const updates: string[] = []
@@ -416,16 +501,20 @@ router.put('/:id/skills/:skillId', authenticate, requireRole('admin'), async (re
     if (name) { updates.push(`name = $${paramIndex++}`); values.push(name.trim()) }
     if (category) { updates.push(`category = $${paramIndex++}`); values.push(category.trim()) }
     if (sort_order !== undefined) { updates.push(`sort_order = $${paramIndex++}`); values.push(sort_order) }
+    if (currency_days !== undefined) { updates.push(`currency_days = $${paramIndex++}`); values.push(currency_days || null) }
 
     if (updates.length === 0) {
       return res.status(400).json({ error: 'No fields to update' })
     }
+    if (category && await isArchivedCategory(req.params.id, category.trim())) {
+      return res.status(400).json({ error: 'This category is archived; restore it from the Archive first' })
+    }
 
     values.push(req.params.skillId)
     values.push(req.params.id)
 
     const result = await pool.query(
-      `UPDATE skills SET ${updates.join(', ')} WHERE id = $${paramIndex++} AND wing_id = $${paramIndex} RETURNING *`,
+      `UPDATE skills SET ${updates.join(', ')} WHERE id = $${paramIndex++} AND wing_id = $${paramIndex} AND archived_at IS NULL RETURNING *`,
       values
     )
 
@@ -440,21 +529,438 @@ router.put('/:id/skills/:skillId', authenticate, requireRole('admin'), async (re
   }
 })
 
-// DELETE /api/wings/:id/skills/:skillId - delete a skill
-router.delete('/:id/skills/:skillId', authenticate, requireRole('admin'), async (req: AuthRequest, res: Response) => {
+// DELETE /api/wings/:id/skills/:skillId - retire a skill. Its qualifications move to the
+// archive and its history stays; use a syllabus revision to carry statuses onto other skills.
+router.delete('/:id/skills/:skillId', authenticate, requirePermission('skills:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.skillId)) return res.status(400).json({ error: 'Invalid skill ID' })
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const skill = await client.query(
+      'SELECT id FROM skills WHERE id = $1 AND wing_id = $2 AND archived_at IS NULL FOR UPDATE',
+      [req.params.skillId, req.params.id]
+    )
+    if (skill.rows.length === 0) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Skill not found' })
+    }
+
+    const archived = await archiveSkill(client, req.params.skillId, req.user!)
+    await client.query('COMMIT')
+    res.json({ deleted: true, archived_qualifications: archived })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Delete skill error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// GET /api/wings/:id/syllabus-revisions - the wing's syllabus versions, newest first
+router.get('/:id/syllabus-revisions', authenticate, scopeToWings, requireWingAccess, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await pool.query(
+      'SELECT * FROM syllabus_revisions WHERE wing_id = $1 ORDER BY version DESC',
+      [req.params.id]
+    )
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get syllabus revisions error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/wings/:id/syllabus-revisions/preview - what a revision would do to each pilot { mappings }
+router.post('/:id/syllabus-revisions/preview', authenticate, requirePermission('skills:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
+  const input = parseRevisionInput(req.body)
+  if (typeof input === 'string') return res.status(400).json({ error: input })
+
+  try {
+    const plan = await planRevision(pool, req.params.id, input.mappings)
+    if (typeof plan === 'string') return res.status(400).json({ error: plan })
+    res.json(plan)
+  } catch (error) {
+    console.error('Preview syllabus revision error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/wings/:id/syllabus-revisions - retire skills as the wing's next syllabus version,
+// carrying pilots' statuses onto the skills that replace them { mappings, note }
+router.post('/:id/syllabus-revisions', authenticate, requirePermission('skills:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
+  const input = parseRevisionInput(req.body)
+  if (typeof input === 'string') return res.status(400).json({ error: input })
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const plan = await planRevision(client, req.params.id, input.mappings)
+    if (typeof plan === 'string') {
+      await client.query('ROLLBACK')
+      return res.status(400).json({ error: plan })
+    }
+
+    const revision = await applyRevision(client, plan, input.mappings, req.user!, input.note)
+    if (!revision) {
+      await client.query('ROLLBACK')
+      return res.status(409).json({ error: 'The syllabus was revised by someone else; preview again' })
+    }
+    await client.query('COMMIT')
+    res.status(201).json(revision)
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Apply syllabus revision error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// GET /api/wings/:id/prerequisites - every prerequisite edge between this wing's skills
+router.get('/:id/prerequisites', authenticate, scopeToWings, requireWingAccess, async (req: AuthRequest, res: Response) => {
   try {
     const result = await pool.query(
-      'DELETE FROM skills WHERE id = $1 AND wing_id = $2 RETURNING id',
+      `SELECT sp.skill_id, sp.prerequisite_id
+       FROM skill_prerequisites sp
+       JOIN skills s ON s.id = sp.skill_id AND s.archived_at IS NULL
+       JOIN skills p ON p.id = sp.prerequisite_id AND p.archived_at IS NULL
+       WHERE s.wing_id = $1`,
+      [req.params.id]
+    )
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get wing prerequisites error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/wings/:id/skills/:skillId/prerequisites - list a skill's prerequisites
+router.get('/:id/skills/:skillId/prerequisites', authenticate, scopeToWings, requireWingAccess, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.skillId)) return res.status(400).json({ error: 'Invalid skill ID' })
+
+  try {
+    const result = await pool.query(
+      `SELECT p.*
+       FROM skill_prerequisites sp
+       JOIN skills s ON s.id = sp.skill_id
+       JOIN skills p ON p.id = sp.prerequisite_id
+       WHERE sp.skill_id = $1 AND s.wing_id = $2 AND p.archived_at IS NULL
+       ORDER BY p.sort_order, p.name`,
       [req.params.skillId, req.params.id]
     )
+    res.json(result.rows)
+  } catch (error) {
+    console.error('Get skill prerequisites error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/wings/:id/skills/:skillId/prerequisites - add a prerequisite to a skill
+router.post('/:id/skills/:skillId/prerequisites', authenticate, requirePermission('skills:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
+  const { prerequisite_id } = req.body
+  const { id: wingId, skillId } = req.params
+
+  if (!isUUID(skillId)) return res.status(400).json({ error: 'Invalid skill ID' })
+  if (!prerequisite_id || typeof prerequisite_id !== 'string' || !isUUID(prerequisite_id)) {
+    return res.status(400).json({ error: 'A valid prerequisite_id is required' })
+  }
+  if (prerequisite_id === skillId) {
+    return res.status(400).json({ error: 'A skill cannot be its own prerequisite' })
+  }
 
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const check = await client.query(
+      'SELECT id FROM skills WHERE wing_id = $1 AND archived_at IS NULL AND id = ANY($2)',
+      [wingId, [skillId, prerequisite_id]]
+    )
+    if (check.rows.length !== 2) {
+      await client.query('ROLLBACK')
+      return res.status(404).json({ error: 'Both skills must exist and belong to this wing' })
+    }
+
+    if (await wouldCreateCycle(client, skillId, prerequisite_id)) {
+      await client.query('ROLLBACK')
+      return res.status(400).json({ error: 'This prerequisite would create a circular dependency' })
+    }
+
+    await client.query(
+      'INSERT INTO skill_prerequisites (skill_id, prerequisite_id) VALUES ($1, $2)',
+      [skillId, prerequisite_id]
+    )
+    await client.query('COMMIT')
+
+    res.status(201).json({ skill_id: skillId, prerequisite_id })
+  } catch (error: any) {
+    await client.query('ROLLBACK')
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'Prerequisite already exists' })
+    }
+    console.error('Add prerequisite error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+// DELETE /api/wings/:id/skills/:skillId/prerequisites/:prerequisiteId - remove a prerequisite
+router.delete('/:id/skills/:skillId/prerequisites/:prerequisiteId', authenticate, requirePermission('skills:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.skillId)) return res.status(400).json({ error: 'Invalid skill ID' })
+  if (!isUUID(req.params.prerequisiteId)) return res.status(400).json({ error: 'Invalid prerequisite ID' })
+
+  try {
+    const result = await pool.query(
+      `DELETE FROM skill_prerequisites sp
+       USING skills s
+       WHERE sp.skill_id = s.id AND s.wing_id = $1 AND sp.skill_id = $2 AND sp.prerequisite_id = $3`,
+      [req.params.id, req.params.skillId, req.params.prerequisiteId]
+    )
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Prerequisite not found' })
+    }
+
+    res.json({ deleted: true })
+  } catch (error) {
+    console.error('Delete prerequisite error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/wings/:id/readiness-rules - the wing's combat-ready rules (defaults when none are set)
+router.get('/:id/readiness-rules', authenticate, scopeToWings, requireWingAccess, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await pool.query(
+      `SELECT r.id, r.rule_type, r.category, ${ruleSkillIdsSql('r')}, r.min_count, r.sort_order
+       FROM readiness_rules r WHERE r.wing_id = $1
+       ORDER BY r.sort_order, r.created_at`,
+      [req.params.id]
+    )
     if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Skill not found' })
+      return res.json({ rules: DEFAULT_RULES, is_default: true })
     }
+    res.json({ rules: result.rows, is_default: false })
+  } catch (error) {
+    console.error('Get readiness rules error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// PUT /api/wings/:id/readiness-rules - replace the wing's rule set; an empty list restores the default.
+// GET leaves archived skills out, so a rule sent back with its id keeps the
+// archived skills it held and gets them back when they are restored.
+router.put('/:id/readiness-rules', authenticate, requirePermission('readiness:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
+  const { rules } = req.body
+
+  if (!Array.isArray(rules) || rules.length > 20) {
+    return res.status(400).json({ error: 'rules must be an array of at most 20 rules' })
+  }
 
+  for (const [i, rule] of rules.entries()) {
+    const label = `Rule ${i + 1}`
+    if (!RULE_TYPES.includes(rule.rule_type)) {
+      return res.status(400).json({ error: `${label}: rule_type must be one of: ${RULE_TYPES.join(', ')}` })
+    }
+    const minCount = rule.min_count ?? 0
+    if (!Number.isInteger(minCount) || minCount < 0 || minCount > 1000) {
+      return res.status(400).json({ error: `${label}: min_count must be a non-negative whole number` })
+    }
+    if (rule.category !== undefined && rule.category !== null && typeof rule.category !== 'string') {
+      return res.status(400).json({ error: `${label}: category must be a string` })
+    }
+    if (rule.rule_type === 'category_complete' && !rule.category?.trim()) {
+      return res.status(400).json({ error: `${label}: category is required` })
+    }
+    if (rule.rule_type === 'skills_required') {
+      if (!Array.isArray(rule.skill_ids) || !rule.skill_ids.every(isUUID)) {
+        return res.status(400).json({ error: `${label}: skill_ids must list at least one skill` })
+      }
+    }
+  }
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+
+    const skillCheck = await client.query('SELECT id, category FROM skills WHERE wing_id = $1 AND archived_at IS NULL', [req.params.id])
+    const wingSkillIds = new Set(skillCheck.rows.map(r => r.id))
+    const wingCategories = new Set(skillCheck.rows.map(r => r.category))
+
+    for (const [i, rule] of rules.entries()) {
+      if (rule.category?.trim() && !wingCategories.has(rule.category.trim())) {
+        await client.query('ROLLBACK')
+        return res.status(400).json({ error: `Rule ${i + 1}: category "${rule.category}" has no skills in this wing` })
+      }
+      if (rule.rule_type === 'skills_required' && !rule.skill_ids.every((id: string) => wingSkillIds.has(id))) {
+        await client.query('ROLLBACK')
+        return res.status(400).json({ error: `Rule ${i + 1}: some skills do not belong to this wing` })
+      }
+    }
+
+    const archived = await client.query(
+      `SELECT r.id, array_agg(u.id ORDER BY u.n) as skill_ids
+       FROM readiness_rules r
+       CROSS JOIN LATERAL unnest(r.skill_ids) WITH ORDINALITY u(id, n)
+       JOIN skills s ON s.id = u.id AND s.archived_at IS NOT NULL
+       WHERE r.wing_id = $1
+       GROUP BY r.id`,
+      [req.params.id]
+    )
+    const archivedByRule = new Map<string, string[]>(archived.rows.map(r => [r.id, r.skill_ids]))
+    const skillIdsOf = (rule: any): string[] => rule.rule_type === 'skills_required'
+      ? [...new Set<string>([...rule.skill_ids, ...(archivedByRule.get(rule.id) ?? [])])]
+      : []
+    const emptyRule = rules.findIndex((rule: any) => rule.rule_type === 'skills_required' && skillIdsOf(rule).length === 0)
+    if (emptyRule >= 0) {
+      await client.query('ROLLBACK')
+      return res.status(400).json({ error: `Rule ${emptyRule + 1}: skill_ids must list at least one skill` })
+    }
+
+    await client.query('DELETE FROM readiness_rules WHERE wing_id = $1', [req.params.id])
+    for (const [i, rule] of rules.entries()) {
+      await client.query(
+        `INSERT INTO readiness_rules (wing_id, rule_type, category, skill_ids, min_count, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          req.params.id,
+          rule.rule_type,
+          rule.rule_type === 'skills_required' ? null : rule.category?.trim() || null,
+          skillIdsOf(rule),
+          rule.rule_type === 'category_complete' ? 0 : rule.min_count ?? 0,
+          i,
+        ]
+      )
+    }
+
+    await client.query('COMMIT')
+
+    const result = await client.query(
+      `SELECT r.id, r.rule_type, r.category, ${ruleSkillIdsSql('r')}, r.min_count, r.sort_order
+       FROM readiness_rules r WHERE r.wing_id = $1 ORDER BY r.sort_order`,
+      [req.params.id]
+    )
+    res.json(result.rows.length > 0
+      ? { rules: result.rows, is_default: false }
+      : { rules: DEFAULT_RULES, is_default: true })
+  } catch (error) {
+    await client.query('ROLLBACK')
+    console.error('Update readiness rules error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  } finally {
+    client.release()
+  }
+})
+
+
+// GET /api/wings/:id/discord-webhook - the wing's notification settings (defaults when unset)
+router.get('/:id/discord-webhook', authenticate, requirePermission('wings:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid wing ID' })
+  try {
+    const config = await getWebhookConfig(req.params.id)
+    res.json({
+      configured: config !== null,
+      webhook_url: config?.webhook_url ?? '',
+      enabled: config?.enabled ?? false,
+      events: config?.events ?? withDefaultEvents(),
+      template_fields: TEMPLATE_FIELDS,
+    })
+  } catch (error) {
+    console.error('Get Discord webhook error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// PUT /api/wings/:id/discord-webhook - save the webhook URL, master toggle and per-event settings
+router.put('/:id/discord-webhook', authenticate, requirePermission('wings:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid wing ID' })
+  const { webhook_url, enabled, events } = req.body
+
+  if (!isDiscordWebhookUrl(webhook_url)) {
+    return res.status(400).json({ error: 'webhook_url must be a Discord webhook URL (https://discord.com/api/webhooks/...)' })
+  }
+  if (typeof enabled !== 'boolean') {
+    return res.status(400).json({ error: 'enabled must be true or false' })
+  }
+  if (events === null || typeof events !== 'object' || Array.isArray(events)) {
+    return res.status(400).json({ error: 'events must be an object keyed by event type' })
+  }
+  for (const [type, setting] of Object.entries<any>(events)) {
+    if (!NOTIFICATION_EVENT_TYPES.includes(type as any)) {
+      return res.status(400).json({ error: `Unknown event type "${type}"` })
+    }
+    if (typeof setting?.enabled !== 'boolean') {
+      return res.status(400).json({ error: `${type}: enabled must be true or false` })
+    }
+    if (typeof setting.template !== 'string' || !setting.template.trim() || setting.template.length > 1000) {
+      return res.status(400).json({ error: `${type}: template must be 1-1000 characters` })
+    }
+  }
+
+  try {
+    const wing = await pool.query('SELECT id FROM wings WHERE id = $1', [req.params.id])
+    if (wing.rows.length === 0) {
+      return res.status(404).json({ error: 'Wing not found' })
+    }
+
+    const stored = withDefaultEvents(events)
+    await pool.query(
+      `INSERT INTO wing_discord_webhooks (wing_id, webhook_url, enabled, events)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (wing_id)
+       DO UPDATE SET webhook_url = $2, enabled = $3, events = $4, updated_at = NOW()`,
+      [req.params.id, webhook_url, enabled, JSON.stringify(stored)]
+    )
+    res.json({ configured: true, webhook_url, enabled, events: stored, template_fields: TEMPLATE_FIELDS })
+  } catch (error) {
+    console.error('Update Discord webhook error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// DELETE /api/wings/:id/discord-webhook - stop posting notifications for the wing
+router.delete('/:id/discord-webhook', authenticate, requirePermission('wings:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid wing ID' })
+  try {
+    await pool.query('DELETE FROM wing_discord_webhooks WHERE wing_id = $1', [req.params.id])
     res.json({ deleted: true })
   } catch (error) {
-    console.error('Delete skill error:', error)
+    console.error('Delete Discord webhook error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/wings/:id/discord-webhook/test - post a sample message to the given or saved webhook
+router.post('/:id/discord-webhook/test', authenticate, requirePermission('wings:manage'), requireOwnWing, async (req: AuthRequest, res: Response) => {
+  if (!isUUID(req.params.id)) return res.status(400).json({ error: 'Invalid wing ID' })
+  const { webhook_url } = req.body
+  if (webhook_url !== undefined && webhook_url !== '' && !isDiscordWebhookUrl(webhook_url)) {
+    return res.status(400).json({ error: 'webhook_url must be a Discord webhook URL (https://discord.com/api/webhooks/...)' })
+  }
+
+  try {
+    const wing = await pool.query('SELECT name FROM wings WHERE id = $1', [req.params.id])
+    if (wing.rows.length === 0) {
+      return res.status(404).json({ error: 'Wing not found' })
+    }
+    const url = webhook_url || (await getWebhookConfig(req.params.id))?.webhook_url
+    if (!url) {
+      return res.status(400).json({ error: 'No webhook URL configured for this wing' })
+    }
+
+    // The reason stays in the server log so the answer reveals nothing about the target
+    try {
+      await sendTestMessage(url, wing.rows[0].name)
+    } catch (error) {
+      console.error('Discord webhook test delivery error:', error)
+      return res.status(502).json({ error: 'Could not deliver the test message' })
+    }
+    res.json({ sent: true })
+  } catch (error) {
+    console.error('Test Discord webhook error:', error)
     res.status(500).json({ error: 'Internal server error' })
   }
 })
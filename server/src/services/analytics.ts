@@ -0,0 +1,80 @@
+import pool from '../db/pool'
+import { currencySql } from './qualifications'
+import { evaluateReadiness, pilotCompletion } from './readiness'
+
+const SNAPSHOT_INTERVAL_MINUTES = parseInt(process.env.SNAPSHOT_INTERVAL_MINUTES || '60')
+
+const percent = (part: number, whole: number) => whole > 0 ? (part / whole) * 100 : 0
+
+// Record today's readiness and completion for every wing and each of its
+// categories, counting active pilots only, replacing today's earlier rows.
+// Returns the number of rows written.
+export async function takeReadinessSnapshot(): Promise<number> {
+  const currency = currencySql('q', 's')
+
+  const [wings, readiness, pilots, categories] = await Promise.all([
+    pool.query('SELECT id FROM wings WHERE archived_at IS NULL'),
+    evaluateReadiness(),
+    pilotCompletion(),
+    // Per category, every active pilot of the wing with the share of its
+    // skills they hold at FMQ/IP and whether they are current in all of them
+    pool.query(
+      `SELECT wing_id, category, COUNT(*)::int as total_pilots,
+         (COUNT(*) FILTER (WHERE current_count = skill_count))::int as ready_pilots,
+         AVG(qualified_count::numeric / skill_count) * 100 as completion_percentage
+       FROM (
+         SELECT s.wing_id, s.category, p.id,
+           COUNT(*) as skill_count,
+           COUNT(q.id) FILTER (WHERE q.status IN ('FMQ', 'IP')) as qualified_count,
+           COUNT(q.id) FILTER (WHERE q.status IN ('FMQ', 'IP') AND (${currency.state}) IS DISTINCT FROM 'expired') as current_count
+         FROM skills s
+         JOIN wings w ON w.id = s.wing_id AND w.archived_at IS NULL
+         JOIN pilots p ON p.wing_id = s.wing_id AND p.archived_at IS NULL AND p.roster_status = 'active'
+         LEFT JOIN qualifications q ON q.pilot_id = p.id AND q.skill_id = s.id
+         WHERE s.archived_at IS NULL
+         GROUP BY s.wing_id, s.category, p.id
+       ) per_pilot
+       GROUP BY wing_id, category`
+    ),
+  ])
+
+  const rows: any[][] = []
+  for (const wing of wings.rows) {
+    const active = pilots.filter(p => p.wing_id === wing.id && p.active)
+    const ready = active.filter(p => readiness.combatReady.has(p.id)).length
+    const completion = active.length > 0 ? active.reduce((sum, p) => sum + p.completion, 0) / active.length : 0
+    rows.push([wing.id, null, active.length, ready, percent(ready, active.length), completion])
+  }
+  for (const c of categories.rows) {
+    rows.push([c.wing_id, c.category, c.total_pilots, c.ready_pilots, percent(c.ready_pilots, c.total_pilots), Number(c.completion_percentage)])
+  }
+
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    await client.query('DELETE FROM readiness_snapshots WHERE snapshot_date = CURRENT_DATE')
+    for (const row of rows) {
+      await client.query(
+        `INSERT INTO readiness_snapshots
+           (snapshot_date, wing_id, category, total_pilots, ready_pilots, readiness_percentage, completion_percentage)
+         VALUES (CURRENT_DATE, $1, $2, $3, $4, ROUND($5::numeric, 2), ROUND($6::numeric, 2))`,
+        row
+      )
+    }
+    await client.query('COMMIT')
+    return rows.length
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// Refresh today's snapshot now and then periodically; the last run of each
+// day is the figure that day keeps
+export function startReadinessSnapshots() {
+  const snapshot = () => takeReadinessSnapshot().catch(error => console.error('Readiness snapshot error:', error))
+  snapshot()
+  setInterval(snapshot, SNAPSHOT_INTERVAL_MINUTES * 60 * 1000).unref()
+}
@@ -0,0 +1,84 @@
+import { PoolClient } from 'pg'
+import { archiveSkill, restoreSkill } from './syllabusVersions'
+
+interface Actor {
+  id: string
+  email: string
+}
+
+// Archive a user account and its pilot. The account can no longer sign in and
+// the pilot drops out of every list, but qualifications, history and unit stay
+// in place for a restore. Open requests are closed since nobody can act on them.
+// Must be called on a client inside an open transaction.
+export async function archiveUser(client: PoolClient, userId: string, actor: Actor) {
+  await client.query('UPDATE users SET archived_at = NOW(), archived_by = $2, updated_at = NOW() WHERE id = $1', [userId, actor.email])
+  await client.query('UPDATE sessions SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL', [userId])
+  await client.query('DELETE FROM password_tokens WHERE user_id = $1', [userId])
+
+  const pilot = await client.query(
+    'UPDATE pilots SET archived_at = NOW(), archived_by = $2, updated_at = NOW() WHERE user_id = $1 RETURNING id',
+    [userId, actor.email]
+  )
+  if (pilot.rows.length === 0) return
+
+  const pilotId = pilot.rows[0].id
+  await client.query(
+    `UPDATE signoff_requests SET status = 'cancelled', reviewed_by = $2, reviewed_by_user_id = $3, reviewed_at = NOW(),
+       review_comment = 'Pilot was archived'
+     WHERE pilot_id = $1 AND status = 'pending'`,
+    [pilotId, actor.email, actor.id]
+  )
+  await client.query(
+    `UPDATE evaluation_requests SET status = 'cancelled', response = 'Pilot was archived', updated_at = NOW()
+     WHERE pilot_id = $1 AND status IN ('pending', 'accepted', 'scheduled')`,
+    [pilotId]
+  )
+}
+
+// Must be called on a client inside an open transaction
+export async function restoreUser(client: PoolClient, userId: string) {
+  await client.query('UPDATE users SET archived_at = NULL, archived_by = NULL, updated_at = NOW() WHERE id = $1', [userId])
+  await client.query('UPDATE pilots SET archived_at = NULL, archived_by = NULL, updated_at = NOW() WHERE user_id = $1', [userId])
+}
+
+// Archive a category together with every live skill in it. Returns the number
+// of skills archived. Must be called on a client inside an open transaction.
+export async function archiveCategory(client: PoolClient, wingId: string, category: string, actor: Actor): Promise<number> {
+  // Keeps the color and position of categories that have them
+  await client.query(
+    `INSERT INTO category_colors (wing_id, category, archived_at, archived_by)
+     VALUES ($1, $2, NOW(), $3)
+     ON CONFLICT (wing_id, category) DO UPDATE SET archived_at = NOW(), archived_by = $3`,
+    [wingId, category, actor.email]
+  )
+  const skills = await client.query(
+    'SELECT id FROM skills WHERE wing_id = $1 AND category = $2 AND archived_at IS NULL FOR UPDATE',
+    [wingId, category]
+  )
+  for (const skill of skills.rows) {
+    await archiveSkill(client, skill.id, actor)
+  }
+  return skills.rows.length
+}
+
+// Restore a category and the skills that were archived along with it; skills
+// archived on their own before that stay archived. Returns the number of
+// skills restored. Must be called on a client inside an open transaction.
+export async function restoreCategory(client: PoolClient, wingId: string, category: string): Promise<number> {
+  // archiveCategory ran in one transaction, so its skills share its NOW().
+  // Compared in SQL since JavaScript dates drop the microseconds.
+  const skills = await client.query(
+    `SELECT s.id FROM skills s
+     JOIN category_colors c ON c.wing_id = s.wing_id AND c.category = s.category AND c.archived_at = s.archived_at
+     WHERE s.wing_id = $1 AND s.category = $2`,
+    [wingId, category]
+  )
+  await client.query(
+    'UPDATE category_colors SET archived_at = NULL, archived_by = NULL WHERE wing_id = $1 AND category = $2',
+    [wingId, category]
+  )
+  for (const skill of skills.rows) {
+    await restoreSkill(client, skill.id)
+  }
+  return skills.rows.length
+}
@@ -0,0 +1,69 @@
+// Discord OAuth2 client. Every provider endpoint can be overridden so the flow
+// can run against a local mock server instead of discord.com.
+export const DISCORD_CLIENT_ID = process.env.DISCORD_CLIENT_ID || ''
+const DISCORD_CLIENT_SECRET = process.env.DISCORD_CLIENT_SECRET || ''
+const DISCORD_REDIRECT_URI = process.env.DISCORD_REDIRECT_URI
+  || `http://localhost:${process.env.PORT || 3001}/api/auth/discord/callback`
+const DISCORD_AUTHORIZE_URL = process.env.DISCORD_AUTHORIZE_URL || 'https://discord.com/oauth2/authorize'
+const DISCORD_TOKEN_URL = process.env.DISCORD_TOKEN_URL || 'https://discord.com/api/oauth2/token'
+const DISCORD_USER_URL = process.env.DISCORD_USER_URL || 'https://discord.com/api/users/@me'
+// Each provider call is abandoned after this, so a stuck Discord cannot hold the callback open
+const REQUEST_TIMEOUT_MS = 10_000
+
+// Discord user ids are snowflakes: 17-20 digit integers
+export const DISCORD_ID_RE = /^\d{17,20}$/
+
+export interface DiscordUser {
+  id: string
+  username: string
+}
+
+export const discordEnabled = () => Boolean(DISCORD_CLIENT_ID && DISCORD_CLIENT_SECRET)
+
+export function discordAuthorizeUrl(state: string): string {
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: DISCORD_CLIENT_ID,
+    redirect_uri: DISCORD_REDIRECT_URI,
+    scope: 'identify',
+    state,
+    prompt: 'none',
+  })
+  return `${DISCORD_AUTHORIZE_URL}?${params}`
+}
+
+// Trade an authorization code for the Discord user that granted it
+export async function exchangeDiscordCode(code: string): Promise<DiscordUser> {
+  const tokenRes = await fetch(DISCORD_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: DISCORD_REDIRECT_URI,
+      client_id: DISCORD_CLIENT_ID,
+      client_secret: DISCORD_CLIENT_SECRET,
+    }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  })
+  if (!tokenRes.ok) {
+    throw new Error(`Discord token exchange failed: ${tokenRes.status}`)
+  }
+  const { access_token } = await tokenRes.json() as { access_token?: string }
+  if (!access_token) {
+    throw new Error('Discord token response had no access_token')
+  }
+
+  const userRes = await fetch(DISCORD_USER_URL, {
+    headers: { Authorization: `Bearer ${access_token}` },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  })
+  if (!userRes.ok) {
+    throw new Error(`Discord user lookup failed: ${userRes.status}`)
+  }
+  const user = await userRes.json() as { id?: string; username?: string; global_name?: string | null }
+  if (!user.id || !DISCORD_ID_RE.test(user.id)) {
+    throw new Error('Discord user response had no valid id')
+  }
+  return { id: user.id, username: (user.global_name || user.username || user.id).slice(0, 100) }
+}
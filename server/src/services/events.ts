@@ -0,0 +1,66 @@
+import { PoolClient } from 'pg'
+import { findMissingPrerequisites, PrerequisiteSkill } from './prerequisites'
+
+export const EVENT_OUTCOMES = ['pending', 'pass', 'partial', 'fail', 'no_show']
+
+export interface EventProposal {
+  pilot_id: string
+  callsign: string
+  skill_id: string
+  skill_name: string
+  current_status: string | null
+  proposed_status: string
+  // 'upgrade' changes the status; 'renew' only refreshes currency for a held FMQ/IP
+  action: 'upgrade' | 'renew'
+  missing_prerequisites: PrerequisiteSkill[]
+}
+
+// Status a pilot should move to for one trained skill, given their outcome.
+// A pass qualifies the pilot (FMQ), a partial pass starts training (MQT).
+function proposedStatus(outcome: string, current: string | null): { status: string; action: 'upgrade' | 'renew' } | null {
+  const held = current ?? 'NMQ'
+  if (outcome === 'pass') {
+    if (held === 'FMQ' || held === 'IP') return { status: held, action: 'renew' }
+    return { status: 'FMQ', action: 'upgrade' }
+  }
+  if (outcome === 'partial' && held === 'NMQ') {
+    return { status: 'MQT', action: 'upgrade' }
+  }
+  return null
+}
+
+// Qualification changes implied by a graded event: one per attendee and skill
+// covered, based on the attendee's outcome and their current status.
+export async function computeProposals(client: PoolClient, eventId: string): Promise<EventProposal[]> {
+  const result = await client.query(
+    `SELECT a.pilot_id, p.callsign, a.outcome, s.id as skill_id, s.name as skill_name, q.status as current_status
+     FROM training_event_attendees a
+     JOIN pilots p ON p.id = a.pilot_id
+     JOIN training_event_skills es ON es.event_id = a.event_id
+     JOIN skills s ON s.id = es.skill_id
+     LEFT JOIN qualifications q ON q.pilot_id = a.pilot_id AND q.skill_id = s.id
+     WHERE a.event_id = $1 AND a.outcome IN ('pass', 'partial') AND s.archived_at IS NULL
+     ORDER BY p.callsign, s.sort_order`,
+    [eventId]
+  )
+
+  const proposals: EventProposal[] = []
+  for (const row of result.rows) {
+    const proposal = proposedStatus(row.outcome, row.current_status)
+    if (!proposal) continue
+    const missing = proposal.action === 'upgrade' && proposal.status === 'FMQ'
+      ? await findMissingPrerequisites(client, row.pilot_id, row.skill_id)
+      : []
+    proposals.push({
+      pilot_id: row.pilot_id,
+      callsign: row.callsign,
+      skill_id: row.skill_id,
+      skill_name: row.skill_name,
+      current_status: row.current_status,
+      proposed_status: proposal.status,
+      action: proposal.action,
+      missing_prerequisites: missing,
+    })
+  }
+  return proposals
+}
@@ -0,0 +1,73 @@
+import fs from 'fs/promises'
+import path from 'path'
+import nodemailer from 'nodemailer'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailTransport {
+  name: string
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+export const MAIL_FROM = process.env.MAIL_FROM || 'DCS Squadron <no-reply@localhost>'
+// Base URL of the web app, used to build links in emails
+export const APP_URL = (process.env.APP_URL || process.env.CORS_ORIGIN || 'http://localhost:5173').replace(/\/$/, '')
+
+export function createSmtpTransport(): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  })
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      await transporter.sendMail(message)
+    },
+  }
+}
+
+// Writes each message to MAIL_FILE_DIR as a plain-text .eml file, for local testing
+export function createFileTransport(): MailTransport {
+  const dir = process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'mail')
+  return {
+    name: 'file',
+    send: async (message) => {
+      await fs.mkdir(dir, { recursive: true })
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-z0-9@.-]/gi, '_')}.eml`)
+      const body = `From: ${message.from}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+      await fs.writeFile(file, body)
+    },
+  }
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    send: async (message) => {
+      console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`)
+    },
+  }
+}
+
+let transport: MailTransport | null = null
+
+// MAIL_TRANSPORT picks the transport: smtp, file or console (the default)
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const kind = process.env.MAIL_TRANSPORT || 'console'
+    if (kind === 'smtp') transport = createSmtpTransport()
+    else if (kind === 'file') transport = createFileTransport()
+    else transport = createConsoleTransport()
+  }
+  return transport
+}
+
+export async function sendMail(message: MailMessage) {
+  await getMailTransport().send({ ...message, from: MAIL_FROM })
+}
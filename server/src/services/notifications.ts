@@ -0,0 +1,251 @@
+import pool from '../db/pool'
+import { currencySql, onQualificationChanges, QualificationChange } from './qualifications'
+import { isHttpUrl } from './webhooks'
+
+// Where wing webhooks may point: Discord itself, or the origins listed in
+// DISCORD_WEBHOOK_ORIGINS (e.g. a local mock). Anything else is refused so the
+// server cannot be aimed at internal hosts.
+const DISCORD_WEBHOOK_ORIGINS = (process.env.DISCORD_WEBHOOK_ORIGINS || 'https://discord.com,https://discordapp.com')
+  .split(',').map(o => o.trim()).filter(Boolean)
+const REQUEST_TIMEOUT_MS = 10_000
+
+export function isDiscordWebhookUrl(value: unknown): value is string {
+  if (!isHttpUrl(value)) return false
+  const url = new URL(value)
+  return DISCORD_WEBHOOK_ORIGINS.includes(url.origin) && url.pathname.startsWith('/api/webhooks/')
+}
+
+export type NotificationEvent = 'qualified_fmq' | 'qualified_ip' | 'checkride_passed' | 'currency_lost'
+
+interface EventSpec {
+  label: string
+  color: number
+  template: string
+}
+
+export const NOTIFICATION_EVENTS: Record<NotificationEvent, EventSpec> = {
+  qualified_fmq: { label: 'Reached FMQ', color: 0x10b981, template: '**{callsign}** is now FMQ in {skill}' },
+  qualified_ip: { label: 'Reached IP', color: 0x8b5cf6, template: '**{callsign}** is now an instructor pilot in {skill}' },
+  checkride_passed: { label: 'Checkride passed', color: 0x3b82f6, template: '**{callsign}** passed the {skill}' },
+  currency_lost: { label: 'Currency lost', color: 0xef4444, template: '**{callsign}** is no longer current in {skill} (lapsed {expired_on})' },
+}
+
+export const NOTIFICATION_EVENT_TYPES = Object.keys(NOTIFICATION_EVENTS) as NotificationEvent[]
+
+// Placeholders a template may use, written as {name}
+export const TEMPLATE_FIELDS = [
+  'callsign', 'pilot_name', 'board_number', 'wing', 'skill', 'category',
+  'status', 'previous_status', 'changed_by', 'expired_on',
+]
+
+export interface EventSetting {
+  enabled: boolean
+  template: string
+}
+
+export interface WebhookConfig {
+  wing_id: string
+  webhook_url: string
+  enabled: boolean
+  events: Record<NotificationEvent, EventSetting>
+}
+
+const QUALIFIED = ['FMQ', 'IP']
+const CURRENCY_CHECK_MINUTES = parseInt(process.env.CURRENCY_CHECK_MINUTES || '60')
+
+export const isCheckrideSkill = (name: string) => /checkride/i.test(name)
+
+// Stored settings merged over the defaults, so new event types start enabled
+export function withDefaultEvents(stored: Partial<Record<string, Partial<EventSetting>>> = {}) {
+  const events = {} as Record<NotificationEvent, EventSetting>
+  for (const type of NOTIFICATION_EVENT_TYPES) {
+    events[type] = {
+      enabled: stored[type]?.enabled ?? true,
+      template: stored[type]?.template || NOTIFICATION_EVENTS[type].template,
+    }
+  }
+  return events
+}
+
+export async function getWebhookConfig(wingId: string): Promise<WebhookConfig | null> {
+  const result = await pool.query(
+    'SELECT wing_id, webhook_url, enabled, events FROM wing_discord_webhooks WHERE wing_id = $1',
+    [wingId]
+  )
+  if (result.rows.length === 0) return null
+  return { ...result.rows[0], events: withDefaultEvents(result.rows[0].events) }
+}
+
+// Unknown placeholders are left as written so typos show up in the message
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => (key in vars ? vars[key] : match))
+}
+
+interface DiscordEmbed {
+  title: string
+  description: string
+  color: number
+  timestamp: string
+  footer?: { text: string }
+}
+
+// Discord takes at most 10 embeds per message
+export async function postDiscordWebhook(url: string, embeds: DiscordEmbed[]) {
+  // URLs saved before the host check was added are not trusted either
+  if (!isDiscordWebhookUrl(url)) {
+    throw new Error('Not a Discord webhook URL')
+  }
+  for (let i = 0; i < embeds.length; i += 10) {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ embeds: embeds.slice(i, i + 10) }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+    if (!res.ok) {
+      throw new Error(`Discord webhook answered ${res.status}`)
+    }
+  }
+}
+
+interface Notification {
+  wingId: string
+  event: NotificationEvent
+  vars: Record<string, string>
+}
+
+// Post each wing's notifications to its webhook, honouring the per-event toggles
+async function deliver(notifications: Notification[]) {
+  const byWing = new Map<string, Notification[]>()
+  for (const n of notifications) {
+    byWing.set(n.wingId, [...(byWing.get(n.wingId) || []), n])
+  }
+
+  for (const [wingId, wingNotifications] of byWing) {
+    const config = await getWebhookConfig(wingId)
+    if (!config || !config.enabled) continue
+
+    const embeds = wingNotifications
+      .filter(n => config.events[n.event].enabled)
+      .map(n => ({
+        title: NOTIFICATION_EVENTS[n.event].label,
+        description: renderTemplate(config.events[n.event].template, n.vars),
+        color: NOTIFICATION_EVENTS[n.event].color,
+        timestamp: new Date().toISOString(),
+        footer: { text: n.vars.wing },
+      }))
+    if (embeds.length === 0) continue
+
+    try {
+      await postDiscordWebhook(config.webhook_url, embeds)
+    } catch (error) {
+      console.error(`Discord notification error (wing ${wingId}):`, error)
+    }
+  }
+}
+
+// The announcement a status change earns, if any. A promotion on a checkride
+// skill is announced as the checkride rather than as FMQ/IP.
+function classifyChange(change: QualificationChange, checkride: boolean): NotificationEvent | null {
+  const wasQualified = QUALIFIED.includes(change.oldStatus ?? '')
+  if (checkride && QUALIFIED.includes(change.newStatus) && !wasQualified) return 'checkride_passed'
+  if (change.newStatus === 'IP' && change.oldStatus !== 'IP') return 'qualified_ip'
+  if (change.newStatus === 'FMQ' && !wasQualified) return 'qualified_fmq'
+  return null
+}
+
+const pilotVars = (row: any) => ({
+  callsign: row.callsign,
+  pilot_name: `${row.first_name} ${row.last_name}`,
+  board_number: row.board_number || '',
+  wing: row.wing_name,
+  skill: row.skill_name,
+  category: row.category,
+})
+
+async function handleQualificationChanges(changes: QualificationChange[]) {
+  const details = await pool.query(
+    `SELECT p.id as pilot_id, s.id as skill_id, p.callsign, p.first_name, p.last_name, p.board_number,
+       s.wing_id, w.name as wing_name, s.name as skill_name, s.category
+     FROM unnest($1::uuid[], $2::uuid[]) AS c(pilot_id, skill_id)
+     JOIN pilots p ON p.id = c.pilot_id
+     JOIN skills s ON s.id = c.skill_id
+     JOIN wings w ON w.id = s.wing_id`,
+    [changes.map(c => c.pilotId), changes.map(c => c.skillId)]
+  )
+  const rows = new Map(details.rows.map(r => [`${r.pilot_id}:${r.skill_id}`, r]))
+
+  const notifications: Notification[] = []
+  for (const change of changes) {
+    const row = rows.get(`${change.pilotId}:${change.skillId}`)
+    if (!row) continue
+    const event = classifyChange(change, isCheckrideSkill(row.skill_name))
+    if (!event) continue
+    notifications.push({
+      wingId: row.wing_id,
+      event,
+      vars: {
+        ...pilotVars(row),
+        status: change.newStatus,
+        previous_status: change.oldStatus || 'none',
+        changed_by: change.changedBy,
+      },
+    })
+  }
+  await deliver(notifications)
+
+  // A write can also backdate last_performed far enough to lapse currency
+  await announceCurrencyLapses(changes)
+}
+
+// Announce qualifications whose currency has lapsed since they were last
+// announced, optionally limited to the given pilot/skill pairs. Lapses are
+// marked even for wings without a webhook so enabling one later does not
+// replay the backlog. Archived pilots, skills and wings are left out.
+export async function announceCurrencyLapses(pairs?: { pilotId: string; skillId: string }[]) {
+  const { state, expiresAt } = currencySql('q', 's')
+  const result = await pool.query(
+    `UPDATE qualifications q SET currency_lapse_notified_at = NOW()
+     FROM skills s, pilots p, wings w
+     WHERE s.id = q.skill_id AND p.id = q.pilot_id AND w.id = s.wing_id
+       AND p.archived_at IS NULL AND s.archived_at IS NULL AND w.archived_at IS NULL
+       AND (${state}) = 'expired'
+       AND (q.currency_lapse_notified_at IS NULL OR q.currency_lapse_notified_at < ${expiresAt})
+       AND ($1::uuid[] IS NULL OR (q.pilot_id, q.skill_id) IN (SELECT * FROM unnest($1::uuid[], $2::uuid[])))
+     RETURNING p.callsign, p.first_name, p.last_name, p.board_number, s.wing_id, w.name as wing_name,
+       s.name as skill_name, s.category, q.status, q.updated_by, ${expiresAt} as expired_at`,
+    [pairs ? pairs.map(p => p.pilotId) : null, pairs ? pairs.map(p => p.skillId) : null]
+  )
+
+  await deliver(result.rows.map(row => ({
+    wingId: row.wing_id,
+    event: 'currency_lost' as const,
+    vars: {
+      ...pilotVars(row),
+      status: row.status,
+      previous_status: row.status,
+      changed_by: row.updated_by || '',
+      expired_on: new Date(row.expired_at).toISOString().slice(0, 10),
+    },
+  })))
+}
+
+// Post a sample message so admins can check the webhook works
+export async function sendTestMessage(webhookUrl: string, wingName: string) {
+  await postDiscordWebhook(webhookUrl, [{
+    title: 'Test message',
+    description: `Qualification notifications for **${wingName}** will be posted here.`,
+    color: 0x6b7280,
+    timestamp: new Date().toISOString(),
+    footer: { text: wingName },
+  }])
+}
+
+// Subscribe to qualification writes and start the periodic currency check
+export function startNotifications() {
+  onQualificationChanges(handleQualificationChanges)
+
+  const check = () => announceCurrencyLapses().catch(error => console.error('Currency lapse check error:', error))
+  check()
+  setInterval(check, CURRENCY_CHECK_MINUTES * 60 * 1000).unref()
+}
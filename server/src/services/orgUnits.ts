@@ -0,0 +1,45 @@
+import { Pool, PoolClient } from 'pg'
+
+export type UnitKind = 'squadron' | 'flight'
+export const UNIT_KINDS: UnitKind[] = ['squadron', 'flight']
+
+export interface OrgUnit {
+  id: string
+  wing_id: string
+  parent_id: string | null
+  name: string
+  kind: UnitKind
+}
+
+// The unit and every unit beneath it
+export function unitSubtree(units: OrgUnit[], rootId: string): Set<string> {
+  const children = new Map<string, string[]>()
+  for (const u of units) {
+    if (u.parent_id) children.set(u.parent_id, [...(children.get(u.parent_id) || []), u.id])
+  }
+  const ids = new Set<string>([rootId])
+  const queue = [rootId]
+  while (queue.length > 0) {
+    for (const child of children.get(queue.shift()!) || []) {
+      if (!ids.has(child)) {
+        ids.add(child)
+        queue.push(child)
+      }
+    }
+  }
+  return ids
+}
+
+// Whether making parentId the parent of unitId would put unitId beneath itself
+export async function wouldCreateUnitCycle(db: Pool | PoolClient, unitId: string, parentId: string): Promise<boolean> {
+  const result = await db.query(
+    `WITH RECURSIVE chain AS (
+       SELECT id, parent_id FROM org_units WHERE id = $1
+       UNION
+       SELECT o.id, o.parent_id FROM org_units o JOIN chain c ON o.id = c.parent_id
+     )
+     SELECT 1 FROM chain WHERE id = $2 LIMIT 1`,
+    [parentId, unitId]
+  )
+  return result.rows.length > 0
+}
@@ -0,0 +1,43 @@
+import crypto from 'crypto'
+import { Pool, PoolClient } from 'pg'
+import pool from '../db/pool'
+
+export type PasswordTokenPurpose = 'reset' | 'onboarding'
+
+export const RESET_TOKEN_MINUTES = parseInt(process.env.RESET_TOKEN_MINUTES || '60')
+export const ONBOARDING_TOKEN_DAYS = parseInt(process.env.ONBOARDING_TOKEN_DAYS || '7')
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex')
+
+// Link to the web app's password form for a raw token
+export const passwordTokenLink = (appUrl: string, token: string, purpose: PasswordTokenPurpose) =>
+  `${appUrl}/reset-password?token=${encodeURIComponent(token)}${purpose === 'onboarding' ? '&welcome=1' : ''}`
+
+// Issue a one-time password token and return it raw; only its hash is stored.
+// Any earlier unused token of the user stops working.
+export async function issuePasswordToken(userId: string, purpose: PasswordTokenPurpose, client: Pool | PoolClient = pool) {
+  const token = crypto.randomBytes(32).toString('base64url')
+  const minutes = purpose === 'onboarding' ? ONBOARDING_TOKEN_DAYS * 24 * 60 : RESET_TOKEN_MINUTES
+
+  await client.query(
+    'UPDATE password_tokens SET used_at = NOW() WHERE user_id = $1 AND used_at IS NULL',
+    [userId]
+  )
+  await client.query(
+    `INSERT INTO password_tokens (user_id, token_hash, purpose, expires_at)
+     VALUES ($1, $2, $3, NOW() + make_interval(mins => $4))`,
+    [userId, hashToken(token), purpose, minutes]
+  )
+  return token
+}
+
+// Mark a token used and return its user id, or null if it is unknown, used or expired
+export async function consumePasswordToken(token: string, client: Pool | PoolClient = pool): Promise<string | null> {
+  const result = await client.query(
+    `UPDATE password_tokens SET used_at = NOW()
+     WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+     RETURNING user_id`,
+    [hashToken(token)]
+  )
+  return result.rows[0]?.user_id ?? null
+}
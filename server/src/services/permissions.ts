@@ -0,0 +1,44 @@
+// Named permissions a role can grant. Wing-scoped roles only exercise them
+// in the holder's own wing.
+export const PERMISSIONS = {
+  'pilots:create': 'Create pilot accounts',
+  'qualifications:write': 'Set, renew, remove and bulk import qualifications',
+  'qualifications:approve': 'Approve or reject sign-off requests',
+  'qualifications:skip_signoff': 'Promote to FMQ/IP without a second reviewer',
+  'skills:manage': 'Add, edit, reorder and delete skills and prerequisites',
+  'categories:manage': 'Create, color, reorder and delete skill categories',
+  'readiness:manage': 'Edit readiness rules',
+  'events:manage': 'Log, grade and apply training events',
+  'evaluations:respond': 'See and answer evaluation requests',
+  'export:all': 'Export qualification data as CSV',
+  'wings:manage': 'Create, rename and delete wings and set up Discord notifications',
+  'users:manage': 'Edit, sign out and delete user accounts',
+  'roles:manage': 'Edit roles and assign them to users',
+  'settings:manage': 'Change site settings',
+  'webhooks:manage': 'Manage outbound webhooks',
+} as const
+
+export type Permission = keyof typeof PERMISSIONS
+
+export const PERMISSION_NAMES = Object.keys(PERMISSIONS) as Permission[]
+
+export const isPermission = (value: unknown): value is Permission =>
+  typeof value === 'string' && value in PERMISSIONS
+
+// Built-in roles cannot be renamed or deleted. Admin always holds every
+// permission across all wings, so nobody can lock the site out of its settings.
+export const ADMIN_ROLE = 'admin'
+export const DEFAULT_ROLE = 'pilot'
+export const BUILTIN_ROLES = [ADMIN_ROLE, 'instructor', DEFAULT_ROLE]
+
+// Role names are stored on users, so keep them short slugs
+export const ROLE_NAME_RE = /^[a-z][a-z0-9_-]{1,49}$/
+
+// Permissions over the whole site rather than one wing; wing-scoped roles cannot hold them
+export const SITE_PERMISSIONS: Permission[] = ['users:manage', 'roles:manage', 'settings:manage', 'webhooks:manage']
+
+// Effective permissions for a role row
+export function rolePermissions(role: string, permissions: string[] | null, wingScoped: boolean): Permission[] {
+  if (role === ADMIN_ROLE) return PERMISSION_NAMES
+  return (permissions || []).filter(isPermission).filter(p => !wingScoped || !SITE_PERMISSIONS.includes(p))
+}
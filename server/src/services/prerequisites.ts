@@ -0,0 +1,36 @@
+import { PoolClient } from 'pg'
+
+export interface PrerequisiteSkill {
+  id: string
+  name: string
+}
+
+// Prerequisites of a skill that the pilot does not yet hold at FMQ or IP
+export async function findMissingPrerequisites(client: PoolClient, pilotId: string, skillId: string): Promise<PrerequisiteSkill[]> {
+  const result = await client.query(
+    `SELECT s.id, s.name
+     FROM skill_prerequisites sp
+     JOIN skills s ON s.id = sp.prerequisite_id
+     LEFT JOIN qualifications q ON q.skill_id = sp.prerequisite_id AND q.pilot_id = $1
+     WHERE sp.skill_id = $2 AND s.archived_at IS NULL AND (q.status IS NULL OR q.status NOT IN ('FMQ', 'IP'))
+     ORDER BY s.sort_order, s.name`,
+    [pilotId, skillId]
+  )
+  return result.rows
+}
+
+// Whether making prerequisiteId a prerequisite of skillId would close a loop,
+// i.e. skillId is already reachable by walking prerequisiteId's own prerequisites.
+// Links of archived skills count, since restoring the skill brings them back.
+export async function wouldCreateCycle(client: PoolClient, skillId: string, prerequisiteId: string): Promise<boolean> {
+  const result = await client.query(
+    `WITH RECURSIVE chain AS (
+       SELECT prerequisite_id FROM skill_prerequisites WHERE skill_id = $1
+       UNION
+       SELECT sp.prerequisite_id FROM skill_prerequisites sp JOIN chain c ON sp.skill_id = c.prerequisite_id
+     )
+     SELECT 1 FROM chain WHERE prerequisite_id = $2 LIMIT 1`,
+    [prerequisiteId, skillId]
+  )
+  return result.rows.length > 0
+}
@@ -0,0 +1,150 @@
+import { PoolClient } from 'pg'
+import { STATUS_RANK } from './signoffs'
+
+export interface QualificationWrite {
+  pilotId: string
+  skillId: string
+  status: string
+  changedBy: string // email of the acting user, stored in updated_by / changed_by
+  changedByUserId?: string | null
+  note?: string | null
+  lastPerformed?: Date | null // defaults to now when the status moves into FMQ/IP
+}
+
+// Who touched which qualification, for changes other than a status write
+export type QualificationEvent = Pick<QualificationWrite, 'pilotId' | 'skillId' | 'changedBy' | 'changedByUserId' | 'note'>
+
+const QUALIFIED = ['FMQ', 'IP']
+
+// SQL fragments for a qualification's currency, given aliases for the
+// qualifications and skills tables. Only FMQ/IP on skills with currency_days
+// can lapse; everything else has a NULL state.
+export function currencySql(q = 'q', s = 's') {
+  const since = `COALESCE(${q}.last_performed, ${q}.last_updated)`
+  const expiresAt = `(${since} + make_interval(days => ${s}.currency_days))`
+  const warningDays = `COALESCE((SELECT value::int FROM settings WHERE key = 'currency_warning_days'), 14)`
+  const state = `CASE
+    WHEN ${q}.status NOT IN ('FMQ', 'IP') OR ${s}.currency_days IS NULL THEN NULL
+    WHEN ${expiresAt} < NOW() THEN 'expired'
+    WHEN ${expiresAt} < NOW() + make_interval(days => ${warningDays}) THEN 'expiring'
+    ELSE 'current'
+  END`
+  return {
+    state,
+    expiresAt: `CASE WHEN ${q}.status IN ('FMQ', 'IP') THEN ${expiresAt} END`,
+  }
+}
+
+async function insertHistory(client: PoolClient, write: QualificationEvent, oldStatus: string | null, newStatus: string) {
+  await client.query(
+    `INSERT INTO qualification_history (pilot_id, skill_id, old_status, new_status, changed_by, changed_by_user_id, note)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [write.pilotId, write.skillId, oldStatus, newStatus, write.changedBy, write.changedByUserId || null, write.note || null]
+  )
+}
+
+// Upsert a qualification and append a qualification_history row when the
+// status actually changes. Pending sign-off requests the new status already
+// meets are cancelled. Must be called on a client inside an open transaction.
+export async function writeQualification(client: PoolClient, write: QualificationWrite) {
+  const existing = await client.query(
+    'SELECT status FROM qualifications WHERE pilot_id = $1 AND skill_id = $2 FOR UPDATE',
+    [write.pilotId, write.skillId]
+  )
+  const oldStatus: string | null = existing.rows.length > 0 ? existing.rows[0].status : null
+
+  // A fresh sign-off counts as having flown the skill; otherwise keep the old date
+  const promoted = QUALIFIED.includes(write.status) && !QUALIFIED.includes(oldStatus ?? '')
+  const lastPerformed = write.lastPerformed ?? (promoted ? new Date() : null)
+
+  const result = await client.query(
+    `INSERT INTO qualifications (pilot_id, skill_id, status, last_updated, updated_by, last_performed)
+     VALUES ($1, $2, $3, NOW(), $4, $5)
+     ON CONFLICT (pilot_id, skill_id)
+     DO UPDATE SET status = $3, last_updated = NOW(), updated_by = $4,
+       last_performed = COALESCE($5, qualifications.last_performed)
+     RETURNING *`,
+    [write.pilotId, write.skillId, write.status, write.changedBy, lastPerformed]
+  )
+
+  if (oldStatus !== write.status) {
+    await insertHistory(client, write, oldStatus, write.status)
+  }
+
+  if (QUALIFIED.includes(write.status)) {
+    const met = Object.keys(STATUS_RANK).filter(s => STATUS_RANK[s] <= STATUS_RANK[write.status])
+    await client.query(
+      `UPDATE signoff_requests SET status = 'cancelled', reviewed_by = $4, reviewed_by_user_id = $5, reviewed_at = NOW(),
+         review_comment = $6
+       WHERE pilot_id = $1 AND skill_id = $2 AND status = 'pending' AND requested_status = ANY($3)`,
+      [write.pilotId, write.skillId, met, write.changedBy, write.changedByUserId || null, `Qualification was set to ${write.status}`]
+    )
+  }
+
+  return { qualification: result.rows[0], oldStatus }
+}
+
+// Remove a qualification, recording the drop to NMQ in qualification_history.
+// Returns the removed status, or null when there was no qualification.
+// Must be called on a client inside an open transaction.
+export async function deleteQualification(client: PoolClient, write: QualificationEvent) {
+  const result = await client.query(
+    'DELETE FROM qualifications WHERE pilot_id = $1 AND skill_id = $2 RETURNING status',
+    [write.pilotId, write.skillId]
+  )
+  if (result.rows.length === 0) return null
+
+  const oldStatus: string = result.rows[0].status
+  if (oldStatus !== 'NMQ') {
+    await insertHistory(client, write, oldStatus, 'NMQ')
+  }
+  return oldStatus
+}
+
+// Renew an FMQ/IP qualification's currency and note the flight in its history.
+// Returns the updated qualification, or null when there is no FMQ/IP to renew.
+// Must be called on a client inside an open transaction.
+export async function recordPerformed(client: PoolClient, write: QualificationEvent & { performedAt: Date }) {
+  const result = await client.query(
+    `UPDATE qualifications SET last_performed = $1, updated_by = $2
+     WHERE pilot_id = $3 AND skill_id = $4 AND status IN ('FMQ', 'IP')
+     RETURNING *`,
+    [write.performedAt, write.changedBy, write.pilotId, write.skillId]
+  )
+  if (result.rows.length === 0) return null
+
+  const { status } = result.rows[0]
+  await insertHistory(client, {
+    ...write,
+    note: write.note || `Performed ${write.performedAt.toISOString().slice(0, 10)}`,
+  }, status, status)
+  return result.rows[0]
+}
+
+// A committed qualification write, as seen by subscribers such as notifications
+export interface QualificationChange {
+  pilotId: string
+  skillId: string
+  oldStatus: string | null
+  newStatus: string
+  changedBy: string
+}
+
+type QualificationListener = (changes: QualificationChange[]) => Promise<void> | void
+
+const listeners: QualificationListener[] = []
+
+export function onQualificationChanges(listener: QualificationListener) {
+  listeners.push(listener)
+}
+
+// Hand committed writes to every subscriber. Call only after COMMIT; listeners
+// run in the background and their failures never reach the request.
+export function publishQualificationChanges(changes: QualificationChange[]) {
+  if (changes.length === 0) return
+  for (const listener of listeners) {
+    Promise.resolve()
+      .then(() => listener(changes))
+      .catch(error => console.error('Qualification listener error:', error))
+  }
+}
@@ -0,0 +1,171 @@
+import pool from '../db/pool'
+import { currencySql } from './qualifications'
+
+export type ReadinessRuleType = 'min_qualified' | 'category_complete' | 'skills_required'
+
+export interface ReadinessRule {
+  rule_type: ReadinessRuleType
+  category: string | null
+  skill_ids: string[]
+  min_count: number
+}
+
+export const RULE_TYPES: ReadinessRuleType[] = ['min_qualified', 'category_complete', 'skills_required']
+
+// Applied to wings that have not configured any rules
+export const DEFAULT_RULES: ReadinessRule[] = [
+  { rule_type: 'min_qualified', category: null, skill_ids: [], min_count: 3 },
+]
+
+interface SkillInfo {
+  id: string
+  name: string
+  category: string
+}
+
+function satisfies(rule: ReadinessRule, qualified: Set<string>, wingSkills: SkillInfo[]): boolean {
+  switch (rule.rule_type) {
+    case 'min_qualified': {
+      const candidates = rule.category ? wingSkills.filter(s => s.category === rule.category) : wingSkills
+      return candidates.filter(s => qualified.has(s.id)).length >= rule.min_count
+    }
+    case 'category_complete': {
+      const inCategory = wingSkills.filter(s => s.category === rule.category)
+      return inCategory.length > 0 && inCategory.every(s => qualified.has(s.id))
+    }
+    case 'skills_required': {
+      // Every skill of the rule archived: nothing left to qualify in, so nobody meets it
+      if (rule.skill_ids.length === 0) return false
+      if (!rule.skill_ids.every(id => qualified.has(id))) return false
+      const others = wingSkills.filter(s => qualified.has(s.id) && !rule.skill_ids.includes(s.id))
+      return others.length >= rule.min_count
+    }
+  }
+}
+
+// Human-readable summary of a wing's rule set, e.g. for the Dashboard
+export function describeRules(rules: ReadinessRule[], skillNames: Map<string, string>): string {
+  return rules.map(rule => {
+    switch (rule.rule_type) {
+      case 'min_qualified':
+        return `${rule.min_count}+ FMQ/IP${rule.category ? ` in ${rule.category}` : ''}`
+      case 'category_complete':
+        return `all of ${rule.category}`
+      case 'skills_required': {
+        if (rule.skill_ids.length === 0) return 'archived skills only (unmet)'
+        const names = rule.skill_ids.map(id => skillNames.get(id) || 'unknown skill').join(', ')
+        return rule.min_count > 0 ? `${names} plus ${rule.min_count} more` : names
+      }
+    }
+  }).join(' and ')
+}
+
+// A rule's skill_ids without archived skills, in their original order. Archived
+// skills stay in the stored list so restoring them puts them back in the rule.
+export const ruleSkillIdsSql = (r: string) =>
+  `ARRAY(SELECT u.id FROM unnest(${r}.skill_ids) WITH ORDINALITY u(id, n)
+     JOIN skills rs ON rs.id = u.id AND rs.archived_at IS NULL ORDER BY u.n) as skill_ids`
+
+// Rules per wing, falling back to DEFAULT_RULES for wings without any
+export async function loadRules(wingIds: string[]): Promise<Map<string, ReadinessRule[]>> {
+  const result = await pool.query(
+    `SELECT r.wing_id, r.rule_type, r.category, ${ruleSkillIdsSql('r')}, r.min_count
+     FROM readiness_rules r WHERE r.wing_id = ANY($1)
+     ORDER BY sort_order, created_at`,
+    [wingIds]
+  )
+  const rules = new Map<string, ReadinessRule[]>()
+  for (const id of wingIds) rules.set(id, [])
+  for (const row of result.rows) rules.get(row.wing_id)!.push(row)
+  for (const [id, list] of rules) {
+    if (list.length === 0) rules.set(id, DEFAULT_RULES)
+  }
+  return rules
+}
+
+// Evaluate every pilot (optionally only those of the given wings) against
+// their wing's rules. Expired qualifications do not count as FMQ/IP.
+export async function evaluateReadiness(wingIds: string[] | null = null) {
+  const params = [wingIds]
+  const currency = currencySql('q', 's')
+
+  const [pilotsResult, skillsResult, qualifiedResult] = await Promise.all([
+    pool.query(`SELECT p.id, p.wing_id FROM pilots p WHERE p.archived_at IS NULL AND ($1::uuid[] IS NULL OR p.wing_id = ANY($1))`, params),
+    pool.query(
+      `SELECT s.id, s.name, s.category, s.wing_id FROM skills s WHERE s.archived_at IS NULL AND ($1::uuid[] IS NULL OR s.wing_id = ANY($1))`,
+      params
+    ),
+    pool.query(
+      `SELECT q.pilot_id, q.skill_id
+       FROM qualifications q
+       JOIN pilots p ON q.pilot_id = p.id
+       JOIN skills s ON q.skill_id = s.id AND s.archived_at IS NULL
+       WHERE ($1::uuid[] IS NULL OR p.wing_id = ANY($1))
+         AND q.status IN ('FMQ', 'IP')
+         AND (${currency.state}) IS DISTINCT FROM 'expired'`,
+      params
+    ),
+  ])
+
+  const ruleWingIds = wingIds ?? [...new Set<string>(pilotsResult.rows.map(p => p.wing_id))]
+  const rulesByWing = await loadRules(ruleWingIds)
+
+  const skillsByWing = new Map<string, SkillInfo[]>()
+  for (const s of skillsResult.rows) {
+    skillsByWing.set(s.wing_id, [...(skillsByWing.get(s.wing_id) || []), s])
+  }
+
+  const qualifiedByPilot = new Map<string, Set<string>>()
+  for (const row of qualifiedResult.rows) {
+    if (!qualifiedByPilot.has(row.pilot_id)) qualifiedByPilot.set(row.pilot_id, new Set())
+    qualifiedByPilot.get(row.pilot_id)!.add(row.skill_id)
+  }
+
+  const combatReady = new Set<string>()
+  for (const pilot of pilotsResult.rows) {
+    const rules = rulesByWing.get(pilot.wing_id) || DEFAULT_RULES
+    const qualified = qualifiedByPilot.get(pilot.id) || new Set<string>()
+    const wingSkills = skillsByWing.get(pilot.wing_id) || []
+    if (rules.every(rule => satisfies(rule, qualified, wingSkills))) {
+      combatReady.add(pilot.id)
+    }
+  }
+
+  const skillNames = new Map<string, string>(skillsResult.rows.map(s => [s.id, s.name]))
+  // Only summarise when a single rule set applies to everyone counted
+  const ruleSummary = ruleWingIds.length === 1 ? describeRules(rulesByWing.get(ruleWingIds[0])!, skillNames) : null
+
+  return { combatReady, ruleSummary }
+}
+
+// Each pilot's completion: the share of their qualifications in their primary
+// wing that are FMQ or IP, for the pilots of the given wings or of every wing
+export async function pilotCompletion(wingIds: string[] | null = null) {
+  const result = await pool.query(
+    `SELECT
+       p.id,
+       p.wing_id,
+       p.unit_id,
+       p.roster_status,
+       COUNT(q.id) FILTER (WHERE q.status IN ('FMQ', 'IP')) as qualified_count,
+       COUNT(q.id) as total_qualifications,
+       (SELECT COUNT(*) FROM skills s WHERE s.wing_id = p.wing_id AND s.archived_at IS NULL) as total_skills
+     FROM pilots p
+     LEFT JOIN qualifications q ON p.id = q.pilot_id
+       AND q.skill_id IN (SELECT id FROM skills WHERE wing_id = p.wing_id AND archived_at IS NULL)
+     WHERE p.archived_at IS NULL AND ($1::uuid[] IS NULL OR p.wing_id = ANY($1))
+     GROUP BY p.id, p.wing_id`,
+    [wingIds]
+  )
+
+  return result.rows.map(row => {
+    const total = parseInt(row.total_qualifications) || parseInt(row.total_skills) || 1
+    return {
+      id: row.id as string,
+      wing_id: row.wing_id as string,
+      unit_id: row.unit_id as string | null,
+      active: row.roster_status === 'active',
+      completion: (parseInt(row.qualified_count) / total) * 100,
+    }
+  })
+}
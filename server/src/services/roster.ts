@@ -0,0 +1,69 @@
+import { PoolClient } from 'pg'
+
+// Where a pilot stands on the roster. Only active pilots count towards
+// readiness by default; the others keep their qualifications untouched.
+export type RosterStatus = 'active' | 'reserve' | 'loa' | 'retired'
+export const ROSTER_STATUSES: RosterStatus[] = ['active', 'reserve', 'loa', 'retired']
+
+export interface RosterStatusInput {
+  status: RosterStatus
+  effectiveDate: string
+  reason: string | null
+}
+
+export const STATUS_CHANGE_COLUMNS = `id, pilot_id, from_status, status, effective_date::text as effective_date, reason,
+  changed_by, changed_at`
+
+interface Actor {
+  id: string
+  email: string
+}
+
+// Validate a status change; the effective date defaults to today and cannot
+// lie in the future since the status applies as soon as it is set
+export function parseRosterStatusInput(body: any): RosterStatusInput | string {
+  const { status, effective_date, reason } = body
+  if (!ROSTER_STATUSES.includes(status)) return `status must be one of: ${ROSTER_STATUSES.join(', ')}`
+
+  const today = new Date().toISOString().slice(0, 10)
+  let effectiveDate = today
+  if (effective_date !== undefined && effective_date !== null) {
+    if (typeof effective_date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(effective_date) || isNaN(Date.parse(effective_date))) {
+      return 'effective_date must be a date in YYYY-MM-DD format'
+    }
+    if (effective_date > today) return 'effective_date cannot be in the future'
+    effectiveDate = effective_date
+  }
+
+  if (reason !== undefined && reason !== null && (typeof reason !== 'string' || reason.length > 1000)) {
+    return 'Reason must be 1000 characters or fewer'
+  }
+  return { status, effectiveDate, reason: reason?.trim() || null }
+}
+
+// A comma-separated ?status= filter, e.g. "active,reserve"
+export function parseRosterStatusFilter(raw: unknown): RosterStatus[] | string | null {
+  if (raw === undefined || raw === '') return null
+  if (typeof raw !== 'string') return 'Invalid status'
+  const statuses = raw.split(',').map(s => s.trim())
+  const unknown = statuses.find(s => !ROSTER_STATUSES.includes(s as RosterStatus))
+  if (unknown !== undefined) return `status must be one or more of: ${ROSTER_STATUSES.join(', ')}`
+  return statuses as RosterStatus[]
+}
+
+// Set a pilot's status and record the change. Must be called on a client
+// inside an open transaction, with the pilot row locked.
+export async function setRosterStatus(client: PoolClient, pilotId: string, fromStatus: RosterStatus, input: RosterStatusInput, actor: Actor) {
+  await client.query(
+    `UPDATE pilots SET roster_status = $2, roster_status_date = $3, roster_status_reason = $4, updated_at = NOW()
+     WHERE id = $1`,
+    [pilotId, input.status, input.effectiveDate, input.reason]
+  )
+  const change = await client.query(
+    `INSERT INTO pilot_status_changes (pilot_id, from_status, status, effective_date, reason, changed_by, changed_by_user_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING ${STATUS_CHANGE_COLUMNS}`,
+    [pilotId, fromStatus, input.status, input.effectiveDate, input.reason, actor.email, actor.id]
+  )
+  return change.rows[0]
+}
@@ -0,0 +1,117 @@
+import crypto from 'crypto'
+import jwt, { SignOptions } from 'jsonwebtoken'
+import pool from '../db/pool'
+import { Permission, rolePermissions } from './permissions'
+
+// A duration string such as 15m or 1h, as jsonwebtoken accepts it
+export const ACCESS_TOKEN_TTL = (process.env.JWT_EXPIRES_IN || '15m') as SignOptions['expiresIn']
+export const REFRESH_TOKEN_DAYS = parseInt(process.env.REFRESH_TOKEN_DAYS || '30')
+
+export interface SessionUser {
+  id: string
+  email: string
+  role: string
+  wing_id?: string | null
+  must_change_password?: boolean
+}
+
+interface ClientInfo {
+  userAgent?: string
+  ip?: string
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex')
+const newRefreshToken = () => crypto.randomBytes(48).toString('base64url')
+
+export function signAccessToken(user: SessionUser, sessionId: string): string {
+  return jwt.sign(
+    { id: user.id, email: user.email, role: user.role, wing_id: user.wing_id || undefined, sid: sessionId },
+    process.env.JWT_SECRET!,
+    { algorithm: 'HS256', expiresIn: ACCESS_TOKEN_TTL }
+  )
+}
+
+// Open a session and return its id together with the raw refresh token
+export async function createSession(userId: string, info: ClientInfo) {
+  const refreshToken = newRefreshToken()
+  const result = await pool.query(
+    `INSERT INTO sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+     VALUES ($1, $2, $3, $4, NOW() + make_interval(days => $5))
+     RETURNING id, expires_at`,
+    [userId, hashToken(refreshToken), info.userAgent?.slice(0, 500) || null, info.ip || null, REFRESH_TOKEN_DAYS]
+  )
+  return { sessionId: result.rows[0].id as string, refreshToken, expiresAt: result.rows[0].expires_at as Date }
+}
+
+// Seconds after a rotation during which the old token is still honoured, so
+// two tabs refreshing at the same moment do not trip reuse detection
+const ROTATION_GRACE_SECONDS = 30
+
+// Exchange a refresh token for a new one. Presenting a token that was rotated
+// away longer ago than the grace period means it leaked, so the whole session
+// is revoked. Returns null when the token is unknown, expired or revoked;
+// refreshToken is null when a concurrent refresh already issued the new cookie.
+export async function rotateSession(refreshToken: string) {
+  const hash = hashToken(refreshToken)
+  const next = newRefreshToken()
+
+  const result = await pool.query(
+    `UPDATE sessions
+     SET previous_token_hash = refresh_token_hash, refresh_token_hash = $2, last_used_at = NOW()
+     WHERE refresh_token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()
+     RETURNING id, user_id, expires_at`,
+    [hash, hashToken(next)]
+  )
+  if (result.rows.length > 0) {
+    const row = result.rows[0]
+    return { sessionId: row.id as string, userId: row.user_id as string, refreshToken: next as string | null, expiresAt: row.expires_at as Date }
+  }
+
+  const previous = await pool.query(
+    `SELECT id, user_id, expires_at, last_used_at > NOW() - make_interval(secs => $2) as in_grace
+     FROM sessions
+     WHERE previous_token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+    [hash, ROTATION_GRACE_SECONDS]
+  )
+  if (previous.rows.length === 0) return null
+
+  const row = previous.rows[0]
+  if (!row.in_grace) {
+    await pool.query('UPDATE sessions SET revoked_at = NOW() WHERE id = $1', [row.id])
+    return null
+  }
+  return { sessionId: row.id as string, userId: row.user_id as string, refreshToken: null, expiresAt: row.expires_at as Date }
+}
+
+export async function revokeSessionByToken(refreshToken: string) {
+  await pool.query(
+    'UPDATE sessions SET revoked_at = NOW() WHERE refresh_token_hash = $1 AND revoked_at IS NULL',
+    [hashToken(refreshToken)]
+  )
+}
+
+// Revoke every open session of a user; returns how many were open
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const result = await pool.query(
+    `UPDATE sessions SET revoked_at = NOW()
+     WHERE user_id = $1 AND revoked_at IS NULL AND ($2::uuid IS NULL OR id <> $2)`,
+    [userId, exceptSessionId || null]
+  )
+  return result.rowCount ?? 0
+}
+
+// Current role, permissions, email and wing for a live session, or null once it is revoked or expired
+export async function loadSessionUser(sessionId: string): Promise<(SessionUser & { permissions: Permission[]; wing_scoped: boolean }) | null> {
+  const result = await pool.query(
+    `SELECT u.id, u.email, u.role, u.must_change_password, p.wing_id, r.permissions, r.wing_scoped
+     FROM sessions s
+     JOIN users u ON u.id = s.user_id
+     JOIN roles r ON r.name = u.role
+     LEFT JOIN pilots p ON p.user_id = u.id
+     WHERE s.id = $1 AND s.revoked_at IS NULL AND s.expires_at > NOW() AND u.archived_at IS NULL`,
+    [sessionId]
+  )
+  if (result.rows.length === 0) return null
+  const user = result.rows[0]
+  return { ...user, permissions: rolePermissions(user.role, user.permissions, user.wing_scoped) }
+}
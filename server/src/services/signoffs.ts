@@ -0,0 +1,104 @@
+import { Pool, PoolClient } from 'pg'
+import pool from '../db/pool'
+import { Permission } from './permissions'
+
+export const STATUS_RANK: Record<string, number> = { NMQ: 0, MQT: 1, FMQ: 2, IP: 3 }
+
+export interface SignoffSubmission {
+  pilotId: string
+  skillId: string
+  requestedStatus: string
+  requestedBy: string // email of the submitting user
+  requestedByUserId?: string | null
+  note?: string | null
+}
+
+// Whether moving to newStatus is a promotion into FMQ or IP
+export function isQualifyingPromotion(currentStatus: string | null, newStatus: string): boolean {
+  if (newStatus !== 'FMQ' && newStatus !== 'IP') return false
+  return STATUS_RANK[newStatus] > STATUS_RANK[currentStatus ?? 'NMQ']
+}
+
+// Whether a status change must go through a sign-off request: promotions into
+// FMQ or IP need a second reviewer unless the caller may skip sign-off.
+export function requiresSignoff(canSkipSignoff: boolean, currentStatus: string | null, newStatus: string): boolean {
+  return !canSkipSignoff && isQualifyingPromotion(currentStatus, newStatus)
+}
+
+// Who may sign pilots off on which skills. Roles with qualifications:write
+// cover every skill in the wings they reach, unless the instructors_require_ip
+// setting limits wing-scoped roles to the skills they hold IP on. Any pilot
+// holding IP on a skill may sign other pilots off on it.
+export interface SignoffAuthority {
+  wingWide: boolean
+  // Set when instructors_require_ip limits this wing-scoped user to their IP skills
+  ipOnly: boolean
+  ipSkillIds: string[]
+  pilotId: string | null // the user's own pilot, who cannot sign themselves off
+}
+
+interface AuthorityUser {
+  id: string
+  permissions: Permission[]
+  wing_scoped: boolean
+  wing_id?: string
+}
+
+export async function loadSignoffAuthority(user: AuthorityUser, db: Pool | PoolClient = pool): Promise<SignoffAuthority> {
+  const ip = await db.query(
+    `SELECT p.id as pilot_id, q.skill_id
+     FROM pilots p
+     LEFT JOIN qualifications q ON q.pilot_id = p.id AND q.status = 'IP'
+     WHERE p.user_id = $1`,
+    [user.id]
+  )
+  const setting = await db.query(`SELECT value FROM settings WHERE key = 'instructors_require_ip'`)
+  const ipOnly = user.wing_scoped && setting.rows[0]?.value === 'true'
+  return {
+    wingWide: user.permissions.includes('qualifications:write') && !ipOnly,
+    ipOnly,
+    ipSkillIds: ip.rows.filter(r => r.skill_id).map(r => r.skill_id),
+    pilotId: ip.rows[0]?.pilot_id || null,
+  }
+}
+
+// Why the user may not change a pilot's qualification on a skill, or null if
+// they may. The skill must belong to one of the pilot's wings; wing-scoped
+// roles act on the skills of their own wing, including for guest pilots.
+export function signoffDenial(
+  authority: SignoffAuthority,
+  user: AuthorityUser,
+  pilotId: string,
+  skill: { id: string; wing_id: string }
+): string | null {
+  if (authority.wingWide) {
+    return !user.wing_scoped || skill.wing_id === user.wing_id ? null : 'You can only edit pilots in your own wing'
+  }
+  if (authority.ipSkillIds.includes(skill.id)) {
+    return pilotId === authority.pilotId ? 'You cannot sign yourself off' : null
+  }
+  return authority.ipOnly && user.permissions.includes('qualifications:write')
+    ? 'You can only sign off skills you hold IP on'
+    : 'Only instructors or IP holders on this skill can sign pilots off on it'
+}
+
+// Open a sign-off request, replacing any request already pending for the
+// same pilot and skill. Must be called on a client inside an open transaction.
+export async function submitSignoff(client: PoolClient, submission: SignoffSubmission) {
+  const result = await client.query(
+    `INSERT INTO signoff_requests (pilot_id, skill_id, requested_status, note, requested_by, requested_by_user_id)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (pilot_id, skill_id) WHERE status = 'pending'
+     DO UPDATE SET requested_status = $3, note = $4, requested_by = $5, requested_by_user_id = $6, created_at = NOW()
+     RETURNING *`,
+    [
+      submission.pilotId,
+      submission.skillId,
+      submission.requestedStatus,
+      submission.note || null,
+      submission.requestedBy,
+      submission.requestedByUserId || null,
+    ]
+  )
+  return result.rows[0]
+}
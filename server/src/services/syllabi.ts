@@ -0,0 +1,294 @@
+import { Pool, PoolClient } from 'pg'
+import { enqueueWebhookEvent } from './webhooks'
+
+// Marks an exported template file; format_version changes only when the
+// layout of the file does, not with the template's own version.
+export const SYLLABUS_FORMAT = 'skillboard-syllabus'
+export const SYLLABUS_FORMAT_VERSION = 1
+
+const DEFAULT_CATEGORY_COLOR = '#3B82F6'
+const MAX_CATEGORIES = 100
+const MAX_SKILLS = 500
+
+// Categories and skills are listed in display order; prerequisites refer to
+// other skills of the same template by name.
+export interface SyllabusCategory {
+  name: string
+  color: string
+}
+
+export interface SyllabusSkill {
+  name: string
+  category: string
+  description: string | null
+  currency_days: number | null
+  prerequisites: string[]
+}
+
+export interface SyllabusContent {
+  categories: SyllabusCategory[]
+  skills: SyllabusSkill[]
+}
+
+export interface SyllabusMeta {
+  name: string
+  airframe: string | null
+  description: string | null
+}
+
+// The content of a wing's current syllabus, in the wing's display order
+export async function captureWingSyllabus(db: Pool | PoolClient, wingId: string): Promise<SyllabusContent> {
+  const [skills, colors, prerequisites] = await Promise.all([
+    db.query(
+      'SELECT id, name, category, description, currency_days FROM skills WHERE wing_id = $1 AND archived_at IS NULL ORDER BY sort_order, name',
+      [wingId]
+    ),
+    db.query('SELECT category, color, sort_order FROM category_colors WHERE wing_id = $1', [wingId]),
+    db.query(
+      `SELECT sp.skill_id, p.name FROM skill_prerequisites sp
+       JOIN skills s ON s.id = sp.skill_id
+       JOIN skills p ON p.id = sp.prerequisite_id
+       WHERE s.wing_id = $1 AND s.archived_at IS NULL AND p.archived_at IS NULL
+       ORDER BY p.sort_order, p.name`,
+      [wingId]
+    ),
+  ])
+
+  // Same ordering as GET /api/wings/:id/categories: configured order first,
+  // then categories that only exist on skills in the order they first appear
+  const colorMap = new Map(colors.rows.map(c => [c.category, c]))
+  const names = [...new Set(skills.rows.map(s => s.category as string))]
+  const categories = names
+    .map((name, idx) => ({ name, color: colorMap.get(name)?.color || DEFAULT_CATEGORY_COLOR, order: colorMap.get(name)?.sort_order ?? idx }))
+    .sort((a, b) => a.order - b.order || a.name.localeCompare(b.name))
+    .map(({ name, color }) => ({ name, color }))
+
+  const prereqs = new Map<string, string[]>()
+  for (const row of prerequisites.rows) prereqs.set(row.skill_id, [...(prereqs.get(row.skill_id) || []), row.name])
+
+  return {
+    categories,
+    skills: skills.rows.map(s => ({
+      name: s.name,
+      category: s.category,
+      description: s.description,
+      currency_days: s.currency_days,
+      prerequisites: prereqs.get(s.id) || [],
+    })),
+  }
+}
+
+const isHexColor = (v: unknown) => typeof v === 'string' && /^#[0-9A-Fa-f]{6}$/.test(v)
+const isOptionalText = (v: unknown, max: number) => v === undefined || v === null || (typeof v === 'string' && v.length <= max)
+
+// Validate template content from a request or an imported file
+export function parseSyllabusContent(body: any): string | SyllabusContent {
+  const { categories, skills } = body ?? {}
+  if (!Array.isArray(categories) || categories.length > MAX_CATEGORIES) {
+    return `categories must be an array of at most ${MAX_CATEGORIES} entries`
+  }
+  if (!Array.isArray(skills) || skills.length === 0 || skills.length > MAX_SKILLS) {
+    return `skills must be an array of 1 to ${MAX_SKILLS} entries`
+  }
+
+  const parsedCategories: SyllabusCategory[] = []
+  const categoryNames = new Set<string>()
+  for (const c of categories) {
+    if (typeof c?.name !== 'string' || !c.name.trim() || c.name.trim().length > 100) {
+      return 'Every category needs a name of at most 100 characters'
+    }
+    const name = c.name.trim()
+    if (categoryNames.has(name)) return `Category "${name}" is listed twice`
+    if (c.color !== undefined && !isHexColor(c.color)) return `Category "${name}" has an invalid color (e.g. #3B82F6)`
+    categoryNames.add(name)
+    parsedCategories.push({ name, color: c.color || DEFAULT_CATEGORY_COLOR })
+  }
+
+  const parsedSkills: SyllabusSkill[] = []
+  const skillNames = new Set<string>()
+  for (const s of skills) {
+    if (typeof s?.name !== 'string' || !s.name.trim() || s.name.trim().length > 200) {
+      return 'Every skill needs a name of at most 200 characters'
+    }
+    const name = s.name.trim()
+    if (skillNames.has(name.toLowerCase())) return `Skill "${name}" is listed twice`
+    skillNames.add(name.toLowerCase())
+    if (typeof s.category !== 'string' || !s.category.trim()) return `Skill "${name}" has no category`
+    const category = s.category.trim()
+    // Categories named only on skills are added in the order they appear
+    if (!categoryNames.has(category)) {
+      if (parsedCategories.length >= MAX_CATEGORIES) return `A template can have at most ${MAX_CATEGORIES} categories`
+      categoryNames.add(category)
+      parsedCategories.push({ name: category, color: DEFAULT_CATEGORY_COLOR })
+    }
+    if (!isOptionalText(s.description, 2000)) return `Skill "${name}" has an invalid description`
+    const days = s.currency_days
+    if (days !== undefined && days !== null && !(Number.isInteger(days) && days > 0 && days <= 3650)) {
+      return `Skill "${name}": currency_days must be a whole number between 1 and 3650`
+    }
+    if (s.prerequisites !== undefined && (!Array.isArray(s.prerequisites) || s.prerequisites.some((p: unknown) => typeof p !== 'string'))) {
+      return `Skill "${name}": prerequisites must be a list of skill names`
+    }
+    parsedSkills.push({
+      name,
+      category,
+      description: s.description?.trim() || null,
+      currency_days: days ?? null,
+      prerequisites: [...new Set<string>((s.prerequisites || []).map((p: string) => p.trim()))],
+    })
+  }
+
+  const byName = new Map(parsedSkills.map(s => [s.name.toLowerCase(), s]))
+  for (const s of parsedSkills) {
+    for (const p of s.prerequisites) {
+      if (!byName.has(p.toLowerCase())) return `Skill "${s.name}" requires "${p}", which is not in the template`
+      if (p.toLowerCase() === s.name.toLowerCase()) return `Skill "${s.name}" cannot be its own prerequisite`
+    }
+  }
+  const cycle = findPrerequisiteCycle(parsedSkills)
+  if (cycle) return `Prerequisites form a loop through "${cycle}"`
+
+  return { categories: parsedCategories, skills: parsedSkills }
+}
+
+// Name of a skill on a prerequisite loop, if there is one
+function findPrerequisiteCycle(skills: SyllabusSkill[]): string | null {
+  const byName = new Map(skills.map(s => [s.name.toLowerCase(), s]))
+  const state = new Map<string, 'visiting' | 'done'>()
+  const visit = (key: string): string | null => {
+    if (state.get(key) === 'done') return null
+    if (state.get(key) === 'visiting') return byName.get(key)!.name
+    state.set(key, 'visiting')
+    for (const p of byName.get(key)!.prerequisites) {
+      const found = visit(p.toLowerCase())
+      if (found) return found
+    }
+    state.set(key, 'done')
+    return null
+  }
+  for (const key of byName.keys()) {
+    const found = visit(key)
+    if (found) return found
+  }
+  return null
+}
+
+// Validate the name, airframe and description of a template
+export function parseSyllabusMeta(body: any): string | SyllabusMeta {
+  const { name, airframe, description } = body ?? {}
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+    return 'Name is required (max 100 characters)'
+  }
+  if (!isOptionalText(airframe, 50)) return 'Airframe must be 50 characters or fewer'
+  if (!isOptionalText(description, 2000)) return 'Description must be 2000 characters or fewer'
+  return { name: name.trim(), airframe: airframe?.trim() || null, description: description?.trim() || null }
+}
+
+// The file GET /api/syllabi/:id/export produces and POST /api/syllabi/import reads
+export function toSyllabusFile(template: SyllabusMeta & { version: number; content: SyllabusContent }) {
+  return {
+    format: SYLLABUS_FORMAT,
+    format_version: SYLLABUS_FORMAT_VERSION,
+    name: template.name,
+    airframe: template.airframe,
+    description: template.description,
+    version: template.version,
+    exported_at: new Date().toISOString(),
+    categories: template.content.categories,
+    skills: template.content.skills,
+  }
+}
+
+export function parseSyllabusFile(body: any): string | { meta: SyllabusMeta; version: number; content: SyllabusContent } {
+  if (body?.format !== SYLLABUS_FORMAT) return 'Not a syllabus template file'
+  if (body.format_version !== SYLLABUS_FORMAT_VERSION) {
+    return `Unsupported syllabus file version ${body.format_version}; this server reads version ${SYLLABUS_FORMAT_VERSION}`
+  }
+  const meta = parseSyllabusMeta(body)
+  if (typeof meta === 'string') return meta
+  const version = body.version ?? 1
+  if (!Number.isInteger(version) || version < 1) return 'version must be a positive whole number'
+  const content = parseSyllabusContent(body)
+  if (typeof content === 'string') return content
+  return { meta, version, content }
+}
+
+export interface ApplyResult {
+  categories_created: number
+  skills_created: number
+  skills_skipped: string[] // already in the wing under the same name
+  prerequisites_created: number
+  qualifications_created: number
+}
+
+// Add a template's categories and skills to a wing, after anything the wing
+// already has. Skills whose name the wing already uses are left untouched,
+// and so are existing category colors. Every pilot of the wing gets an NMQ
+// row for the new skills. Must be called on a client inside an open transaction.
+export async function applySyllabus(client: PoolClient, wingId: string, content: SyllabusContent, changedBy: string): Promise<ApplyResult> {
+  const [existingSkills, existingCategories] = await Promise.all([
+    client.query('SELECT id, name, sort_order FROM skills WHERE wing_id = $1 AND archived_at IS NULL', [wingId]),
+    client.query('SELECT category, sort_order FROM category_colors WHERE wing_id = $1', [wingId]),
+  ])
+
+  const knownCategories = new Set(existingCategories.rows.map(c => c.category))
+  let categoryOrder = Math.max(-1, ...existingCategories.rows.map(c => c.sort_order ?? 0)) + 1
+  let categoriesCreated = 0
+  for (const c of content.categories) {
+    if (knownCategories.has(c.name)) continue
+    await client.query(
+      'INSERT INTO category_colors (wing_id, category, color, sort_order) VALUES ($1, $2, $3, $4)',
+      [wingId, c.name, c.color, categoryOrder++]
+    )
+    categoriesCreated++
+  }
+
+  const skillIds = new Map(existingSkills.rows.map(s => [(s.name as string).toLowerCase(), s.id as string]))
+  let skillOrder = Math.max(0, ...existingSkills.rows.map(s => s.sort_order)) + 1
+  const created: SyllabusSkill[] = []
+  const skipped: string[] = []
+  for (const s of content.skills) {
+    if (skillIds.has(s.name.toLowerCase())) {
+      skipped.push(s.name)
+      continue
+    }
+    const result = await client.query(
+      `INSERT INTO skills (wing_id, name, category, description, sort_order, currency_days)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [wingId, s.name, s.category, s.description, skillOrder++, s.currency_days]
+    )
+    skillIds.set(s.name.toLowerCase(), result.rows[0].id)
+    created.push(s)
+    await enqueueWebhookEvent('skill.created', result.rows[0], wingId, client)
+  }
+
+  // Only new skills get prerequisites; existing skills keep theirs
+  let prerequisitesCreated = 0
+  for (const s of created) {
+    for (const p of s.prerequisites) {
+      const result = await client.query(
+        'INSERT INTO skill_prerequisites (skill_id, prerequisite_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+        [skillIds.get(s.name.toLowerCase()), skillIds.get(p.toLowerCase())]
+      )
+      prerequisitesCreated += result.rowCount ?? 0
+    }
+  }
+
+  const qualifications = await client.query(
+    `INSERT INTO qualifications (pilot_id, skill_id, status, last_updated, updated_by)
+     SELECT p.id, s.id, 'NMQ', NOW(), $2
+     FROM pilots p
+     JOIN skills s ON s.wing_id = p.wing_id
+     WHERE p.wing_id = $1 AND s.id = ANY($3)
+     ON CONFLICT (pilot_id, skill_id) DO NOTHING`,
+    [wingId, changedBy, created.map(s => skillIds.get(s.name.toLowerCase()))]
+  )
+
+  return {
+    categories_created: categoriesCreated,
+    skills_created: created.length,
+    skills_skipped: skipped,
+    prerequisites_created: prerequisitesCreated,
+    qualifications_created: qualifications.rowCount ?? 0,
+  }
+}
@@ -0,0 +1,304 @@
+import { Pool, PoolClient } from 'pg'
+import { writeQualification } from './qualifications'
+import { STATUS_RANK } from './signoffs'
+import { pilotInWingSql } from './transfers'
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// One retired skill and the live skills that replace it. A skill split in two
+// lists both; skills merged into one each list the same target; an empty list
+// drops the skill without replacement.
+export interface RevisionMapping {
+  from_skill_id: string
+  to_skill_ids: string[]
+}
+
+export interface RevisionInput {
+  note: string | null
+  mappings: RevisionMapping[]
+}
+
+export function parseRevisionInput(body: any): string | RevisionInput {
+  const { note, mappings } = body ?? {}
+  if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 1000)) {
+    return 'Note must be 1000 characters or fewer'
+  }
+  if (!Array.isArray(mappings) || mappings.length === 0 || mappings.length > 500) {
+    return 'mappings must list 1 to 500 retired skills'
+  }
+
+  const from = new Set<string>()
+  const parsed: RevisionMapping[] = []
+  for (const m of mappings) {
+    if (typeof m?.from_skill_id !== 'string' || !UUID_RE.test(m.from_skill_id)) {
+      return 'Every mapping needs a valid from_skill_id'
+    }
+    const to = m.to_skill_ids ?? []
+    if (!Array.isArray(to) || to.length > 20 || !to.every((id: unknown) => typeof id === 'string' && UUID_RE.test(id))) {
+      return 'to_skill_ids must be a list of at most 20 skill IDs'
+    }
+    if (from.has(m.from_skill_id)) return 'A skill can only be retired once per revision'
+    from.add(m.from_skill_id)
+    parsed.push({ from_skill_id: m.from_skill_id, to_skill_ids: [...new Set<string>(to)] })
+  }
+  if (parsed.some(m => m.to_skill_ids.some(id => from.has(id)))) {
+    return 'A skill cannot both be retired and replace another skill'
+  }
+  return { note: note?.trim() || null, mappings: parsed }
+}
+
+export interface RevisionPlan {
+  wing_id: string
+  from_version: number
+  to_version: number
+  skills: Array<{
+    from_skill_id: string
+    from_skill_name: string
+    category: string
+    to: Array<{ skill_id: string; skill_name: string }>
+    holders: number // pilots at MQT or above on the retired skill
+  }>
+  pilots: Array<{
+    pilot_id: string
+    callsign: string
+    carried: Array<{ skill_id: string; skill_name: string; from_status: string | null; status: string; sources: string[]; last_performed: string | null }>
+    archived: Array<{ skill_name: string; status: string }>
+  }>
+  carried_count: number
+  archived_count: number // qualification rows moved to the archive, NMQ included
+  cancelled_signoffs: number
+  cancelled_evaluations: number
+  readiness_rules_updated: number
+  prerequisites_archived: number
+}
+
+// Work out what a revision would do without changing anything. Each
+// replacement skill takes the lowest status the pilot holds across the skills
+// it replaces (a merged skill needs all of its parts), and only where that is
+// a step up from what the pilot already has on it.
+export async function planRevision(db: Pool | PoolClient, wingId: string, mappings: RevisionMapping[]): Promise<string | RevisionPlan> {
+  const fromIds = mappings.map(m => m.from_skill_id)
+  const toIds = [...new Set(mappings.flatMap(m => m.to_skill_ids))]
+
+  const [wing, skills, quals, signoffs, evaluations, rules, prerequisites] = await Promise.all([
+    db.query('SELECT syllabus_version FROM wings WHERE id = $1', [wingId]),
+    db.query(
+      'SELECT id, name, category FROM skills WHERE wing_id = $1 AND archived_at IS NULL AND id = ANY($2)',
+      [wingId, [...fromIds, ...toIds]]
+    ),
+    db.query(
+      `SELECT q.pilot_id, p.callsign, q.skill_id, q.status, COALESCE(q.last_performed, q.last_updated) as performed
+       FROM qualifications q JOIN pilots p ON p.id = q.pilot_id
+       WHERE q.skill_id = ANY($1)
+       ORDER BY p.callsign`,
+      [[...fromIds, ...toIds]]
+    ),
+    db.query(`SELECT COUNT(*)::int as n FROM signoff_requests WHERE skill_id = ANY($1) AND status = 'pending'`, [fromIds]),
+    db.query(
+      `SELECT COUNT(*)::int as n FROM evaluation_requests WHERE skill_id = ANY($1) AND status IN ('pending', 'accepted', 'scheduled')`,
+      [fromIds]
+    ),
+    db.query('SELECT COUNT(*)::int as n FROM readiness_rules WHERE wing_id = $1 AND skill_ids && $2::uuid[]', [wingId, fromIds]),
+    db.query(
+      'SELECT COUNT(*)::int as n FROM skill_prerequisites WHERE skill_id = ANY($1) OR prerequisite_id = ANY($1)',
+      [fromIds]
+    ),
+  ])
+
+  if (wing.rows.length === 0) return 'Wing not found'
+  const skillById = new Map(skills.rows.map(s => [s.id as string, s]))
+  const unknown = [...fromIds, ...toIds].filter(id => !skillById.has(id))
+  if (unknown.length > 0) return 'Every skill in the mapping must be a current skill of this wing'
+
+  // pilot -> skill -> qualification
+  const held = new Map<string, { callsign: string; bySkill: Map<string, { status: string; performed: Date | null }> }>()
+  for (const q of quals.rows) {
+    if (!held.has(q.pilot_id)) held.set(q.pilot_id, { callsign: q.callsign, bySkill: new Map() })
+    held.get(q.pilot_id)!.bySkill.set(q.skill_id, { status: q.status, performed: q.performed })
+  }
+
+  const sourcesOf = new Map<string, string[]>()
+  for (const m of mappings) {
+    for (const to of m.to_skill_ids) sourcesOf.set(to, [...(sourcesOf.get(to) || []), m.from_skill_id])
+  }
+
+  const pilots: RevisionPlan['pilots'] = []
+  let carriedCount = 0
+  let archivedCount = 0
+  for (const [pilotId, { callsign, bySkill }] of held) {
+    const carried: RevisionPlan['pilots'][number]['carried'] = []
+    for (const [toId, sources] of sourcesOf) {
+      const parts = sources.map(id => bySkill.get(id))
+      if (parts.some(p => !p)) continue
+      const lowest = parts.reduce((low, p) => (STATUS_RANK[p!.status] < STATUS_RANK[low!.status] ? p : low))!
+      const current = bySkill.get(toId)?.status ?? null
+      if (STATUS_RANK[lowest.status] <= STATUS_RANK[current ?? 'NMQ']) continue
+      // The least recently flown part decides when the new skill was last flown
+      const performed = parts.some(p => !p!.performed)
+        ? null
+        : parts.reduce((min, p) => (p!.performed! < min ? p!.performed! : min), parts[0]!.performed!)
+      carried.push({
+        skill_id: toId,
+        skill_name: skillById.get(toId).name,
+        from_status: current,
+        status: lowest.status,
+        sources: sources.map(id => skillById.get(id).name),
+        last_performed: performed ? new Date(performed).toISOString() : null,
+      })
+    }
+
+    const archivedRows = fromIds.filter(id => bySkill.has(id))
+    archivedCount += archivedRows.length
+    const archived = archivedRows
+      .filter(id => bySkill.get(id)!.status !== 'NMQ')
+      .map(id => ({ skill_name: skillById.get(id).name, status: bySkill.get(id)!.status }))
+    if (carried.length > 0 || archived.length > 0) {
+      pilots.push({ pilot_id: pilotId, callsign, carried, archived })
+      carriedCount += carried.length
+    }
+  }
+
+  const version = wing.rows[0].syllabus_version
+  return {
+    wing_id: wingId,
+    from_version: version,
+    to_version: version + 1,
+    skills: mappings.map(m => ({
+      from_skill_id: m.from_skill_id,
+      from_skill_name: skillById.get(m.from_skill_id).name,
+      category: skillById.get(m.from_skill_id).category,
+      to: m.to_skill_ids.map(id => ({ skill_id: id, skill_name: skillById.get(id).name })),
+      holders: [...held.values()].filter(p => STATUS_RANK[p.bySkill.get(m.from_skill_id)?.status ?? 'NMQ'] > 0).length,
+    })),
+    pilots,
+    carried_count: carriedCount,
+    archived_count: archivedCount,
+    cancelled_signoffs: signoffs.rows[0].n,
+    cancelled_evaluations: evaluations.rows[0].n,
+    readiness_rules_updated: rules.rows[0].n,
+    prerequisites_archived: prerequisites.rows[0].n,
+  }
+}
+
+interface Actor {
+  id: string
+  email: string
+}
+
+// Retire a skill: move every pilot's qualification on it to the archive, close
+// open requests for it, and mark it archived. The skill row, its qualification
+// history, prerequisite links and readiness rule entries stay so a restore
+// brings them back; readers skip archived skills.
+// Must be called on a client inside an open transaction.
+export async function archiveSkill(client: PoolClient, skillId: string, actor: Actor, revisionId: string | null = null): Promise<number> {
+  const archived = await client.query(
+    `INSERT INTO archived_qualifications
+       (pilot_id, skill_id, wing_id, wing_name, skill_name, category, status, last_performed, last_updated,
+        updated_by, revision_id, archived_by)
+     SELECT q.pilot_id, q.skill_id, s.wing_id, w.name, s.name, s.category, q.status, q.last_performed, q.last_updated,
+       q.updated_by, $2, $3
+     FROM qualifications q
+     JOIN skills s ON s.id = q.skill_id
+     JOIN wings w ON w.id = s.wing_id
+     WHERE q.skill_id = $1`,
+    [skillId, revisionId, actor.email]
+  )
+  await client.query('DELETE FROM qualifications WHERE skill_id = $1', [skillId])
+  await client.query(
+    `UPDATE signoff_requests SET status = 'cancelled', reviewed_by = $2, reviewed_by_user_id = $3, reviewed_at = NOW(),
+       review_comment = 'Skill was retired'
+     WHERE skill_id = $1 AND status = 'pending'`,
+    [skillId, actor.email, actor.id]
+  )
+  await client.query(
+    `UPDATE evaluation_requests SET status = 'cancelled', response = 'Skill was retired', updated_at = NOW()
+     WHERE skill_id = $1 AND status IN ('pending', 'accepted', 'scheduled')`,
+    [skillId]
+  )
+  await client.query('UPDATE skills SET archived_at = NOW(), archived_by = $2 WHERE id = $1', [skillId, actor.email])
+  return archived.rowCount ?? 0
+}
+
+// Carry out a planned revision and record it as the wing's next syllabus
+// version. Returns null when another revision got there first. Carried
+// statuses are not published to notifications or webhooks.
+// Must be called on a client inside an open transaction.
+export async function applyRevision(
+  client: PoolClient,
+  plan: RevisionPlan,
+  mappings: RevisionMapping[],
+  actor: Actor,
+  note: string | null
+) {
+  const bumped = await client.query(
+    'UPDATE wings SET syllabus_version = $2, updated_at = NOW() WHERE id = $1 AND syllabus_version = $3 RETURNING id',
+    [plan.wing_id, plan.to_version, plan.from_version]
+  )
+  if (bumped.rows.length === 0) return null
+
+  const revision = await client.query(
+    `INSERT INTO syllabus_revisions (wing_id, version, note, mapping, created_by, created_by_user_id)
+     VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+    [plan.wing_id, plan.to_version, note, JSON.stringify(plan.skills.map(({ holders, ...s }) => s)), actor.email, actor.id]
+  )
+  const revisionId = revision.rows[0].id
+
+  for (const pilot of plan.pilots) {
+    for (const c of pilot.carried) {
+      await writeQualification(client, {
+        pilotId: pilot.pilot_id,
+        skillId: c.skill_id,
+        status: c.status,
+        changedBy: actor.email,
+        changedByUserId: actor.id,
+        note: `Carried over from ${c.sources.join(', ')} (syllabus v${plan.to_version})`,
+        lastPerformed: c.last_performed ? new Date(c.last_performed) : null,
+      })
+    }
+  }
+
+  // Readiness rules that named a retired skill now name its replacements
+  const replacements = new Map(mappings.map(m => [m.from_skill_id, m.to_skill_ids]))
+  const rules = await client.query(
+    'SELECT id, skill_ids FROM readiness_rules WHERE wing_id = $1 AND skill_ids && $2::uuid[]',
+    [plan.wing_id, mappings.map(m => m.from_skill_id)]
+  )
+  for (const rule of rules.rows) {
+    const skillIds = [...new Set<string>(rule.skill_ids.flatMap((id: string) => replacements.get(id) ?? [id]))]
+    await client.query('UPDATE readiness_rules SET skill_ids = $1 WHERE id = $2', [skillIds, rule.id])
+  }
+
+  let archived = 0
+  for (const m of mappings) {
+    archived += await archiveSkill(client, m.from_skill_id, actor, revisionId)
+  }
+
+  const result = await client.query(
+    'UPDATE syllabus_revisions SET carried_count = $1, archived_count = $2 WHERE id = $3 RETURNING *',
+    [plan.carried_count, archived, revisionId]
+  )
+  return result.rows[0]
+}
+
+// Bring an archived skill back. Qualifications archived with it return to
+// pilots who still belong to the wing; ones moved off by a pilot transfer stay
+// in the archive. Statuses carried onto replacement skills are left alone.
+// Must be called on a client inside an open transaction.
+export async function restoreSkill(client: PoolClient, skillId: string): Promise<number> {
+  const restored = await client.query(
+    `WITH returned AS (
+       DELETE FROM archived_qualifications a
+       USING skills s, pilots p
+       WHERE a.skill_id = $1 AND a.transfer_id IS NULL AND s.id = a.skill_id AND p.id = a.pilot_id
+         AND ${pilotInWingSql('p', 's.wing_id')}
+         AND NOT EXISTS (SELECT 1 FROM qualifications q WHERE q.pilot_id = a.pilot_id AND q.skill_id = a.skill_id)
+       RETURNING a.pilot_id, a.skill_id, a.status, a.last_performed, a.last_updated, a.updated_by
+     )
+     INSERT INTO qualifications (pilot_id, skill_id, status, last_performed, last_updated, updated_by)
+     SELECT pilot_id, skill_id, status, last_performed, COALESCE(last_updated, NOW()), updated_by FROM returned
+     ON CONFLICT (pilot_id, skill_id) DO NOTHING`,
+    [skillId]
+  )
+  await client.query('UPDATE skills SET archived_at = NULL, archived_by = NULL WHERE id = $1', [skillId])
+  return restored.rowCount ?? 0
+}
@@ -0,0 +1,232 @@
+import { Pool, PoolClient } from 'pg'
+import { writeQualification } from './qualifications'
+import { STATUS_RANK } from './signoffs'
+
+// What happens to the qualifications of the wing a pilot leaves:
+//   archive    - move them to archived_qualifications
+//   carry_over - archive them, but first copy each status onto the new wing's
+//                skill of the same name where that is a step up
+//   keep       - leave them live and keep the old wing as a secondary membership
+export type TransferMode = 'archive' | 'carry_over' | 'keep'
+export const TRANSFER_MODES: TransferMode[] = ['archive', 'carry_over', 'keep']
+
+export type MembershipKind = 'guest' | 'dual'
+export const MEMBERSHIP_KINDS: MembershipKind[] = ['guest', 'dual']
+
+// SQL condition for a pilot belonging to a wing, as primary or secondary member.
+// `wing` is a placeholder or column expression such as '$2'.
+export const pilotInWingSql = (p: string, wing: string) =>
+  `(${p}.wing_id = ${wing} OR EXISTS (SELECT 1 FROM pilot_wings pw WHERE pw.pilot_id = ${p}.id AND pw.wing_id = ${wing}))`
+
+// Same, for a list of wings bound as a uuid[] placeholder
+export const pilotInWingsSql = (p: string, wings: string) =>
+  `(${p}.wing_id = ANY(${wings}) OR EXISTS (SELECT 1 FROM pilot_wings pw WHERE pw.pilot_id = ${p}.id AND pw.wing_id = ANY(${wings})))`
+
+export async function pilotBelongsToWing(db: Pool | PoolClient, pilotId: string, wingId: string): Promise<boolean> {
+  const result = await db.query(`SELECT 1 FROM pilots p WHERE p.id = $1 AND ${pilotInWingSql('p', '$2')}`, [pilotId, wingId])
+  return result.rows.length > 0
+}
+
+export interface TransferPilot {
+  id: string
+  callsign: string
+  wing_id: string
+  wing_name: string
+}
+
+export interface TransferWing {
+  id: string
+  name: string
+}
+
+export interface TransferPlan {
+  pilot: TransferPilot
+  to_wing: TransferWing
+  mode: TransferMode
+  carried: Array<{ from_skill_id: string; to_skill_id: string; skill_name: string; status: string; replaces: string | null }>
+  archived: Array<{ skill_id: string; skill_name: string; category: string; status: string }>
+  created: Array<{ skill_id: string; skill_name: string; category: string }>
+  cancelled_signoffs: number
+  cancelled_evaluations: number
+}
+
+// Work out what a transfer would do without changing anything; the preview
+// endpoint returns this as-is and applyTransfer carries it out.
+export async function planTransfer(
+  db: Pool | PoolClient,
+  pilot: TransferPilot,
+  toWing: TransferWing,
+  mode: TransferMode
+): Promise<TransferPlan> {
+  const [held, target, signoffs, evaluations] = await Promise.all([
+    db.query(
+      `SELECT q.skill_id, q.status, s.name as skill_name, s.category
+       FROM qualifications q
+       JOIN skills s ON s.id = q.skill_id
+       WHERE q.pilot_id = $1 AND s.wing_id = $2
+       ORDER BY s.category, s.sort_order, s.name`,
+      [pilot.id, pilot.wing_id]
+    ),
+    db.query(
+      `SELECT s.id, s.name, s.category, q.status
+       FROM skills s
+       LEFT JOIN qualifications q ON q.skill_id = s.id AND q.pilot_id = $1
+       WHERE s.wing_id = $2 AND s.archived_at IS NULL
+       ORDER BY s.category, s.sort_order, s.name`,
+      [pilot.id, toWing.id]
+    ),
+    db.query(
+      `SELECT COUNT(*)::int as n FROM signoff_requests r JOIN skills s ON s.id = r.skill_id
+       WHERE r.pilot_id = $1 AND s.wing_id = $2 AND r.status = 'pending'`,
+      [pilot.id, pilot.wing_id]
+    ),
+    db.query(
+      `SELECT COUNT(*)::int as n FROM evaluation_requests r JOIN skills s ON s.id = r.skill_id
+       WHERE r.pilot_id = $1 AND s.wing_id = $2 AND r.status IN ('pending', 'accepted', 'scheduled')`,
+      [pilot.id, pilot.wing_id]
+    ),
+  ])
+
+  const carried: TransferPlan['carried'] = []
+  if (mode === 'carry_over') {
+    const byName = new Map(target.rows.map(s => [s.name.toLowerCase(), s]))
+    for (const q of held.rows) {
+      const match = byName.get(q.skill_name.toLowerCase())
+      if (match && STATUS_RANK[q.status] > STATUS_RANK[match.status ?? 'NMQ']) {
+        carried.push({ from_skill_id: q.skill_id, to_skill_id: match.id, skill_name: match.name, status: q.status, replaces: match.status })
+      }
+    }
+  }
+  const carriedTo = new Set(carried.map(c => c.to_skill_id))
+
+  const keep = mode === 'keep'
+  return {
+    pilot,
+    to_wing: toWing,
+    mode,
+    carried,
+    archived: keep ? [] : held.rows.map(q => ({ skill_id: q.skill_id, skill_name: q.skill_name, category: q.category, status: q.status })),
+    created: target.rows
+      .filter(s => s.status === null && !carriedTo.has(s.id))
+      .map(s => ({ skill_id: s.id, skill_name: s.name, category: s.category })),
+    cancelled_signoffs: keep ? 0 : signoffs.rows[0].n,
+    cancelled_evaluations: keep ? 0 : evaluations.rows[0].n,
+  }
+}
+
+interface Actor {
+  id: string
+  email: string
+}
+
+// Move a pilot's qualifications on one wing's skills into the archive and close
+// their open sign-off and evaluation requests there. Returns the number archived.
+// Must be called on a client inside an open transaction.
+export async function archiveWingQualifications(
+  client: PoolClient,
+  pilotId: string,
+  wingId: string,
+  actor: Actor,
+  transferId: string | null = null
+): Promise<number> {
+  const archived = await client.query(
+    `INSERT INTO archived_qualifications
+       (pilot_id, skill_id, wing_id, wing_name, skill_name, category, status, last_performed, last_updated,
+        updated_by, transfer_id, archived_by)
+     SELECT q.pilot_id, q.skill_id, s.wing_id, w.name, s.name, s.category, q.status, q.last_performed, q.last_updated,
+       q.updated_by, $3, $4
+     FROM qualifications q
+     JOIN skills s ON s.id = q.skill_id
+     JOIN wings w ON w.id = s.wing_id
+     WHERE q.pilot_id = $1 AND s.wing_id = $2`,
+    [pilotId, wingId, transferId, actor.email]
+  )
+  await client.query(
+    'DELETE FROM qualifications q USING skills s WHERE s.id = q.skill_id AND q.pilot_id = $1 AND s.wing_id = $2',
+    [pilotId, wingId]
+  )
+  await client.query(
+    `UPDATE signoff_requests r SET status = 'cancelled', reviewed_by = $3, reviewed_by_user_id = $4, reviewed_at = NOW(),
+       review_comment = 'Pilot left the wing'
+     FROM skills s
+     WHERE s.id = r.skill_id AND r.pilot_id = $1 AND s.wing_id = $2 AND r.status = 'pending'`,
+    [pilotId, wingId, actor.email, actor.id]
+  )
+  await client.query(
+    `UPDATE evaluation_requests r SET status = 'cancelled', response = 'Pilot left the wing', updated_at = NOW()
+     FROM skills s
+     WHERE s.id = r.skill_id AND r.pilot_id = $1 AND s.wing_id = $2 AND r.status IN ('pending', 'accepted', 'scheduled')`,
+    [pilotId, wingId]
+  )
+  return archived.rowCount ?? 0
+}
+
+// Give a pilot an NMQ row for every skill of a wing they have no row for yet
+export async function createMissingQualifications(client: PoolClient, pilotId: string, wingId: string, changedBy: string) {
+  const result = await client.query(
+    `INSERT INTO qualifications (pilot_id, skill_id, status, last_updated, updated_by)
+     SELECT $1, s.id, 'NMQ', NOW(), $3
+     FROM skills s
+     WHERE s.wing_id = $2 AND s.archived_at IS NULL
+     ON CONFLICT (pilot_id, skill_id) DO NOTHING`,
+    [pilotId, wingId, changedBy]
+  )
+  return result.rowCount ?? 0
+}
+
+// Carry out a planned transfer and record it. Carried-over statuses are not
+// published to notifications or webhooks: the pilot earned them elsewhere.
+// Must be called on a client inside an open transaction.
+export async function applyTransfer(client: PoolClient, plan: TransferPlan, actor: Actor, note: string | null) {
+  const { pilot, to_wing: toWing, mode } = plan
+
+  const transfer = await client.query(
+    `INSERT INTO pilot_transfers
+       (pilot_id, from_wing_id, from_wing_name, to_wing_id, to_wing_name, mode, note, transferred_by, transferred_by_user_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     RETURNING id`,
+    [pilot.id, pilot.wing_id, pilot.wing_name, toWing.id, toWing.name, mode, note, actor.email, actor.id]
+  )
+  const transferId = transfer.rows[0].id
+
+  const lastPerformed = await client.query(
+    `SELECT q.skill_id, q.last_performed FROM qualifications q WHERE q.pilot_id = $1 AND q.skill_id = ANY($2)`,
+    [pilot.id, plan.carried.map(c => c.from_skill_id)]
+  )
+  const performedAt = new Map(lastPerformed.rows.map(r => [r.skill_id, r.last_performed]))
+  for (const c of plan.carried) {
+    await writeQualification(client, {
+      pilotId: pilot.id,
+      skillId: c.to_skill_id,
+      status: c.status,
+      changedBy: actor.email,
+      changedByUserId: actor.id,
+      note: `Carried over from ${pilot.wing_name}`,
+      lastPerformed: performedAt.get(c.from_skill_id) ?? null,
+    })
+  }
+
+  let archived = 0
+  if (mode === 'keep') {
+    await client.query(
+      `INSERT INTO pilot_wings (pilot_id, wing_id, kind, added_by) VALUES ($1, $2, 'dual', $3)
+       ON CONFLICT (pilot_id, wing_id) DO NOTHING`,
+      [pilot.id, pilot.wing_id, actor.email]
+    )
+  } else {
+    archived = await archiveWingQualifications(client, pilot.id, pilot.wing_id, actor, transferId)
+  }
+
+  // A secondary membership in the new wing becomes the primary one. Units
+  // belong to the old wing, so the pilot starts out unassigned.
+  await client.query('DELETE FROM pilot_wings WHERE pilot_id = $1 AND wing_id = $2', [pilot.id, toWing.id])
+  await client.query('UPDATE pilots SET wing_id = $1, unit_id = NULL, updated_at = NOW() WHERE id = $2', [toWing.id, pilot.id])
+  const created = await createMissingQualifications(client, pilot.id, toWing.id, actor.email)
+
+  const result = await client.query(
+    `UPDATE pilot_transfers SET carried_count = $1, archived_count = $2, created_count = $3
+     WHERE id = $4 RETURNING *`,
+    [plan.carried.length, archived, created, transferId]
+  )
+  return result.rows[0]
+}
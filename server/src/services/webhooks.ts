@@ -0,0 +1,197 @@
+import crypto from 'crypto'
+import { Pool, PoolClient } from 'pg'
+import pool from '../db/pool'
+import { onQualificationChanges, QualificationChange } from './qualifications'
+
+export type WebhookEvent = 'pilot.created' | 'qualification.changed' | 'skill.created' | 'wing.renamed'
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['pilot.created', 'qualification.changed', 'skill.created', 'wing.renamed']
+
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8')
+const POLL_SECONDS = parseInt(process.env.WEBHOOK_POLL_SECONDS || '5')
+const BASE_BACKOFF_SECONDS = 30
+const MAX_BACKOFF_SECONDS = 6 * 60 * 60
+const REQUEST_TIMEOUT_MS = 10_000
+const BATCH_SIZE = 20
+// A claimed delivery is hidden from other workers for this long
+const LEASE_SECONDS = 60
+
+// An absolute http(s) URL short enough to store
+export function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length > 500) return false
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+export const newWebhookSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`
+
+// Delay before the next attempt once `attempts` deliveries have failed: 30s, 1m, 2m, ... capped at 6h
+export function backoffSeconds(attempts: number): number {
+  return Math.min(BASE_BACKOFF_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_SECONDS)
+}
+
+// HMAC-SHA256 over "<timestamp>.<body>", so a receiver can also reject stale replays
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+// Queue an event for every enabled subscription that wants it. Pass the
+// route's transaction client so the event is only queued if the change commits.
+export async function enqueueWebhookEvent(
+  type: WebhookEvent,
+  data: Record<string, unknown>,
+  wingId: string | null,
+  client: Pool | PoolClient = pool
+) {
+  await client.query(
+    `INSERT INTO webhook_deliveries (subscription_id, event_type, payload)
+     SELECT id, $1::text, jsonb_build_object('event', $1::text, 'occurred_at', NOW(), 'data', $2::jsonb)
+     FROM webhook_subscriptions
+     WHERE enabled AND $1::text = ANY(events) AND (wing_id IS NULL OR wing_id = $3::uuid)`,
+    [type, JSON.stringify(data), wingId]
+  )
+}
+
+// Queue a ping for one subscription, regardless of the events it follows
+export async function enqueuePing(subscriptionId: string) {
+  const result = await pool.query(
+    `INSERT INTO webhook_deliveries (subscription_id, event_type, payload)
+     VALUES ($1, 'ping', jsonb_build_object('event', 'ping', 'occurred_at', NOW(), 'data', '{}'::jsonb))
+     RETURNING *`,
+    [subscriptionId]
+  )
+  return result.rows[0]
+}
+
+async function queueQualificationChanges(changes: QualificationChange[]) {
+  const changed = changes.filter(c => c.oldStatus !== c.newStatus)
+  if (changed.length === 0) return
+
+  const details = await pool.query(
+    `SELECT p.id as pilot_id, s.id as skill_id, p.callsign, s.wing_id, s.name as skill_name, s.category
+     FROM unnest($1::uuid[], $2::uuid[]) AS c(pilot_id, skill_id)
+     JOIN pilots p ON p.id = c.pilot_id
+     JOIN skills s ON s.id = c.skill_id`,
+    [changed.map(c => c.pilotId), changed.map(c => c.skillId)]
+  )
+  const rows = new Map(details.rows.map(r => [`${r.pilot_id}:${r.skill_id}`, r]))
+
+  for (const change of changed) {
+    const row = rows.get(`${change.pilotId}:${change.skillId}`)
+    if (!row) continue
+    await enqueueWebhookEvent('qualification.changed', {
+      pilot_id: row.pilot_id,
+      callsign: row.callsign,
+      wing_id: row.wing_id,
+      skill_id: row.skill_id,
+      skill_name: row.skill_name,
+      category: row.category,
+      old_status: change.oldStatus,
+      new_status: change.newStatus,
+      changed_by: change.changedBy,
+    }, row.wing_id)
+  }
+}
+
+interface ClaimedDelivery {
+  id: string
+  event_type: string
+  payload: Record<string, unknown>
+  attempts: number
+  url: string
+  secret: string
+}
+
+async function attemptDelivery(delivery: ClaimedDelivery) {
+  const body = JSON.stringify({ id: delivery.id, ...delivery.payload })
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+
+  let responseStatus: number | null = null
+  let error: string | null = null
+  try {
+    const res = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'DCS-Squadron-Webhooks/1.0',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event_type,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${signPayload(delivery.secret, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+    responseStatus = res.status
+    if (!res.ok) error = `HTTP ${res.status}`
+  } catch (err: any) {
+    error = err?.message || 'Request failed'
+  }
+
+  const attempts = delivery.attempts + 1
+  if (!error) {
+    await pool.query(
+      `UPDATE webhook_deliveries
+       SET status = 'delivered', attempts = $1, last_attempt_at = NOW(), last_response_status = $2,
+         last_error = NULL, delivered_at = NOW()
+       WHERE id = $3`,
+      [attempts, responseStatus, delivery.id]
+    )
+  } else {
+    const failed = attempts >= WEBHOOK_MAX_ATTEMPTS
+    await pool.query(
+      `UPDATE webhook_deliveries
+       SET status = $1, attempts = $2, last_attempt_at = NOW(), last_response_status = $3, last_error = $4,
+         next_attempt_at = NOW() + make_interval(secs => $5)
+       WHERE id = $6`,
+      [failed ? 'failed' : 'pending', attempts, responseStatus, error.slice(0, 500), backoffSeconds(attempts), delivery.id]
+    )
+  }
+}
+
+let processing = false
+
+// Deliver everything that is due. Rows are claimed with SKIP LOCKED and a
+// lease, so several server instances can share the queue.
+export async function processDueDeliveries(): Promise<number> {
+  if (processing) return 0
+  processing = true
+  let processed = 0
+  try {
+    for (;;) {
+      const claimed = await pool.query(
+        `UPDATE webhook_deliveries d SET next_attempt_at = NOW() + make_interval(secs => $1)
+         FROM webhook_subscriptions s
+         WHERE s.id = d.subscription_id AND d.id IN (
+           SELECT d2.id FROM webhook_deliveries d2
+           JOIN webhook_subscriptions s2 ON s2.id = d2.subscription_id
+           WHERE d2.status = 'pending' AND d2.next_attempt_at <= NOW() AND s2.enabled
+           ORDER BY d2.next_attempt_at
+           LIMIT $2
+           FOR UPDATE OF d2 SKIP LOCKED
+         )
+         RETURNING d.id, d.event_type, d.payload, d.attempts, s.url, s.secret`,
+        [LEASE_SECONDS, BATCH_SIZE]
+      )
+      await Promise.all(claimed.rows.map((d: ClaimedDelivery) => attemptDelivery(d)))
+      processed += claimed.rows.length
+      if (claimed.rows.length < BATCH_SIZE) break
+    }
+  } finally {
+    processing = false
+  }
+  return processed
+}
+
+// Subscribe to qualification writes and poll the delivery queue
+export function startWebhookWorker() {
+  onQualificationChanges(queueQualificationChanges)
+
+  setInterval(() => {
+    processDueDeliveries().catch(error => console.error('Webhook delivery error:', error))
+  }, POLL_SECONDS * 1000).unref()
+}
@@ -3,13 +3,18 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { useAuthStore } from '@/store/authStore'
 import { useDataStore } from '@/store/dataStore'
 import { api } from '@/lib/api'
+import { ADMIN_PANEL_PERMISSIONS, canAny } from '@/lib/permissions'
 import { Sidebar, Header } from '@/components/Layout'
 import { Login } from '@/pages/Login'
 import { Dashboard } from '@/pages/Dashboard'
 import { SkillBoard } from '@/pages/SkillBoard'
 import { PilotProfile } from '@/pages/PilotProfile'
 import { InstructorTools } from '@/pages/InstructorTools'
+import { TrainingEvents } from '@/pages/TrainingEvents'
+import { Approvals } from '@/pages/Approvals'
 import { AdminPanel } from '@/pages/AdminPanel'
+import { ChangePassword } from '@/pages/ChangePassword'
+import { ResetPassword } from '@/pages/ResetPassword'
 
 const ProtectedLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [sidebarOpen, setSidebarOpen] = useState(false)
@@ -56,29 +61,17 @@ function App() {
       document.title = '8th Virtual Fighter Wing'
     }
 
-    // Attempt session recovery from stored JWT token
-    const token = localStorage.getItem('token')
-    if (token) {
-      api.auth
-        .me()
-        .then((data) => {
-          setUser(data.user)
-          return loadSettings()
-        })
-        .catch(() => {
-          // Token invalid or expired, clear it
-          localStorage.removeItem('token')
-        })
-        .finally(() => {
-          setLoading(false)
-          setInitialized(true)
-        })
-    } else {
-      loadSettings().finally(() => {
+    // Resume the session from the refresh cookie, if there is one
+    api.auth
+      .restoreSession()
+      .then((data) => {
+        if (data) setUser(data.user)
+        return loadSettings()
+      })
+      .finally(() => {
         setLoading(false)
         setInitialized(true)
       })
-    }
   }, [setUser, setLoading, setSettings])
 
   if (!initialized) {
@@ -96,8 +89,11 @@ function App() {
     <Router>
       <Routes>
         <Route path="/login" element={<Login />} />
+        <Route path="/reset-password" element={<ResetPassword />} />
 
-        {user ? (
+        {user?.must_change_password ? (
+          <Route path="*" element={<ChangePassword forced />} />
+        ) : user ? (
           <>
             <Route
               path="/dashboard"
@@ -123,6 +119,22 @@ function App() {
                 </ProtectedLayout>
               }
             />
+            <Route
+              path="/events"
+              element={
+                <ProtectedLayout>
+                  <TrainingEvents />
+                </ProtectedLayout>
+              }
+            />
+            <Route
+              path="/approvals"
+              element={
+                <ProtectedLayout>
+                  <Approvals />
+                </ProtectedLayout>
+              }
+            />
             <Route
               path="/instructor"
               element={
@@ -131,7 +143,15 @@ function App() {
                 </ProtectedLayout>
               }
             />
-            {user.role === 'admin' && (
+            <Route
+              path="/change-password"
+              element={
+                <ProtectedLayout>
+                  <ChangePassword />
+                </ProtectedLayout>
+              }
+            />
+            {canAny(user, ADMIN_PANEL_PERMISSIONS) && (
               <Route
                 path="/admin-panel"
                 element={
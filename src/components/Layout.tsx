@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react'
-import { Menu, LogOut, Search, Home, User, UserCircle, Wrench, Sun, Moon, ClipboardList, Shield, Plane } from 'lucide-react'
+import { Menu, LogOut, Search, Home, User, UserCircle, Wrench, Sun, Moon, ClipboardList, Shield, Plane, CalendarDays, Inbox, KeyRound } from 'lucide-react'
 import { useAuthStore } from '@/store/authStore'
 import { api } from '@/lib/api'
+import { Pilot } from '@/types'
+import { ADMIN_PANEL_PERMISSIONS, INSTRUCTOR_TOOL_PERMISSIONS, canAny } from '@/lib/permissions'
 import { useNavigate, useLocation } from 'react-router-dom'
 
 export const Sidebar: React.FC<{ isOpen: boolean; setIsOpen: (open: boolean) => void }> = ({ isOpen, setIsOpen }) => {
@@ -17,10 +19,12 @@ export const Sidebar: React.FC<{ isOpen: boolean; setIsOpen: (open: boolean) =>
   const navItems = [
     { label: 'Dashboard', icon: Home, path: '/dashboard' },
     { label: 'Skill Board', icon: ClipboardList, path: '/skill-board' },
-    ...(user?.role === 'instructor' || user?.role === 'admin'
+    { label: 'Training Events', icon: CalendarDays, path: '/events' },
+    { label: 'Approvals', icon: Inbox, path: '/approvals' },
+    ...(canAny(user, INSTRUCTOR_TOOL_PERMISSIONS)
       ? [{ label: 'Instructor Tools', icon: Wrench, path: '/instructor' }]
       : []),
-    ...(user?.role === 'admin'
+    ...(canAny(user, ADMIN_PANEL_PERMISSIONS)
       ? [{ label: 'Admin Panel', icon: Shield, path: '/admin-panel' }]
       : []),
   ]
@@ -86,30 +90,126 @@ export const Sidebar: React.FC<{ isOpen: boolean; setIsOpen: (open: boolean) =>
   )
 }
 
+const SEARCH_RESULT_LIMIT = 8
+
 export const GlobalSearch: React.FC = () => {
   const navigate = useNavigate()
   const [query, setQuery] = React.useState('')
+  const [results, setResults] = useState<Pilot[]>([])
+  const [total, setTotal] = useState(0)
+  const [open, setOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const containerRef = useRef<HTMLFormElement>(null)
+
+  // Debounced candidate lookup; stale responses are dropped
+  useEffect(() => {
+    const term = query.trim()
+    if (!term) { setResults([]); setTotal(0); return }
+    let cancelled = false
+    const timer = setTimeout(() => {
+      api.pilots.list({ q: term, limit: SEARCH_RESULT_LIMIT })
+        .then(({ pilots, total }) => {
+          if (cancelled) return
+          setResults(pilots)
+          setTotal(total)
+          setHighlighted(0)
+        })
+        .catch(console.error)
+    }, 200)
+    return () => { cancelled = true; clearTimeout(timer) }
+  }, [query])
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const openProfile = (pilot: Pilot) => {
+    navigate(`/profile?search=${encodeURIComponent(pilot.email)}`)
+    setQuery('')
+    setOpen(false)
+  }
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
-    if (query.trim()) {
+    if (results[highlighted]) {
+      openProfile(results[highlighted])
+    } else if (query.trim()) {
       navigate(`/profile?search=${encodeURIComponent(query)}`)
       setQuery('')
+      setOpen(false)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setOpen(true)
+      setHighlighted(h => Math.min(h + 1, results.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlighted(h => Math.max(h - 1, 0))
+    } else if (e.key === 'Escape') {
+      setOpen(false)
     }
   }
 
   return (
-    <form onSubmit={handleSearch} className="relative">
+    <form onSubmit={handleSearch} className="relative" ref={containerRef}>
       <div className="relative">
         <Search className="absolute left-3 top-3 w-5 h-5 text-gray-400" />
         <input
           type="text"
           placeholder="Search pilots..."
           value={query}
-          onChange={(e) => setQuery(e.target.value)}
+          onChange={(e) => { setQuery(e.target.value); setOpen(true) }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={handleKeyDown}
           className="pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-1 focus:ring-gray-400 dark:focus:ring-gray-500 dark:bg-gray-800 dark:text-white text-gray-900"
         />
       </div>
+
+      {open && query.trim() && (
+        <div className="absolute left-0 mt-1 w-80 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50 overflow-hidden">
+          {results.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-400 dark:text-gray-500">No matching pilots</p>
+          ) : (
+            <ul className="py-1">
+              {results.map((pilot, idx) => (
+                <li key={pilot.id}>
+                  <button
+                    type="button"
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => openProfile(pilot)}
+                    onMouseEnter={() => setHighlighted(idx)}
+                    className={`w-full text-left px-4 py-2 transition ${
+                      idx === highlighted ? 'bg-gray-100 dark:bg-gray-800' : ''
+                    }`}
+                  >
+                    <span className="block text-sm font-medium text-gray-900 dark:text-white">
+                      {pilot.callsign}
+                      {pilot.board_number && <span className="ml-2 text-xs font-normal text-gray-400">#{pilot.board_number}</span>}
+                    </span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {pilot.first_name} {pilot.last_name} · {pilot.wing_name}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {total > results.length && (
+            <p className="px-4 py-2 text-xs text-gray-400 dark:text-gray-500 border-t border-gray-100 dark:border-gray-800">
+              Showing {results.length} of {total} matches
+            </p>
+          )}
+        </div>
+      )}
     </form>
   )
 }
@@ -205,6 +305,15 @@ export const Header: React.FC = () => {
                   <span>My Profile</span>
                 </button>
 
+                {/* Change password */}
+                <button
+                  onClick={() => { navigate('/change-password'); setMenuOpen(false) }}
+                  className="w-full flex items-center space-x-3 px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 transition"
+                >
+                  <KeyRound className="w-4 h-4" />
+                  <span>Change Password</span>
+                </button>
+
                 {/* Dark mode toggle */}
                 <button
                   onClick={toggleDarkMode}
@@ -0,0 +1,55 @@
+import React from 'react'
+import { OrgUnit, Wing } from '@/types'
+import { flattenUnitTree } from '@/lib/orgUnits'
+
+export interface OrgSelection {
+  wingId: string | null
+  unitId: string | null
+}
+
+interface OrgTreeSelectProps {
+  wings: Wing[]
+  units: OrgUnit[]
+  value: OrgSelection
+  onChange: (value: OrgSelection) => void
+  // Adds a first option selecting every wing
+  allLabel?: string
+  className?: string
+}
+
+// A single select over wings and the squadrons and flights beneath them,
+// indented to show the hierarchy
+export const OrgTreeSelect: React.FC<OrgTreeSelectProps> = ({ wings, units, value, onChange, allLabel, className }) => {
+  const current = value.unitId ? `u:${value.unitId}` : value.wingId ? `w:${value.wingId}` : ''
+
+  const handleChange = (raw: string) => {
+    if (raw.startsWith('u:')) {
+      const unit = units.find(u => u.id === raw.slice(2))
+      onChange({ wingId: unit?.wing_id ?? null, unitId: unit?.id ?? null })
+    } else if (raw.startsWith('w:')) {
+      onChange({ wingId: raw.slice(2), unitId: null })
+    } else {
+      onChange({ wingId: null, unitId: null })
+    }
+  }
+
+  return (
+    <select
+      value={current}
+      onChange={e => handleChange(e.target.value)}
+      className={className ?? 'px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500'}
+    >
+      {allLabel && <option value="">{allLabel}</option>}
+      {wings.map(wing => (
+        <React.Fragment key={wing.id}>
+          <option value={`w:${wing.id}`}>{wing.name}</option>
+          {flattenUnitTree(units.filter(u => u.wing_id === wing.id)).map(({ unit, depth }) => (
+            <option key={unit.id} value={`u:${unit.id}`}>
+              {'\u00a0\u00a0\u00a0'.repeat(depth + 1)}{unit.name}
+            </option>
+          ))}
+        </React.Fragment>
+      ))}
+    </select>
+  )
+}
@@ -1,5 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react'
-import { Qualification, Skill, QualificationStatus } from '@/types'
+import { History, Clock, Hourglass } from 'lucide-react'
+import { api } from '@/lib/api'
+import { Qualification, QualificationHistoryEntry, Skill, QualificationStatus, RosterStatus, SignoffRequest } from '@/types'
+import { currencyLabel } from '@/lib/currency'
+import { ROSTER_STATUS_LABELS, ROSTER_STATUS_STYLES } from '@/lib/roster'
 
 const PRESET_COLORS = [
   '#3B82F6', // blue
@@ -62,13 +66,98 @@ const ColorPicker: React.FC<ColorPickerProps> = ({ color, onChange, onClose }) =
   )
 }
 
+interface TimelineTarget {
+  pilotId: string
+  skillId: string
+  callsign: string
+  skillName: string
+  top: number
+  left: number
+}
+
+const timelineDotColor: Record<QualificationStatus, string> = {
+  NMQ: 'bg-nmq',
+  MQT: 'bg-mqt',
+  FMQ: 'bg-fmq',
+  IP: 'bg-ip',
+}
+
+// Popover listing every recorded status change for one pilot/skill cell.
+// Uses fixed positioning so the scrolling table container doesn't clip it.
+const QualificationTimeline: React.FC<{ target: TimelineTarget; onClose: () => void }> = ({ target, onClose }) => {
+  const ref = useRef<HTMLDivElement>(null)
+  const [entries, setEntries] = useState<QualificationHistoryEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) {
+        onClose()
+      }
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [onClose])
+
+  useEffect(() => {
+    setLoading(true)
+    setError(null)
+    api.qualifications.getHistory(target.pilotId, target.skillId)
+      .then(setEntries)
+      .catch((err: any) => setError(err.message || 'Failed to load history'))
+      .finally(() => setLoading(false))
+  }, [target.pilotId, target.skillId])
+
+  return (
+    <div
+      ref={ref}
+      className="fixed z-50 w-72 bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 text-left"
+      style={{ top: target.top, left: target.left }}
+    >
+      <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <p className="text-xs font-semibold text-gray-900 dark:text-white truncate">{target.callsign}</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{target.skillName}</p>
+      </div>
+      <div className="max-h-64 overflow-y-auto px-3 py-2">
+        {loading && <p className="text-xs text-gray-400">Loading history...</p>}
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        {!loading && !error && entries.length === 0 && (
+          <p className="text-xs text-gray-400 dark:text-gray-500">No recorded changes yet.</p>
+        )}
+        {!loading && !error && entries.length > 0 && (
+          <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-1.5 space-y-3">
+            {entries.map((entry) => (
+              <li key={entry.id} className="ml-3">
+                <span className={`absolute -left-[5px] mt-1 w-2.5 h-2.5 rounded-full ${timelineDotColor[entry.new_status]}`} />
+                <p className="text-xs font-medium text-gray-900 dark:text-white">
+                  {entry.old_status && entry.old_status !== entry.new_status ? `${entry.old_status} → ${entry.new_status}` : entry.new_status}
+                </p>
+                <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                  {new Date(entry.changed_at).toLocaleString()}{entry.changed_by && ` · ${entry.changed_by}`}
+                </p>
+                {entry.note && (
+                  <p className="text-[11px] text-gray-600 dark:text-gray-300 mt-0.5 italic">{entry.note}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  )
+}
+
 interface SkillMatrixProps {
-  pilots: Array<{ id: string; callsign: string; wing_name: string; board_number?: string }>
+  // guest_from names the primary wing of a pilot who is only a secondary member here
+  pilots: Array<{ id: string; callsign: string; wing_name: string; board_number?: string; guest_from?: string; roster_status?: RosterStatus }>
   skills: Skill[]
   qualifications: Qualification[]
   onCellUpdate?: (pilotId: string, skillId: string, status: QualificationStatus | null) => void
-  editable?: boolean
+  // Cells the current user may change; the rest stay read-only
+  canEditCell?: (pilotId: string, skillId: string) => boolean
   changedCells?: Set<string>
+  pendingSignoffs?: Map<string, SignoffRequest> // keyed `${pilotId}-${skillId}`
   categoryColors?: Record<string, string>
   categoryOrder?: string[]
   onCategoryColorChange?: (category: string, color: string) => void
@@ -88,13 +177,15 @@ export const SkillMatrix: React.FC<SkillMatrixProps> = ({
   skills,
   qualifications,
   onCellUpdate,
-  editable = false,
+  canEditCell = () => false,
   changedCells,
+  pendingSignoffs,
   categoryColors = {},
   categoryOrder = [],
   onCategoryColorChange,
 }) => {
   const [colorPickerCategory, setColorPickerCategory] = useState<string | null>(null)
+  const [timelineTarget, setTimelineTarget] = useState<TimelineTarget | null>(null)
   const colWidth = getPilotColWidth(pilots.length)
   // Cell height scales with column width so the badge has room to breathe
   const cellHeight = colWidth >= 140 ? 48 : colWidth >= 100 ? 40 : 32
@@ -152,6 +243,20 @@ export const SkillMatrix: React.FC<SkillMatrixProps> = ({
 
   const getCategoryColor = (category: string) => categoryColors[category] || '#3B82F6'
 
+  const openTimeline = (e: React.MouseEvent<HTMLButtonElement>, pilot: { id: string; callsign: string }, skill: Skill) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    // Keep the 18rem-wide popover inside the viewport
+    const left = Math.min(rect.left, window.innerWidth - 296)
+    setTimelineTarget({
+      pilotId: pilot.id,
+      skillId: skill.id,
+      callsign: pilot.callsign,
+      skillName: skill.name,
+      top: rect.bottom + 4,
+      left: Math.max(8, left),
+    })
+  }
+
   return (
     <div className="overflow-x-auto border border-gray-200 dark:border-gray-800 rounded-lg">
       <table className="border-collapse text-sm">
@@ -170,8 +275,12 @@ export const SkillMatrix: React.FC<SkillMatrixProps> = ({
                   key={pilot.id}
                   className="px-2 py-2 text-center border-r border-gray-200 dark:border-gray-800 text-xs font-semibold text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-800"
                   style={{ minWidth: `${colWidth}px`, width: `${colWidth}px` }}
+                  title={pilot.guest_from ? `Member from ${pilot.guest_from}` : undefined}
                 >
-                  <div className="truncate">{pilot.callsign}{pilot.board_number && <span className="font-normal text-gray-400 dark:text-gray-500"> | {pilot.board_number}</span>}</div>
+                  <div className={`truncate ${pilot.guest_from ? 'italic' : ''}`}>{pilot.callsign}{pilot.board_number && <span className="font-normal text-gray-400 dark:text-gray-500"> | {pilot.board_number}</span>}</div>
+                  {pilot.roster_status && pilot.roster_status !== 'active' && (
+                    <div className={`mt-0.5 px-1 rounded text-[10px] font-medium ${ROSTER_STATUS_STYLES[pilot.roster_status]}`}>{ROSTER_STATUS_LABELS[pilot.roster_status]}</div>
+                  )}
                 </th>
               ))
             )}
@@ -240,48 +349,89 @@ export const SkillMatrix: React.FC<SkillMatrixProps> = ({
                       wingPilots.map((pilot) => {
                         const qual = getQualification(pilot.id, skill.id)
                         const status = qual?.status
+                        const currency = qual?.currency_state
+                        const signoff = pendingSignoffs?.get(`${pilot.id}-${skill.id}`)
+                        const currencyTitle = qual ? currencyLabel(qual) : undefined
+                        const editable = !!onCellUpdate && canEditCell(pilot.id, skill.id)
+                        const cellTitle = [
+                          signoff && `Sign-off to ${signoff.requested_status} pending (requested by ${signoff.requested_by})`,
+                          currencyTitle,
+                          onCellUpdate && !editable && 'You cannot sign off this skill for this pilot',
+                        ].filter(Boolean).join('. ') || undefined
 
                         return (
                           <td
                             key={`${pilot.id}-${skill.id}`}
                             className={`px-1.5 py-1.5 text-center border-r border-gray-200 dark:border-gray-800 ${
-                              editable ? 'cursor-pointer' : ''
+                              editable ? 'cursor-pointer' : onCellUpdate ? 'cursor-not-allowed' : ''
                             } ${
                               changedCells?.has(`${pilot.id}-${skill.id}`)
                                 ? 'ring-2 ring-amber-400 ring-inset'
-                                : ''
+                                : signoff
+                                  ? 'outline-dashed outline-2 outline-sky-500 -outline-offset-2'
+                                  : ''
                             }`}
                             style={{ height: `${cellHeight}px`, width: `${colWidth}px`, minWidth: `${colWidth}px` }}
                           >
-                            {editable && onCellUpdate ? (
-                              <select
-                                value={status || 'NMQ'}
-                                onChange={(e) => {
-                                  const value = e.target.value
-                                  onCellUpdate(
-                                    pilot.id,
-                                    skill.id,
-                                    value as QualificationStatus
-                                  )
-                                }}
-                                className={`w-full border-0 font-semibold rounded px-1 text-white ${badgeTextSize} ${getStatusColor(status)}`}
-                                style={{ height: `${cellHeight - 12}px` }}
-                               >
-                                 {statusOptions.map((opt) => (
-                                   <option key={opt} value={opt}>
-                                     {opt}
-                                   </option>
-                                 ))}
-                              </select>
-                             ) : (
-                               <div
-                                 className={`h-full flex items-center justify-center rounded font-semibold text-white ${badgeTextSize} ${getStatusColor(
-                                   status || 'NMQ'
-                                 )}`}
-                               >
-                                 {status || 'NMQ'}
-                               </div>
-                             )}
+                            <div className="relative h-full group">
+                              {editable && onCellUpdate ? (
+                                <select
+                                  value={status || 'NMQ'}
+                                  onChange={(e) => {
+                                    const value = e.target.value
+                                    onCellUpdate(
+                                      pilot.id,
+                                      skill.id,
+                                      value as QualificationStatus
+                                    )
+                                  }}
+                                  className={`w-full border-0 font-semibold rounded px-1 text-white ${badgeTextSize} ${getStatusColor(status)} ${
+                                    currency === 'expired' ? 'opacity-50' : ''
+                                  }`}
+                                  style={{ height: `${cellHeight - 12}px` }}
+                                  title={cellTitle}
+                                 >
+                                   {statusOptions.map((opt) => (
+                                     <option key={opt} value={opt}>
+                                       {opt}
+                                     </option>
+                                   ))}
+                                </select>
+                               ) : (
+                                 <div
+                                   className={`h-full flex items-center justify-center rounded font-semibold text-white ${badgeTextSize} ${getStatusColor(
+                                     status || 'NMQ'
+                                   )} ${currency === 'expired' ? 'opacity-50 line-through' : ''}`}
+                                   title={cellTitle}
+                                 >
+                                   {status || 'NMQ'}
+                                 </div>
+                               )}
+                              {(currency === 'expired' || currency === 'expiring') && (
+                                <span
+                                  className={`absolute -top-1 -left-1 p-0.5 rounded-full text-white pointer-events-none ${
+                                    currency === 'expired' ? 'bg-red-600' : 'bg-amber-500'
+                                  }`}
+                                >
+                                  <Clock className="w-2.5 h-2.5" />
+                                </span>
+                              )}
+                              {signoff && (
+                                <span className="absolute -bottom-1 -left-1 flex items-center gap-0.5 px-1 rounded-full bg-sky-500 text-white text-[9px] font-semibold pointer-events-none">
+                                  <Hourglass className="w-2.5 h-2.5" />
+                                  {signoff.requested_status}
+                                </span>
+                              )}
+                              {qual && !qual.id.startsWith('pending-') && (
+                                <button
+                                  onClick={(e) => openTimeline(e, pilot, skill)}
+                                  className="absolute -top-1 -right-1 p-0.5 rounded-full bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                  title="Show history"
+                                >
+                                  <History className="w-3 h-3" />
+                                </button>
+                              )}
+                            </div>
                           </td>
                         )
                       })
@@ -293,6 +443,9 @@ export const SkillMatrix: React.FC<SkillMatrixProps> = ({
           })}
         </tbody>
       </table>
+      {timelineTarget && (
+        <QualificationTimeline target={timelineTarget} onClose={() => setTimelineTarget(null)} />
+      )}
     </div>
   )
 }
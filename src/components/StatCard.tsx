@@ -5,9 +5,10 @@ interface StatCardProps {
   value: string | number
   icon?: React.ReactNode
   accent?: string // tailwind border-color class e.g. 'border-blue-500'
+  subtitle?: string
 }
 
-export const StatCard: React.FC<StatCardProps> = ({ title, value, icon, accent = 'border-gray-300 dark:border-gray-600' }) => {
+export const StatCard: React.FC<StatCardProps> = ({ title, value, icon, accent = 'border-gray-300 dark:border-gray-600', subtitle }) => {
   return (
     <div className={`p-5 rounded-lg border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 border-l-4 ${accent}`}>
       <div className="flex items-center justify-between mb-3">
@@ -21,6 +22,9 @@ export const StatCard: React.FC<StatCardProps> = ({ title, value, icon, accent =
       <p className="text-3xl font-semibold text-gray-900 dark:text-white tabular-nums">
         {value}
       </p>
+      {subtitle && (
+        <p className="text-xs text-gray-400 dark:text-gray-500 mt-1 truncate" title={subtitle}>{subtitle}</p>
+      )}
     </div>
   )
 }
@@ -0,0 +1,75 @@
+import React from 'react'
+
+export interface TrendSeries {
+  label: string
+  color: string // any CSS colour, e.g. '#10B981'
+  points: Array<{ date: string; value: number }> // date is YYYY-MM-DD, value a percentage
+}
+
+interface TrendChartProps {
+  series: TrendSeries[]
+  from: string // YYYY-MM-DD, the left edge
+  to: string // YYYY-MM-DD, the right edge
+  height?: number
+}
+
+const WIDTH = 600
+const PAD = { top: 8, right: 8, bottom: 20, left: 32 }
+const GRID = [0, 25, 50, 75, 100]
+
+const dayOf = (date: string) => Date.parse(date) / 86_400_000
+const shortDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+
+// A percentage-over-time line chart drawn as SVG, 0-100% on the y axis.
+// A day without a point leaves a gap rather than drawing through it.
+export const TrendChart: React.FC<TrendChartProps> = ({ series, from, to, height = 180 }) => {
+  const start = dayOf(from)
+  const span = Math.max(dayOf(to) - start, 1)
+  const plotW = WIDTH - PAD.left - PAD.right
+  const plotH = height - PAD.top - PAD.bottom
+  const x = (date: string) => PAD.left + ((dayOf(date) - start) / span) * plotW
+  const y = (value: number) => PAD.top + (1 - Math.min(Math.max(value, 0), 100) / 100) * plotH
+
+  // Consecutive days join up; a missing day starts a new segment
+  const path = (points: TrendSeries['points']) => points.map((p, i) => {
+    const joined = i > 0 && dayOf(p.date) - dayOf(points[i - 1].date) <= 1
+    return `${joined ? 'L' : 'M'}${x(p.date).toFixed(1)},${y(p.value).toFixed(1)}`
+  }).join(' ')
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto">
+        {GRID.map(v => (
+          <g key={v}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(v)} y2={y(v)} className="stroke-gray-100 dark:stroke-gray-800" strokeWidth={1} />
+            <text x={PAD.left - 4} y={y(v) + 3} textAnchor="end" className="fill-gray-400 dark:fill-gray-500" fontSize={9}>{v}%</text>
+          </g>
+        ))}
+        <text x={PAD.left} y={height - 4} className="fill-gray-400 dark:fill-gray-500" fontSize={9}>{shortDate(from)}</text>
+        <text x={WIDTH - PAD.right} y={height - 4} textAnchor="end" className="fill-gray-400 dark:fill-gray-500" fontSize={9}>{shortDate(to)}</text>
+
+        {series.map(s => (
+          <g key={s.label}>
+            <path d={path(s.points)} fill="none" stroke={s.color} strokeWidth={1.75} strokeLinejoin="round" />
+            {s.points.map(p => (
+              <circle key={p.date} cx={x(p.date)} cy={y(p.value)} r={s.points.length > 60 ? 1.5 : 2.5} fill={s.color}>
+                <title>{`${s.label} — ${shortDate(p.date)}: ${p.value.toFixed(1)}%`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+          {series.map(s => (
+            <span key={s.label} className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
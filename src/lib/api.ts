@@ -1,7 +1,13 @@
+import { ArchiveListing, ArchivedQualification, DiscordWebhookSettings, EvaluationRequest, EvaluationRequestStatus, EventProposal, MembershipKind, OrgUnit, OrgUnitInput, PermissionInfo, Pilot, PilotStatusChange, PilotTransfer, QuickStats, ReadinessRule, ReadinessTrends, RevisionMapping, RevisionPreview, Role, RoleInput, RosterStatus, SignoffAuthority, SignoffRequest, SignoffRequestStatus, SyllabusApplyResult, SyllabusRevision, SyllabusTemplate, SyllabusTemplateInput, TrainingEvent, TrainingEventInput, TransferMode, TransferPreview, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent, WebhookSubscription, WebhookSubscriptionInput, Wing } from '@/types'
+
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api'
 
+// The access token is short-lived and kept in memory only; the refresh token
+// sits in an httpOnly cookie that the server rotates on every refresh.
+let accessToken: string | null = null
+
 function getToken(): string | null {
-  return localStorage.getItem('token')
+  return accessToken
 }
 
 function authHeaders(): Record<string, string> {
@@ -11,14 +17,56 @@ function authHeaders(): Record<string, string> {
     : { 'Content-Type': 'application/json' }
 }
 
+// Error thrown for non-2xx responses; keeps the status and JSON body for callers
+// that need more than the message (e.g. a 409 listing missing prerequisites)
+export class ApiError extends Error {
+  status: number
+  body: any
+
+  constructor(status: number, body: any) {
+    super(body?.error || `Request failed: ${status}`)
+    this.status = status
+    this.body = body
+  }
+}
+
 async function handleResponse(res: Response) {
   if (!res.ok) {
     const body = await res.json().catch(() => ({ error: res.statusText }))
-    throw new Error(body.error || `Request failed: ${res.status}`)
+    throw new ApiError(res.status, body)
   }
   return res.json()
 }
 
+// One refresh at a time, shared by every request that hit a 401
+let refreshing: Promise<any | null> | null = null
+
+function refreshSession(): Promise<any | null> {
+  if (!refreshing) {
+    refreshing = fetch(`${API_URL}/auth/refresh`, { method: 'POST', credentials: 'include' })
+      .then(async (res) => {
+        if (!res.ok) {
+          accessToken = null
+          return null
+        }
+        const data = await res.json()
+        accessToken = data.token
+        return data
+      })
+      .catch(() => null)
+      .finally(() => { refreshing = null })
+  }
+  return refreshing
+}
+
+// fetch with a retry: an expired access token is refreshed once and the request repeated
+async function request(url: string, init: RequestInit = {}): Promise<Response> {
+  const res = await fetch(url, init)
+  if (res.status !== 401 || !accessToken) return res
+  if (!(await refreshSession())) return res
+  return fetch(url, { ...init, headers: { ...(init.headers as Record<string, string>), ...authHeaders() } })
+}
+
 // Auth
 export const api = {
   auth: {
@@ -26,10 +74,11 @@ export const api = {
       const res = await fetch(`${API_URL}/auth/login`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
         body: JSON.stringify({ email, password }),
       })
       const data = await handleResponse(res)
-      localStorage.setItem('token', data.token)
+      accessToken = data.token
       return data
     },
 
@@ -40,28 +89,106 @@ export const api = {
         body: JSON.stringify({ email, password, callsign, firstName, lastName, wing_id }),
       })
       const data = await handleResponse(res)
-      localStorage.setItem('token', data.token)
+      accessToken = data.token
       return data
     },
 
     me: async () => {
-      const res = await fetch(`${API_URL}/auth/me`, { headers: authHeaders() })
+      const res = await request(`${API_URL}/auth/me`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    changePassword: async (currentPassword: string, newPassword: string) => {
+      const res = await request(`${API_URL}/auth/change-password`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ current_password: currentPassword, new_password: newPassword }),
+      })
       return handleResponse(res)
     },
 
-    signOut: () => {
-      localStorage.removeItem('token')
+    forgotPassword: async (email: string) => {
+      const res = await fetch(`${API_URL}/auth/forgot-password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      })
+      return handleResponse(res)
+    },
+
+    // Works for both reset and onboarding links
+    resetPassword: async (token: string, newPassword: string) => {
+      const res = await fetch(`${API_URL}/auth/reset-password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, new_password: newPassword }),
+      })
+      return handleResponse(res)
+    },
+
+    discordConfig: async (): Promise<{ enabled: boolean }> => {
+      const res = await fetch(`${API_URL}/auth/discord/config`)
+      return handleResponse(res)
+    },
+
+    // Page the browser navigates to for a Discord sign-in; with a ticket it links instead
+    discordAuthorizeUrl: (linkTicket?: string) =>
+      `${API_URL}/auth/discord/authorize${linkTicket ? `?link=${encodeURIComponent(linkTicket)}` : ''}`,
+
+    discordLinkTicket: async (): Promise<{ ticket: string }> => {
+      const res = await request(`${API_URL}/auth/discord/link`, { method: 'POST', headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    unlinkDiscord: async () => {
+      const res = await request(`${API_URL}/auth/discord/link`, { method: 'DELETE', headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    // Resume the session behind the refresh cookie; resolves to { token, user } or null
+    restoreSession: () => refreshSession(),
+
+    signOut: async () => {
+      accessToken = null
+      await fetch(`${API_URL}/auth/logout`, { method: 'POST', credentials: 'include' }).catch(() => {})
     },
   },
 
   pilots: {
-    getAll: async () => {
-      const res = await fetch(`${API_URL}/pilots`, { headers: authHeaders() })
+    getAll: async (): Promise<Pilot[]> => {
+      const res = await request(`${API_URL}/pilots`, { headers: authHeaders() })
       return handleResponse(res)
     },
 
+    // One page of pilots plus the total number of matches
+    list: async (filters: {
+      q?: string
+      wingId?: string
+      role?: string
+      boardNumber?: string
+      status?: RosterStatus[]
+      sort?: 'relevance' | 'callsign' | 'name' | 'board_number' | 'wing' | 'created_at'
+      order?: 'asc' | 'desc'
+      limit?: number
+      offset?: number
+    } = {}): Promise<{ pilots: Pilot[]; total: number }> => {
+      const params = new URLSearchParams()
+      if (filters.q) params.set('q', filters.q)
+      if (filters.wingId) params.set('wing_id', filters.wingId)
+      if (filters.role) params.set('role', filters.role)
+      if (filters.boardNumber) params.set('board_number', filters.boardNumber)
+      if (filters.status?.length) params.set('status', filters.status.join(','))
+      if (filters.sort) params.set('sort', filters.sort)
+      if (filters.order) params.set('order', filters.order)
+      if (filters.limit !== undefined) params.set('limit', String(filters.limit))
+      if (filters.offset !== undefined) params.set('offset', String(filters.offset))
+      const res = await request(`${API_URL}/pilots?${params}`, { headers: authHeaders() })
+      const pilots = await handleResponse(res)
+      return { pilots, total: Number(res.headers.get('X-Total-Count') ?? pilots.length) }
+    },
+
     create: async (data: { callsign: string; first_name: string; last_name: string; email: string; wing_id?: string; board_number?: string; role?: string }) => {
-      const res = await fetch(`${API_URL}/pilots`, {
+      const res = await request(`${API_URL}/pilots`, {
         method: 'POST',
         headers: authHeaders(),
         body: JSON.stringify(data),
@@ -70,14 +197,180 @@ export const api = {
     },
 
     search: async (query: string) => {
-      const res = await fetch(`${API_URL}/pilots/search?q=${encodeURIComponent(query)}`, {
+      const res = await request(`${API_URL}/pilots/search?q=${encodeURIComponent(query)}`, {
         headers: authHeaders(),
       })
       return handleResponse(res)
     },
 
     getById: async (id: string) => {
-      const res = await fetch(`${API_URL}/pilots/${id}`, { headers: authHeaders() })
+      const res = await request(`${API_URL}/pilots/${id}`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    previewTransfer: async (id: string, toWingId: string, mode: TransferMode): Promise<TransferPreview> => {
+      const params = new URLSearchParams({ to_wing_id: toWingId, mode })
+      const res = await request(`${API_URL}/pilots/${id}/transfer-preview?${params}`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    transfer: async (id: string, data: { to_wing_id: string; mode: TransferMode; note?: string }): Promise<PilotTransfer> => {
+      const res = await request(`${API_URL}/pilots/${id}/transfer`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(data),
+      })
+      return handleResponse(res)
+    },
+
+    getTransfers: async (id: string): Promise<PilotTransfer[]> => {
+      const res = await request(`${API_URL}/pilots/${id}/transfers`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    setStatus: async (id: string, data: { status: RosterStatus; effective_date?: string; reason?: string }): Promise<Pilot> => {
+      const res = await request(`${API_URL}/pilots/${id}/status`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify(data),
+      })
+      return handleResponse(res)
+    },
+
+    getStatusHistory: async (id: string): Promise<PilotStatusChange[]> => {
+      const res = await request(`${API_URL}/pilots/${id}/status-history`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    getArchivedQualifications: async (id: string): Promise<ArchivedQualification[]> => {
+      const res = await request(`${API_URL}/pilots/${id}/archived-qualifications`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    addMembership: async (id: string, wingId: string, kind: MembershipKind) => {
+      const res = await request(`${API_URL}/pilots/${id}/wings`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ wing_id: wingId, kind }),
+      })
+      return handleResponse(res)
+    },
+
+    removeMembership: async (id: string, wingId: string): Promise<{ deleted: boolean; archived: number }> => {
+      const res = await request(`${API_URL}/pilots/${id}/wings/${wingId}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    setUnit: async (id: string, unitId: string | null): Promise<Pilot> => {
+      const res = await request(`${API_URL}/pilots/${id}/unit`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify({ unit_id: unitId }),
+      })
+      return handleResponse(res)
+    },
+  },
+
+  units: {
+    getAll: async (wingId?: string): Promise<OrgUnit[]> => {
+      const url = wingId ? `${API_URL}/units?wing_id=${encodeURIComponent(wingId)}` : `${API_URL}/units`
+      const res = await request(url, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    create: async (data: OrgUnitInput): Promise<OrgUnit> => {
+      const res = await request(`${API_URL}/units`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(data),
+      })
+      return handleResponse(res)
+    },
+
+    update: async (id: string, data: Omit<OrgUnitInput, 'wing_id'>): Promise<OrgUnit> => {
+      const res = await request(`${API_URL}/units/${id}`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify(data),
+      })
+      return handleResponse(res)
+    },
+
+    delete: async (id: string) => {
+      const res = await request(`${API_URL}/units/${id}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+  },
+
+  syllabi: {
+    getAll: async (): Promise<SyllabusTemplate[]> => {
+      const res = await request(`${API_URL}/syllabi`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    getById: async (id: string): Promise<SyllabusTemplate> => {
+      const res = await request(`${API_URL}/syllabi/${id}`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    create: async (data: SyllabusTemplateInput): Promise<SyllabusTemplate> => {
+      const res = await request(`${API_URL}/syllabi`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(data),
+      })
+      return handleResponse(res)
+    },
+
+    update: async (id: string, data: SyllabusTemplateInput): Promise<SyllabusTemplate> => {
+      const res = await request(`${API_URL}/syllabi/${id}`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify(data),
+      })
+      return handleResponse(res)
+    },
+
+    delete: async (id: string) => {
+      const res = await request(`${API_URL}/syllabi/${id}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    // The template file as JSON text, ready to save
+    exportFile: async (id: string): Promise<string> => {
+      const res = await request(`${API_URL}/syllabi/${id}/export`, { headers: authHeaders() })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({ error: res.statusText }))
+        throw new ApiError(res.status, body)
+      }
+      return res.text()
+    },
+
+    // Add a template from an exported file; with replace, a same-named template gets a new version
+    importFile: async (file: unknown, replace = false): Promise<SyllabusTemplate> => {
+      const res = await request(`${API_URL}/syllabi/import${replace ? '?replace=true' : ''}`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(file),
+      })
+      return handleResponse(res)
+    },
+
+    apply: async (id: string, wingId: string): Promise<SyllabusApplyResult> => {
+      const res = await request(`${API_URL}/syllabi/${id}/apply`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ wing_id: wingId }),
+      })
       return handleResponse(res)
     },
   },
@@ -87,43 +380,65 @@ export const api = {
       const url = wingId
         ? `${API_URL}/skills?wing_id=${encodeURIComponent(wingId)}`
         : `${API_URL}/skills`
-      const res = await fetch(url, { headers: authHeaders() })
+      const res = await request(url, { headers: authHeaders() })
       return handleResponse(res)
     },
   },
 
   qualifications: {
     getAll: async () => {
-      const res = await fetch(`${API_URL}/qualifications`, { headers: authHeaders() })
+      const res = await request(`${API_URL}/qualifications`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    getAuthority: async (): Promise<SignoffAuthority> => {
+      const res = await request(`${API_URL}/qualifications/authority`, { headers: authHeaders() })
       return handleResponse(res)
     },
 
     getByPilot: async (pilotId: string) => {
-      const res = await fetch(`${API_URL}/qualifications?pilot_id=${pilotId}`, {
+      const res = await request(`${API_URL}/qualifications?pilot_id=${pilotId}`, {
         headers: authHeaders(),
       })
       return handleResponse(res)
     },
 
-    update: async (pilotId: string, skillId: string, status: string) => {
-      const res = await fetch(`${API_URL}/qualifications`, {
+    update: async (pilotId: string, skillId: string, status: string, note?: string, override?: boolean) => {
+      const res = await request(`${API_URL}/qualifications`, {
         method: 'PUT',
         headers: authHeaders(),
-        body: JSON.stringify({ pilot_id: pilotId, skill_id: skillId, status }),
+        body: JSON.stringify({ pilot_id: pilotId, skill_id: skillId, status, note, override }),
       })
       return handleResponse(res)
     },
 
-    getStats: async (wingId?: string) => {
-      const url = wingId
-        ? `${API_URL}/qualifications/stats?wing_id=${encodeURIComponent(wingId)}`
-        : `${API_URL}/qualifications/stats`
-      const res = await fetch(url, { headers: authHeaders() })
+    markPerformed: async (pilotId: string, skillId: string, performedAt?: string) => {
+      const res = await request(`${API_URL}/qualifications/performed`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ pilot_id: pilotId, skill_id: skillId, performed_at: performedAt }),
+      })
+      return handleResponse(res)
+    },
+
+    getHistory: async (pilotId: string, skillId?: string) => {
+      const params = new URLSearchParams({ pilot_id: pilotId })
+      if (skillId) params.set('skill_id', skillId)
+      const res = await request(`${API_URL}/qualifications/history?${params}`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    getStats: async (filters: { wingId?: string; unitId?: string; includeInactive?: boolean } = {}): Promise<QuickStats> => {
+      const params = new URLSearchParams()
+      if (filters.wingId) params.set('wing_id', filters.wingId)
+      if (filters.unitId) params.set('unit_id', filters.unitId)
+      if (filters.includeInactive) params.set('include_inactive', 'true')
+      const res = await request(`${API_URL}/qualifications/stats?${params}`, { headers: authHeaders() })
       return handleResponse(res)
     },
 
     delete: async (pilotId: string, skillId: string) => {
-      const res = await fetch(`${API_URL}/qualifications`, {
+      const res = await request(`${API_URL}/qualifications`, {
         method: 'DELETE',
         headers: authHeaders(),
         body: JSON.stringify({ pilot_id: pilotId, skill_id: skillId }),
@@ -135,7 +450,7 @@ export const api = {
       const url = wingId
         ? `${API_URL}/qualifications/export?wing_id=${encodeURIComponent(wingId)}`
         : `${API_URL}/qualifications/export`
-      const res = await fetch(url, { headers: authHeaders() })
+      const res = await request(url, { headers: authHeaders() })
       if (!res.ok) {
         const body = await res.json().catch(() => ({ error: res.statusText }))
         throw new Error(body.error || `Export failed: ${res.status}`)
@@ -144,7 +459,7 @@ export const api = {
     },
 
     bulkImport: async (records: Array<{ callsign: string; skill_name: string; status: string }>) => {
-      const res = await fetch(`${API_URL}/qualifications/bulk`, {
+      const res = await request(`${API_URL}/qualifications/bulk`, {
         method: 'POST',
         headers: authHeaders(),
         body: JSON.stringify({ records }),
@@ -155,26 +470,26 @@ export const api = {
 
   wings: {
     getAll: async () => {
-      const res = await fetch(`${API_URL}/wings`, { headers: authHeaders() })
+      const res = await request(`${API_URL}/wings`, { headers: authHeaders() })
       return handleResponse(res)
     },
 
     getById: async (id: string) => {
-      const res = await fetch(`${API_URL}/wings/${id}`, { headers: authHeaders() })
+      const res = await request(`${API_URL}/wings/${id}`, { headers: authHeaders() })
       return handleResponse(res)
     },
 
-    create: async (name: string) => {
-      const res = await fetch(`${API_URL}/wings`, {
+    create: async (name: string, templateId?: string) => {
+      const res = await request(`${API_URL}/wings`, {
         method: 'POST',
         headers: authHeaders(),
-        body: JSON.stringify({ name }),
+        body: JSON.stringify({ name, template_id: templateId || null }),
       })
       return handleResponse(res)
     },
 
     update: async (id: string, name: string) => {
-      const res = await fetch(`${API_URL}/wings/${id}`, {
+      const res = await request(`${API_URL}/wings/${id}`, {
         method: 'PUT',
         headers: authHeaders(),
         body: JSON.stringify({ name }),
@@ -183,7 +498,7 @@ export const api = {
     },
 
     delete: async (id: string) => {
-      const res = await fetch(`${API_URL}/wings/${id}`, {
+      const res = await request(`${API_URL}/wings/${id}`, {
         method: 'DELETE',
         headers: authHeaders(),
       })
@@ -191,7 +506,7 @@ export const api = {
     },
 
     addSkill: async (wingId: string, name: string, category: string, sort_order?: number) => {
-      const res = await fetch(`${API_URL}/wings/${wingId}/skills`, {
+      const res = await request(`${API_URL}/wings/${wingId}/skills`, {
         method: 'POST',
         headers: authHeaders(),
         body: JSON.stringify({ name, category, sort_order }),
@@ -199,8 +514,76 @@ export const api = {
       return handleResponse(res)
     },
 
-    updateSkill: async (wingId: string, skillId: string, data: { name?: string; category?: string; sort_order?: number }) => {
-      const res = await fetch(`${API_URL}/wings/${wingId}/skills/${skillId}`, {
+    getPrerequisites: async (wingId: string) => {
+      const res = await request(`${API_URL}/wings/${wingId}/prerequisites`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    addPrerequisite: async (wingId: string, skillId: string, prerequisiteId: string) => {
+      const res = await request(`${API_URL}/wings/${wingId}/skills/${skillId}/prerequisites`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ prerequisite_id: prerequisiteId }),
+      })
+      return handleResponse(res)
+    },
+
+    removePrerequisite: async (wingId: string, skillId: string, prerequisiteId: string) => {
+      const res = await request(`${API_URL}/wings/${wingId}/skills/${skillId}/prerequisites/${prerequisiteId}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    getReadinessRules: async (wingId: string): Promise<{ rules: ReadinessRule[]; is_default: boolean }> => {
+      const res = await request(`${API_URL}/wings/${wingId}/readiness-rules`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    updateReadinessRules: async (wingId: string, rules: ReadinessRule[]): Promise<{ rules: ReadinessRule[]; is_default: boolean }> => {
+      const res = await request(`${API_URL}/wings/${wingId}/readiness-rules`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify({ rules }),
+      })
+      return handleResponse(res)
+    },
+
+    getDiscordWebhook: async (wingId: string): Promise<DiscordWebhookSettings> => {
+      const res = await request(`${API_URL}/wings/${wingId}/discord-webhook`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    updateDiscordWebhook: async (wingId: string, data: Pick<DiscordWebhookSettings, 'webhook_url' | 'enabled' | 'events'>): Promise<DiscordWebhookSettings> => {
+      const res = await request(`${API_URL}/wings/${wingId}/discord-webhook`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify(data),
+      })
+      return handleResponse(res)
+    },
+
+    deleteDiscordWebhook: async (wingId: string) => {
+      const res = await request(`${API_URL}/wings/${wingId}/discord-webhook`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    // Posts a sample message to webhookUrl, or to the saved webhook when omitted
+    testDiscordWebhook: async (wingId: string, webhookUrl?: string) => {
+      const res = await request(`${API_URL}/wings/${wingId}/discord-webhook/test`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ webhook_url: webhookUrl }),
+      })
+      return handleResponse(res)
+    },
+
+    updateSkill: async (wingId: string, skillId: string, data: { name?: string; category?: string; sort_order?: number; currency_days?: number | null }) => {
+      const res = await request(`${API_URL}/wings/${wingId}/skills/${skillId}`, {
         method: 'PUT',
         headers: authHeaders(),
         body: JSON.stringify(data),
@@ -209,7 +592,7 @@ export const api = {
     },
 
     reorderSkills: async (wingId: string, skillIds: string[]) => {
-      const res = await fetch(`${API_URL}/wings/${wingId}/skills/reorder`, {
+      const res = await request(`${API_URL}/wings/${wingId}/skills/reorder`, {
         method: 'PUT',
         headers: authHeaders(),
         body: JSON.stringify({ skill_ids: skillIds }),
@@ -218,20 +601,43 @@ export const api = {
     },
 
     deleteSkill: async (wingId: string, skillId: string) => {
-      const res = await fetch(`${API_URL}/wings/${wingId}/skills/${skillId}`, {
+      const res = await request(`${API_URL}/wings/${wingId}/skills/${skillId}`, {
         method: 'DELETE',
         headers: authHeaders(),
       })
       return handleResponse(res)
     },
 
+    getSyllabusRevisions: async (wingId: string): Promise<SyllabusRevision[]> => {
+      const res = await request(`${API_URL}/wings/${wingId}/syllabus-revisions`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    previewSyllabusRevision: async (wingId: string, mappings: RevisionMapping[]): Promise<RevisionPreview> => {
+      const res = await request(`${API_URL}/wings/${wingId}/syllabus-revisions/preview`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ mappings }),
+      })
+      return handleResponse(res)
+    },
+
+    applySyllabusRevision: async (wingId: string, mappings: RevisionMapping[], note: string | null): Promise<SyllabusRevision> => {
+      const res = await request(`${API_URL}/wings/${wingId}/syllabus-revisions`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ mappings, note }),
+      })
+      return handleResponse(res)
+    },
+
     getCategoryColors: async (wingId: string): Promise<Record<string, string>> => {
-      const res = await fetch(`${API_URL}/wings/${wingId}/category-colors`, { headers: authHeaders() })
+      const res = await request(`${API_URL}/wings/${wingId}/category-colors`, { headers: authHeaders() })
       return handleResponse(res)
     },
 
     setCategoryColor: async (wingId: string, category: string, color: string) => {
-      const res = await fetch(`${API_URL}/wings/${wingId}/category-colors`, {
+      const res = await request(`${API_URL}/wings/${wingId}/category-colors`, {
         method: 'PUT',
         headers: authHeaders(),
         body: JSON.stringify({ category, color }),
@@ -240,7 +646,7 @@ export const api = {
     },
 
     createCategory: async (wingId: string, category: string, color: string) => {
-      const res = await fetch(`${API_URL}/wings/${wingId}/categories`, {
+      const res = await request(`${API_URL}/wings/${wingId}/categories`, {
         method: 'POST',
         headers: authHeaders(),
         body: JSON.stringify({ category, color }),
@@ -249,12 +655,12 @@ export const api = {
     },
 
     getCategories: async (wingId: string): Promise<Array<{ category: string; color: string; sort_order: number }>> => {
-      const res = await fetch(`${API_URL}/wings/${wingId}/categories`, { headers: authHeaders() })
+      const res = await request(`${API_URL}/wings/${wingId}/categories`, { headers: authHeaders() })
       return handleResponse(res)
     },
 
     reorderCategories: async (wingId: string, categoryOrder: string[]) => {
-      const res = await fetch(`${API_URL}/wings/${wingId}/categories/reorder`, {
+      const res = await request(`${API_URL}/wings/${wingId}/categories/reorder`, {
         method: 'PUT',
         headers: authHeaders(),
         body: JSON.stringify({ categoryOrder }),
@@ -263,7 +669,272 @@ export const api = {
     },
 
     deleteCategory: async (wingId: string, categoryName: string) => {
-      const res = await fetch(`${API_URL}/wings/${wingId}/categories/${encodeURIComponent(categoryName)}`, {
+      const res = await request(`${API_URL}/wings/${wingId}/categories/${encodeURIComponent(categoryName)}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+  },
+
+  events: {
+    getAll: async (wingId?: string): Promise<TrainingEvent[]> => {
+      const query = wingId ? `?wing_id=${wingId}` : ''
+      const res = await request(`${API_URL}/events${query}`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    getById: async (id: string): Promise<TrainingEvent> => {
+      const res = await request(`${API_URL}/events/${id}`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    create: async (data: TrainingEventInput): Promise<TrainingEvent> => {
+      const res = await request(`${API_URL}/events`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(data),
+      })
+      return handleResponse(res)
+    },
+
+    update: async (id: string, data: TrainingEventInput): Promise<TrainingEvent> => {
+      const res = await request(`${API_URL}/events/${id}`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify(data),
+      })
+      return handleResponse(res)
+    },
+
+    delete: async (id: string) => {
+      const res = await request(`${API_URL}/events/${id}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    getProposals: async (id: string): Promise<EventProposal[]> => {
+      const res = await request(`${API_URL}/events/${id}/proposals`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    apply: async (
+      id: string,
+      selected: { pilot_id: string; skill_id: string }[],
+      override?: boolean
+    ): Promise<{ applied: EventProposal[]; skipped: EventProposal[]; requested: EventProposal[] }> => {
+      const res = await request(`${API_URL}/events/${id}/apply`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ selected, override }),
+      })
+      return handleResponse(res)
+    },
+  },
+
+  signoffs: {
+    getAll: async (filters: { status?: SignoffRequestStatus | 'all'; wingId?: string; mine?: boolean } = {}): Promise<SignoffRequest[]> => {
+      const params = new URLSearchParams()
+      if (filters.status) params.set('status', filters.status)
+      if (filters.wingId) params.set('wing_id', filters.wingId)
+      if (filters.mine) params.set('mine', 'true')
+      const res = await request(`${API_URL}/signoffs?${params}`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    create: async (pilotId: string, skillId: string, requestedStatus: 'FMQ' | 'IP', note?: string, override?: boolean): Promise<SignoffRequest> => {
+      const res = await request(`${API_URL}/signoffs`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ pilot_id: pilotId, skill_id: skillId, requested_status: requestedStatus, note, override }),
+      })
+      return handleResponse(res)
+    },
+
+    approve: async (id: string, comment?: string) => {
+      const res = await request(`${API_URL}/signoffs/${id}/approve`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ comment }),
+      })
+      return handleResponse(res)
+    },
+
+    reject: async (id: string, comment: string) => {
+      const res = await request(`${API_URL}/signoffs/${id}/reject`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ comment }),
+      })
+      return handleResponse(res)
+    },
+
+    cancel: async (id: string) => {
+      const res = await request(`${API_URL}/signoffs/${id}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+  },
+
+  evaluationRequests: {
+    getAll: async (filters: { status?: EvaluationRequestStatus | 'open' | 'all'; pilotId?: string; wingId?: string } = {}): Promise<EvaluationRequest[]> => {
+      const params = new URLSearchParams()
+      if (filters.status) params.set('status', filters.status)
+      if (filters.pilotId) params.set('pilot_id', filters.pilotId)
+      if (filters.wingId) params.set('wing_id', filters.wingId)
+      const res = await request(`${API_URL}/evaluation-requests?${params}`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    create: async (skillId: string, message?: string): Promise<EvaluationRequest> => {
+      const res = await request(`${API_URL}/evaluation-requests`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ skill_id: skillId, message }),
+      })
+      return handleResponse(res)
+    },
+
+    respond: async (
+      id: string,
+      status: 'accepted' | 'scheduled' | 'declined',
+      response?: string,
+      scheduledFor?: string
+    ): Promise<EvaluationRequest> => {
+      const res = await request(`${API_URL}/evaluation-requests/${id}`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify({ status, response, scheduled_for: scheduledFor }),
+      })
+      return handleResponse(res)
+    },
+
+    cancel: async (id: string): Promise<EvaluationRequest> => {
+      const res = await request(`${API_URL}/evaluation-requests/${id}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+  },
+
+  webhooks: {
+    getAll: async (): Promise<WebhookSubscription[]> => {
+      const res = await request(`${API_URL}/webhooks`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    getEvents: async (): Promise<{ events: WebhookEvent[]; max_attempts: number }> => {
+      const res = await request(`${API_URL}/webhooks/events`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    // The response is the only time the signing secret is shown
+    create: async (data: WebhookSubscriptionInput): Promise<WebhookSubscription> => {
+      const res = await request(`${API_URL}/webhooks`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(data),
+      })
+      return handleResponse(res)
+    },
+
+    update: async (id: string, data: WebhookSubscriptionInput): Promise<WebhookSubscription> => {
+      const res = await request(`${API_URL}/webhooks/${id}`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify(data),
+      })
+      return handleResponse(res)
+    },
+
+    delete: async (id: string) => {
+      const res = await request(`${API_URL}/webhooks/${id}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    rotateSecret: async (id: string): Promise<{ id: string; secret: string }> => {
+      const res = await request(`${API_URL}/webhooks/${id}/rotate-secret`, {
+        method: 'POST',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    // Queues a signed ping; its outcome appears in the delivery log
+    test: async (id: string): Promise<WebhookDelivery> => {
+      const res = await request(`${API_URL}/webhooks/${id}/test`, {
+        method: 'POST',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    // One page of the delivery log plus the total number of matches
+    getDeliveries: async (filters: {
+      subscriptionId?: string
+      status?: WebhookDeliveryStatus
+      limit?: number
+      offset?: number
+    } = {}): Promise<{ deliveries: WebhookDelivery[]; total: number }> => {
+      const params = new URLSearchParams()
+      if (filters.subscriptionId) params.set('subscription_id', filters.subscriptionId)
+      if (filters.status) params.set('status', filters.status)
+      if (filters.limit !== undefined) params.set('limit', String(filters.limit))
+      if (filters.offset !== undefined) params.set('offset', String(filters.offset))
+      const res = await request(`${API_URL}/webhooks/deliveries?${params}`, { headers: authHeaders() })
+      const deliveries = await handleResponse(res)
+      return { deliveries, total: Number(res.headers.get('X-Total-Count') ?? deliveries.length) }
+    },
+
+    retryDelivery: async (id: string) => {
+      const res = await request(`${API_URL}/webhooks/deliveries/${id}/retry`, {
+        method: 'POST',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+  },
+
+  roles: {
+    getAll: async (): Promise<Role[]> => {
+      const res = await request(`${API_URL}/roles`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    getPermissions: async (): Promise<{ permissions: PermissionInfo[] }> => {
+      const res = await request(`${API_URL}/roles/permissions`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    create: async (data: RoleInput): Promise<Role> => {
+      const res = await request(`${API_URL}/roles`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(data),
+      })
+      return handleResponse(res)
+    },
+
+    // Renaming a role carries its users over to the new name
+    update: async (name: string, data: RoleInput): Promise<Role> => {
+      const res = await request(`${API_URL}/roles/${encodeURIComponent(name)}`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify(data),
+      })
+      return handleResponse(res)
+    },
+
+    delete: async (name: string) => {
+      const res = await request(`${API_URL}/roles/${encodeURIComponent(name)}`, {
         method: 'DELETE',
         headers: authHeaders(),
       })
@@ -273,12 +944,12 @@ export const api = {
 
   admin: {
     getUsers: async () => {
-      const res = await fetch(`${API_URL}/admin/users`, { headers: authHeaders() })
+      const res = await request(`${API_URL}/admin/users`, { headers: authHeaders() })
       return handleResponse(res)
     },
 
     updateRole: async (userId: string, role: string) => {
-      const res = await fetch(`${API_URL}/admin/users/${userId}/role`, {
+      const res = await request(`${API_URL}/admin/users/${userId}/role`, {
         method: 'PUT',
         headers: authHeaders(),
         body: JSON.stringify({ role }),
@@ -287,7 +958,7 @@ export const api = {
     },
 
     updateUser: async (userId: string, data: Record<string, string>) => {
-      const res = await fetch(`${API_URL}/admin/users/${userId}`, {
+      const res = await request(`${API_URL}/admin/users/${userId}`, {
         method: 'PUT',
         headers: authHeaders(),
         body: JSON.stringify(data),
@@ -296,7 +967,7 @@ export const api = {
     },
 
     deleteUser: async (userId: string) => {
-      const res = await fetch(`${API_URL}/admin/users/${userId}`, {
+      const res = await request(`${API_URL}/admin/users/${userId}`, {
         method: 'DELETE',
         headers: authHeaders(),
       })
@@ -304,7 +975,7 @@ export const api = {
     },
 
     resetPassword: async (userId: string, password: string) => {
-      const res = await fetch(`${API_URL}/admin/users/${userId}/reset-password`, {
+      const res = await request(`${API_URL}/admin/users/${userId}/reset-password`, {
         method: 'POST',
         headers: authHeaders(),
         body: JSON.stringify({ password }),
@@ -312,13 +983,38 @@ export const api = {
       return handleResponse(res)
     },
 
+    revokeSessions: async (userId: string): Promise<{ revoked: number }> => {
+      const res = await request(`${API_URL}/admin/users/${userId}/sessions`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    linkDiscord: async (userId: string, discordId: string, discordUsername?: string) => {
+      const res = await request(`${API_URL}/admin/users/${userId}/discord`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify({ discord_id: discordId, discord_username: discordUsername || null }),
+      })
+      return handleResponse(res)
+    },
+
+    unlinkDiscord: async (userId: string) => {
+      const res = await request(`${API_URL}/admin/users/${userId}/discord`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
     getSettings: async () => {
-      const res = await fetch(`${API_URL}/admin/settings`, { headers: authHeaders() })
+      const res = await request(`${API_URL}/admin/settings`, { headers: authHeaders() })
       return handleResponse(res)
     },
 
     updateSettings: async (settings: Record<string, string>) => {
-      const res = await fetch(`${API_URL}/admin/settings`, {
+      const res = await request(`${API_URL}/admin/settings`, {
         method: 'PUT',
         headers: authHeaders(),
         body: JSON.stringify({ settings }),
@@ -326,4 +1022,86 @@ export const api = {
       return handleResponse(res)
     },
   },
+
+  archive: {
+    getAll: async (): Promise<ArchiveListing> => {
+      const res = await request(`${API_URL}/archive`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+
+    restoreUser: async (userId: string) => {
+      const res = await request(`${API_URL}/archive/users/${userId}/restore`, {
+        method: 'POST',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    purgeUser: async (userId: string) => {
+      const res = await request(`${API_URL}/archive/users/${userId}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    restoreWing: async (wingId: string): Promise<Wing> => {
+      const res = await request(`${API_URL}/archive/wings/${wingId}/restore`, {
+        method: 'POST',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    purgeWing: async (wingId: string) => {
+      const res = await request(`${API_URL}/archive/wings/${wingId}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    restoreSkill: async (skillId: string): Promise<{ restored: boolean; restored_qualifications: number }> => {
+      const res = await request(`${API_URL}/archive/skills/${skillId}/restore`, {
+        method: 'POST',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    purgeSkill: async (skillId: string) => {
+      const res = await request(`${API_URL}/archive/skills/${skillId}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    restoreCategory: async (wingId: string, category: string): Promise<{ restored: boolean; restored_skills: number }> => {
+      const res = await request(`${API_URL}/archive/categories/${wingId}/${encodeURIComponent(category)}/restore`, {
+        method: 'POST',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+
+    purgeCategory: async (wingId: string, category: string) => {
+      const res = await request(`${API_URL}/archive/categories/${wingId}/${encodeURIComponent(category)}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      })
+      return handleResponse(res)
+    },
+  },
+
+  analytics: {
+    getTrends: async (filters: { wingId?: string; from?: string; to?: string } = {}): Promise<ReadinessTrends> => {
+      const params = new URLSearchParams()
+      if (filters.wingId) params.set('wing_id', filters.wingId)
+      if (filters.from) params.set('from', filters.from)
+      if (filters.to) params.set('to', filters.to)
+      const res = await request(`${API_URL}/analytics/trends?${params}`, { headers: authHeaders() })
+      return handleResponse(res)
+    },
+  },
 }
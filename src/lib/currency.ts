@@ -0,0 +1,21 @@
+import { Qualification } from '@/types'
+
+// Whole days from now until the qualification lapses (negative once expired)
+export function daysUntilExpiry(qual: Qualification): number | null {
+  if (!qual.currency_expires_at) return null
+  return Math.ceil((new Date(qual.currency_expires_at).getTime() - Date.now()) / 86_400_000)
+}
+
+// Short human-readable currency description, or undefined when the skill never lapses
+export function currencyLabel(qual: Qualification): string | undefined {
+  const days = daysUntilExpiry(qual)
+  if (!qual.currency_state || days === null) return undefined
+  switch (qual.currency_state) {
+    case 'expired':
+      return `Expired ${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'} ago`
+    case 'expiring':
+      return `Expires in ${days} day${days === 1 ? '' : 's'}`
+    default:
+      return `Current until ${new Date(qual.currency_expires_at!).toLocaleDateString()}`
+  }
+}
@@ -0,0 +1,13 @@
+// Messages for the discord_error codes the OAuth callback redirects back with
+const DISCORD_ERRORS: Record<string, string> = {
+  not_linked: 'That Discord account is not linked to a squadron account. Sign in with your email and link it from your profile.',
+  in_use: 'That Discord account is already linked to another user.',
+  denied: 'Discord access was cancelled.',
+  expired: 'The Discord sign-in took too long. Please try again.',
+  disabled: 'Discord sign-in is not available.',
+}
+
+export function discordErrorMessage(code: string | null): string | null {
+  if (!code) return null
+  return DISCORD_ERRORS[code] || 'Discord sign-in failed. Please try again.'
+}
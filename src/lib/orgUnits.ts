@@ -0,0 +1,33 @@
+import { OrgUnit } from '@/types'
+
+// Units in tree order (each parent followed by its children, siblings by name)
+// with their depth below the wing
+export function flattenUnitTree(units: OrgUnit[]): Array<{ unit: OrgUnit; depth: number }> {
+  const children = new Map<string | null, OrgUnit[]>()
+  for (const u of units) children.set(u.parent_id, [...(children.get(u.parent_id) || []), u])
+  const out: Array<{ unit: OrgUnit; depth: number }> = []
+  const walk = (parentId: string | null, depth: number) => {
+    for (const u of (children.get(parentId) || []).sort((a, b) => a.name.localeCompare(b.name))) {
+      out.push({ unit: u, depth })
+      walk(u.id, depth + 1)
+    }
+  }
+  walk(null, 0)
+  return out
+}
+
+// The unit and every unit beneath it
+export function unitSubtree(units: OrgUnit[], rootId: string): Set<string> {
+  const ids = new Set([rootId])
+  let grew = true
+  while (grew) {
+    grew = false
+    for (const u of units) {
+      if (u.parent_id && ids.has(u.parent_id) && !ids.has(u.id)) {
+        ids.add(u.id)
+        grew = true
+      }
+    }
+  }
+  return ids
+}
@@ -0,0 +1,32 @@
+import { Permission, User } from '@/types'
+
+// Any of these opens the Instructor Tools page
+export const INSTRUCTOR_TOOL_PERMISSIONS: Permission[] = [
+  'pilots:create',
+  'qualifications:write',
+  'skills:manage',
+  'categories:manage',
+  'readiness:manage',
+  'evaluations:respond',
+  'export:all',
+]
+
+// Any of these opens the Admin Panel
+export const ADMIN_PANEL_PERMISSIONS: Permission[] = [
+  'users:manage',
+  'roles:manage',
+  'settings:manage',
+  'skills:manage',
+  'webhooks:manage',
+  'wings:manage',
+  'categories:manage',
+]
+
+export const can = (user: User | null | undefined, permission: Permission): boolean =>
+  !!user?.permissions?.includes(permission)
+
+export const canAny = (user: User | null | undefined, permissions: Permission[]): boolean =>
+  permissions.some(p => can(user, p))
+
+// Whether the user's role reaches every wing rather than only their own
+export const seesAllWings = (user: User | null | undefined): boolean => !!user && !user.wing_scoped
@@ -0,0 +1,24 @@
+import { RosterStatus } from '@/types'
+
+export const ROSTER_STATUSES: RosterStatus[] = ['active', 'reserve', 'loa', 'retired']
+
+export const ROSTER_STATUS_LABELS: Record<RosterStatus, string> = {
+  active: 'Active',
+  reserve: 'Reserve',
+  loa: 'LOA',
+  retired: 'Retired',
+}
+
+// Badge colours for pilots off the active roster
+export const ROSTER_STATUS_STYLES: Record<RosterStatus, string> = {
+  active: 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300',
+  reserve: 'bg-sky-50 dark:bg-sky-900/30 text-sky-700 dark:text-sky-300',
+  loa: 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  retired: 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400',
+}
+
+// Filter choices for pilot lists: the active roster, everyone, or one status
+export type RosterFilter = RosterStatus | 'all'
+
+export const matchesRosterFilter = (status: RosterStatus, filter: RosterFilter) =>
+  filter === 'all' || status === filter
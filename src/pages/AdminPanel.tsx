@@ -1,8 +1,12 @@
 import React, { useEffect, useState } from 'react'
-import { api } from '@/lib/api'
+import { api, ApiError } from '@/lib/api'
 import { useAuthStore } from '@/store/authStore'
-import { Trash2, KeyRound, Pencil, X, Check, Plus } from 'lucide-react'
-import { Wing } from '@/types'
+import { useDataStore } from '@/store/dataStore'
+import { can } from '@/lib/permissions'
+import { flattenUnitTree } from '@/lib/orgUnits'
+import { ROSTER_STATUSES, ROSTER_STATUS_LABELS, ROSTER_STATUS_STYLES } from '@/lib/roster'
+import { Trash2, KeyRound, Pencil, X, Check, Plus, LogOut, Link2, Bell, Send, RefreshCw, Lock, ArrowRightLeft, Network, Download, Upload, Archive, RotateCcw } from 'lucide-react'
+import { ArchiveListing, ArchivedQualification, DiscordWebhookSettings, MembershipKind, NotificationEvent, OrgUnit, Permission, PermissionInfo, Pilot, PilotStatusChange, PilotTransfer, Role, RoleInput, RosterStatus, SyllabusApplyResult, SyllabusTemplate, SyllabusTemplateInput, TransferMode, TransferPreview, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent, WebhookSubscription, WebhookSubscriptionInput, Wing } from '@/types'
 
 interface AdminUser {
   id: string
@@ -17,6 +21,9 @@ interface AdminUser {
   wing_id: string | null
   wing_name: string | null
   board_number: string | null
+  roster_status: RosterStatus | null
+  discord_id: string | null
+  discord_username: string | null
 }
 
 // ── Shared input / label styles ──────────────────────────────
@@ -47,13 +54,27 @@ const roleColors: Record<string, string> = {
   pilot:      'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-700',
 }
 
+type AdminTab = 'users' | 'roles' | 'wings' | 'syllabi' | 'webhooks' | 'archive'
+
 export const AdminPanel: React.FC = () => {
   const { user } = useAuthStore()
-  const [tab, setTab] = useState<'users' | 'wings'>('users')
+  // Each tab appears to roles holding the permission behind it
+  const tabs = ([
+    ['users', can(user, 'users:manage')],
+    ['roles', can(user, 'roles:manage')],
+    ['wings', can(user, 'wings:manage') || can(user, 'settings:manage')],
+    ['syllabi', can(user, 'skills:manage')],
+    ['webhooks', can(user, 'webhooks:manage')],
+    ['archive', can(user, 'users:manage') || can(user, 'wings:manage') || can(user, 'skills:manage') || can(user, 'categories:manage')],
+  ] as [AdminTab, boolean][]).filter(([, allowed]) => allowed).map(([t]) => t)
+  const [tab, setTab] = useState<AdminTab>(tabs[0] || 'users')
   const [users, setUsers] = useState<AdminUser[]>([])
   const [wings, setWings] = useState<Wing[]>([])
+  const [roles, setRoles] = useState<Role[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  // Only admins hand out or take away the admin role
+  const canAssign = (role: string) => can(user, 'roles:manage') && (role !== 'admin' || user?.role === 'admin')
   const [successMsg, setSuccessMsg] = useState<string | null>(null)
 
   // user editing state
@@ -62,6 +83,9 @@ export const AdminPanel: React.FC = () => {
   const [resetPasswordId, setResetPasswordId] = useState<string | null>(null)
   const [newPassword, setNewPassword] = useState('')
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
+  const [discordUserId, setDiscordUserId] = useState<string | null>(null)
+  const [discordForm, setDiscordForm] = useState({ discord_id: '', discord_username: '' })
+  const [wingsUserId, setWingsUserId] = useState<string | null>(null)
 
   // create user state
   const [showCreateForm, setShowCreateForm] = useState(false)
@@ -71,12 +95,14 @@ export const AdminPanel: React.FC = () => {
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [usersData, wingsData] = await Promise.all([
-          api.admin.getUsers(),
+        const [usersData, wingsData, rolesData] = await Promise.all([
+          can(user, 'users:manage') ? api.admin.getUsers() : Promise.resolve([]),
           api.wings.getAll(),
+          api.roles.getAll(),
         ])
         setUsers(usersData)
         setWings(wingsData)
+        setRoles(rolesData)
       } catch (err: any) {
         setError(err.message || 'Failed to load data')
       } finally {
@@ -106,8 +132,8 @@ export const AdminPanel: React.FC = () => {
       await api.admin.deleteUser(userId)
       setUsers(users.filter(u => u.id !== userId))
       setDeleteConfirmId(null)
-      showSuccess('User deleted')
-    } catch (err: any) { setError(err.message || 'Failed to delete user') }
+      showSuccess('User archived')
+    } catch (err: any) { setError(err.message || 'Failed to archive user') }
   }
 
   const handleResetPassword = async (userId: string) => {
@@ -117,13 +143,47 @@ export const AdminPanel: React.FC = () => {
       await api.admin.resetPassword(userId, newPassword)
       setResetPasswordId(null)
       setNewPassword('')
-      showSuccess('Password reset')
+      showSuccess('Password reset. The user must choose a new one at next sign-in')
     } catch (err: any) { setError(err.message || 'Failed to reset password') }
   }
 
+  const handleRevokeSessions = async (u: AdminUser) => {
+    setError(null)
+    try {
+      const { revoked } = await api.admin.revokeSessions(u.id)
+      showSuccess(`Signed ${u.callsign || u.email} out of ${revoked} session${revoked !== 1 ? 's' : ''}`)
+    } catch (err: any) { setError(err.message || 'Failed to revoke sessions') }
+  }
+
+  const openDiscord = (u: AdminUser) => {
+    setDiscordUserId(discordUserId === u.id ? null : u.id)
+    setDiscordForm({ discord_id: u.discord_id || '', discord_username: u.discord_username || '' })
+  }
+
+  const handleLinkDiscord = async (u: AdminUser) => {
+    if (!/^\d{17,20}$/.test(discordForm.discord_id.trim())) { setError('Discord ID must be a 17-20 digit number'); return }
+    setError(null)
+    try {
+      const linked = await api.admin.linkDiscord(u.id, discordForm.discord_id.trim(), discordForm.discord_username.trim() || undefined)
+      setUsers(users.map(x => x.id === u.id ? { ...x, ...linked } : x))
+      setDiscordUserId(null)
+      showSuccess(`Discord account linked to ${u.callsign || u.email}`)
+    } catch (err: any) { setError(err.message || 'Failed to link Discord account') }
+  }
+
+  const handleUnlinkDiscord = async (u: AdminUser) => {
+    setError(null)
+    try {
+      const unlinked = await api.admin.unlinkDiscord(u.id)
+      setUsers(users.map(x => x.id === u.id ? { ...x, ...unlinked } : x))
+      setDiscordUserId(null)
+      showSuccess(`Discord account unlinked from ${u.callsign || u.email}`)
+    } catch (err: any) { setError(err.message || 'Failed to unlink Discord account') }
+  }
+
   const startEditing = (u: AdminUser) => {
     setEditingId(u.id)
-    setEditForm({ email: u.email, callsign: u.callsign || '', first_name: u.first_name || '', last_name: u.last_name || '', wing_id: u.wing_id || '', board_number: u.board_number || '' })
+    setEditForm({ email: u.email, callsign: u.callsign || '', first_name: u.first_name || '', last_name: u.last_name || '', board_number: u.board_number || '' })
   }
 
   const handleSaveEdit = async (userId: string) => {
@@ -147,7 +207,9 @@ export const AdminPanel: React.FC = () => {
       const result = await api.pilots.create({ callsign: createForm.callsign.trim(), first_name: createForm.first_name.trim(), last_name: createForm.last_name.trim(), email: createForm.email.trim(), wing_id: createForm.wing_id, role: createForm.role, board_number: createForm.board_number.trim() || undefined })
       setCreateForm({ callsign: '', first_name: '', last_name: '', email: '', wing_id: '', role: 'pilot', board_number: '' })
       setShowCreateForm(false)
-      showSuccess(`User created — temporary password: ${result.temp_password}`)
+      showSuccess(result.invite_sent
+        ? `User created — an onboarding link was emailed to ${result.email}`
+        : `User created — the invite email failed, temporary password: ${result.temp_password}`)
       const usersData = await api.admin.getUsers()
       setUsers(usersData)
     } catch (err: any) { setError(err.message || 'Failed to create user') }
@@ -182,7 +244,7 @@ export const AdminPanel: React.FC = () => {
       {/* Tabs */}
       <div className="border-b border-gray-200 dark:border-gray-800">
         <nav className="flex gap-0 -mb-px">
-          {(['users', 'wings'] as const).map(t => (
+          {tabs.map(t => (
             <button
               key={t}
               onClick={() => setTab(t)}
@@ -241,14 +303,14 @@ export const AdminPanel: React.FC = () => {
                     {wings.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
                   </select>
                 </div>
-                <div>
-                  <label className={labelCls}>Role</label>
-                  <select value={createForm.role} onChange={e => setCreateForm({ ...createForm, role: e.target.value })} className={inputCls}>
-                    <option value="pilot">Pilot</option>
-                    <option value="instructor">Instructor</option>
-                    <option value="admin">Admin</option>
-                  </select>
-                </div>
+                {can(user, 'roles:manage') && (
+                  <div>
+                    <label className={labelCls}>Role</label>
+                    <select value={createForm.role} onChange={e => setCreateForm({ ...createForm, role: e.target.value })} className={inputCls}>
+                      {roles.filter(r => canAssign(r.name)).map(r => <option key={r.name} value={r.name}>{r.name}</option>)}
+                    </select>
+                  </div>
+                )}
               </div>
               <div className="flex items-center gap-2 pt-1">
                 <button onClick={handleCreateUser} disabled={creating} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition disabled:opacity-50">
@@ -257,7 +319,7 @@ export const AdminPanel: React.FC = () => {
                                  <button onClick={() => { setShowCreateForm(false); setCreateForm({ callsign: '', first_name: '', last_name: '', email: '', wing_id: '', role: 'pilot', board_number: '' }) }} className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition">
                   Cancel
                 </button>
-                <p className="ml-auto text-xs text-gray-400 dark:text-gray-500">A temporary password will be shown after creation.</p>
+                <p className="ml-auto text-xs text-gray-400 dark:text-gray-500">The user will be emailed a link to set their password.</p>
               </div>
             </div>
           )}
@@ -292,6 +354,9 @@ export const AdminPanel: React.FC = () => {
                                   {(u.callsign || u.email).slice(0, 1).toUpperCase()}
                                 </div>
                                 <span className="font-medium text-gray-900 dark:text-white">{u.callsign || '—'}</span>
+                                {u.roster_status && u.roster_status !== 'active' && (
+                                  <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${ROSTER_STATUS_STYLES[u.roster_status]}`}>{ROSTER_STATUS_LABELS[u.roster_status]}</span>
+                                )}
                               </div>
                           }
                         </td>
@@ -319,27 +384,19 @@ export const AdminPanel: React.FC = () => {
                             : <span className="text-gray-500 dark:text-gray-400 text-xs">{u.email}</span>
                           }
                         </td>
-                        {/* Wing */}
+                        {/* Wing — changed through a transfer, not the edit form */}
                         <td className="px-4 py-3 hidden sm:table-cell">
-                          {isEditing
-                            ? <select value={editForm.wing_id} onChange={e => setEditForm({ ...editForm, wing_id: e.target.value })} className={inputCls}>
-                                <option value="">—</option>
-                                {wings.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
-                              </select>
-                            : <span className="text-gray-500 dark:text-gray-400 text-xs">{u.wing_name || '—'}</span>
-                          }
+                          <span className="text-gray-500 dark:text-gray-400 text-xs">{u.wing_name || '—'}</span>
                         </td>
                         {/* Role */}
                         <td className="px-4 py-3">
                           <select
                             value={u.role}
                             onChange={e => handleRoleChange(u.id, e.target.value)}
-                            disabled={isMe}
-                            className={`px-2 py-1 rounded text-xs font-medium ${roleColors[u.role] || roleColors.pilot} ${isMe ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                            disabled={isMe || !canAssign(u.role)}
+                            className={`px-2 py-1 rounded text-xs font-medium capitalize ${roleColors[u.role] || roleColors.pilot} ${isMe || !canAssign(u.role) ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
                           >
-                            <option value="pilot">Pilot</option>
-                            <option value="instructor">Instructor</option>
-                            <option value="admin">Admin</option>
+                            {roles.filter(r => r.name === u.role || canAssign(r.name)).map(r => <option key={r.name} value={r.name}>{r.name}</option>)}
                           </select>
                         </td>
                         {/* Actions */}
@@ -354,7 +411,10 @@ export const AdminPanel: React.FC = () => {
                               <>
                                 <button onClick={() => startEditing(u)} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Edit"><Pencil className="w-4 h-4" /></button>
                                 <button onClick={() => { setResetPasswordId(resetPasswordId === u.id ? null : u.id); setNewPassword('') }} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Reset password"><KeyRound className="w-4 h-4" /></button>
-                                {!isMe && <button onClick={() => setDeleteConfirmId(deleteConfirmId === u.id ? null : u.id)} className="p-1.5 rounded hover:bg-red-50 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition" title="Delete"><Trash2 className="w-4 h-4" /></button>}
+                                {u.pilot_id && <button onClick={() => setWingsUserId(wingsUserId === u.id ? null : u.id)} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Roster status, wings and transfers"><ArrowRightLeft className="w-4 h-4" /></button>}
+                                <button onClick={() => openDiscord(u)} className={`p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 transition ${u.discord_id ? 'text-[#5865F2]' : 'text-gray-400 hover:text-gray-600 dark:hover:text-gray-300'}`} title={u.discord_id ? `Discord: ${u.discord_username || u.discord_id}` : 'Link Discord account'}><Link2 className="w-4 h-4" /></button>
+                                <button onClick={() => handleRevokeSessions(u)} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Sign out everywhere"><LogOut className="w-4 h-4" /></button>
+                                {!isMe && <button onClick={() => setDeleteConfirmId(deleteConfirmId === u.id ? null : u.id)} className="p-1.5 rounded hover:bg-red-50 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition" title="Archive"><Archive className="w-4 h-4" /></button>}
                               </>
                             )}
                           </div>
@@ -375,13 +435,45 @@ export const AdminPanel: React.FC = () => {
                         </tr>
                       )}
 
+                      {/* Discord link inline */}
+                      {discordUserId === u.id && (
+                        <tr className="bg-gray-50 dark:bg-gray-800/30">
+                          <td colSpan={7} className="px-4 py-3">
+                            <div className="flex flex-wrap items-center gap-3">
+                              <span className="text-xs text-gray-500 dark:text-gray-400">Discord account for <strong>{u.callsign || u.email}</strong></span>
+                              <input value={discordForm.discord_id} onChange={e => setDiscordForm({ ...discordForm, discord_id: e.target.value })} placeholder="Discord user ID" className="px-3 py-1.5 text-sm font-mono border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white w-48 focus:outline-none focus:ring-1 focus:ring-blue-500" />
+                              <input value={discordForm.discord_username} onChange={e => setDiscordForm({ ...discordForm, discord_username: e.target.value })} placeholder="Username (optional)" className="px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white w-44 focus:outline-none focus:ring-1 focus:ring-blue-500" />
+                              <button onClick={() => handleLinkDiscord(u)} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-md transition">{u.discord_id ? 'Update' : 'Link'}</button>
+                              {u.discord_id && <button onClick={() => handleUnlinkDiscord(u)} className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs font-medium rounded-md transition">Unlink</button>}
+                              <button onClick={() => setDiscordUserId(null)} className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition">Cancel</button>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+
+                      {/* Roster status, wing memberships and transfers inline */}
+                      {wingsUserId === u.id && u.pilot_id && (
+                        <tr>
+                          <td colSpan={7} className="p-0">
+                            <PilotWingsPanel
+                              pilotId={u.pilot_id}
+                              wings={wings}
+                              onClose={() => setWingsUserId(null)}
+                              onChanged={async () => setUsers(await api.admin.getUsers())}
+                              showSuccess={showSuccess}
+                              setError={setError}
+                            />
+                          </td>
+                        </tr>
+                      )}
+
                       {/* Delete confirmation inline */}
                       {deleteConfirmId === u.id && (
                         <tr className="bg-red-50 dark:bg-red-950/20">
                            <td colSpan={7} className="px-4 py-3">
                              <div className="flex items-center gap-3">
-                               <span className="text-xs text-red-700 dark:text-red-300">Delete <strong>{u.callsign || u.email}</strong>? This removes all their qualifications.</span>
-                              <button onClick={() => handleDelete(u.id)} className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs font-medium rounded-md transition">Delete</button>
+                               <span className="text-xs text-red-700 dark:text-red-300">Archive <strong>{u.callsign || u.email}</strong>? They can no longer sign in; their records are kept in the Archive.</span>
+                              <button onClick={() => handleDelete(u.id)} className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs font-medium rounded-md transition">Archive</button>
                               <button onClick={() => setDeleteConfirmId(null)} className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition">Cancel</button>
                             </div>
                           </td>
@@ -396,11 +488,253 @@ export const AdminPanel: React.FC = () => {
         </div>
       )}
 
+      {/* ── Roles tab ── */}
+      {tab === 'roles' && (
+        <RolesTab
+          roles={roles}
+          onRolesChanged={async () => {
+            const [r, u] = await Promise.all([api.roles.getAll(), can(user, 'users:manage') ? api.admin.getUsers() : Promise.resolve([])])
+            setRoles(r)
+            setUsers(u)
+          }}
+          showSuccess={showSuccess}
+          setError={setError}
+        />
+      )}
+
       {/* ── Wings tab ── */}
       {tab === 'wings' && (
         <WingsTab wings={wings} onWingsChanged={async () => { const w = await api.wings.getAll(); setWings(w) }} showSuccess={showSuccess} setError={setError} />
       )}
 
+      {/* ── Syllabi tab ── */}
+      {tab === 'syllabi' && (
+        <SyllabiTab wings={wings} showSuccess={showSuccess} setError={setError} />
+      )}
+
+      {/* ── Webhooks tab ── */}
+      {tab === 'webhooks' && (
+        <WebhooksTab wings={wings} showSuccess={showSuccess} setError={setError} />
+      )}
+
+      {/* ── Archive tab ── */}
+      {tab === 'archive' && (
+        <ArchiveTab
+          onRestored={async () => {
+            const [usersData, wingsData] = await Promise.all([
+              can(user, 'users:manage') ? api.admin.getUsers() : Promise.resolve([]),
+              api.wings.getAll(),
+            ])
+            setUsers(usersData); setWings(wingsData)
+          }}
+          showSuccess={showSuccess}
+          setError={setError}
+        />
+      )}
+
+    </div>
+  )
+}
+
+// ── Roles tab ────────────────────────────────────────────────
+
+const emptyRole = (): RoleInput => ({ name: '', description: null, permissions: [], wing_scoped: true })
+
+const RolesTab: React.FC<{
+  roles: Role[]
+  onRolesChanged: () => Promise<void>
+  showSuccess: (msg: string) => void
+  setError: (msg: string | null) => void
+}> = ({ roles, onRolesChanged, showSuccess, setError }) => {
+  const { user } = useAuthStore()
+  const [catalog, setCatalog] = useState<PermissionInfo[]>([])
+  // null when closed; editingName null while creating
+  const [form, setForm] = useState<RoleInput | null>(null)
+  const [editingName, setEditingName] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [deleteConfirmName, setDeleteConfirmName] = useState<string | null>(null)
+
+  useEffect(() => {
+    api.roles.getPermissions()
+      .then(({ permissions }) => setCatalog(permissions))
+      .catch((err: any) => setError(err.message || 'Failed to load permissions'))
+  }, [setError])
+
+  const siteWide = new Set(catalog.filter(p => p.site_wide).map(p => p.name))
+
+  const openForm = (role?: Role) => {
+    setError(null)
+    if (role) {
+      setEditingName(role.name)
+      setForm({ name: role.name, description: role.description, permissions: role.permissions, wing_scoped: role.wing_scoped })
+    } else {
+      setEditingName(null)
+      setForm(emptyRole())
+    }
+  }
+
+  const togglePermission = (permission: Permission) => {
+    if (!form) return
+    setForm({
+      ...form,
+      permissions: form.permissions.includes(permission)
+        ? form.permissions.filter(p => p !== permission)
+        : [...form.permissions, permission],
+    })
+  }
+
+  // Wing-scoped roles cannot hold site-wide permissions, so drop them when scoping
+  const setWingScoped = (wingScoped: boolean) => {
+    if (!form) return
+    setForm({
+      ...form,
+      wing_scoped: wingScoped,
+      permissions: wingScoped ? form.permissions.filter(p => !siteWide.has(p)) : form.permissions,
+    })
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    if (!form.name.trim()) { setError('Role name is required'); return }
+    setSaving(true); setError(null)
+    try {
+      const data = { ...form, name: form.name.trim().toLowerCase(), description: form.description?.trim() || null }
+      if (editingName) {
+        await api.roles.update(editingName, data)
+        showSuccess('Role updated')
+      } else {
+        await api.roles.create(data)
+        showSuccess('Role created')
+      }
+      setForm(null); setEditingName(null)
+      await onRolesChanged()
+    } catch (err: any) { setError(err.message || 'Failed to save role') }
+    finally { setSaving(false) }
+  }
+
+  const handleDelete = async (role: Role) => {
+    setError(null)
+    try {
+      await api.roles.delete(role.name)
+      setDeleteConfirmName(null)
+      await onRolesChanged(); showSuccess('Role deleted')
+    } catch (err: any) { setError(err.message || 'Failed to delete role') }
+  }
+
+  const editingBuiltin = editingName !== null && roles.some(r => r.name === editingName && r.builtin)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-400 dark:text-gray-500">
+          Roles bundle permissions. Wing-scoped roles only use theirs in the holder's own wing.
+        </p>
+        <button onClick={() => openForm()} className="flex items-center gap-1.5 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition">
+          <Plus className="w-4 h-4" /> Add Role
+        </button>
+      </div>
+
+      {form && (
+        <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className={labelCls}>Name</label>
+              <input
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. training_officer"
+                disabled={editingBuiltin}
+                className={`${inputCls} disabled:opacity-50`}
+                autoFocus
+              />
+            </div>
+            <div>
+              <label className={labelCls}>Description</label>
+              <input value={form.description || ''} onChange={e => setForm({ ...form, description: e.target.value })} placeholder="Optional" className={inputCls} />
+            </div>
+          </div>
+          <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input type="checkbox" checked={form.wing_scoped} onChange={e => setWingScoped(e.target.checked)} className="mt-0.5" />
+            <span>
+              <span className="block">Limited to the holder's own wing</span>
+              <span className="block text-xs text-gray-400 dark:text-gray-500">Site-wide permissions are only available to roles that reach every wing.</span>
+            </span>
+          </label>
+          <div>
+            <label className={labelCls}>Permissions</label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {catalog.map(p => {
+                const blocked = p.site_wide && form.wing_scoped
+                return (
+                  <label key={p.name} className={`flex items-start gap-2 text-sm ${blocked ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                    <input type="checkbox" checked={form.permissions.includes(p.name)} disabled={blocked} onChange={() => togglePermission(p.name)} className="mt-0.5" />
+                    <span>
+                      <span className="block font-mono text-xs text-gray-900 dark:text-white">{p.name}</span>
+                      <span className="block text-xs text-gray-400 dark:text-gray-500">{p.description}</span>
+                    </span>
+                  </label>
+                )
+              })}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={handleSave} disabled={saving} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition disabled:opacity-50">
+              {saving ? 'Saving...' : editingName ? 'Save' : 'Create'}
+            </button>
+            <button onClick={() => { setForm(null); setEditingName(null) }} className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg overflow-hidden divide-y divide-gray-100 dark:divide-gray-800">
+        {roles.map(r => (
+          <div key={r.name} className="flex items-start gap-3 px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800/40 transition-colors group">
+            {deleteConfirmName === r.name ? (
+              <>
+                <span className="flex-1 text-sm text-red-700 dark:text-red-300">Delete the <strong>{r.name}</strong> role?</span>
+                <button onClick={() => handleDelete(r)} className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs font-medium rounded-md transition">Delete</button>
+                <button onClick={() => setDeleteConfirmName(null)} className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition">Cancel</button>
+              </>
+            ) : (
+              <>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${roleColors[r.name] || roleColors.pilot}`}>{r.name}</span>
+                    {r.builtin && <span title="Built-in role"><Lock className="w-3 h-3 text-gray-400" /></span>}
+                    <span className="text-xs text-gray-400 dark:text-gray-500">
+                      {r.wing_scoped ? 'Own wing' : 'All wings'} · {r.user_count} user{r.user_count !== 1 ? 's' : ''}
+                    </span>
+                  </div>
+                  {r.description && <p className="text-xs text-gray-500 dark:text-gray-400">{r.description}</p>}
+                  <div className="flex flex-wrap gap-1">
+                    {r.permissions.length === 0 && <span className="text-xs text-gray-400 dark:text-gray-500">No permissions</span>}
+                    {r.permissions.map(p => (
+                      <span key={p} className="px-1.5 py-0.5 text-xs font-mono rounded bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300">{p}</span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {r.name !== 'admin' && r.name !== user?.role && (
+                    <button onClick={() => openForm(r)} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Edit"><Pencil className="w-3.5 h-3.5" /></button>
+                  )}
+                  {!r.builtin && (
+                    <button
+                      onClick={() => setDeleteConfirmName(r.name)}
+                      disabled={r.user_count > 0}
+                      className="p-1.5 rounded hover:bg-red-50 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                      title={r.user_count > 0 ? 'Reassign its users first' : 'Delete'}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
     </div>
   )
 }
@@ -415,22 +749,57 @@ const WingsTab: React.FC<{
 }> = ({ wings, onWingsChanged, showSuccess, setError }) => {
   const [showAddForm, setShowAddForm] = useState(false)
   const [newWingName, setNewWingName] = useState('')
+  const [newWingTemplateId, setNewWingTemplateId] = useState('')
+  const [templates, setTemplates] = useState<SyllabusTemplate[]>([])
   const [adding, setAdding] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editName, setEditName] = useState('')
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
+  const [notifyWingId, setNotifyWingId] = useState<string | null>(null)
+  const [unitsWingId, setUnitsWingId] = useState<string | null>(null)
+  const { user } = useAuthStore()
+  const { settings, setSettings } = useDataStore()
+  const canChangeSettings = can(user, 'settings:manage')
+  const pilotsSeeAllWings = settings.pilots_view_all_wings === 'true'
+
+  const handleToggleVisibility = async () => {
+    const value = pilotsSeeAllWings ? 'false' : 'true'
+    setError(null)
+    try {
+      await api.admin.updateSettings({ pilots_view_all_wings: value })
+      setSettings({ ...settings, pilots_view_all_wings: value })
+      showSuccess(value === 'true' ? 'Pilots can now see every wing' : 'Pilots now only see their own wing')
+    } catch (err: any) { setError(err.message || 'Failed to update wing visibility') }
+  }
+
+  const instructorsRequireIp = settings.instructors_require_ip === 'true'
+
+  const handleToggleRequireIp = async () => {
+    const value = instructorsRequireIp ? 'false' : 'true'
+    setError(null)
+    try {
+      await api.admin.updateSettings({ instructors_require_ip: value })
+      setSettings({ ...settings, instructors_require_ip: value })
+      showSuccess(value === 'true' ? 'Instructors now only sign off skills they hold IP on' : 'Instructors can sign off every skill in their wing')
+    } catch (err: any) { setError(err.message || 'Failed to update sign-off authority') }
+  }
 
   const handleCreate = async () => {
     if (!newWingName.trim()) { setError('Wing name is required'); return }
     setAdding(true); setError(null)
     try {
-      await api.wings.create(newWingName.trim())
-      setNewWingName(''); setShowAddForm(false)
+      await api.wings.create(newWingName.trim(), newWingTemplateId || undefined)
+      setNewWingName(''); setNewWingTemplateId(''); setShowAddForm(false)
       await onWingsChanged(); showSuccess('Wing created')
     } catch (err: any) { setError(err.message || 'Failed to create wing') }
     finally { setAdding(false) }
   }
 
+  const openAddForm = () => {
+    setShowAddForm(!showAddForm)
+    if (!showAddForm) api.syllabi.getAll().then(setTemplates).catch(() => setTemplates([]))
+  }
+
   const handleRename = async (wingId: string) => {
     if (!editName.trim()) { setError('Wing name is required'); return }
     setError(null)
@@ -446,19 +815,39 @@ const WingsTab: React.FC<{
     try {
       await api.wings.delete(wingId)
       setDeleteConfirmId(null)
-      await onWingsChanged(); showSuccess('Wing deleted')
-    } catch (err: any) { setError(err.message || 'Failed to delete wing') }
+      await onWingsChanged(); showSuccess('Wing archived')
+    } catch (err: any) { setError(err.message || 'Failed to archive wing') }
   }
 
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <p className="text-xs text-gray-400 dark:text-gray-500">{wings.length} wing{wings.length !== 1 ? 's' : ''}</p>
-        <button onClick={() => setShowAddForm(!showAddForm)} className="flex items-center gap-1.5 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition">
+        <button onClick={openAddForm} className="flex items-center gap-1.5 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition">
           <Plus className="w-4 h-4" /> Add Wing
         </button>
       </div>
 
+      {canChangeSettings && (
+        <label className="flex items-start gap-3 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-4 cursor-pointer">
+          <input type="checkbox" checked={pilotsSeeAllWings} onChange={handleToggleVisibility} className="mt-0.5" />
+          <span>
+            <span className="block text-sm font-medium text-gray-900 dark:text-white">Pilots can view all wings</span>
+            <span className="block text-xs text-gray-400 dark:text-gray-500">When off, pilots and other roles without permissions only see the pilots, skills and qualifications of their own wing. Wing-scoped roles such as instructor always see their own wing only.</span>
+          </span>
+        </label>
+      )}
+
+      {canChangeSettings && (
+        <label className="flex items-start gap-3 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-4 cursor-pointer">
+          <input type="checkbox" checked={instructorsRequireIp} onChange={handleToggleRequireIp} className="mt-0.5" />
+          <span>
+            <span className="block text-sm font-medium text-gray-900 dark:text-white">Instructors sign off only their IP skills</span>
+            <span className="block text-xs text-gray-400 dark:text-gray-500">When on, wing-scoped roles such as instructor can only change or approve qualifications on skills they hold IP on. Any pilot holding IP on a skill can always sign other pilots off on it.</span>
+          </span>
+        </label>
+      )}
+
       {showAddForm && (
         <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-4">
           <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Wing name</label>
@@ -471,10 +860,16 @@ const WingsTab: React.FC<{
               className="flex-1 px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
               autoFocus
             />
+            {templates.length > 0 && (
+              <select value={newWingTemplateId} onChange={e => setNewWingTemplateId(e.target.value)} className={`${inputCls} max-w-xs`} title="Syllabus to start from">
+                <option value="">No syllabus</option>
+                {templates.map(t => <option key={t.id} value={t.id}>{t.name} (v{t.version})</option>)}
+              </select>
+            )}
             <button onClick={handleCreate} disabled={adding} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition disabled:opacity-50">
               {adding ? 'Adding...' : 'Add'}
             </button>
-            <button onClick={() => { setShowAddForm(false); setNewWingName('') }} className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition">
+            <button onClick={() => { setShowAddForm(false); setNewWingName(''); setNewWingTemplateId('') }} className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition">
               Cancel
             </button>
           </div>
@@ -486,7 +881,8 @@ const WingsTab: React.FC<{
           <p className="px-4 py-6 text-sm text-gray-400 dark:text-gray-500 text-center">No wings yet.</p>
         )}
         {wings.map((wing, idx) => (
-          <div key={wing.id} className={`flex items-center gap-3 pl-3 pr-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800/40 transition-colors group border-l-4 ${wingAccent(idx)}`}>
+          <React.Fragment key={wing.id}>
+          <div className={`flex items-center gap-3 pl-3 pr-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800/40 transition-colors group border-l-4 ${wingAccent(idx)}`}>
             {editingId === wing.id ? (
               <>
                 <input
@@ -501,8 +897,8 @@ const WingsTab: React.FC<{
               </>
             ) : deleteConfirmId === wing.id ? (
               <>
-                <span className="flex-1 text-sm text-red-700 dark:text-red-300">Delete <strong>{wing.name}</strong>?</span>
-                <button onClick={() => handleDelete(wing.id)} className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs font-medium rounded-md transition">Delete</button>
+                <span className="flex-1 text-sm text-red-700 dark:text-red-300">Archive <strong>{wing.name}</strong>? It can be restored from the Archive.</span>
+                <button onClick={() => handleDelete(wing.id)} className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs font-medium rounded-md transition">Archive</button>
                 <button onClick={() => setDeleteConfirmId(null)} className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition">Cancel</button>
               </>
             ) : (
@@ -510,13 +906,1281 @@ const WingsTab: React.FC<{
                 <span className="flex-1 text-sm font-medium text-gray-900 dark:text-white">{wing.name}</span>
                 <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                   <button onClick={() => { setEditingId(wing.id); setEditName(wing.name) }} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Rename"><Pencil className="w-3.5 h-3.5" /></button>
-                  <button onClick={() => setDeleteConfirmId(wing.id)} className="p-1.5 rounded hover:bg-red-50 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition" title="Delete"><Trash2 className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => setUnitsWingId(unitsWingId === wing.id ? null : wing.id)} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Squadrons and flights"><Network className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => setNotifyWingId(notifyWingId === wing.id ? null : wing.id)} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Discord notifications"><Bell className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => setDeleteConfirmId(wing.id)} className="p-1.5 rounded hover:bg-red-50 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition" title="Archive"><Archive className="w-3.5 h-3.5" /></button>
                 </div>
               </>
             )}
           </div>
+          {unitsWingId === wing.id && (
+            <WingUnitsPanel wing={wing} onClose={() => setUnitsWingId(null)} showSuccess={showSuccess} setError={setError} />
+          )}
+          {notifyWingId === wing.id && (
+            <DiscordWebhookPanel wing={wing} onClose={() => setNotifyWingId(null)} showSuccess={showSuccess} setError={setError} />
+          )}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// ── Squadrons and flights of one wing ───────────────────────
+
+const WingUnitsPanel: React.FC<{
+  wing: Wing
+  onClose: () => void
+  showSuccess: (msg: string) => void
+  setError: (msg: string | null) => void
+}> = ({ wing, onClose, showSuccess, setError }) => {
+  const [units, setUnits] = useState<OrgUnit[] | null>(null)
+  const [pilots, setPilots] = useState<Pilot[]>([])
+  // parent_id of the unit being added; '' adds a top-level unit
+  const [addUnder, setAddUnder] = useState<string | null>(null)
+  const [newUnit, setNewUnit] = useState<{ name: string; kind: OrgUnit['kind'] }>({ name: '', kind: 'squadron' })
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editName, setEditName] = useState('')
+
+  const load = async () => {
+    try {
+      const [unitsData, pilotsData] = await Promise.all([api.units.getAll(wing.id), api.pilots.getAll()])
+      setUnits(unitsData)
+      setPilots(pilotsData.filter(p => p.wing_id === wing.id))
+    } catch (err: any) { setError(err.message || 'Failed to load units') }
+  }
+
+  useEffect(() => { load() }, [wing.id])
+
+  if (!units) {
+    return <div className="px-4 py-3 text-xs text-gray-400 dark:text-gray-500 bg-gray-50 dark:bg-gray-800/30">Loading units...</div>
+  }
+  const tree = flattenUnitTree(units)
+
+  const handleAdd = async () => {
+    if (!newUnit.name.trim()) { setError('Unit name is required'); return }
+    setError(null)
+    try {
+      await api.units.create({ wing_id: wing.id, parent_id: addUnder || null, name: newUnit.name.trim(), kind: newUnit.kind })
+      setAddUnder(null); setNewUnit({ name: '', kind: 'squadron' })
+      await load(); showSuccess('Unit created')
+    } catch (err: any) { setError(err.message || 'Failed to create unit') }
+  }
+
+  const handleRename = async (unit: OrgUnit) => {
+    if (!editName.trim()) { setError('Unit name is required'); return }
+    setError(null)
+    try {
+      await api.units.update(unit.id, { parent_id: unit.parent_id, name: editName.trim(), kind: unit.kind })
+      setEditingId(null); setEditName('')
+      await load(); showSuccess('Unit renamed')
+    } catch (err: any) { setError(err.message || 'Failed to rename unit') }
+  }
+
+  const handleDelete = async (unit: OrgUnit) => {
+    setError(null)
+    try {
+      await api.units.delete(unit.id)
+      await load(); showSuccess(`${unit.name} deleted`)
+    } catch (err: any) { setError(err.message || 'Failed to delete unit') }
+  }
+
+  const handleAssign = async (pilot: Pilot, unitId: string) => {
+    setError(null)
+    try {
+      const updated = await api.pilots.setUnit(pilot.id, unitId || null)
+      setPilots(prev => prev.map(p => p.id === pilot.id ? updated : p))
+      const counts = await api.units.getAll(wing.id)
+      setUnits(counts)
+    } catch (err: any) { setError(err.message || 'Failed to assign pilot') }
+  }
+
+  const addForm = (
+    <div className="flex items-center gap-2">
+      <input
+        value={newUnit.name}
+        onChange={e => setNewUnit({ ...newUnit, name: e.target.value })}
+        onKeyDown={e => { if (e.key === 'Enter') handleAdd(); if (e.key === 'Escape') setAddUnder(null) }}
+        placeholder={addUnder ? 'e.g. Dog 1' : 'e.g. VFA-143'}
+        className={inputCls}
+        autoFocus
+      />
+      <select value={newUnit.kind} onChange={e => setNewUnit({ ...newUnit, kind: e.target.value as OrgUnit['kind'] })} className={`${inputCls} w-32`}>
+        <option value="squadron">Squadron</option>
+        <option value="flight">Flight</option>
+      </select>
+      <button onClick={handleAdd} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-md transition">Add</button>
+      <button onClick={() => setAddUnder(null)} className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition">Cancel</button>
+    </div>
+  )
+
+  return (
+    <div className="px-4 py-4 bg-gray-50 dark:bg-gray-800/30 space-y-4">
+      <div className="space-y-1">
+        <p className={labelCls}>Squadrons and flights</p>
+        {tree.length === 0 && <p className="text-xs text-gray-400 dark:text-gray-500">No units yet. Pilots count toward the wing as a whole.</p>}
+        {tree.map(({ unit, depth }) => (
+          <React.Fragment key={unit.id}>
+            <div className="flex items-center gap-2 group" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+              {editingId === unit.id ? (
+                <>
+                  <input
+                    value={editName}
+                    onChange={e => setEditName(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') handleRename(unit); if (e.key === 'Escape') setEditingId(null) }}
+                    className={inputCls}
+                    autoFocus
+                  />
+                  <button onClick={() => handleRename(unit)} className="p-1.5 rounded hover:bg-green-100 dark:hover:bg-green-900/40 text-green-600 dark:text-green-400 transition"><Check className="w-4 h-4" /></button>
+                  <button onClick={() => setEditingId(null)} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 transition"><X className="w-4 h-4" /></button>
+                </>
+              ) : (
+                <>
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">{unit.name}</span>
+                  <span className="text-xs text-gray-400 dark:text-gray-500 capitalize">{unit.kind} · {unit.pilot_count} pilot{unit.pilot_count !== 1 ? 's' : ''}</span>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => { setAddUnder(unit.id); setNewUnit({ name: '', kind: 'flight' }) }} className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Add a unit beneath"><Plus className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => { setEditingId(unit.id); setEditName(unit.name) }} className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Rename"><Pencil className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => handleDelete(unit)} className="p-1 rounded hover:bg-red-50 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition" title="Delete"><Trash2 className="w-3.5 h-3.5" /></button>
+                  </div>
+                </>
+              )}
+            </div>
+            {addUnder === unit.id && <div style={{ paddingLeft: `${(depth + 1) * 1.25}rem` }}>{addForm}</div>}
+          </React.Fragment>
+        ))}
+        {addUnder === '' ? addForm : (
+          <button onClick={() => { setAddUnder(''); setNewUnit({ name: '', kind: 'squadron' }) }} className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline">
+            <Plus className="w-3.5 h-3.5" /> Add top-level unit
+          </button>
+        )}
+      </div>
+
+      {tree.length > 0 && pilots.length > 0 && (
+        <div>
+          <p className={labelCls}>Pilot assignments</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1.5">
+            {pilots.map(pilot => (
+              <div key={pilot.id} className="flex items-center gap-2">
+                <span className="flex-1 text-sm text-gray-700 dark:text-gray-300">{pilot.callsign}</span>
+                <select value={pilot.unit_id || ''} onChange={e => handleAssign(pilot, e.target.value)} className={`${inputCls} w-48`}>
+                  <option value="">Unassigned</option>
+                  {tree.map(({ unit, depth }) => (
+                    <option key={unit.id} value={unit.id}>{'\u00a0\u00a0\u00a0'.repeat(depth)}{unit.name}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex">
+        <button onClick={onClose} className="ml-auto text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition">Close</button>
+      </div>
+    </div>
+  )
+}
+
+// ── Discord notifications for one wing ───────────────────────
+
+const EVENT_LABELS: Record<NotificationEvent, { label: string; hint: string }> = {
+  qualified_fmq:    { label: 'Reached FMQ',      hint: 'A pilot becomes fully mission qualified in a skill' },
+  qualified_ip:     { label: 'Reached IP',       hint: 'A pilot becomes an instructor pilot in a skill' },
+  checkride_passed: { label: 'Checkride passed', hint: 'A pilot is qualified on a checkride skill (replaces the FMQ/IP post)' },
+  currency_lost:    { label: 'Currency lost',    hint: 'A qualification lapses because the skill was not flown in time' },
+}
+
+const DiscordWebhookPanel: React.FC<{
+  wing: Wing
+  onClose: () => void
+  showSuccess: (msg: string) => void
+  setError: (msg: string | null) => void
+}> = ({ wing, onClose, showSuccess, setError }) => {
+  const [config, setConfig] = useState<DiscordWebhookSettings | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [testing, setTesting] = useState(false)
+
+  useEffect(() => {
+    api.wings.getDiscordWebhook(wing.id)
+      .then(setConfig)
+      .catch((err: any) => setError(err.message || 'Failed to load Discord settings'))
+  }, [wing.id, setError])
+
+  if (!config) {
+    return <div className="px-4 py-3 text-xs text-gray-400 dark:text-gray-500 bg-gray-50 dark:bg-gray-800/30">Loading Discord settings...</div>
+  }
+
+  const setEvent = (type: NotificationEvent, patch: Partial<{ enabled: boolean; template: string }>) =>
+    setConfig({ ...config, events: { ...config.events, [type]: { ...config.events[type], ...patch } } })
+
+  const handleSave = async () => {
+    setSaving(true); setError(null)
+    try {
+      const saved = await api.wings.updateDiscordWebhook(wing.id, { webhook_url: config.webhook_url.trim(), enabled: config.enabled, events: config.events })
+      setConfig(saved)
+      showSuccess(`Discord notifications saved for ${wing.name}`)
+    } catch (err: any) { setError(err.message || 'Failed to save Discord settings') }
+    finally { setSaving(false) }
+  }
+
+  const handleTest = async () => {
+    setTesting(true); setError(null)
+    try {
+      await api.wings.testDiscordWebhook(wing.id, config.webhook_url.trim() || undefined)
+      showSuccess('Test message sent')
+    } catch (err: any) { setError(err.message || 'Failed to send test message') }
+    finally { setTesting(false) }
+  }
+
+  const handleRemove = async () => {
+    setError(null)
+    try {
+      await api.wings.deleteDiscordWebhook(wing.id)
+      showSuccess(`Discord notifications removed for ${wing.name}`)
+      onClose()
+    } catch (err: any) { setError(err.message || 'Failed to remove Discord settings') }
+  }
+
+  return (
+    <div className="px-4 py-4 bg-gray-50 dark:bg-gray-800/30 space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="flex-1">
+          <label className={labelCls}>Discord webhook URL</label>
+          <input value={config.webhook_url} onChange={e => setConfig({ ...config, webhook_url: e.target.value })} placeholder="https://discord.com/api/webhooks/..." className={inputCls} />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 mt-5 cursor-pointer">
+          <input type="checkbox" checked={config.enabled} onChange={e => setConfig({ ...config, enabled: e.target.checked })} />
+          Enabled
+        </label>
+      </div>
+
+      <div className="space-y-3">
+        {(Object.keys(EVENT_LABELS) as NotificationEvent[]).map(type => (
+          <div key={type} className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-2 items-start">
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input type="checkbox" checked={config.events[type].enabled} onChange={e => setEvent(type, { enabled: e.target.checked })} className="mt-0.5" />
+              <span>
+                <span className="block text-sm font-medium text-gray-900 dark:text-white">{EVENT_LABELS[type].label}</span>
+                <span className="block text-xs text-gray-400 dark:text-gray-500">{EVENT_LABELS[type].hint}</span>
+              </span>
+            </label>
+            <input value={config.events[type].template} onChange={e => setEvent(type, { template: e.target.value })} disabled={!config.events[type].enabled} className={`${inputCls} disabled:opacity-50`} />
+          </div>
         ))}
+        <p className="text-xs text-gray-400 dark:text-gray-500">
+          Templates can use {config.template_fields.map(f => `{${f}}`).join(', ')}. Discord markdown such as **bold** works.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button onClick={handleSave} disabled={saving} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-md transition disabled:opacity-50">
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button onClick={handleTest} disabled={testing || !config.webhook_url.trim()} className="px-3 py-1.5 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 text-xs font-medium rounded-md transition disabled:opacity-50">
+          {testing ? 'Sending...' : 'Send test message'}
+        </button>
+        {config.configured && (
+          <button onClick={handleRemove} className="px-3 py-1.5 text-xs text-red-600 dark:text-red-400 hover:text-red-700 transition">Remove webhook</button>
+        )}
+        <button onClick={onClose} className="ml-auto text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition">Close</button>
       </div>
     </div>
   )
 }
+
+// ── Roster status, wing memberships and transfers ───────────
+
+const TRANSFER_MODE_LABELS: Record<TransferMode, { label: string; hint: string }> = {
+  archive:    { label: 'Archive',    hint: 'Archive the old wing\'s qualifications and start at NMQ' },
+  carry_over: { label: 'Carry over', hint: 'Copy statuses onto same-named skills in the new wing, archive the rest' },
+  keep:       { label: 'Keep',       hint: 'Stay a dual member of the old wing with its qualifications intact' },
+}
+
+const PilotWingsPanel: React.FC<{
+  pilotId: string
+  wings: Wing[]
+  onClose: () => void
+  // After a transfer or status change, so the user list can refresh
+  onChanged: () => Promise<void>
+  showSuccess: (msg: string) => void
+  setError: (msg: string | null) => void
+}> = ({ pilotId, wings, onClose, onChanged, showSuccess, setError }) => {
+  const [pilot, setPilot] = useState<Pilot | null>(null)
+  const [transfers, setTransfers] = useState<PilotTransfer[]>([])
+  const [statusChanges, setStatusChanges] = useState<PilotStatusChange[]>([])
+  // null while the status form is closed
+  const [statusForm, setStatusForm] = useState<{ status: RosterStatus; effective_date: string; reason: string } | null>(null)
+  const [archived, setArchived] = useState<ArchivedQualification[]>([])
+  const [showArchived, setShowArchived] = useState(false)
+  const [memberForm, setMemberForm] = useState<{ wing_id: string; kind: MembershipKind }>({ wing_id: '', kind: 'guest' })
+  const [transferForm, setTransferForm] = useState<{ to_wing_id: string; mode: TransferMode; note: string }>({ to_wing_id: '', mode: 'carry_over', note: '' })
+  const [preview, setPreview] = useState<TransferPreview | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const load = React.useCallback(async () => {
+    try {
+      const [p, t, a, sc] = await Promise.all([
+        api.pilots.getById(pilotId),
+        api.pilots.getTransfers(pilotId),
+        api.pilots.getArchivedQualifications(pilotId),
+        api.pilots.getStatusHistory(pilotId),
+      ])
+      setPilot(p)
+      setTransfers(t)
+      setArchived(a)
+      setStatusChanges(sc)
+    } catch (err: any) { setError(err.message || 'Failed to load wing memberships') }
+  }, [pilotId, setError])
+
+  useEffect(() => { load() }, [load])
+
+  if (!pilot) {
+    return <div className="px-4 py-3 text-xs text-gray-400 dark:text-gray-500 bg-gray-50 dark:bg-gray-800/30">Loading wings...</div>
+  }
+
+  const memberIds = new Set([pilot.wing_id, ...pilot.memberships.map(m => m.wing_id)])
+
+  const handleAddMembership = async () => {
+    if (!memberForm.wing_id) return
+    setBusy(true); setError(null)
+    try {
+      await api.pilots.addMembership(pilotId, memberForm.wing_id, memberForm.kind)
+      setMemberForm({ wing_id: '', kind: 'guest' })
+      await load()
+      showSuccess(`${pilot.callsign} added to ${wings.find(w => w.id === memberForm.wing_id)?.name}`)
+    } catch (err: any) { setError(err.message || 'Failed to add wing membership') }
+    finally { setBusy(false) }
+  }
+
+  const handleRemoveMembership = async (wingId: string, wingName: string) => {
+    setBusy(true); setError(null)
+    try {
+      const result = await api.pilots.removeMembership(pilotId, wingId)
+      await load()
+      showSuccess(`${pilot.callsign} removed from ${wingName}; ${result.archived} qualification${result.archived === 1 ? '' : 's'} archived`)
+    } catch (err: any) { setError(err.message || 'Failed to remove wing membership') }
+    finally { setBusy(false) }
+  }
+
+  const handlePreview = async () => {
+    if (!transferForm.to_wing_id) return
+    setBusy(true); setError(null)
+    try {
+      setPreview(await api.pilots.previewTransfer(pilotId, transferForm.to_wing_id, transferForm.mode))
+    } catch (err: any) { setError(err.message || 'Failed to preview transfer') }
+    finally { setBusy(false) }
+  }
+
+  const handleTransfer = async () => {
+    if (!preview) return
+    setBusy(true); setError(null)
+    try {
+      await api.pilots.transfer(pilotId, { to_wing_id: preview.to_wing.id, mode: preview.mode, note: transferForm.note.trim() || undefined })
+      setPreview(null)
+      setTransferForm({ to_wing_id: '', mode: 'carry_over', note: '' })
+      await Promise.all([load(), onChanged()])
+      showSuccess(`${pilot.callsign} transferred to ${preview.to_wing.name}`)
+    } catch (err: any) { setError(err.message || 'Failed to transfer pilot') }
+    finally { setBusy(false) }
+  }
+
+  const handleSetStatus = async () => {
+    if (!statusForm) return
+    setBusy(true); setError(null)
+    try {
+      await api.pilots.setStatus(pilotId, {
+        status: statusForm.status,
+        effective_date: statusForm.effective_date || undefined,
+        reason: statusForm.reason.trim() || undefined,
+      })
+      setStatusForm(null)
+      await Promise.all([load(), onChanged()])
+      showSuccess(`${pilot.callsign} is now ${ROSTER_STATUS_LABELS[statusForm.status]}`)
+    } catch (err: any) { setError(err.message || 'Failed to change roster status') }
+    finally { setBusy(false) }
+  }
+
+  // A preview is only good for the wing and mode it was made for
+  const setTransfer = (patch: Partial<typeof transferForm>) => {
+    setTransferForm({ ...transferForm, ...patch })
+    if (patch.to_wing_id !== undefined || patch.mode !== undefined) setPreview(null)
+  }
+
+  return (
+    <div className="px-4 py-4 bg-gray-50 dark:bg-gray-800/30 space-y-5">
+      {/* Roster status */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <p className={labelCls}>Roster status:</p>
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${ROSTER_STATUS_STYLES[pilot.roster_status]}`}>{ROSTER_STATUS_LABELS[pilot.roster_status]}</span>
+          {pilot.roster_status_date && <span className="text-xs text-gray-400 dark:text-gray-500">since {new Date(`${pilot.roster_status_date}T00:00:00`).toLocaleDateString()}</span>}
+          {pilot.roster_status_reason && <span className="text-xs italic text-gray-500 dark:text-gray-400">— {pilot.roster_status_reason}</span>}
+          {!statusForm && (
+            <button onClick={() => setStatusForm({ status: pilot.roster_status, effective_date: '', reason: '' })} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">Change</button>
+          )}
+        </div>
+        {statusForm && (
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={statusForm.status} onChange={e => setStatusForm({ ...statusForm, status: e.target.value as RosterStatus })} className="px-2 py-1.5 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white">
+              {ROSTER_STATUSES.map(s => <option key={s} value={s}>{ROSTER_STATUS_LABELS[s]}</option>)}
+            </select>
+            <input type="date" value={statusForm.effective_date} max={new Date().toISOString().slice(0, 10)} onChange={e => setStatusForm({ ...statusForm, effective_date: e.target.value })} title="Effective date; today when left empty" className="px-2 py-1.5 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white" />
+            <input value={statusForm.reason} onChange={e => setStatusForm({ ...statusForm, reason: e.target.value })} placeholder="Reason (optional)" maxLength={1000} className="flex-1 min-w-[12rem] px-3 py-1.5 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500" />
+            <button onClick={handleSetStatus} disabled={busy} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-md transition disabled:opacity-50">Save</button>
+            <button onClick={() => setStatusForm(null)} className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition">Cancel</button>
+          </div>
+        )}
+        {statusForm && statusForm.status !== 'active' && (
+          <p className="text-xs text-gray-400 dark:text-gray-500">Pilots off the active roster keep their qualifications but no longer count towards readiness.</p>
+        )}
+      </div>
+
+      {/* Secondary memberships */}
+      <div>
+        <p className={labelCls}>Primary wing: <strong className="text-gray-700 dark:text-gray-200">{pilot.wing_name}</strong></p>
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          {pilot.memberships.length === 0 && <span className="text-xs text-gray-400 dark:text-gray-500">No other wings</span>}
+          {pilot.memberships.map(m => (
+            <span key={m.wing_id} className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+              {m.wing_name} <span className="text-gray-400 dark:text-gray-500">({m.kind})</span>
+              <button onClick={() => handleRemoveMembership(m.wing_id, m.wing_name)} disabled={busy} className="text-gray-400 hover:text-red-500 transition disabled:opacity-50" title="Remove and archive its qualifications"><X className="w-3 h-3" /></button>
+            </span>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          <select value={memberForm.wing_id} onChange={e => setMemberForm({ ...memberForm, wing_id: e.target.value })} className="px-2 py-1.5 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white">
+            <option value="">Add to wing...</option>
+            {wings.filter(w => !memberIds.has(w.id)).map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+          </select>
+          <select value={memberForm.kind} onChange={e => setMemberForm({ ...memberForm, kind: e.target.value as MembershipKind })} className="px-2 py-1.5 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white">
+            <option value="guest">Guest</option>
+            <option value="dual">Dual-qualified</option>
+          </select>
+          <button onClick={handleAddMembership} disabled={busy || !memberForm.wing_id} className="px-3 py-1.5 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 text-xs font-medium rounded-md transition disabled:opacity-50">Add</button>
+        </div>
+      </div>
+
+      {/* Transfer */}
+      <div className="space-y-2">
+        <p className={labelCls}>Transfer to another primary wing</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={transferForm.to_wing_id} onChange={e => setTransfer({ to_wing_id: e.target.value })} className="px-2 py-1.5 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white">
+            <option value="">Choose wing...</option>
+            {wings.filter(w => w.id !== pilot.wing_id).map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+          </select>
+          {(Object.keys(TRANSFER_MODE_LABELS) as TransferMode[]).map(mode => (
+            <label key={mode} className="flex items-center gap-1 text-xs text-gray-700 dark:text-gray-300 cursor-pointer" title={TRANSFER_MODE_LABELS[mode].hint}>
+              <input type="radio" checked={transferForm.mode === mode} onChange={() => setTransfer({ mode })} />
+              {TRANSFER_MODE_LABELS[mode].label}
+            </label>
+          ))}
+          <button onClick={handlePreview} disabled={busy || !transferForm.to_wing_id} className="px-3 py-1.5 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 text-xs font-medium rounded-md transition disabled:opacity-50">Preview</button>
+        </div>
+        <p className="text-xs text-gray-400 dark:text-gray-500">{TRANSFER_MODE_LABELS[transferForm.mode].hint}.</p>
+
+        {preview && (
+          <div className="p-3 rounded-md bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 space-y-2 text-xs text-gray-600 dark:text-gray-400">
+            <p className="font-medium text-gray-900 dark:text-white">{preview.pilot.wing_name} → {preview.to_wing.name}</p>
+            {preview.carried.length > 0 && (
+              <div>
+                <p>Carried over ({preview.carried.length}):</p>
+                <ul className="ml-4 list-disc">
+                  {preview.carried.map(c => <li key={c.to_skill_id}>{c.skill_name}: {c.replaces || 'none'} → <strong>{c.status}</strong></li>)}
+                </ul>
+              </div>
+            )}
+            {preview.archived.length > 0 && (
+              <p>Archived: {preview.archived.length} qualification{preview.archived.length === 1 ? '' : 's'} ({preview.archived.filter(a => a.status !== 'NMQ').map(a => `${a.skill_name} ${a.status}`).join(', ') || 'all NMQ'})</p>
+            )}
+            <p>New NMQ rows: {preview.created.length}</p>
+            {(preview.cancelled_signoffs > 0 || preview.cancelled_evaluations > 0) && (
+              <p className="text-amber-600 dark:text-amber-400">Cancels {preview.cancelled_signoffs} pending sign-off{preview.cancelled_signoffs === 1 ? '' : 's'} and {preview.cancelled_evaluations} open evaluation request{preview.cancelled_evaluations === 1 ? '' : 's'}</p>
+            )}
+            <div className="flex items-center gap-2 pt-1">
+              <input value={transferForm.note} onChange={e => setTransfer({ note: e.target.value })} placeholder="Note (optional)" maxLength={1000} className="flex-1 px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500" />
+              <button onClick={handleTransfer} disabled={busy} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-md transition disabled:opacity-50">
+                {busy ? 'Transferring...' : 'Transfer'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* History */}
+      {(transfers.length > 0 || archived.length > 0 || statusChanges.length > 0) && (
+        <div className="space-y-1">
+          <p className={labelCls}>History</p>
+          {statusChanges.map(c => (
+            <p key={c.id} className="text-xs text-gray-600 dark:text-gray-400">
+              {new Date(`${c.effective_date}T00:00:00`).toLocaleDateString()} — {ROSTER_STATUS_LABELS[c.from_status]} → {ROSTER_STATUS_LABELS[c.status]}
+              <span className="text-gray-400 dark:text-gray-500"> by {c.changed_by}</span>
+              {c.reason && <span className="italic"> — {c.reason}</span>}
+            </p>
+          ))}
+          {transfers.map(t => (
+            <p key={t.id} className="text-xs text-gray-600 dark:text-gray-400">
+              {new Date(t.transferred_at).toLocaleDateString()} — {t.from_wing_name} → {t.to_wing_name}
+              <span className="text-gray-400 dark:text-gray-500"> ({TRANSFER_MODE_LABELS[t.mode].label.toLowerCase()}: {t.carried_count} carried, {t.archived_count} archived, {t.created_count} new) by {t.transferred_by}</span>
+              {t.note && <span className="italic"> — {t.note}</span>}
+            </p>
+          ))}
+          {archived.length > 0 && (
+            <button onClick={() => setShowArchived(!showArchived)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+              {showArchived ? 'Hide' : 'Show'} {archived.length} archived qualification{archived.length === 1 ? '' : 's'}
+            </button>
+          )}
+          {showArchived && (
+            <ul className="ml-4 list-disc text-xs text-gray-600 dark:text-gray-400">
+              {archived.map(a => <li key={a.id}>{a.wing_name} / {a.skill_name}: <strong>{a.status}</strong> <span className="text-gray-400 dark:text-gray-500">(archived {new Date(a.archived_at).toLocaleDateString()})</span></li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition">Close</button>
+      </div>
+    </div>
+  )
+}
+
+// ── Outbound webhooks ────────────────────────────────────────
+
+const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'pilot.created':         'Pilot created',
+  'qualification.changed': 'Qualification changed',
+  'skill.created':         'Skill added',
+  'wing.renamed':          'Wing renamed',
+}
+
+const deliveryStatusColors: Record<WebhookDeliveryStatus, string> = {
+  pending:   'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  delivered: 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  failed:    'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+}
+
+const DELIVERY_PAGE_SIZE = 25
+
+const emptySubscription = (): WebhookSubscriptionInput => ({ name: '', url: '', events: [], wing_id: null, enabled: true })
+
+const WebhooksTab: React.FC<{
+  wings: Wing[]
+  showSuccess: (msg: string) => void
+  setError: (msg: string | null) => void
+}> = ({ wings, showSuccess, setError }) => {
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([])
+  const [maxAttempts, setMaxAttempts] = useState<number | null>(null)
+  // null when closed; editingId null while creating
+  const [form, setForm] = useState<WebhookSubscriptionInput | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
+  // Secrets are only returned once, so keep the latest one on screen until dismissed
+  const [revealed, setRevealed] = useState<{ name: string; secret: string } | null>(null)
+
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [total, setTotal] = useState(0)
+  const [filterSubscription, setFilterSubscription] = useState('')
+  const [filterStatus, setFilterStatus] = useState<WebhookDeliveryStatus | ''>('')
+  const [offset, setOffset] = useState(0)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [loadingLog, setLoadingLog] = useState(false)
+
+  const loadSubscriptions = async () => {
+    try {
+      setSubscriptions(await api.webhooks.getAll())
+    } catch (err: any) { setError(err.message || 'Failed to load webhooks') }
+  }
+
+  const loadDeliveries = async () => {
+    setLoadingLog(true)
+    try {
+      const page = await api.webhooks.getDeliveries({
+        subscriptionId: filterSubscription || undefined,
+        status: filterStatus || undefined,
+        limit: DELIVERY_PAGE_SIZE,
+        offset,
+      })
+      setDeliveries(page.deliveries)
+      setTotal(page.total)
+    } catch (err: any) { setError(err.message || 'Failed to load the delivery log') }
+    finally { setLoadingLog(false) }
+  }
+
+  useEffect(() => {
+    loadSubscriptions()
+    api.webhooks.getEvents().then(r => setMaxAttempts(r.max_attempts)).catch(() => {})
+  }, [])
+
+  useEffect(() => { loadDeliveries() }, [filterSubscription, filterStatus, offset])
+
+  const refresh = () => Promise.all([loadSubscriptions(), loadDeliveries()])
+
+  const openForm = (subscription?: WebhookSubscription) => {
+    setError(null)
+    if (subscription) {
+      setEditingId(subscription.id)
+      setForm({ name: subscription.name, url: subscription.url, events: subscription.events, wing_id: subscription.wing_id, enabled: subscription.enabled })
+    } else {
+      setEditingId(null)
+      setForm(emptySubscription())
+    }
+  }
+
+  const toggleEvent = (event: WebhookEvent) => {
+    if (!form) return
+    setForm({ ...form, events: form.events.includes(event) ? form.events.filter(e => e !== event) : [...form.events, event] })
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    if (!form.name.trim() || !form.url.trim()) { setError('Name and URL are required'); return }
+    if (form.events.length === 0) { setError('Pick at least one event'); return }
+    setSaving(true); setError(null)
+    try {
+      const data = { ...form, name: form.name.trim(), url: form.url.trim() }
+      if (editingId) {
+        await api.webhooks.update(editingId, data)
+        showSuccess('Webhook updated')
+      } else {
+        const created = await api.webhooks.create(data)
+        setRevealed({ name: created.name, secret: created.secret! })
+        showSuccess('Webhook created')
+      }
+      setForm(null); setEditingId(null)
+      await loadSubscriptions()
+    } catch (err: any) { setError(err.message || 'Failed to save webhook') }
+    finally { setSaving(false) }
+  }
+
+  const handleDelete = async (subscription: WebhookSubscription) => {
+    setError(null)
+    try {
+      await api.webhooks.delete(subscription.id)
+      setDeleteConfirmId(null)
+      if (filterSubscription === subscription.id) setFilterSubscription('')
+      await refresh(); showSuccess('Webhook deleted')
+    } catch (err: any) { setError(err.message || 'Failed to delete webhook') }
+  }
+
+  const handleRotate = async (subscription: WebhookSubscription) => {
+    if (!confirm(`Issue a new signing secret for ${subscription.name}? The current secret stops working immediately.`)) return
+    setError(null)
+    try {
+      const { secret } = await api.webhooks.rotateSecret(subscription.id)
+      setRevealed({ name: subscription.name, secret })
+    } catch (err: any) { setError(err.message || 'Failed to rotate secret') }
+  }
+
+  const handleTest = async (subscription: WebhookSubscription) => {
+    setError(null)
+    try {
+      await api.webhooks.test(subscription.id)
+      showSuccess(`Ping queued for ${subscription.name}; check the delivery log`)
+      await refresh()
+    } catch (err: any) { setError(err.message || 'Failed to queue a test delivery') }
+  }
+
+  const handleRetry = async (delivery: WebhookDelivery) => {
+    setError(null)
+    try {
+      await api.webhooks.retryDelivery(delivery.id)
+      showSuccess('Delivery queued for another attempt')
+      await refresh()
+    } catch (err: any) { setError(err.message || 'Failed to retry delivery') }
+  }
+
+  const lastShown = Math.min(offset + DELIVERY_PAGE_SIZE, total)
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-400 dark:text-gray-500">
+            Signed JSON POSTs to other tools. Failed deliveries are retried with backoff{maxAttempts ? `, up to ${maxAttempts} attempts` : ''}.
+          </p>
+          <button onClick={() => openForm()} className="flex items-center gap-1.5 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition">
+            <Plus className="w-4 h-4" /> Add Webhook
+          </button>
+        </div>
+
+        {revealed && (
+          <div className="p-4 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-lg space-y-2">
+            <p className="text-sm text-amber-800 dark:text-amber-200">
+              Signing secret for <strong>{revealed.name}</strong>. Copy it now; it will not be shown again.
+            </p>
+            <code className="block px-3 py-2 text-xs bg-white dark:bg-gray-900 border border-amber-200 dark:border-amber-800 rounded break-all select-all text-gray-900 dark:text-white">{revealed.secret}</code>
+            <p className="text-xs text-amber-700 dark:text-amber-300">
+              Receivers verify <code>X-Webhook-Signature</code> as <code>sha256=</code> HMAC-SHA256 of <code>{'{X-Webhook-Timestamp}.{raw body}'}</code> with this secret.
+            </p>
+            <button onClick={() => setRevealed(null)} className="text-xs text-amber-700 dark:text-amber-300 hover:underline">Dismiss</button>
+          </div>
+        )}
+
+        {form && (
+          <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className={labelCls}>Name</label>
+                <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="e.g. Mission planner" className={inputCls} autoFocus />
+              </div>
+              <div>
+                <label className={labelCls}>Wing</label>
+                <select value={form.wing_id || ''} onChange={e => setForm({ ...form, wing_id: e.target.value || null })} className={inputCls}>
+                  <option value="">All wings</option>
+                  {wings.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label className={labelCls}>Payload URL</label>
+                <input value={form.url} onChange={e => setForm({ ...form, url: e.target.value })} placeholder="https://example.com/hooks/squadron" className={inputCls} />
+              </div>
+            </div>
+            <div>
+              <label className={labelCls}>Events</label>
+              <div className="flex flex-wrap gap-4">
+                {(Object.keys(WEBHOOK_EVENT_LABELS) as WebhookEvent[]).map(event => (
+                  <label key={event} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                    <input type="checkbox" checked={form.events.includes(event)} onChange={() => toggleEvent(event)} />
+                    {WEBHOOK_EVENT_LABELS[event]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+              <input type="checkbox" checked={form.enabled} onChange={e => setForm({ ...form, enabled: e.target.checked })} />
+              Enabled
+            </label>
+            <div className="flex items-center gap-2">
+              <button onClick={handleSave} disabled={saving} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition disabled:opacity-50">
+                {saving ? 'Saving...' : editingId ? 'Save' : 'Create'}
+              </button>
+              <button onClick={() => { setForm(null); setEditingId(null) }} className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg overflow-hidden divide-y divide-gray-100 dark:divide-gray-800">
+          {subscriptions.length === 0 && (
+            <p className="px-4 py-6 text-sm text-gray-400 dark:text-gray-500 text-center">No webhooks yet.</p>
+          )}
+          {subscriptions.map(s => (
+            <div key={s.id} className="flex items-center gap-3 px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800/40 transition-colors group">
+              {deleteConfirmId === s.id ? (
+                <>
+                  <span className="flex-1 text-sm text-red-700 dark:text-red-300">Delete <strong>{s.name}</strong> and its delivery log?</span>
+                  <button onClick={() => handleDelete(s)} className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs font-medium rounded-md transition">Delete</button>
+                  <button onClick={() => setDeleteConfirmId(null)} className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition">Cancel</button>
+                </>
+              ) : (
+                <>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900 dark:text-white">{s.name}</span>
+                      {!s.enabled && <span className="px-1.5 py-0.5 text-xs rounded bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400">Disabled</span>}
+                      {s.pending_count > 0 && <span className={`px-1.5 py-0.5 text-xs rounded ${deliveryStatusColors.pending}`}>{s.pending_count} pending</span>}
+                      {s.failed_count > 0 && <span className={`px-1.5 py-0.5 text-xs rounded ${deliveryStatusColors.failed}`}>{s.failed_count} failed</span>}
+                    </div>
+                    <p className="text-xs text-gray-400 dark:text-gray-500 truncate">
+                      {s.url} · {s.wing_name || 'All wings'} · {s.events.map(e => WEBHOOK_EVENT_LABELS[e]).join(', ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => handleTest(s)} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Send test ping"><Send className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => openForm(s)} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Edit"><Pencil className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => handleRotate(s)} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Rotate signing secret"><KeyRound className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => setDeleteConfirmId(s.id)} className="p-1.5 rounded hover:bg-red-50 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition" title="Delete"><Trash2 className="w-3.5 h-3.5" /></button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Delivery log */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mr-auto">Delivery log</h3>
+          <select value={filterSubscription} onChange={e => { setFilterSubscription(e.target.value); setOffset(0) }} className="px-2 py-1.5 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white">
+            <option value="">All webhooks</option>
+            {subscriptions.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          <select value={filterStatus} onChange={e => { setFilterStatus(e.target.value as WebhookDeliveryStatus | ''); setOffset(0) }} className="px-2 py-1.5 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white">
+            <option value="">Any status</option>
+            <option value="pending">Pending</option>
+            <option value="delivered">Delivered</option>
+            <option value="failed">Failed</option>
+          </select>
+          <button onClick={refresh} className="flex items-center gap-1 px-2 py-1.5 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition" title="Refresh">
+            <RefreshCw className={`w-3.5 h-3.5 ${loadingLog ? 'animate-spin' : ''}`} /> Refresh
+          </button>
+        </div>
+
+        <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-800">
+                <th className="px-4 py-2 font-medium">Queued</th>
+                <th className="px-4 py-2 font-medium">Webhook</th>
+                <th className="px-4 py-2 font-medium">Event</th>
+                <th className="px-4 py-2 font-medium">Status</th>
+                <th className="px-4 py-2 font-medium">Attempts</th>
+                <th className="px-4 py-2 font-medium">Last result</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+              {deliveries.length === 0 && (
+                <tr><td colSpan={7} className="px-4 py-6 text-center text-sm text-gray-400 dark:text-gray-500">No deliveries.</td></tr>
+              )}
+              {deliveries.map(d => (
+                <React.Fragment key={d.id}>
+                  <tr onClick={() => setExpandedId(expandedId === d.id ? null : d.id)} className="hover:bg-gray-50 dark:hover:bg-gray-800/40 cursor-pointer">
+                    <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{new Date(d.created_at).toLocaleString()}</td>
+                    <td className="px-4 py-2 text-gray-900 dark:text-white">{d.subscription_name}</td>
+                    <td className="px-4 py-2 font-mono text-xs text-gray-700 dark:text-gray-300">{d.event_type}</td>
+                    <td className="px-4 py-2">
+                      <span className={`px-1.5 py-0.5 text-xs rounded ${deliveryStatusColors[d.status]}`}>{d.status}</span>
+                    </td>
+                    <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">{d.attempts}</td>
+                    <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                      {d.last_error || (d.last_response_status ? `HTTP ${d.last_response_status}` : '—')}
+                      {d.status === 'pending' && d.attempts > 0 && (
+                        <span className="block text-gray-400 dark:text-gray-500">next try {new Date(d.next_attempt_at).toLocaleString()}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {d.status !== 'delivered' && (
+                        <button onClick={e => { e.stopPropagation(); handleRetry(d) }} className="px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:underline">Retry now</button>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedId === d.id && (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-3 bg-gray-50 dark:bg-gray-800/30">
+                        <pre className="text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-all">{JSON.stringify({ id: d.id, ...d.payload }, null, 2)}</pre>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {total > 0 && (
+          <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+            <span>{offset + 1}–{lastShown} of {total}</span>
+            <div className="flex gap-2">
+              <button onClick={() => setOffset(Math.max(offset - DELIVERY_PAGE_SIZE, 0))} disabled={offset === 0} className="px-2 py-1 border border-gray-200 dark:border-gray-700 rounded-md disabled:opacity-50">Newer</button>
+              <button onClick={() => setOffset(offset + DELIVERY_PAGE_SIZE)} disabled={lastShown >= total} className="px-2 py-1 border border-gray-200 dark:border-gray-700 rounded-md disabled:opacity-50">Older</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// ── Syllabus templates tab ───────────────────────────────────
+
+const emptyTemplate = (): SyllabusTemplateInput => ({ name: '', airframe: null, description: null, wing_id: null })
+
+const SyllabiTab: React.FC<{
+  wings: Wing[]
+  showSuccess: (msg: string) => void
+  setError: (msg: string | null) => void
+}> = ({ wings, showSuccess, setError }) => {
+  const { user } = useAuthStore()
+  const [templates, setTemplates] = useState<SyllabusTemplate[]>([])
+  // null when closed; editingId null while creating
+  const [form, setForm] = useState<SyllabusTemplateInput | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
+  const [applyId, setApplyId] = useState<string | null>(null)
+  const [applyWingId, setApplyWingId] = useState('')
+  const [applied, setApplied] = useState<{ template: string; wing: string; result: SyllabusApplyResult } | null>(null)
+  // An imported file whose name is already taken, waiting for the user to confirm replacing
+  const [pendingImport, setPendingImport] = useState<{ name: string; file: unknown } | null>(null)
+  const fileInput = React.useRef<HTMLInputElement>(null)
+  const canApply = can(user, 'categories:manage')
+
+  const load = async () => {
+    try {
+      setTemplates(await api.syllabi.getAll())
+    } catch (err: any) { setError(err.message || 'Failed to load syllabus templates') }
+  }
+
+  useEffect(() => { load() }, [])
+
+  const openForm = (template?: SyllabusTemplate) => {
+    setError(null)
+    if (template) {
+      setEditingId(template.id)
+      setForm({ name: template.name, airframe: template.airframe, description: template.description, wing_id: null })
+    } else {
+      setEditingId(null)
+      setForm({ ...emptyTemplate(), wing_id: wings[0]?.id ?? null })
+    }
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    if (!form.name.trim()) { setError('Template name is required'); return }
+    if (!editingId && !form.wing_id) { setError('Pick the wing to copy the skills from'); return }
+    setSaving(true); setError(null)
+    try {
+      const data = { ...form, name: form.name.trim(), airframe: form.airframe?.trim() || null, description: form.description?.trim() || null }
+      if (editingId) {
+        const saved = await api.syllabi.update(editingId, data)
+        showSuccess(form.wing_id ? `${saved.name} updated to version ${saved.version}` : 'Template updated')
+      } else {
+        await api.syllabi.create(data)
+        showSuccess('Template created')
+      }
+      setForm(null); setEditingId(null)
+      await load()
+    } catch (err: any) { setError(err.message || 'Failed to save template') }
+    finally { setSaving(false) }
+  }
+
+  const handleDelete = async (template: SyllabusTemplate) => {
+    setError(null)
+    try {
+      await api.syllabi.delete(template.id)
+      setDeleteConfirmId(null)
+      await load(); showSuccess('Template deleted')
+    } catch (err: any) { setError(err.message || 'Failed to delete template') }
+  }
+
+  const handleExport = async (template: SyllabusTemplate) => {
+    setError(null)
+    try {
+      const json = await api.syllabi.exportFile(template.id)
+      const blob = new Blob([json], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${template.name.replace(/[^A-Za-z0-9_-]+/g, '_')}_v${template.version}.json`
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (err: any) { setError(err.message || 'Export failed') }
+  }
+
+  const importFile = async (file: unknown, replace: boolean) => {
+    setError(null)
+    try {
+      const saved = await api.syllabi.importFile(file, replace)
+      setPendingImport(null)
+      await load(); showSuccess(`Imported ${saved.name} (version ${saved.version})`)
+    } catch (err: any) {
+      if (err instanceof ApiError && err.status === 409 && !replace) {
+        setPendingImport({ name: (file as { name?: string }).name ?? '', file })
+      } else {
+        setError(err.message || 'Import failed')
+      }
+    }
+  }
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(await file.text())
+    } catch {
+      setError(`${file.name} is not a JSON file`)
+      return
+    }
+    await importFile(parsed, false)
+  }
+
+  const handleApply = async (template: SyllabusTemplate) => {
+    const wing = wings.find(w => w.id === applyWingId)
+    if (!wing) { setError('Pick a wing to apply the template to'); return }
+    setError(null)
+    try {
+      const result = await api.syllabi.apply(template.id, wing.id)
+      setApplied({ template: template.name, wing: wing.name, result })
+      setApplyId(null); setApplyWingId('')
+    } catch (err: any) { setError(err.message || 'Failed to apply template') }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-gray-400 dark:text-gray-500">
+          Named sets of categories, colors and skills in order. Copy one from a wing, apply it to another, or share it as a file.
+        </p>
+        <div className="flex items-center gap-2 shrink-0">
+          <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleFileChosen} className="hidden" />
+          <button onClick={() => fileInput.current?.click()} className="flex items-center gap-1.5 px-3 py-2 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 text-sm font-medium rounded-md transition">
+            <Upload className="w-4 h-4" /> Import
+          </button>
+          <button onClick={() => openForm()} disabled={wings.length === 0} className="flex items-center gap-1.5 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition disabled:opacity-50">
+            <Plus className="w-4 h-4" /> New from Wing
+          </button>
+        </div>
+      </div>
+
+      {pendingImport && (
+        <div className="flex items-center gap-3 p-3 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-lg">
+          <span className="flex-1 text-sm text-amber-800 dark:text-amber-200">
+            A template named <strong>{pendingImport.name}</strong> already exists. Replace its content with this file as a new version?
+          </span>
+          <button onClick={() => importFile(pendingImport.file, true)} className="px-3 py-1.5 bg-amber-600 hover:bg-amber-700 text-white text-xs font-medium rounded-md transition">Replace</button>
+          <button onClick={() => setPendingImport(null)} className="text-xs text-amber-700 dark:text-amber-300 hover:underline">Cancel</button>
+        </div>
+      )}
+
+      {applied && (
+        <div className="p-3 bg-sky-50 dark:bg-sky-950 border border-sky-200 dark:border-sky-800 rounded-lg space-y-1">
+          <p className="text-sm text-sky-800 dark:text-sky-200">
+            Applied <strong>{applied.template}</strong> to <strong>{applied.wing}</strong>: {applied.result.skills_created} skill{applied.result.skills_created !== 1 ? 's' : ''} and {applied.result.categories_created} categor{applied.result.categories_created !== 1 ? 'ies' : 'y'} added, {applied.result.prerequisites_created} prerequisite{applied.result.prerequisites_created !== 1 ? 's' : ''} linked.
+          </p>
+          {applied.result.skills_skipped.length > 0 && (
+            <p className="text-xs text-sky-700 dark:text-sky-300">Already in the wing and left unchanged: {applied.result.skills_skipped.join(', ')}</p>
+          )}
+          <button onClick={() => setApplied(null)} className="text-xs text-sky-700 dark:text-sky-300 hover:underline">Dismiss</button>
+        </div>
+      )}
+
+      {form && (
+        <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className={labelCls}>Name</label>
+              <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="e.g. F/A-18C Hornet syllabus" className={inputCls} autoFocus />
+            </div>
+            <div>
+              <label className={labelCls}>Airframe</label>
+              <input value={form.airframe || ''} onChange={e => setForm({ ...form, airframe: e.target.value })} placeholder="e.g. F/A-18C" className={inputCls} />
+            </div>
+            <div className="md:col-span-2">
+              <label className={labelCls}>Description</label>
+              <input value={form.description || ''} onChange={e => setForm({ ...form, description: e.target.value })} className={inputCls} />
+            </div>
+            <div>
+              <label className={labelCls}>{editingId ? 'Replace skills with those of' : 'Copy skills from'}</label>
+              <select value={form.wing_id || ''} onChange={e => setForm({ ...form, wing_id: e.target.value || null })} className={inputCls}>
+                {editingId && <option value="">Keep the current skills</option>}
+                {wings.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={handleSave} disabled={saving} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition disabled:opacity-50">
+              {saving ? 'Saving...' : editingId ? 'Save' : 'Create'}
+            </button>
+            <button onClick={() => { setForm(null); setEditingId(null) }} className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg overflow-hidden divide-y divide-gray-100 dark:divide-gray-800">
+        {templates.length === 0 && (
+          <p className="px-4 py-6 text-sm text-gray-400 dark:text-gray-500 text-center">No syllabus templates yet.</p>
+        )}
+        {templates.map(t => (
+          <React.Fragment key={t.id}>
+            <div className="flex items-center gap-3 px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800/40 transition-colors group">
+              {deleteConfirmId === t.id ? (
+                <>
+                  <span className="flex-1 text-sm text-red-700 dark:text-red-300">Delete <strong>{t.name}</strong>? Wings it was applied to keep their skills.</span>
+                  <button onClick={() => handleDelete(t)} className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs font-medium rounded-md transition">Delete</button>
+                  <button onClick={() => setDeleteConfirmId(null)} className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition">Cancel</button>
+                </>
+              ) : (
+                <>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900 dark:text-white">{t.name}</span>
+                      {t.airframe && <span className="px-1.5 py-0.5 text-xs rounded bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">{t.airframe}</span>}
+                      <span className="text-xs text-gray-400 dark:text-gray-500">v{t.version}</span>
+                    </div>
+                    <p className="text-xs text-gray-400 dark:text-gray-500 truncate">
+                      {t.skill_count} skills in {t.category_count} categories
+                      {t.source_wing_name ? ` · from ${t.source_wing_name}` : ''} · {t.created_by}
+                      {t.description ? ` · ${t.description}` : ''}
+                    </p>
+                  </div>
+                  {canApply && (
+                    <button onClick={() => { setApplyId(applyId === t.id ? null : t.id); setApplyWingId('') }} className="px-2.5 py-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition">
+                      Apply to wing
+                    </button>
+                  )}
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => handleExport(t)} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Export as file"><Download className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => openForm(t)} className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition" title="Edit"><Pencil className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => setDeleteConfirmId(t.id)} className="p-1.5 rounded hover:bg-red-50 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition" title="Delete"><Trash2 className="w-3.5 h-3.5" /></button>
+                  </div>
+                </>
+              )}
+            </div>
+            {applyId === t.id && (
+              <div className="flex items-center gap-2 px-4 py-3 bg-gray-50 dark:bg-gray-800/30">
+                <select value={applyWingId} onChange={e => setApplyWingId(e.target.value)} className={`${inputCls} max-w-xs`}>
+                  <option value="">Select a wing...</option>
+                  {wings.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+                </select>
+                <button onClick={() => handleApply(t)} disabled={!applyWingId} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-md transition disabled:opacity-50">Apply</button>
+                <span className="text-xs text-gray-400 dark:text-gray-500">Adds the skills the wing does not have yet; existing skills are left as they are.</span>
+              </div>
+            )}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// ── Archive tab ──────────────────────────────────────────────
+
+const ArchiveTab: React.FC<{
+  onRestored: () => Promise<void>
+  showSuccess: (msg: string) => void
+  setError: (msg: string | null) => void
+}> = ({ onRestored, showSuccess, setError }) => {
+  const { user } = useAuthStore()
+  const [archive, setArchive] = useState<ArchiveListing | null>(null)
+  // Keyed by section and id, since a category has no id of its own
+  const [purgeConfirm, setPurgeConfirm] = useState<string | null>(null)
+
+  const load = async () => {
+    try {
+      setArchive(await api.archive.getAll())
+    } catch (err: any) { setError(err.message || 'Failed to load the archive') }
+  }
+
+  useEffect(() => { load() }, [])
+
+  const run = async (action: () => Promise<unknown>, success: string, failure: string, restored: boolean) => {
+    setError(null)
+    try {
+      await action()
+      setPurgeConfirm(null)
+      await load()
+      if (restored) await onRestored()
+      showSuccess(success)
+    } catch (err: any) { setError(err.message || failure) }
+  }
+
+  if (!archive) return <div className="text-center py-12 text-sm text-gray-400">Loading...</div>
+
+  const archivedBy = (at: string, by: string | null) => (
+    <span className="text-xs text-gray-400 dark:text-gray-500 whitespace-nowrap">
+      archived {new Date(at).toLocaleDateString()}{by ? ` by ${by}` : ''}
+    </span>
+  )
+
+  const actions = (key: string, label: string, warning: string, onRestore: () => void, onPurge: () => void) =>
+    purgeConfirm === key ? (
+      <div className="flex items-center gap-3 flex-1 justify-end">
+        <span className="text-sm text-red-700 dark:text-red-300">Permanently delete <strong>{label}</strong>? {warning}</span>
+        <button onClick={onPurge} className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs font-medium rounded-md transition">Delete</button>
+        <button onClick={() => setPurgeConfirm(null)} className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition">Cancel</button>
+      </div>
+    ) : (
+      <div className="flex items-center gap-1">
+        <button onClick={onRestore} className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition">
+          <RotateCcw className="w-3.5 h-3.5" />Restore
+        </button>
+        <button onClick={() => setPurgeConfirm(key)} className="p-1.5 rounded hover:bg-red-50 dark:hover:bg-red-900/30 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition" title="Delete permanently"><Trash2 className="w-3.5 h-3.5" /></button>
+      </div>
+    )
+
+  const section = (title: string, count: number, empty: string, rows: React.ReactNode) => (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{title} <span className="font-normal text-gray-400 dark:text-gray-500">({count})</span></h3>
+      <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg overflow-hidden divide-y divide-gray-100 dark:divide-gray-800">
+        {count === 0 && <p className="px-4 py-6 text-sm text-gray-400 dark:text-gray-500 text-center">{empty}</p>}
+        {rows}
+      </div>
+    </div>
+  )
+
+  const rowCls = 'flex items-center gap-3 px-4 py-3'
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Archived records are hidden everywhere else but keep their history. Restoring brings them back as they were; deleting them here is permanent.
+      </p>
+
+      {can(user, 'users:manage') && section('Users', archive.users.length, 'No archived users.', archive.users.map(u => {
+        const label = u.callsign || u.email
+        return (
+          <div key={u.id} className={rowCls}>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                {label}{u.first_name && <span className="font-normal text-gray-500 dark:text-gray-400"> — {u.first_name} {u.last_name}</span>}
+              </p>
+              <p className="text-xs text-gray-400 dark:text-gray-500 truncate">
+                {u.email}{u.wing_name && ` · ${u.wing_name}`} · {u.qualified_count} qualification{u.qualified_count !== 1 ? 's' : ''}
+              </p>
+            </div>
+            {purgeConfirm !== `user:${u.id}` && archivedBy(u.archived_at, u.archived_by)}
+            {actions(`user:${u.id}`, label, 'Their qualifications and history go with them.',
+              () => run(() => api.archive.restoreUser(u.id), `${label} restored`, 'Failed to restore user', true),
+              () => run(() => api.archive.purgeUser(u.id), `${label} deleted`, 'Failed to delete user', false))}
+          </div>
+        )
+      }))}
+
+      {can(user, 'wings:manage') && section('Wings', archive.wings.length, 'No archived wings.', archive.wings.map(w => (
+        <div key={w.id} className={rowCls}>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{w.name}</p>
+            <p className="text-xs text-gray-400 dark:text-gray-500">
+              {w.skill_count} skill{w.skill_count !== 1 ? 's' : ''}{w.archived_pilot_count > 0 && ` · ${w.archived_pilot_count} archived pilot${w.archived_pilot_count !== 1 ? 's' : ''}`}
+            </p>
+          </div>
+          {purgeConfirm !== `wing:${w.id}` && archivedBy(w.archived_at, w.archived_by)}
+          {actions(`wing:${w.id}`, w.name, 'Its skills and categories go with it.',
+            () => run(() => api.archive.restoreWing(w.id), `${w.name} restored`, 'Failed to restore wing', true),
+            () => run(() => api.archive.purgeWing(w.id), `${w.name} deleted`, 'Failed to delete wing', false))}
+        </div>
+      )))}
+
+      {can(user, 'categories:manage') && section('Categories', archive.categories.length, 'No archived categories.', archive.categories.map(c => {
+        const key = `category:${c.wing_id}:${c.category}`
+        return (
+          <div key={key} className={rowCls}>
+            {c.color && <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: c.color }} />}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{c.category}</p>
+              <p className="text-xs text-gray-400 dark:text-gray-500">{c.wing_name} · {c.skill_count} skill{c.skill_count !== 1 ? 's' : ''}</p>
+            </div>
+            {purgeConfirm !== key && archivedBy(c.archived_at, c.archived_by)}
+            {actions(key, c.category, 'The skills archived with it and their qualification history go with it.',
+              () => run(() => api.archive.restoreCategory(c.wing_id, c.category), `${c.category} restored with its skills`, 'Failed to restore category', false),
+              () => run(() => api.archive.purgeCategory(c.wing_id, c.category), `${c.category} deleted`, 'Failed to delete category', false))}
+          </div>
+        )
+      }))}
+
+      {can(user, 'skills:manage') && section('Skills', archive.skills.length, 'No archived skills.', archive.skills.map(s => (
+        <div key={s.id} className={rowCls}>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{s.name}</p>
+            <p className="text-xs text-gray-400 dark:text-gray-500">
+              {s.wing_name} · {s.category} · {s.holder_count} archived qualification{s.holder_count !== 1 ? 's' : ''}
+            </p>
+          </div>
+          {purgeConfirm !== `skill:${s.id}` && archivedBy(s.archived_at, s.archived_by)}
+          {actions(`skill:${s.id}`, s.name, 'Its archived qualifications go with it.',
+            () => run(() => api.archive.restoreSkill(s.id), `${s.name} restored`, 'Failed to restore skill', false),
+            () => run(() => api.archive.purgeSkill(s.id), `${s.name} deleted`, 'Failed to delete skill', false))}
+        </div>
+      )))}
+    </div>
+  )
+}
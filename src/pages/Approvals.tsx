@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react'
+import { useAuthStore } from '@/store/authStore'
+import { api, ApiError } from '@/lib/api'
+import { can, seesAllWings } from '@/lib/permissions'
+import { Pilot, Skill, SignoffRequest, SignoffRequestStatus, Wing } from '@/types'
+import { Inbox, Check, X, Send, Undo2 } from 'lucide-react'
+
+const STATUS_TABS: { value: SignoffRequestStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'cancelled', label: 'Withdrawn' },
+]
+
+const inputCls = 'px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm'
+
+export const Approvals: React.FC = () => {
+  const { user } = useAuthStore()
+  const isReviewer = can(user, 'qualifications:approve')
+
+  const [wings, setWings] = useState<Wing[]>([])
+  const [wingId, setWingId] = useState('')
+  const [status, setStatus] = useState<SignoffRequestStatus>('pending')
+  const [requests, setRequests] = useState<SignoffRequest[]>([])
+  const [comments, setComments] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [successMsg, setSuccessMsg] = useState<string | null>(null)
+
+  useEffect(() => {
+    api.wings.getAll().then((w: Wing[]) => {
+      setWings(w)
+      // Roles across every wing start on all wings; everyone else on their own
+      if (!seesAllWings(user)) setWingId(user?.wing_id || '')
+    }).catch(console.error)
+  }, [user?.wing_scoped, user?.wing_id])
+
+  const loadRequests = async () => {
+    setLoading(true)
+    try {
+      setRequests(await api.signoffs.getAll({ status, wingId: wingId || undefined, mine: !isReviewer }))
+    } catch (err: any) {
+      setError(err.message || 'Failed to load sign-off requests')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadRequests()
+  }, [status, wingId, isReviewer])
+
+  const showSuccess = (msg: string) => {
+    setSuccessMsg(msg)
+    setTimeout(() => setSuccessMsg(null), 3000)
+  }
+
+  const review = async (request: SignoffRequest, action: 'approve' | 'reject' | 'cancel') => {
+    const comment = comments[request.id]?.trim() || ''
+    if (action === 'reject' && !comment) {
+      setError('Add a comment explaining why the sign-off is rejected')
+      return
+    }
+    setBusyId(request.id)
+    setError(null)
+    try {
+      if (action === 'approve') await api.signoffs.approve(request.id, comment || undefined)
+      else if (action === 'reject') await api.signoffs.reject(request.id, comment)
+      else await api.signoffs.cancel(request.id)
+      showSuccess(
+        action === 'approve'
+          ? `${request.callsign} signed off ${request.requested_status} on ${request.skill_name}`
+          : action === 'reject' ? 'Sign-off rejected' : 'Request withdrawn'
+      )
+      await loadRequests()
+    } catch (err: any) {
+      setError(err.message || 'Failed to update sign-off request')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6 pb-12">
+      <div className="flex items-end justify-between">
+        <div>
+          <p className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-1">Training</p>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Approvals</h1>
+        </div>
+        {seesAllWings(user) && (
+          <select value={wingId} onChange={(e) => setWingId(e.target.value)} className={inputCls}>
+            <option value="">All wings</option>
+            {wings.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+          </select>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded text-sm">
+          {error}
+        </div>
+      )}
+      {successMsg && (
+        <div className="p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded text-sm">
+          {successMsg}
+        </div>
+      )}
+
+      <RequestSignoffForm wingId={wingId || user?.wing_id || ''} onSubmitted={() => { showSuccess('Sign-off requested'); loadRequests() }} />
+
+      <div className="border-b border-gray-200 dark:border-gray-700">
+        <nav className="flex gap-0 -mb-px">
+          {STATUS_TABS.map(tab => (
+            <button
+              key={tab.value}
+              onClick={() => setStatus(tab.value)}
+              className={`px-5 py-3 text-sm font-medium border-b-2 transition-colors ${
+                status === tab.value
+                  ? 'border-blue-600 text-blue-600 dark:border-blue-400 dark:text-blue-400'
+                  : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : requests.length === 0 ? (
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-10 text-center">
+          <Inbox className="w-8 h-8 text-gray-300 dark:text-gray-700 mx-auto mb-2" />
+          <p className="text-sm text-gray-400 dark:text-gray-500">
+            {isReviewer ? 'No sign-off requests here' : 'You have no sign-off requests here'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 divide-y divide-gray-100 dark:divide-gray-800">
+          {requests.map(request => {
+            const own = request.requested_by_user_id === user?.id
+            const canReview = request.status === 'pending' && isReviewer && (!own || can(user, 'qualifications:skip_signoff'))
+            return (
+              <div key={request.id} className="px-5 py-4 space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-sm text-gray-900 dark:text-white">
+                      <span className="font-semibold">{request.callsign}</span> · {request.skill_name}:{' '}
+                      {request.current_status || 'NMQ'} → <span className="font-semibold">{request.requested_status}</span>
+                    </p>
+                    <p className="text-xs text-gray-400 dark:text-gray-500">
+                      {request.wing_name} · requested by {request.requested_by} on {new Date(request.created_at).toLocaleString()}
+                    </p>
+                    {request.note && <p className="text-xs text-gray-600 dark:text-gray-300 mt-1 italic">{request.note}</p>}
+                    {request.reviewed_by && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {request.status === 'cancelled' ? 'Withdrawn' : request.status === 'approved' ? 'Approved' : 'Rejected'} by {request.reviewed_by}
+                        {request.reviewed_at && ` on ${new Date(request.reviewed_at).toLocaleString()}`}
+                        {request.review_comment && `: ${request.review_comment}`}
+                      </p>
+                    )}
+                  </div>
+                  {request.status === 'pending' && own && (
+                    <button
+                      onClick={() => review(request, 'cancel')}
+                      disabled={busyId === request.id}
+                      className="flex items-center gap-1 shrink-0 px-2 py-1 text-xs text-gray-500 dark:text-gray-400 hover:underline disabled:opacity-50"
+                    >
+                      <Undo2 className="w-3.5 h-3.5" />
+                      Withdraw
+                    </button>
+                  )}
+                </div>
+
+                {canReview && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={comments[request.id] || ''}
+                      onChange={(e) => setComments({ ...comments, [request.id]: e.target.value })}
+                      placeholder="Comment (required to reject)"
+                      className={`${inputCls} flex-1`}
+                    />
+                    <button
+                      onClick={() => review(request, 'approve')}
+                      disabled={busyId === request.id}
+                      className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-medium rounded transition disabled:opacity-50"
+                    >
+                      <Check className="w-4 h-4" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => review(request, 'reject')}
+                      disabled={busyId === request.id}
+                      className="flex items-center gap-1 px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded transition disabled:opacity-50"
+                    >
+                      <X className="w-4 h-4" />
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Submit a new sign-off request. Instructors can request for anyone in their
+// wing; pilots only for skills they hold at IP (enforced by the server).
+const RequestSignoffForm: React.FC<{ wingId: string; onSubmitted: () => void }> = ({ wingId, onSubmitted }) => {
+  const { user } = useAuthStore()
+  const [pilots, setPilots] = useState<Pilot[]>([])
+  const [skills, setSkills] = useState<Skill[]>([])
+  const [pilotId, setPilotId] = useState('')
+  const [skillId, setSkillId] = useState('')
+  const [requestedStatus, setRequestedStatus] = useState<'FMQ' | 'IP'>('FMQ')
+  const [note, setNote] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [blocked, setBlocked] = useState(false)
+
+  useEffect(() => {
+    if (!wingId) return
+    Promise.all([api.pilots.getAll(), api.skills.getAll(wingId)])
+      .then(([pilotsData, skillsData]) => {
+        setPilots((pilotsData as Pilot[]).filter(p => p.wing_id === wingId && p.id !== user?.pilot_id))
+        setSkills(skillsData)
+      })
+      .catch(console.error)
+  }, [wingId, user?.pilot_id])
+
+  const submit = async (override = false) => {
+    setSaving(true)
+    setError(null)
+    setBlocked(false)
+    try {
+      await api.signoffs.create(pilotId, skillId, requestedStatus, note.trim() || undefined, override)
+      setNote('')
+      setSkillId('')
+      onSubmitted()
+    } catch (err: any) {
+      setError(err.message || 'Failed to request sign-off')
+      setBlocked(err instanceof ApiError && err.status === 409 && !!err.body?.missing_prerequisites)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!wingId) return null
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg p-5 border border-gray-200 dark:border-gray-800 space-y-3">
+      <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Request a sign-off</h2>
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={pilotId} onChange={(e) => setPilotId(e.target.value)} className={inputCls}>
+          <option value="">Select pilot...</option>
+          {pilots.map(p => <option key={p.id} value={p.id}>{p.callsign}</option>)}
+        </select>
+        <select value={skillId} onChange={(e) => setSkillId(e.target.value)} className={inputCls}>
+          <option value="">Select skill...</option>
+          {skills.map(s => <option key={s.id} value={s.id}>{s.category} · {s.name}</option>)}
+        </select>
+        <select value={requestedStatus} onChange={(e) => setRequestedStatus(e.target.value as 'FMQ' | 'IP')} className={inputCls}>
+          <option value="FMQ">FMQ</option>
+          <option value="IP">IP</option>
+        </select>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note for the reviewer"
+          className={`${inputCls} flex-1 min-w-[12rem]`}
+        />
+        <button
+          onClick={() => submit()}
+          disabled={saving || !pilotId || !skillId}
+          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded transition disabled:opacity-50"
+        >
+          <Send className="w-4 h-4" />
+          {saving ? 'Sending...' : 'Request'}
+        </button>
+      </div>
+      {error && (
+        <div className="flex items-center justify-between gap-4 text-sm text-red-600 dark:text-red-400">
+          <span>{error}</span>
+          {blocked && (
+            <button onClick={() => submit(true)} disabled={saving} className="shrink-0 font-medium hover:underline disabled:opacity-50">
+              Request anyway
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
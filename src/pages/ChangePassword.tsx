@@ -0,0 +1,127 @@
+import React, { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAuthStore } from '@/store/authStore'
+import { api } from '@/lib/api'
+
+const inputCls = 'w-full px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-1 focus:ring-gray-400 dark:focus:ring-gray-500 dark:bg-gray-800 dark:text-white text-gray-900'
+
+// `forced` is the full-screen variant shown while the account still has a
+// temporary password; nothing else in the app is reachable until it succeeds.
+export const ChangePassword: React.FC<{ forced?: boolean }> = ({ forced = false }) => {
+  const { user, setUser } = useAuthStore()
+  const navigate = useNavigate()
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSuccess(false)
+
+    if (newPassword.length < 8) {
+      setError('New password must be at least 8 characters')
+      return
+    }
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const data = await api.auth.changePassword(currentPassword, newPassword)
+      setCurrentPassword('')
+      setNewPassword('')
+      setConfirmPassword('')
+      if (user) setUser({ ...user, must_change_password: data.user.must_change_password })
+      if (forced) navigate('/dashboard')
+      else setSuccess(true)
+    } catch (err: any) {
+      setError(err.message || 'Failed to change password')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSignOut = () => {
+    api.auth.signOut()
+    setUser(null)
+    navigate('/login')
+  }
+
+  const form = (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 rounded">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded">
+          Password changed. Your other sessions have been signed out.
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">
+          {forced ? 'Temporary password' : 'Current password'}
+        </label>
+        <input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} className={inputCls} autoComplete="current-password" required />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">New password</label>
+        <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} placeholder="At least 8 characters" className={inputCls} autoComplete="new-password" required />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">Confirm new password</label>
+        <input type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} className={inputCls} autoComplete="new-password" required />
+      </div>
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="w-full bg-gray-900 dark:bg-white hover:bg-gray-800 dark:hover:bg-gray-100 text-white dark:text-gray-900 font-semibold py-2 rounded-lg transition disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Change Password'}
+      </button>
+    </form>
+  )
+
+  if (!forced) {
+    return (
+      <div className="space-y-6 max-w-md">
+        <div>
+          <p className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-1">Account</p>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Change Password</h1>
+        </div>
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-6">
+          {form}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-white dark:bg-gray-950">
+      <div className="w-full max-w-md">
+        <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-800 p-8">
+          <div className="text-center mb-8">
+            <p className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-1">Choose a new password</p>
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white">{user?.email}</h1>
+            <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+              Your account has a temporary password. Set your own password to continue.
+            </p>
+          </div>
+          {form}
+          <button onClick={handleSignOut} className="mt-4 w-full text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition">
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
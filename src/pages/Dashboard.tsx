@@ -2,8 +2,12 @@ import React, { useEffect, useState } from 'react'
 import { useAuthStore } from '@/store/authStore'
 import { useDataStore } from '@/store/dataStore'
 import { api } from '@/lib/api'
+import { flattenUnitTree, unitSubtree } from '@/lib/orgUnits'
+import { ROSTER_STATUSES, ROSTER_STATUS_LABELS, ROSTER_STATUS_STYLES, RosterFilter, matchesRosterFilter } from '@/lib/roster'
 import { StatCard } from '@/components/StatCard'
-import { Pilot, QuickStats } from '@/types'
+import { TrendChart } from '@/components/TrendChart'
+import { OrgTreeSelect, OrgSelection } from '@/components/OrgTreeSelect'
+import { OrgUnit, Pilot, QuickStats, ReadinessTrends, Wing } from '@/types'
 import { Users, TrendingUp, Target, Zap, Plane } from 'lucide-react'
 
 // Deterministic colour from a string — cycles through a palette
@@ -17,46 +21,118 @@ function avatarColor(str: string) {
   return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length]
 }
 
+// Lines for categories that have no colour of their own
+const TREND_COLORS = ['#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#06B6D4', '#84CC16']
+
+const TREND_RANGES = [30, 90, 180, 365]
+
 export const Dashboard: React.FC = () => {
   const { user } = useAuthStore()
   const { quickStats, setQuickStats, setLoading } = useDataStore()
   const [pilots, setPilots] = useState<Pilot[]>([])
   const [qualifications, setQualifications] = useState<any[]>([])
+  const [wings, setWings] = useState<Wing[]>([])
+  const [units, setUnits] = useState<OrgUnit[]>([])
+  const [selection, setSelection] = useState<OrgSelection>({ wingId: null, unitId: null })
+  const [rosterFilter, setRosterFilter] = useState<RosterFilter>('active')
+  // Reserve, LOA and retired pilots only count towards the stats when asked for
+  const [includeInactive, setIncludeInactive] = useState(false)
+  const [trendDays, setTrendDays] = useState(90)
+  const [trends, setTrends] = useState<ReadinessTrends | null>(null)
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [pilotsData, statsData, qualsData] = await Promise.all([
+        const [pilotsData, qualsData, wingsData, unitsData] = await Promise.all([
           api.pilots.getAll(),
-          api.qualifications.getStats(),
           api.qualifications.getAll(),
+          api.wings.getAll(),
+          api.units.getAll(),
         ])
 
         setPilots(pilotsData || [])
         setQualifications(qualsData || [])
+        setWings(wingsData || [])
+        setUnits(unitsData || [])
+        // With a single wing there is no "all wings" option to start from
+        if (wingsData?.length === 1) setSelection({ wingId: wingsData[0].id, unitId: null })
+      } catch (error) {
+        console.error('Error fetching dashboard data:', error)
+      }
+    }
+
+    fetchData()
+  }, [])
+
+  // Stats follow the selected wing or unit
+  useEffect(() => {
+    const fetchStats = async () => {
+      try {
+        const statsData = await api.qualifications.getStats({
+          wingId: selection.wingId || undefined,
+          unitId: selection.unitId || undefined,
+          includeInactive,
+        })
 
         const stats: QuickStats = {
           total_pilots: statsData.total_pilots,
+          inactive_pilots: statsData.inactive_pilots,
           combat_ready_pilots: statsData.combat_ready_pilots,
           overall_readiness_percentage: statsData.overall_readiness_percentage,
           average_completion_percentage: statsData.average_completion_percentage,
+          combat_ready_rule: statsData.combat_ready_rule,
+          units: statsData.units,
         }
 
         setQuickStats(stats)
       } catch (error) {
-        console.error('Error fetching dashboard data:', error)
+        console.error('Error fetching dashboard stats:', error)
       } finally {
         setLoading(false)
       }
     }
 
-    fetchData()
-  }, [setQuickStats, setLoading])
+    fetchStats()
+  }, [selection, includeInactive, setQuickStats, setLoading])
+
+  // Trends come from the daily snapshots, which are kept per wing rather than per unit
+  useEffect(() => {
+    const from = new Date(Date.now() - (trendDays - 1) * 86_400_000).toISOString().slice(0, 10)
+    api.analytics.getTrends({ wingId: selection.wingId || undefined, from })
+      .then(setTrends)
+      .catch(error => console.error('Error fetching readiness trends:', error))
+  }, [selection.wingId, trendDays])
+
+  // Pilots in the selected wing, or assigned to the selected unit or a unit
+  // beneath it, narrowed to the chosen roster status
+  const scopedPilots = React.useMemo(() => {
+    const onRoster = pilots.filter(p => matchesRosterFilter(p.roster_status, rosterFilter))
+    if (selection.unitId) {
+      const inUnit = unitSubtree(units, selection.unitId)
+      return onRoster.filter(p => p.unit_id !== null && inUnit.has(p.unit_id))
+    }
+    if (selection.wingId) return onRoster.filter(p => p.wing_id === selection.wingId)
+    return onRoster
+  }, [pilots, units, selection, rosterFilter])
+
+  const inactivePilots = quickStats?.inactive_pilots || 0
+
+  const scopedPilotIds = new Set(scopedPilots.map(p => p.id))
+  const scopedQualifications = qualifications.filter(q => scopedPilotIds.has(q.pilot_id))
+
+  // Rollups in tree order for the selected unit's subtree, or the whole wing when no unit is selected
+  const unitRows = React.useMemo(() => {
+    const byId = new Map((quickStats?.units || []).map(r => [r.id, r]))
+    const inUnit = selection.unitId ? unitSubtree(units, selection.unitId) : null
+    return flattenUnitTree(units.filter(u => byId.has(u.id)))
+      .filter(({ unit }) => !inUnit || inUnit.has(unit.id))
+      .map(({ unit, depth }) => ({ ...byId.get(unit.id)!, depth }))
+  }, [quickStats, units, selection])
 
-  const fmqCount = qualifications.filter(q => q.status === 'FMQ' || q.status === 'IP').length
-  const mqtCount = qualifications.filter(q => q.status === 'MQT').length
-  const nmqCount = qualifications.filter(q => q.status === 'NMQ').length
-  const qualTotal = qualifications.length
+  const fmqCount = scopedQualifications.filter(q => q.status === 'FMQ' || q.status === 'IP').length
+  const mqtCount = scopedQualifications.filter(q => q.status === 'MQT').length
+  const nmqCount = scopedQualifications.filter(q => q.status === 'NMQ').length
+  const qualTotal = scopedQualifications.length
 
   return (
     <div className="space-y-8 pb-12">
@@ -66,7 +142,26 @@ export const Dashboard: React.FC = () => {
           <p className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-1">Squadron</p>
           <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Dashboard</h1>
         </div>
-        <p className="text-sm text-gray-400 dark:text-gray-500">{user?.email}</p>
+        <div className="flex items-center gap-4">
+          {(wings.length > 1 || units.length > 0) && (
+            <OrgTreeSelect
+              wings={wings}
+              units={units}
+              value={selection}
+              onChange={setSelection}
+              allLabel={wings.length > 1 ? 'All wings' : undefined}
+            />
+          )}
+          <select
+            value={rosterFilter}
+            onChange={e => setRosterFilter(e.target.value as RosterFilter)}
+            className="px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            {ROSTER_STATUSES.map(s => <option key={s} value={s}>{ROSTER_STATUS_LABELS[s]}</option>)}
+            <option value="all">All statuses</option>
+          </select>
+          <p className="text-sm text-gray-400 dark:text-gray-500">{user?.email}</p>
+        </div>
       </div>
 
       {/* Key Metrics */}
@@ -76,12 +171,16 @@ export const Dashboard: React.FC = () => {
           value={quickStats?.total_pilots || 0}
           icon={<Users className="w-4 h-4" />}
           accent="border-blue-500"
+          subtitle={inactivePilots > 0
+            ? `${includeInactive ? 'Including' : 'Not counting'} ${inactivePilots} on reserve, LOA or retired`
+            : undefined}
         />
         <StatCard
           title="Combat Ready"
           value={quickStats?.combat_ready_pilots || 0}
           icon={<Zap className="w-4 h-4" />}
           accent="border-emerald-500"
+          subtitle={quickStats?.combat_ready_rule ? `Rule: ${quickStats.combat_ready_rule}` : quickStats ? 'Rules vary by wing' : undefined}
         />
         <StatCard
           title="Readiness"
@@ -97,13 +196,110 @@ export const Dashboard: React.FC = () => {
         />
       </div>
 
+      {inactivePilots > 0 && (
+        <label className="flex items-center gap-2 -mt-4 text-sm text-gray-600 dark:text-gray-400 cursor-pointer w-fit">
+          <input type="checkbox" checked={includeInactive} onChange={e => setIncludeInactive(e.target.checked)} />
+          Count reserve, LOA and retired pilots towards readiness
+        </label>
+      )}
+
+      {/* Readiness and completion over time */}
+      {trends && (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest">
+              Trends{selection.unitId && <span className="normal-case tracking-normal"> (whole wing)</span>}
+            </h2>
+            <select
+              value={trendDays}
+              onChange={e => setTrendDays(Number(e.target.value))}
+              className="px-2 py-1 text-xs border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            >
+              {TREND_RANGES.map(d => <option key={d} value={d}>Last {d} days</option>)}
+            </select>
+          </div>
+          {trends.points.length === 0 ? (
+            <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-10 text-center">
+              <TrendingUp className="w-8 h-8 text-gray-300 dark:text-gray-700 mx-auto mb-2" />
+              <p className="text-sm text-gray-400 dark:text-gray-500">No snapshots in this range yet. One is recorded every day.</p>
+            </div>
+          ) : (
+            <div className={`grid grid-cols-1 ${trends.categories.length > 0 ? 'lg:grid-cols-2' : ''} gap-6`}>
+              <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-4">
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Readiness and completion</p>
+                <TrendChart
+                  from={trends.from}
+                  to={trends.to}
+                  series={[
+                    { label: 'Combat ready', color: '#10B981', points: trends.points.map(p => ({ date: p.date, value: p.readiness_percentage })) },
+                    { label: 'Avg. completion', color: '#8B5CF6', points: trends.points.map(p => ({ date: p.date, value: p.completion_percentage })) },
+                  ]}
+                />
+              </div>
+              {trends.categories.length > 0 && (
+                <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-4">
+                  <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Completion by category</p>
+                  <TrendChart
+                    from={trends.from}
+                    to={trends.to}
+                    series={trends.categories.map((c, i) => ({
+                      label: c.category,
+                      color: c.color || TREND_COLORS[i % TREND_COLORS.length],
+                      points: c.points.map(p => ({ date: p.date, value: p.completion_percentage })),
+                    }))}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Readiness per squadron and flight, each rolled up over the units beneath it */}
+      {unitRows.length > 0 && (
+        <div>
+          <h2 className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-3">Units</h2>
+          <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-100 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">Unit</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">Pilots</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">Combat Ready</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">Readiness</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider hidden sm:table-cell">Avg. Completion</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                {unitRows.map(row => (
+                  <tr
+                    key={row.id}
+                    onClick={() => setSelection({ wingId: selection.wingId, unitId: row.id })}
+                    className="hover:bg-gray-50 dark:hover:bg-gray-800/40 transition-colors cursor-pointer"
+                  >
+                    <td className="px-4 py-3" style={{ paddingLeft: `${1 + row.depth * 1.25}rem` }}>
+                      <span className="font-medium text-gray-900 dark:text-white">{row.name}</span>
+                      <span className="text-xs text-gray-400 dark:text-gray-500 ml-1.5 capitalize">{row.kind}</span>
+                    </td>
+                    <td className="px-4 py-3 text-right tabular-nums text-gray-600 dark:text-gray-300">{row.total_pilots}</td>
+                    <td className="px-4 py-3 text-right tabular-nums text-emerald-600 dark:text-emerald-400">{row.combat_ready_pilots}</td>
+                    <td className="px-4 py-3 text-right tabular-nums text-gray-600 dark:text-gray-300">{row.overall_readiness_percentage.toFixed(1)}%</td>
+                    <td className="px-4 py-3 text-right tabular-nums text-gray-600 dark:text-gray-300 hidden sm:table-cell">{row.average_completion_percentage.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Two-column layout: pilots table + qual breakdown */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
 
         {/* Pilot table — takes 2/3 width */}
         <div className="lg:col-span-2">
           <h2 className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-3">Pilots</h2>
-          {pilots.length > 0 ? (
+          {scopedPilots.length > 0 ? (
             <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
               <table className="w-full text-sm">
                 <thead>
@@ -117,7 +313,7 @@ export const Dashboard: React.FC = () => {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
-                  {pilots.slice(0, 10).map((pilot) => {
+                  {scopedPilots.slice(0, 10).map((pilot) => {
                     const pilotQuals = qualifications.filter(q => q.pilot_id === pilot.id)
                     const fmq = pilotQuals.filter(q => q.status === 'FMQ' || q.status === 'IP').length
                     const mqt = pilotQuals.filter(q => q.status === 'MQT').length
@@ -137,10 +333,21 @@ export const Dashboard: React.FC = () => {
                               {pilot.board_number && (
                                 <span className="text-xs text-gray-400 dark:text-gray-500 ml-1.5">| {pilot.board_number}</span>
                               )}
+                              {pilot.roster_status !== 'active' && (
+                                <span
+                                  className={`ml-1.5 px-1.5 py-0.5 rounded text-[10px] font-medium ${ROSTER_STATUS_STYLES[pilot.roster_status]}`}
+                                  title={pilot.roster_status_reason || undefined}
+                                >
+                                  {ROSTER_STATUS_LABELS[pilot.roster_status]}
+                                </span>
+                              )}
                             </div>
                           </div>
                         </td>
-                        <td className="px-4 py-3 text-gray-400 dark:text-gray-500 text-xs hidden sm:table-cell">{pilot.wing_name}</td>
+                        <td className="px-4 py-3 text-gray-400 dark:text-gray-500 text-xs hidden sm:table-cell">
+                          {pilot.wing_name}
+                          {pilot.unit_name && <span className="text-gray-300 dark:text-gray-600"> / {pilot.unit_name}</span>}
+                        </td>
                         <td className="px-4 py-3 text-center">
                           <span className="text-sm font-semibold text-emerald-600 dark:text-emerald-400">{fmq}</span>
                         </td>
@@ -166,9 +373,9 @@ export const Dashboard: React.FC = () => {
                   })}
                 </tbody>
               </table>
-              {pilots.length > 10 && (
+              {scopedPilots.length > 10 && (
                 <div className="px-4 py-2.5 border-t border-gray-100 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/30">
-                  <p className="text-xs text-gray-400 dark:text-gray-500">Showing 10 of {pilots.length} pilots</p>
+                  <p className="text-xs text-gray-400 dark:text-gray-500">Showing 10 of {scopedPilots.length} pilots</p>
                 </div>
               )}
             </div>
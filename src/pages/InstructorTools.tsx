@@ -1,8 +1,9 @@
 import React, { useEffect, useState, useRef, useMemo } from 'react'
 import { useAuthStore } from '@/store/authStore'
 import { api } from '@/lib/api'
-import { Pilot, Skill, Wing, Qualification, QualificationStatus } from '@/types'
-import { Upload, Download, FileText, Users, Wrench, ChevronDown, ChevronUp, Plus, Trash2, Pencil, Check, X, Save, GripVertical } from 'lucide-react'
+import { INSTRUCTOR_TOOL_PERMISSIONS, can, canAny, seesAllWings } from '@/lib/permissions'
+import { EvaluationRequest, Pilot, RevisionMapping, RevisionPreview, Skill, SyllabusRevision, SkillPrerequisite, Wing, Qualification, QualificationStatus, ReadinessRule, ReadinessRuleType } from '@/types'
+import { Upload, Download, FileText, Users, Wrench, ChevronDown, ChevronUp, Plus, Trash2, Pencil, Check, X, Save, GripVertical, GitBranch, ShieldCheck, ClipboardCheck, Archive, History } from 'lucide-react'
 import {
   DndContext,
   closestCenter,
@@ -26,12 +27,12 @@ import { CSS } from '@dnd-kit/utilities'
 export const InstructorTools: React.FC = () => {
   const { user } = useAuthStore()
 
-  if (user?.role !== 'instructor' && user?.role !== 'admin') {
+  if (!canAny(user, INSTRUCTOR_TOOL_PERMISSIONS)) {
     return (
       <div className="text-center py-12">
         <p className="text-lg font-semibold text-gray-900 dark:text-white">Access Denied</p>
         <p className="text-gray-600 dark:text-gray-400">
-          Only instructors can access this page
+          Your role has no instructor permissions
         </p>
       </div>
     )
@@ -45,15 +46,23 @@ export const InstructorTools: React.FC = () => {
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <ImportCsvSection />
-        <ExportSection />
+        {can(user, 'qualifications:write') && <ImportCsvSection />}
+        {can(user, 'export:all') && <ExportSection />}
         <ReportSection />
-        <ManagePilotsSection />
+        {can(user, 'pilots:create') && <ManagePilotsSection />}
       </div>
 
-      <ManageSkillsSection />
+      {can(user, 'evaluations:respond') && <EvaluationQueueSection />}
 
-      <ManageCategoriesSection />
+      {can(user, 'skills:manage') && <ManageSkillsSection />}
+
+      {can(user, 'skills:manage') && <SyllabusVersionsSection />}
+
+      {can(user, 'categories:manage') && <ManageCategoriesSection />}
+
+      {can(user, 'readiness:manage') && <ReadinessRulesSection />}
+
+      <PrerequisitesSection />
     </div>
   )
 }
@@ -63,7 +72,7 @@ export const InstructorTools: React.FC = () => {
 const ImportCsvSection: React.FC = () => {
   const fileRef = useRef<HTMLInputElement>(null)
   const [importing, setImporting] = useState(false)
-  const [result, setResult] = useState<{ imported: number; skipped: number; errors: string[] } | null>(null)
+  const [result, setResult] = useState<{ imported: number; skipped: number; requested?: number; errors: string[]; warnings?: string[] } | null>(null)
   const [error, setError] = useState<string | null>(null)
 
   const parseCsv = (text: string): Array<{ callsign: string; skill_name: string; status: string }> => {
@@ -147,12 +156,18 @@ const ImportCsvSection: React.FC = () => {
         <div className="mt-4 p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded text-sm">
           <p className="text-green-700 dark:text-green-300 font-medium">
             Imported {result.imported} record{result.imported !== 1 ? 's' : ''}, skipped {result.skipped}
+            {!!result.requested && `, ${result.requested} sent for sign-off approval`}
           </p>
           {result.errors.length > 0 && (
             <ul className="mt-2 text-red-600 dark:text-red-400 text-xs space-y-0.5">
               {result.errors.map((e, i) => <li key={i}>{e}</li>)}
             </ul>
           )}
+          {result.warnings && result.warnings.length > 0 && (
+            <ul className="mt-2 text-amber-600 dark:text-amber-400 text-xs space-y-0.5">
+              {result.warnings.map((w, i) => <li key={i}>{w}</li>)}
+            </ul>
+          )}
         </div>
       )}
 
@@ -252,7 +267,7 @@ const ReportSection: React.FC = () => {
     setGenerating(true)
     try {
       const [stats, pilots, skills, quals] = await Promise.all([
-        api.qualifications.getStats(selectedWingId || undefined),
+        api.qualifications.getStats({ wingId: selectedWingId || undefined }),
         api.pilots.getAll(),
         api.skills.getAll(selectedWingId || undefined),
         api.qualifications.getAll(),
@@ -422,8 +437,8 @@ const ManagePilotsSection: React.FC = () => {
       return
     }
 
-    const isAdmin = user?.role === 'admin'
-    if (isAdmin && !form.wing_id) {
+    const allWings = seesAllWings(user)
+    if (allWings && !form.wing_id) {
       setError('Wing is required')
       return
     }
@@ -436,12 +451,14 @@ const ManagePilotsSection: React.FC = () => {
         first_name: form.first_name.trim(),
         last_name: form.last_name.trim(),
         email: form.email.trim(),
-        wing_id: isAdmin ? form.wing_id : undefined,
+        wing_id: allWings ? form.wing_id : undefined,
         board_number: form.board_number.trim() || undefined,
       })
       setPilots([...pilots, pilot])
       resetForm()
-      showSuccess(`Pilot "${pilot.callsign}" created — temporary password: ${pilot.temp_password}`)
+      showSuccess(pilot.invite_sent
+        ? `Pilot "${pilot.callsign}" created — an onboarding link was emailed to ${pilot.email}`
+        : `Pilot "${pilot.callsign}" created — the invite email failed, temporary password: ${pilot.temp_password}`)
     } catch (err: any) {
       setError(err.message || 'Failed to create pilot')
     } finally {
@@ -449,9 +466,9 @@ const ManagePilotsSection: React.FC = () => {
     }
   }
 
-  // Instructor sees only their wing's pilots
+  // Wing-scoped roles see only their wing's pilots
   const userWing = wings.find(w => w.id === user?.wing_id)
-  const filteredPilots = user?.role === 'admin'
+  const filteredPilots = seesAllWings(user)
     ? pilots
     : pilots.filter(p => p.wing_id === user?.wing_id)
 
@@ -541,7 +558,7 @@ const ManagePilotsSection: React.FC = () => {
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm"
                   />
                 </div>
-                {user?.role === 'admin' && (
+                {seesAllWings(user) && (
                   <div>
                     <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Wing *</label>
                     <select
@@ -573,7 +590,7 @@ const ManagePilotsSection: React.FC = () => {
                 </div>
               </div>
               <p className="mt-2 text-xs text-gray-400 dark:text-gray-500">
-                A temporary password will be shown after creation.
+                The pilot will be emailed a link to set their password.
               </p>
             </div>
           )}
@@ -602,7 +619,7 @@ const ManagePilotsSection: React.FC = () => {
                       <td className="p-2 text-gray-500 dark:text-gray-400 font-mono text-xs">{pilot.board_number || '—'}</td>
                       <td className="p-2 text-gray-700 dark:text-gray-300">{pilot.first_name} {pilot.last_name}</td>
                       <td className="p-2 text-gray-700 dark:text-gray-300">{pilot.wing_name}</td>
-                      <td className="p-2 text-gray-700 dark:text-gray-300 capitalize">{pilot.role}</td>
+                      <td className="p-2 text-gray-700 dark:text-gray-300 capitalize">{pilot.role || '—'}</td>
                       <td className="p-2 text-gray-500 dark:text-gray-400">{pilot.email}</td>
                     </tr>
                   ))}
@@ -624,13 +641,15 @@ const SortableSkillRow: React.FC<{
   editingId: string | null
   editName: string
   editCategory: string
+  editCurrencyDays: string
   setEditName: (v: string) => void
   setEditCategory: (v: string) => void
+  setEditCurrencyDays: (v: string) => void
   onStartEdit: (skill: Skill) => void
   onSaveEdit: (id: string) => void
   onCancelEdit: () => void
   onDelete: (id: string) => void
-}> = ({ skill, editingId, editName, editCategory, setEditName, setEditCategory, onStartEdit, onSaveEdit, onCancelEdit, onDelete }) => {
+}> = ({ skill, editingId, editName, editCategory, editCurrencyDays, setEditName, setEditCategory, setEditCurrencyDays, onStartEdit, onSaveEdit, onCancelEdit, onDelete }) => {
   const {
     attributes,
     listeners,
@@ -666,6 +685,15 @@ const SortableSkillRow: React.FC<{
             list="categories-list"
             className="w-48 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm"
           />
+          <input
+            type="number"
+            min={1}
+            value={editCurrencyDays}
+            onChange={(e) => setEditCurrencyDays(e.target.value)}
+            placeholder="Currency (days)"
+            title="Days a FMQ/IP stays current after last flown; leave empty to never lapse"
+            className="w-32 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm"
+          />
           <button
             onClick={() => onSaveEdit(skill.id)}
             className="p-1 text-green-600 hover:bg-green-100 dark:hover:bg-green-900 rounded"
@@ -691,6 +719,11 @@ const SortableSkillRow: React.FC<{
               <GripVertical className="w-4 h-4" />
             </button>
             <span className="text-sm text-gray-900 dark:text-white">{skill.name}</span>
+            {skill.currency_days && (
+              <span className="text-xs text-gray-400 dark:text-gray-500" title="Currency window">
+                {skill.currency_days}d
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition">
             <button
@@ -703,9 +736,9 @@ const SortableSkillRow: React.FC<{
             <button
               onClick={() => onDelete(skill.id)}
               className="p-1 text-red-500 hover:bg-red-100 dark:hover:bg-red-900 rounded"
-              title="Delete"
+              title="Archive"
             >
-              <Trash2 className="w-3.5 h-3.5" />
+              <Archive className="w-3.5 h-3.5" />
             </button>
           </div>
         </>
@@ -735,6 +768,7 @@ const ManageSkillsSection: React.FC = () => {
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editName, setEditName] = useState('')
   const [editCategory, setEditCategory] = useState('')
+  const [editCurrencyDays, setEditCurrencyDays] = useState('')
 
   // Drag active state
   const [activeId, setActiveId] = useState<string | null>(null)
@@ -754,12 +788,11 @@ const ManageSkillsSection: React.FC = () => {
   useEffect(() => {
     api.wings.getAll().then(w => {
       setWings(w)
-      // For instructors, auto-select their wing; for admins, try to restore from localStorage
+      // Wing-scoped roles get their own wing; others restore the last choice from localStorage
       let defaultWingId = ''
-      if (user?.role === 'instructor') {
+      if (user?.wing_scoped) {
         defaultWingId = user?.wing_id || ''
       } else {
-        // For admins, try to restore from localStorage first
         const savedWingId = localStorage.getItem('instructor_tools_selected_wing')
         if (savedWingId && w.some(wing => wing.id === savedWingId)) {
           defaultWingId = savedWingId
@@ -771,7 +804,7 @@ const ManageSkillsSection: React.FC = () => {
         setSelectedWingId(defaultWingId)
       }
     }).catch(console.error)
-  }, [user?.wing_id, user?.role])
+  }, [user?.wing_id, user?.wing_scoped])
 
   useEffect(() => {
     if (!selectedWingId) return
@@ -809,13 +842,15 @@ const ManageSkillsSection: React.FC = () => {
   }
 
   const handleDeleteSkill = async (skillId: string) => {
+    const skill = skills.find(s => s.id === skillId)
+    if (!confirm(`Archive "${skill?.name}"? Pilots' statuses on it move to the archive. To carry them onto other skills, use Syllabus Versions instead.`)) return
     setError(null)
     try {
       await api.wings.deleteSkill(selectedWingId, skillId)
       setSkills(skills.filter(s => s.id !== skillId))
-      showSuccess('Skill deleted')
+      showSuccess('Skill archived; qualifications kept in the archive')
     } catch (err: any) {
-      setError(err.message || 'Failed to delete skill')
+      setError(err.message || 'Failed to archive skill')
     }
   }
 
@@ -823,6 +858,7 @@ const ManageSkillsSection: React.FC = () => {
     setEditingId(skill.id)
     setEditName(skill.name)
     setEditCategory(skill.category)
+    setEditCurrencyDays(skill.currency_days ? String(skill.currency_days) : '')
   }
 
   const handleSaveEdit = async (skillId: string) => {
@@ -831,6 +867,7 @@ const ManageSkillsSection: React.FC = () => {
       const updated = await api.wings.updateSkill(selectedWingId, skillId, {
         name: editName.trim(),
         category: editCategory.trim(),
+        currency_days: editCurrencyDays ? parseInt(editCurrencyDays) : null,
       })
       setSkills(skills.map(s => s.id === skillId ? updated : s))
       setEditingId(null)
@@ -931,7 +968,7 @@ const ManageSkillsSection: React.FC = () => {
           )}
         </button>
         <div className="flex items-center gap-3">
-          {user?.role === 'admin' ? (
+          {seesAllWings(user) ? (
             <select
               value={selectedWingId}
               onChange={(e) => setSelectedWingId(e.target.value)}
@@ -1039,8 +1076,10 @@ const ManageSkillsSection: React.FC = () => {
                             editingId={editingId}
                             editName={editName}
                             editCategory={editCategory}
+                            editCurrencyDays={editCurrencyDays}
                             setEditName={setEditName}
                             setEditCategory={setEditCategory}
+                            setEditCurrencyDays={setEditCurrencyDays}
                             onStartEdit={startEdit}
                             onSaveEdit={handleSaveEdit}
                             onCancelEdit={() => setEditingId(null)}
@@ -1078,6 +1117,300 @@ const ManageSkillsSection: React.FC = () => {
   )
 }
 
+// ── Syllabus Versions ──────────────────────────────────────────────
+
+interface MappingRow {
+  from: string
+  to: string[]
+}
+
+const SyllabusVersionsSection: React.FC = () => {
+  const { user } = useAuthStore()
+  const [wings, setWings] = useState<Wing[]>([])
+  const [selectedWingId, setSelectedWingId] = useState<string>('')
+  const [skills, setSkills] = useState<Skill[]>([])
+  const [revisions, setRevisions] = useState<SyllabusRevision[]>([])
+  const [rows, setRows] = useState<MappingRow[]>([])
+  const [note, setNote] = useState('')
+  const [preview, setPreview] = useState<RevisionPreview | null>(null)
+  const [expanded, setExpanded] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [successMsg, setSuccessMsg] = useState<string | null>(null)
+
+  useEffect(() => {
+    api.wings.getAll().then((w: Wing[]) => {
+      setWings(w)
+      const defaultWingId = user?.wing_scoped ? user?.wing_id || '' : w[0]?.id || ''
+      if (defaultWingId && !selectedWingId) setSelectedWingId(defaultWingId)
+    }).catch(console.error)
+  }, [user?.wing_id, user?.wing_scoped])
+
+  const loadWing = async (wingId: string) => {
+    const [wingSkills, history] = await Promise.all([
+      api.skills.getAll(wingId),
+      api.wings.getSyllabusRevisions(wingId),
+    ])
+    setSkills(wingSkills)
+    setRevisions(history)
+  }
+
+  useEffect(() => {
+    if (!selectedWingId) return
+    setRows([])
+    setPreview(null)
+    loadWing(selectedWingId).catch(console.error)
+  }, [selectedWingId])
+
+  const skillName = (id: string) => skills.find(s => s.id === id)?.name || id
+  const retiring = new Set(rows.map(r => r.from).filter(Boolean))
+  const replacing = new Set(rows.flatMap(r => r.to))
+  const currentVersion = revisions[0]?.version ?? wings.find(w => w.id === selectedWingId)?.syllabus_version ?? 1
+
+  // Any change to the mapping makes the preview stale
+  const updateRows = (next: MappingRow[]) => {
+    setRows(next)
+    setPreview(null)
+  }
+
+  const mappings = (): RevisionMapping[] =>
+    rows.filter(r => r.from).map(r => ({ from_skill_id: r.from, to_skill_ids: r.to }))
+
+  const handlePreview = async () => {
+    if (mappings().length === 0) {
+      setError('Pick at least one skill to retire')
+      return
+    }
+    setBusy(true)
+    setError(null)
+    try {
+      setPreview(await api.wings.previewSyllabusRevision(selectedWingId, mappings()))
+    } catch (err: any) {
+      setError(err.message || 'Failed to preview the revision')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleApply = async () => {
+    if (!preview) return
+    if (!confirm(`Publish syllabus v${preview.to_version}? ${preview.skills.length} skill(s) will be archived.`)) return
+    setBusy(true)
+    setError(null)
+    try {
+      const revision = await api.wings.applySyllabusRevision(selectedWingId, mappings(), note.trim() || null)
+      setRows([])
+      setNote('')
+      setPreview(null)
+      await loadWing(selectedWingId)
+      setSuccessMsg(`Syllabus v${revision.version} published: ${revision.carried_count} status(es) carried over, ${revision.archived_count} archived`)
+      setTimeout(() => setSuccessMsg(null), 5000)
+    } catch (err: any) {
+      setError(err.message || 'Failed to apply the revision')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const inputCls = 'px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm'
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg p-6 border border-gray-200 dark:border-gray-800">
+      <div className="flex items-center justify-between">
+        <button onClick={() => setExpanded(!expanded)} className="flex items-center gap-3">
+          <History className="w-5 h-5 text-teal-600" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Syllabus Versions</h2>
+          <span className="text-sm text-gray-500 dark:text-gray-400">(v{currentVersion})</span>
+          {expanded ? <ChevronUp className="w-5 h-5 text-gray-400" /> : <ChevronDown className="w-5 h-5 text-gray-400" />}
+        </button>
+        {seesAllWings(user) && (
+          <select
+            value={selectedWingId}
+            onChange={(e) => setSelectedWingId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+          >
+            {wings.map(w => (
+              <option key={w.id} value={w.id}>{w.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Retire skills that were renamed, split or removed. Each retired skill maps to the skills that replace it;
+            pilots keep the lowest status they held across the skills a replacement covers.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded text-sm">
+              {error}
+            </div>
+          )}
+          {successMsg && (
+            <div className="p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded text-sm">
+              {successMsg}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {rows.map((row, i) => (
+              <div key={i} className="flex flex-wrap items-center gap-2 p-2 bg-gray-50 dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-700">
+                <select
+                  value={row.from}
+                  onChange={(e) => updateRows(rows.map((r, j) => (j === i ? { ...r, from: e.target.value } : r)))}
+                  className={inputCls}
+                >
+                  <option value="">Skill to retire...</option>
+                  {skills
+                    .filter(s => s.id === row.from || (!retiring.has(s.id) && !replacing.has(s.id)))
+                    .map(s => <option key={s.id} value={s.id}>{s.category} · {s.name}</option>)}
+                </select>
+                <span className="text-sm text-gray-500 dark:text-gray-400">→</span>
+                {row.to.length === 0 && <span className="text-sm italic text-gray-500 dark:text-gray-400">dropped</span>}
+                {row.to.map(id => (
+                  <span key={id} className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-teal-100 dark:bg-teal-900 text-teal-800 dark:text-teal-200">
+                    {skillName(id)}
+                    <button
+                      onClick={() => updateRows(rows.map((r, j) => (j === i ? { ...r, to: r.to.filter(t => t !== id) } : r)))}
+                      title="Remove replacement"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && updateRows(rows.map((r, j) => (j === i ? { ...r, to: [...r.to, e.target.value] } : r)))}
+                  className={inputCls}
+                >
+                  <option value="">+ Replacement...</option>
+                  {skills
+                    .filter(s => !retiring.has(s.id) && !row.to.includes(s.id))
+                    .map(s => <option key={s.id} value={s.id}>{s.category} · {s.name}</option>)}
+                </select>
+                <button
+                  onClick={() => updateRows(rows.filter((_, j) => j !== i))}
+                  className="ml-auto p-1 text-red-500 hover:bg-red-100 dark:hover:bg-red-900 rounded"
+                  title="Remove"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => updateRows([...rows, { from: '', to: [] }])}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-teal-700 dark:text-teal-300 hover:bg-teal-50 dark:hover:bg-teal-950 rounded transition"
+            >
+              <Plus className="w-4 h-4" />
+              Retire a skill
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What changed in this version (optional)"
+              className={`${inputCls} flex-1 min-w-[16rem]`}
+            />
+            <button
+              onClick={handlePreview}
+              disabled={busy || rows.every(r => !r.from)}
+              className="px-4 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm rounded hover:bg-gray-300 dark:hover:bg-gray-600 transition disabled:opacity-50"
+            >
+              Preview
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={busy || !preview}
+              className="px-4 py-1.5 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded transition disabled:opacity-50"
+            >
+              {busy ? 'Working...' : `Publish v${currentVersion + 1}`}
+            </button>
+          </div>
+
+          {preview && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                v{preview.from_version} → v{preview.to_version}: {preview.carried_count} status(es) carried over,{' '}
+                {preview.archived_count} qualification(s) archived
+                {preview.cancelled_signoffs > 0 && `, ${preview.cancelled_signoffs} pending sign-off(s) cancelled`}
+                {preview.cancelled_evaluations > 0 && `, ${preview.cancelled_evaluations} evaluation request(s) cancelled`}
+                {preview.readiness_rules_updated > 0 && `, ${preview.readiness_rules_updated} readiness rule(s) updated`}
+                {preview.prerequisites_archived > 0 && `, ${preview.prerequisites_archived} prerequisite link(s) archived`}
+              </p>
+              {preview.pilots.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No pilot holds any of the retired skills.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                        <th className="py-1 pr-4">Pilot</th>
+                        <th className="py-1 pr-4">Carried over</th>
+                        <th className="py-1">Archived</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.pilots.map(p => (
+                        <tr key={p.pilot_id} className="border-t border-gray-200 dark:border-gray-700 align-top">
+                          <td className="py-1 pr-4 font-semibold text-gray-900 dark:text-white">{p.callsign}</td>
+                          <td className="py-1 pr-4 text-gray-700 dark:text-gray-300">
+                            {p.carried.length === 0 ? '—' : p.carried.map(c => (
+                              <div key={c.skill_id}>
+                                {c.skill_name}: {c.from_status || 'none'} → <span className="font-semibold">{c.status}</span>
+                                <span className="text-xs text-gray-500 dark:text-gray-400"> (from {c.sources.join(', ')})</span>
+                              </div>
+                            ))}
+                          </td>
+                          <td className="py-1 text-gray-700 dark:text-gray-300">
+                            {p.archived.length === 0 ? '—' : p.archived.map(a => `${a.skill_name} (${a.status})`).join(', ')}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">History</h3>
+            {revisions.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No revisions yet; this wing is on its first syllabus version.</p>
+            ) : (
+              <div className="space-y-2">
+                {revisions.map(r => (
+                  <div key={r.id} className="text-sm text-gray-700 dark:text-gray-300">
+                    <p>
+                      <span className="font-semibold">v{r.version}</span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {' '}· {new Date(r.created_at).toLocaleDateString()} · {r.created_by} · {r.carried_count} carried, {r.archived_count} archived
+                      </span>
+                    </p>
+                    {r.note && <p className="text-xs italic">{r.note}</p>}
+                    <ul className="text-xs text-gray-500 dark:text-gray-400 list-disc ml-5">
+                      {r.mapping.map(m => (
+                        <li key={m.from_skill_id}>
+                          {m.from_skill_name} → {m.to.length === 0 ? 'dropped' : m.to.map(t => t.skill_name).join(', ')}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
 // ── Sortable Category Row ──────────────────────────────────────────────
 
 const SortableCategoryRow: React.FC<{
@@ -1176,9 +1509,9 @@ const SortableCategoryRow: React.FC<{
             <button
               onClick={() => onDelete(category.name)}
               className="p-1 text-red-500 hover:bg-red-100 dark:hover:bg-red-900 rounded"
-              title="Delete category"
+              title="Archive category"
             >
-              <Trash2 className="w-4 h-4" />
+              <Archive className="w-4 h-4" />
             </button>
           </div>
         </div>
@@ -1228,12 +1561,11 @@ const ManageCategoriesSection: React.FC = () => {
   useEffect(() => {
     api.wings.getAll().then(w => {
       setWings(w)
-      // For instructors, auto-select their wing; for admins, try to restore from localStorage
+      // Wing-scoped roles get their own wing; others restore the last choice from localStorage
       let defaultWingId = ''
-      if (user?.role === 'instructor') {
+      if (user?.wing_scoped) {
         defaultWingId = user?.wing_id || ''
       } else {
-        // For admins, try to restore from localStorage first
         const savedWingId = localStorage.getItem('instructor_tools_selected_wing')
         if (savedWingId && w.some(wing => wing.id === savedWingId)) {
           defaultWingId = savedWingId
@@ -1245,7 +1577,7 @@ const ManageCategoriesSection: React.FC = () => {
         setSelectedWingId(defaultWingId)
       }
     }).catch(console.error)
-  }, [user?.wing_id, user?.role])
+  }, [user?.wing_id, user?.wing_scoped])
 
   useEffect(() => {
     if (!selectedWingId) return
@@ -1311,13 +1643,14 @@ const ManageCategoriesSection: React.FC = () => {
   }
 
   const handleDeleteCategory = async (categoryName: string) => {
+    if (!confirm(`Archive "${categoryName}" and every skill in it? It can be restored with its skills from the Archive in the Admin Panel.`)) return
     setError(null)
     try {
       await api.wings.deleteCategory(selectedWingId, categoryName)
       setCategories(categories.filter(c => c.name !== categoryName))
-      showSuccess(`Category reset to default`)
+      showSuccess('Category archived with its skills')
     } catch (err: any) {
-      setError(err.message || 'Failed to delete category')
+      setError(err.message || 'Failed to archive category')
     }
   }
 
@@ -1367,7 +1700,7 @@ const ManageCategoriesSection: React.FC = () => {
           {expanded ? <ChevronUp className="w-5 h-5 text-gray-400" /> : <ChevronDown className="w-5 h-5 text-gray-400" />}
         </button>
         <div className="flex items-center gap-3">
-          {user?.role === 'admin' ? (
+          {seesAllWings(user) ? (
             <select
               value={selectedWingId}
               onChange={(e) => setSelectedWingId(e.target.value)}
@@ -1504,3 +1837,710 @@ const ManageCategoriesSection: React.FC = () => {
     </div>
   )
 }
+
+// ── Prerequisites graph ─────────────────────────────────────
+
+const MAX_ELIGIBLE_SHOWN = 6
+
+const PrerequisitesSection: React.FC = () => {
+  const { user } = useAuthStore()
+  const allWings = seesAllWings(user)
+  const canEditPrerequisites = can(user, 'skills:manage')
+  const [wings, setWings] = useState<Wing[]>([])
+  const [selectedWingId, setSelectedWingId] = useState<string>('')
+  const [skills, setSkills] = useState<Skill[]>([])
+  const [pilots, setPilots] = useState<Pilot[]>([])
+  const [quals, setQuals] = useState<Qualification[]>([])
+  const [edges, setEdges] = useState<SkillPrerequisite[]>([])
+  const [loading, setLoading] = useState(false)
+  const [expanded, setExpanded] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Add prerequisite form (admin only)
+  const [newSkillId, setNewSkillId] = useState('')
+  const [newPrerequisiteId, setNewPrerequisiteId] = useState('')
+
+  useEffect(() => {
+    api.wings.getAll().then((w: Wing[]) => {
+      setWings(w)
+      if (user?.wing_scoped) {
+        setSelectedWingId(user?.wing_id || '')
+      } else {
+        const savedWingId = localStorage.getItem('instructor_tools_selected_wing')
+        setSelectedWingId(savedWingId && w.some(wing => wing.id === savedWingId) ? savedWingId : w[0]?.id || '')
+      }
+    }).catch(console.error)
+  }, [user?.wing_id, user?.wing_scoped])
+
+  useEffect(() => {
+    if (!selectedWingId || !expanded) return
+    setLoading(true)
+    setError(null)
+    Promise.all([
+      api.skills.getAll(selectedWingId),
+      api.pilots.getAll(),
+      api.qualifications.getAll(),
+      api.wings.getPrerequisites(selectedWingId),
+    ])
+      .then(([skillsData, pilotsData, qualsData, edgesData]) => {
+        setSkills(skillsData)
+        setPilots(pilotsData.filter((p: Pilot) => p.wing_id === selectedWingId))
+        setQuals(qualsData)
+        setEdges(edgesData)
+      })
+      .catch(err => setError(err.message || 'Failed to load prerequisites'))
+      .finally(() => setLoading(false))
+  }, [selectedWingId, expanded])
+
+  const skillById = useMemo(() => new Map(skills.map(s => [s.id, s])), [skills])
+
+  const prerequisitesOf = useMemo(() => {
+    const map = new Map<string, string[]>()
+    for (const e of edges) {
+      map.set(e.skill_id, [...(map.get(e.skill_id) || []), e.prerequisite_id])
+    }
+    return map
+  }, [edges])
+
+  // Longest prerequisite chain below each skill; used to lay the graph out in columns
+  const depthOf = useMemo(() => {
+    const depths = new Map<string, number>()
+    const visit = (id: string, seen: Set<string>): number => {
+      if (depths.has(id)) return depths.get(id)!
+      if (seen.has(id)) return 0
+      seen.add(id)
+      const prereqs = prerequisitesOf.get(id) || []
+      const depth = prereqs.length === 0 ? 0 : 1 + Math.max(...prereqs.map(p => visit(p, seen)))
+      depths.set(id, depth)
+      return depth
+    }
+    for (const s of skills) visit(s.id, new Set())
+    return depths
+  }, [skills, prerequisitesOf])
+
+  // Only skills that take part in at least one edge are drawn
+  const graphColumns = useMemo(() => {
+    const involved = new Set(edges.flatMap(e => [e.skill_id, e.prerequisite_id]))
+    const columns: Skill[][] = []
+    for (const s of skills) {
+      if (!involved.has(s.id)) continue
+      const depth = depthOf.get(s.id) || 0
+      if (!columns[depth]) columns[depth] = []
+      columns[depth].push(s)
+    }
+    return columns.filter(Boolean).map(col => col.sort((a, b) => a.sort_order - b.sort_order))
+  }, [skills, edges, depthOf])
+
+  // Unqualified skills whose prerequisites the pilot already holds at FMQ/IP
+  const eligibility = useMemo(() => {
+    return pilots.map(pilot => {
+      const qualified = new Set(
+        quals
+          .filter(q => q.pilot_id === pilot.id && (q.status === 'FMQ' || q.status === 'IP'))
+          .map(q => q.skill_id)
+      )
+      const eligible = [...skills]
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .filter(s => !qualified.has(s.id) && (prerequisitesOf.get(s.id) || []).every(p => qualified.has(p)))
+      return { pilot, eligible }
+    })
+  }, [pilots, quals, skills, prerequisitesOf])
+
+  const handleAdd = async () => {
+    if (!newSkillId || !newPrerequisiteId) return
+    setError(null)
+    try {
+      await api.wings.addPrerequisite(selectedWingId, newSkillId, newPrerequisiteId)
+      setEdges([...edges, { skill_id: newSkillId, prerequisite_id: newPrerequisiteId }])
+      setNewPrerequisiteId('')
+    } catch (err: any) {
+      setError(err.message || 'Failed to add prerequisite')
+    }
+  }
+
+  const handleRemove = async (skillId: string, prerequisiteId: string) => {
+    setError(null)
+    try {
+      await api.wings.removePrerequisite(selectedWingId, skillId, prerequisiteId)
+      setEdges(edges.filter(e => !(e.skill_id === skillId && e.prerequisite_id === prerequisiteId)))
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove prerequisite')
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg p-6 border border-gray-200 dark:border-gray-800">
+      <div className="flex items-center justify-between">
+        <button onClick={() => setExpanded(!expanded)} className="flex items-center gap-3">
+          <GitBranch className="w-5 h-5 text-teal-600" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Prerequisites</h2>
+          {expanded && <span className="text-sm text-gray-500 dark:text-gray-400">({edges.length} links)</span>}
+          {expanded ? <ChevronUp className="w-5 h-5 text-gray-400" /> : <ChevronDown className="w-5 h-5 text-gray-400" />}
+        </button>
+        {allWings ? (
+          <select
+            value={selectedWingId}
+            onChange={(e) => setSelectedWingId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+          >
+            {wings.map(w => (
+              <option key={w.id} value={w.id}>{w.name}</option>
+            ))}
+          </select>
+        ) : (
+          <div className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white text-sm">
+            {wings.find(w => w.id === selectedWingId)?.name || 'Loading...'}
+          </div>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-4 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+          ) : (
+            <>
+              {canEditPrerequisites && (
+                <div className="flex items-end gap-3 p-4 bg-gray-50 dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-700">
+                  <div className="flex-1">
+                    <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Skill</label>
+                    <select
+                      value={newSkillId}
+                      onChange={(e) => setNewSkillId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm"
+                    >
+                      <option value="">Select skill...</option>
+                      {skills.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Requires</label>
+                    <select
+                      value={newPrerequisiteId}
+                      onChange={(e) => setNewPrerequisiteId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm"
+                    >
+                      <option value="">Select prerequisite...</option>
+                      {skills
+                        .filter(s => s.id !== newSkillId && !(prerequisitesOf.get(newSkillId) || []).includes(s.id))
+                        .map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                  </div>
+                  <button
+                    onClick={handleAdd}
+                    disabled={!newSkillId || !newPrerequisiteId}
+                    className="flex items-center gap-1 px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded transition disabled:opacity-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add
+                  </button>
+                </div>
+              )}
+
+              {/* Dependency graph, one column per prerequisite depth */}
+              {graphColumns.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No prerequisites defined for this wing.</p>
+              ) : (
+                <div className="flex gap-6 overflow-x-auto pb-2">
+                  {graphColumns.map((column, depth) => (
+                    <div key={depth} className="min-w-[14rem] space-y-2">
+                      <p className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">
+                        {depth === 0 ? 'Foundation' : `Step ${depth}`}
+                      </p>
+                      {column.map(skill => (
+                        <div key={skill.id} className="p-2 rounded border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800">
+                          <p className="text-sm font-medium text-gray-900 dark:text-white">{skill.name}</p>
+                          {(prerequisitesOf.get(skill.id) || []).length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1.5">
+                              {(prerequisitesOf.get(skill.id) || []).map(prereqId => (
+                                <span
+                                  key={prereqId}
+                                  className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs bg-teal-50 dark:bg-teal-950 text-teal-700 dark:text-teal-300"
+                                >
+                                  {skillById.get(prereqId)?.name || 'Unknown'}
+                                  {canEditPrerequisites && (
+                                    <button onClick={() => handleRemove(skill.id, prereqId)} title="Remove prerequisite">
+                                      <X className="w-3 h-3" />
+                                    </button>
+                                  )}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Next eligible skills per pilot */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Next eligible skills</h3>
+                {eligibility.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No pilots in this wing.</p>
+                ) : (
+                  <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {eligibility.map(({ pilot, eligible }) => (
+                      <div key={pilot.id} className="flex items-start gap-4 py-2">
+                        <span className="w-32 shrink-0 text-sm font-medium text-gray-900 dark:text-white">{pilot.callsign}</span>
+                        <div className="flex flex-wrap gap-1">
+                          {eligible.length === 0 ? (
+                            <span className="text-xs text-gray-400 dark:text-gray-500">Fully qualified</span>
+                          ) : (
+                            <>
+                              {eligible.slice(0, MAX_ELIGIBLE_SHOWN).map(s => (
+                                <span
+                                  key={s.id}
+                                  className={`px-1.5 py-0.5 rounded text-xs ${
+                                    prerequisitesOf.has(s.id)
+                                      ? 'bg-teal-100 dark:bg-teal-900/40 text-teal-700 dark:text-teal-300 font-medium'
+                                      : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'
+                                  }`}
+                                  title={prerequisitesOf.has(s.id) ? 'Prerequisites met' : undefined}
+                                >
+                                  {s.name}
+                                </span>
+                              ))}
+                              {eligible.length > MAX_ELIGIBLE_SHOWN && (
+                                <span className="px-1.5 py-0.5 text-xs text-gray-400 dark:text-gray-500">
+                                  +{eligible.length - MAX_ELIGIBLE_SHOWN} more
+                                </span>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ── Readiness rules ─────────────────────────────────────────
+
+const RULE_TYPE_LABELS: Record<ReadinessRuleType, string> = {
+  min_qualified: 'Minimum FMQ/IP skills',
+  category_complete: 'Complete category',
+  skills_required: 'Required skills',
+}
+
+const ReadinessRulesSection: React.FC = () => {
+  const { user } = useAuthStore()
+  const [wings, setWings] = useState<Wing[]>([])
+  const [selectedWingId, setSelectedWingId] = useState<string>('')
+  const [skills, setSkills] = useState<Skill[]>([])
+  const [rules, setRules] = useState<ReadinessRule[]>([])
+  const [isDefault, setIsDefault] = useState(true)
+  const [loading, setLoading] = useState(false)
+  const [expanded, setExpanded] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [successMsg, setSuccessMsg] = useState<string | null>(null)
+
+  useEffect(() => {
+    api.wings.getAll().then((w: Wing[]) => {
+      setWings(w)
+      if (user?.wing_scoped) {
+        setSelectedWingId(user?.wing_id || '')
+      } else {
+        const savedWingId = localStorage.getItem('instructor_tools_selected_wing')
+        setSelectedWingId(savedWingId && w.some(wing => wing.id === savedWingId) ? savedWingId : w[0]?.id || '')
+      }
+    }).catch(console.error)
+  }, [user?.wing_id, user?.wing_scoped])
+
+  useEffect(() => {
+    if (!selectedWingId || !expanded) return
+    setLoading(true)
+    setError(null)
+    Promise.all([api.skills.getAll(selectedWingId), api.wings.getReadinessRules(selectedWingId)])
+      .then(([skillsData, rulesData]) => {
+        setSkills(skillsData)
+        setRules(rulesData.rules)
+        setIsDefault(rulesData.is_default)
+      })
+      .catch(err => setError(err.message || 'Failed to load readiness rules'))
+      .finally(() => setLoading(false))
+  }, [selectedWingId, expanded])
+
+  const categories = [...new Set(skills.map(s => s.category))]
+  const skillName = (id: string) => skills.find(s => s.id === id)?.name || 'Unknown skill'
+
+  const updateRule = (index: number, patch: Partial<ReadinessRule>) => {
+    setRules(rules.map((r, i) => (i === index ? { ...r, ...patch } : r)))
+  }
+
+  const addRule = () => {
+    setRules([...rules, { rule_type: 'min_qualified', category: null, skill_ids: [], min_count: 3 }])
+  }
+
+  const save = async (next: ReadinessRule[]) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const saved = await api.wings.updateReadinessRules(selectedWingId, next)
+      setRules(saved.rules)
+      setIsDefault(saved.is_default)
+      setSuccessMsg(saved.is_default ? 'Restored default rule' : 'Readiness rules saved')
+      setTimeout(() => setSuccessMsg(null), 3000)
+    } catch (err: any) {
+      setError(err.message || 'Failed to save readiness rules')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputCls = 'px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm'
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg p-6 border border-gray-200 dark:border-gray-800">
+      <div className="flex items-center justify-between">
+        <button onClick={() => setExpanded(!expanded)} className="flex items-center gap-3">
+          <ShieldCheck className="w-5 h-5 text-emerald-600" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Combat-Ready Rules</h2>
+          {expanded && isDefault && <span className="text-sm text-gray-500 dark:text-gray-400">(default)</span>}
+          {expanded ? <ChevronUp className="w-5 h-5 text-gray-400" /> : <ChevronDown className="w-5 h-5 text-gray-400" />}
+        </button>
+        {seesAllWings(user) ? (
+          <select
+            value={selectedWingId}
+            onChange={(e) => setSelectedWingId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+          >
+            {wings.map(w => (
+              <option key={w.id} value={w.id}>{w.name}</option>
+            ))}
+          </select>
+        ) : (
+          <div className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white text-sm">
+            {wings.find(w => w.id === selectedWingId)?.name || 'Loading...'}
+          </div>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-4 space-y-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            A pilot is combat ready when every rule below is met. Expired qualifications do not count.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded text-sm">
+              {error}
+            </div>
+          )}
+
+          {successMsg && (
+            <div className="p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded text-sm">
+              {successMsg}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+          ) : (
+            <>
+              {rules.map((rule, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 p-3 bg-gray-50 dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-700">
+                  <select
+                    value={rule.rule_type}
+                    onChange={(e) => updateRule(index, { rule_type: e.target.value as ReadinessRuleType })}
+                    className={inputCls}
+                  >
+                    {(Object.keys(RULE_TYPE_LABELS) as ReadinessRuleType[]).map(type => (
+                      <option key={type} value={type}>{RULE_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+
+                  {rule.rule_type === 'min_qualified' && (
+                    <>
+                      <input
+                        type="number"
+                        min={0}
+                        value={rule.min_count}
+                        onChange={(e) => updateRule(index, { min_count: parseInt(e.target.value) || 0 })}
+                        className={`${inputCls} w-20`}
+                      />
+                      <span className="text-sm text-gray-500 dark:text-gray-400">skills in</span>
+                      <select
+                        value={rule.category || ''}
+                        onChange={(e) => updateRule(index, { category: e.target.value || null })}
+                        className={inputCls}
+                      >
+                        <option value="">any category</option>
+                        {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                    </>
+                  )}
+
+                  {rule.rule_type === 'category_complete' && (
+                    <select
+                      value={rule.category || ''}
+                      onChange={(e) => updateRule(index, { category: e.target.value || null })}
+                      className={inputCls}
+                    >
+                      <option value="">Select category...</option>
+                      {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  )}
+
+                  {rule.rule_type === 'skills_required' && (
+                    <>
+                      {rule.skill_ids.map(id => (
+                        <span key={id} className="inline-flex items-center gap-1 px-2 py-1 rounded text-xs bg-emerald-50 dark:bg-emerald-950 text-emerald-700 dark:text-emerald-300">
+                          {skillName(id)}
+                          <button onClick={() => updateRule(index, { skill_ids: rule.skill_ids.filter(s => s !== id) })}>
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                      <select
+                        value=""
+                        onChange={(e) => e.target.value && updateRule(index, { skill_ids: [...rule.skill_ids, e.target.value] })}
+                        className={inputCls}
+                      >
+                        <option value="">Add skill...</option>
+                        {skills.filter(s => !rule.skill_ids.includes(s.id)).map(s => (
+                          <option key={s.id} value={s.id}>{s.name}</option>
+                        ))}
+                      </select>
+                      <span className="text-sm text-gray-500 dark:text-gray-400">plus</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={rule.min_count}
+                        onChange={(e) => updateRule(index, { min_count: parseInt(e.target.value) || 0 })}
+                        className={`${inputCls} w-20`}
+                      />
+                      <span className="text-sm text-gray-500 dark:text-gray-400">others</span>
+                    </>
+                  )}
+
+                  <button
+                    onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                    className="ml-auto p-1 text-red-500 hover:bg-red-100 dark:hover:bg-red-900 rounded"
+                    title="Remove rule"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={addRule}
+                  className="flex items-center gap-1 px-3 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm rounded hover:bg-gray-300 dark:hover:bg-gray-600 transition"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Rule
+                </button>
+                <button
+                  onClick={() => save(rules)}
+                  disabled={saving || rules.length === 0}
+                  className="flex items-center gap-1 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-medium rounded transition disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" />
+                  {saving ? 'Saving...' : 'Save Rules'}
+                </button>
+                {!isDefault && (
+                  <button
+                    onClick={() => save([])}
+                    disabled={saving}
+                    className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400 hover:underline disabled:opacity-50"
+                  >
+                    Restore default
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ── Evaluation requests ─────────────────────────────────────
+const EvaluationQueueSection: React.FC = () => {
+  const { user } = useAuthStore()
+  const [wings, setWings] = useState<Wing[]>([])
+  const [selectedWingId, setSelectedWingId] = useState<string>('')
+  const [requests, setRequests] = useState<EvaluationRequest[]>([])
+  const [expanded, setExpanded] = useState(true)
+  const [loading, setLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [responses, setResponses] = useState<Record<string, string>>({})
+  const [schedules, setSchedules] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (seesAllWings(user)) {
+      api.wings.getAll().then(setWings).catch(console.error)
+    }
+  }, [user?.wing_scoped])
+
+  const loadRequests = async () => {
+    setLoading(true)
+    try {
+      setRequests(await api.evaluationRequests.getAll({ status: 'open', wingId: selectedWingId || undefined }))
+    } catch (err: any) {
+      setError(err.message || 'Failed to load evaluation requests')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadRequests()
+  }, [selectedWingId])
+
+  const respond = async (request: EvaluationRequest, status: 'accepted' | 'scheduled' | 'declined') => {
+    const response = responses[request.id]?.trim() || ''
+    const scheduledFor = schedules[request.id]
+    if (status === 'declined' && !response) {
+      setError('Add a response explaining why the request is declined')
+      return
+    }
+    if (status === 'scheduled' && !scheduledFor) {
+      setError('Pick a date and time to schedule the evaluation')
+      return
+    }
+    setBusyId(request.id)
+    setError(null)
+    try {
+      await api.evaluationRequests.respond(
+        request.id,
+        status,
+        response || undefined,
+        status === 'scheduled' ? new Date(scheduledFor).toISOString() : undefined
+      )
+      await loadRequests()
+    } catch (err: any) {
+      setError(err.message || 'Failed to update evaluation request')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const inputCls = 'px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm'
+  const statusLabel: Record<string, string> = { pending: 'New', accepted: 'Accepted', scheduled: 'Scheduled' }
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg p-6 border border-gray-200 dark:border-gray-800">
+      <div className="flex items-center justify-between">
+        <button onClick={() => setExpanded(!expanded)} className="flex items-center gap-3">
+          <ClipboardCheck className="w-5 h-5 text-blue-600" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Evaluation Requests</h2>
+          {requests.length > 0 && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300">
+              {requests.length}
+            </span>
+          )}
+          {expanded ? <ChevronUp className="w-5 h-5 text-gray-400" /> : <ChevronDown className="w-5 h-5 text-gray-400" />}
+        </button>
+        {seesAllWings(user) && (
+          <select
+            value={selectedWingId}
+            onChange={(e) => setSelectedWingId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+          >
+            <option value="">All wings</option>
+            {wings.map(w => (
+              <option key={w.id} value={w.id}>{w.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-4 space-y-3">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+          ) : requests.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No open evaluation requests.</p>
+          ) : (
+            requests.map(request => (
+              <div key={request.id} className="p-3 bg-gray-50 dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-700 space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-sm text-gray-900 dark:text-white">
+                      <span className="font-semibold">{request.callsign}</span> · {request.skill_name}
+                      <span className="text-gray-500 dark:text-gray-400"> ({request.current_status || 'NMQ'})</span>
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Requested {new Date(request.created_at).toLocaleString()}
+                      {request.scheduled_for && ` · scheduled for ${new Date(request.scheduled_for).toLocaleString()}`}
+                      {request.handled_by && ` · ${request.handled_by}`}
+                    </p>
+                    {request.message && <p className="text-xs text-gray-700 dark:text-gray-300 mt-1 italic">{request.message}</p>}
+                  </div>
+                  <span className="shrink-0 px-2 py-0.5 rounded text-xs bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300">
+                    {statusLabel[request.status]}
+                  </span>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={responses[request.id] || ''}
+                    onChange={(e) => setResponses({ ...responses, [request.id]: e.target.value })}
+                    placeholder="Response to the pilot"
+                    className={`${inputCls} flex-1 min-w-[12rem]`}
+                  />
+                  <input
+                    type="datetime-local"
+                    value={schedules[request.id] || ''}
+                    onChange={(e) => setSchedules({ ...schedules, [request.id]: e.target.value })}
+                    className={inputCls}
+                  />
+                  {request.status === 'pending' && (
+                    <button
+                      onClick={() => respond(request, 'accepted')}
+                      disabled={busyId === request.id}
+                      className="px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-sm rounded hover:bg-gray-300 dark:hover:bg-gray-600 transition disabled:opacity-50"
+                    >
+                      Accept
+                    </button>
+                  )}
+                  <button
+                    onClick={() => respond(request, 'scheduled')}
+                    disabled={busyId === request.id}
+                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded transition disabled:opacity-50"
+                  >
+                    Schedule
+                  </button>
+                  <button
+                    onClick={() => respond(request, 'declined')}
+                    disabled={busyId === request.id}
+                    className="px-3 py-1.5 text-red-600 dark:text-red-400 text-sm hover:bg-red-50 dark:hover:bg-red-950 rounded transition disabled:opacity-50"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,14 +1,47 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { useAuthStore } from '@/store/authStore'
 import { api } from '@/lib/api'
-import { useNavigate } from 'react-router-dom'
+import { discordErrorMessage } from '@/lib/discord'
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom'
 
 export const Login: React.FC = () => {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
   const navigate = useNavigate()
+  const location = useLocation()
+  const [searchParams] = useSearchParams()
+  // The Discord callback redirects back here with ?discord_error=<code> on failure
+  const [error, setError] = useState<string | null>(discordErrorMessage(searchParams.get('discord_error')))
+  const [forgotMode, setForgotMode] = useState(false)
+  const [discordEnabled, setDiscordEnabled] = useState(false)
+  // Set when arriving from the reset-password page
+  const [notice, setNotice] = useState<string | null>((location.state as { notice?: string } | null)?.notice || null)
+
+  useEffect(() => {
+    api.auth.discordConfig()
+      .then(({ enabled }) => setDiscordEnabled(enabled))
+      .catch(() => setDiscordEnabled(false))
+  }, [])
+
+  const handleForgot = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    if (!email.includes('@')) {
+      setError('Please enter a valid email')
+      return
+    }
+    setLoading(true)
+    try {
+      const data = await api.auth.forgotPassword(email)
+      setNotice(data.message)
+      setForgotMode(false)
+    } catch (err: any) {
+      setError(err.message || 'Failed to request a reset link')
+    } finally {
+      setLoading(false)
+    }
+  }
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -33,9 +66,14 @@ export const Login: React.FC = () => {
           id: data.user.id,
           email: data.user.email,
           role: data.user.role,
+          permissions: data.user.permissions,
+          wing_scoped: data.user.wing_scoped,
           pilot_id: data.user.pilot_id,
           wing_id: data.user.wing_id,
           wing_name: data.user.wing_name,
+          must_change_password: data.user.must_change_password,
+          discord_id: data.user.discord_id,
+          discord_username: data.user.discord_username,
         }
       })
       navigate('/dashboard')
@@ -60,7 +98,44 @@ export const Login: React.FC = () => {
               {error}
             </div>
           )}
+          {notice && !error && (
+            <div className="mb-4 p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded">
+              {notice}
+            </div>
+          )}
 
+          {forgotMode ? (
+            <form onSubmit={handleForgot} className="space-y-4">
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Enter your account email and we will send you a link to choose a new password.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">Email</label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="maverick@dcs.mil"
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-1 focus:ring-gray-400 dark:focus:ring-gray-500 dark:bg-gray-800 dark:text-white text-gray-900"
+                  required
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-gray-900 dark:bg-white hover:bg-gray-800 dark:hover:bg-gray-100 text-white dark:text-gray-900 font-semibold py-2 rounded-lg transition disabled:opacity-50"
+              >
+                {loading ? 'Sending...' : 'Send Reset Link'}
+              </button>
+              <button
+                type="button"
+                onClick={() => { setForgotMode(false); setError(null) }}
+                className="w-full text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition"
+              >
+                Back to sign in
+              </button>
+            </form>
+          ) : (
           <form onSubmit={handleLogin} className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">Email</label>
@@ -93,7 +168,30 @@ export const Login: React.FC = () => {
             >
               {loading ? 'Signing in...' : 'Sign In'}
             </button>
+            <button
+              type="button"
+              onClick={() => { setForgotMode(true); setError(null); setNotice(null) }}
+              className="w-full text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition"
+            >
+              Forgot password?
+            </button>
+            {discordEnabled && (
+              <>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 h-px bg-gray-200 dark:bg-gray-800" />
+                  <span className="text-xs text-gray-400 dark:text-gray-500 uppercase tracking-widest">or</span>
+                  <div className="flex-1 h-px bg-gray-200 dark:bg-gray-800" />
+                </div>
+                <a
+                  href={api.auth.discordAuthorizeUrl()}
+                  className="block w-full text-center bg-[#5865F2] hover:bg-[#4752C4] text-white font-semibold py-2 rounded-lg transition"
+                >
+                  Sign in with Discord
+                </a>
+              </>
+            )}
           </form>
+          )}
         </div>
       </div>
     </div>
@@ -2,7 +2,11 @@ import React, { useEffect, useState } from 'react'
 import { useSearchParams } from 'react-router-dom'
 import { useAuthStore } from '@/store/authStore'
 import { api } from '@/lib/api'
-import { Pilot, Qualification, Skill } from '@/types'
+import { can, seesAllWings } from '@/lib/permissions'
+import { EvaluationRequest, Pilot, Qualification, Skill } from '@/types'
+import { currencyLabel } from '@/lib/currency'
+import { ROSTER_STATUS_LABELS } from '@/lib/roster'
+import { discordErrorMessage } from '@/lib/discord'
 
 const statusStyle: Record<string, { badge: string; bar: string; label: string }> = {
   FMQ: { badge: 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300', bar: 'bg-emerald-500', label: 'FMQ' },
@@ -12,16 +16,46 @@ const statusStyle: Record<string, { badge: string; bar: string; label: string }>
 }
 const defaultStyle = { badge: 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400', bar: 'bg-gray-300', label: 'NMQ' }
 
+const evaluationStyle: Record<string, { badge: string; label: string }> = {
+  pending:   { badge: 'bg-blue-50 dark:bg-blue-950 text-blue-700 dark:text-blue-300',           label: 'Requested' },
+  accepted:  { badge: 'bg-sky-50 dark:bg-sky-950 text-sky-700 dark:text-sky-300',               label: 'Accepted' },
+  scheduled: { badge: 'bg-emerald-50 dark:bg-emerald-950 text-emerald-700 dark:text-emerald-300', label: 'Scheduled' },
+  declined:  { badge: 'bg-red-50 dark:bg-red-950 text-red-700 dark:text-red-300',               label: 'Declined' },
+  cancelled: { badge: 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400',          label: 'Withdrawn' },
+}
+const OPEN_EVALUATION = ['pending', 'accepted', 'scheduled']
+
+const currencyStyle: Record<string, string> = {
+  expired:  'text-red-500 dark:text-red-400',
+  expiring: 'text-amber-600 dark:text-amber-400',
+  current:  'text-gray-400 dark:text-gray-500',
+}
+
 export const PilotProfile: React.FC = () => {
   const [searchParams] = useSearchParams()
   const searchQuery = searchParams.get('search')
-  const { user } = useAuthStore()
+  const { user, setUser } = useAuthStore()
 
   const [pilot, setPilot] = useState<Pilot | null>(null)
   const [qualifications, setQualifications] = useState<Qualification[]>([])
   const [skills, setSkills] = useState<Skill[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [markingSkillId, setMarkingSkillId] = useState<string | null>(null)
+  const [evaluations, setEvaluations] = useState<EvaluationRequest[]>([])
+  // Skill whose "request evaluation" form is open, and its message
+  const [requestSkillId, setRequestSkillId] = useState<string | null>(null)
+  const [requestMessage, setRequestMessage] = useState('')
+  const [requesting, setRequesting] = useState(false)
+  const [evaluationError, setEvaluationError] = useState<string | null>(null)
+  // Outcome of a Discord link flow arrives as ?discord=linked or ?discord_error=<code>
+  const [discordEnabled, setDiscordEnabled] = useState(false)
+  const [discordBusy, setDiscordBusy] = useState(false)
+  const [discordError, setDiscordError] = useState<string | null>(discordErrorMessage(searchParams.get('discord_error')))
+  const discordLinked = searchParams.get('discord') === 'linked'
+  // A Discord link flow lands here without a search term; show the caller's own profile
+  const discordReturn = searchParams.has('discord') || searchParams.has('discord_error')
+  const canEdit = can(user, 'qualifications:write') && (seesAllWings(user) || pilot?.wing_id === user?.wing_id)
 
   useEffect(() => {
     const fetchPilotData = async () => {
@@ -34,13 +68,15 @@ export const PilotProfile: React.FC = () => {
         const foundPilot = await api.pilots.search(query)
         setPilot(foundPilot)
 
-        const [qualsData, skillsData] = await Promise.all([
+        const [qualsData, skillsData, evaluationsData] = await Promise.all([
           api.qualifications.getByPilot(foundPilot.id),
           api.skills.getAll(foundPilot.wing_id),
+          api.evaluationRequests.getAll({ status: 'all', pilotId: foundPilot.id }),
         ])
 
         setQualifications(qualsData)
         setSkills(skillsData)
+        setEvaluations(evaluationsData)
       } catch (err: any) {
         setError(err.message || 'Pilot not found')
         setPilot(null)
@@ -49,9 +85,80 @@ export const PilotProfile: React.FC = () => {
       }
     }
 
-    if (searchQuery) fetchPilotData()
+    if (searchQuery || discordReturn) fetchPilotData()
     else setLoading(false)
-  }, [searchQuery])
+  }, [searchQuery, discordReturn, user?.email])
+
+  useEffect(() => {
+    api.auth.discordConfig()
+      .then(({ enabled }) => setDiscordEnabled(enabled))
+      .catch(() => setDiscordEnabled(false))
+  }, [])
+
+  const handleLinkDiscord = async () => {
+    setDiscordBusy(true)
+    setDiscordError(null)
+    try {
+      const { ticket } = await api.auth.discordLinkTicket()
+      window.location.href = api.auth.discordAuthorizeUrl(ticket)
+    } catch (err: any) {
+      setDiscordError(err.message || 'Failed to start Discord linking')
+      setDiscordBusy(false)
+    }
+  }
+
+  const handleUnlinkDiscord = async () => {
+    setDiscordBusy(true)
+    setDiscordError(null)
+    try {
+      const data = await api.auth.unlinkDiscord()
+      setUser(data.user)
+    } catch (err: any) {
+      setDiscordError(err.message || 'Failed to unlink Discord')
+    } finally {
+      setDiscordBusy(false)
+    }
+  }
+
+  const handleMarkFlown = async (skillId: string) => {
+    if (!pilot) return
+    setMarkingSkillId(skillId)
+    try {
+      await api.qualifications.markPerformed(pilot.id, skillId)
+      setQualifications(await api.qualifications.getByPilot(pilot.id))
+    } catch (err: any) {
+      setError(err.message || 'Failed to record flight')
+    } finally {
+      setMarkingSkillId(null)
+    }
+  }
+
+  const handleRequestEvaluation = async (skillId: string) => {
+    if (!pilot) return
+    setRequesting(true)
+    setEvaluationError(null)
+    try {
+      await api.evaluationRequests.create(skillId, requestMessage.trim() || undefined)
+      setEvaluations(await api.evaluationRequests.getAll({ status: 'all', pilotId: pilot.id }))
+      setRequestSkillId(null)
+      setRequestMessage('')
+    } catch (err: any) {
+      setEvaluationError(err.message || 'Failed to request evaluation')
+    } finally {
+      setRequesting(false)
+    }
+  }
+
+  const handleWithdrawEvaluation = async (id: string) => {
+    if (!pilot) return
+    setEvaluationError(null)
+    try {
+      await api.evaluationRequests.cancel(id)
+      setEvaluations(await api.evaluationRequests.getAll({ status: 'all', pilotId: pilot.id }))
+    } catch (err: any) {
+      setEvaluationError(err.message || 'Failed to withdraw request')
+    }
+  }
 
   if (loading) return <div className="text-center py-12 text-sm text-gray-400">Loading profile...</div>
 
@@ -64,12 +171,23 @@ export const PilotProfile: React.FC = () => {
     )
   }
 
-  const fmqCount  = qualifications.filter(q => q.status === 'FMQ' || q.status === 'IP').length
+  // Lapsed qualifications no longer count towards readiness
+  const isCurrentQual = (q?: Qualification) => (q?.status === 'FMQ' || q?.status === 'IP') && q.currency_state !== 'expired'
+  const fmqCount  = qualifications.filter(q => isCurrentQual(q)).length
+  const expiredCount = qualifications.filter(q => q.currency_state === 'expired').length
   const mqtCount  = qualifications.filter(q => q.status === 'MQT').length
   const nmqCount  = qualifications.filter(q => q.status === 'NMQ').length
   const total     = qualifications.length
   const readiness = total > 0 ? (fmqCount / total) * 100 : 0
 
+  const isOwnProfile = pilot.id === user?.pilot_id
+  const openEvaluation = (skillId: string) =>
+    evaluations.find(e => e.skill_id === skillId && OPEN_EVALUATION.includes(e.status))
+  const evaluationLabel = (e: EvaluationRequest) =>
+    e.status === 'scheduled' && e.scheduled_for
+      ? `Evaluation ${new Date(e.scheduled_for).toLocaleString()}`
+      : `Evaluation ${evaluationStyle[e.status].label.toLowerCase()}`
+
   const skillsByCategory = skills.reduce((acc, skill) => {
     if (!acc[skill.category]) acc[skill.category] = []
     acc[skill.category].push(skill)
@@ -109,8 +227,36 @@ export const PilotProfile: React.FC = () => {
               <div className="flex flex-wrap gap-x-6 gap-y-2 mt-4">
                 <div>
                   <p className="text-xs text-gray-400 dark:text-gray-500 uppercase tracking-wider">Role</p>
-                  <p className="text-sm font-medium text-gray-900 dark:text-white mt-0.5 capitalize">{pilot.role}</p>
+                  <p className="text-sm font-medium text-gray-900 dark:text-white mt-0.5 capitalize">{pilot.role || 'No account'}</p>
                 </div>
+                <div>
+                  <p className="text-xs text-gray-400 dark:text-gray-500 uppercase tracking-wider">Roster</p>
+                  <p className="text-sm font-medium text-gray-900 dark:text-white mt-0.5" title={pilot.roster_status_reason || undefined}>
+                    {ROSTER_STATUS_LABELS[pilot.roster_status]}
+                    {pilot.roster_status_date && (
+                      <span className="font-normal text-gray-400 dark:text-gray-500"> since {new Date(`${pilot.roster_status_date}T00:00:00`).toLocaleDateString()}</span>
+                    )}
+                  </p>
+                </div>
+                {isOwnProfile && (user?.discord_id || discordEnabled) && (
+                  <div>
+                    <p className="text-xs text-gray-400 dark:text-gray-500 uppercase tracking-wider">Discord</p>
+                    <div className="flex items-center gap-2 mt-0.5">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        {user?.discord_id ? (user.discord_username || user.discord_id) : 'Not linked'}
+                      </p>
+                      {user?.discord_id ? (
+                        <button onClick={handleUnlinkDiscord} disabled={discordBusy} className="text-xs text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition disabled:opacity-50">
+                          Unlink
+                        </button>
+                      ) : (
+                        <button onClick={handleLinkDiscord} disabled={discordBusy} className="text-xs text-[#5865F2] hover:text-[#4752C4] font-medium transition disabled:opacity-50">
+                          Link account
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -125,11 +271,12 @@ export const PilotProfile: React.FC = () => {
           </div>
 
           {/* Qual stat row */}
-          <div className="grid grid-cols-3 gap-4 mt-6 pt-5 border-t border-gray-100 dark:border-gray-800">
+          <div className="grid grid-cols-4 gap-4 mt-6 pt-5 border-t border-gray-100 dark:border-gray-800">
             {[
               { label: 'FMQ / IP', value: fmqCount, color: 'text-emerald-600 dark:text-emerald-400' },
               { label: 'MQT',      value: mqtCount, color: 'text-amber-600 dark:text-amber-400' },
               { label: 'NMQ',      value: nmqCount, color: 'text-red-500 dark:text-red-400' },
+              { label: 'Expired',  value: expiredCount, color: 'text-gray-500 dark:text-gray-400' },
             ].map(stat => (
               <div key={stat.label} className="text-center">
                 <p className={`text-2xl font-semibold tabular-nums ${stat.color}`}>{stat.value}</p>
@@ -140,13 +287,68 @@ export const PilotProfile: React.FC = () => {
         </div>
       </div>
 
+      {isOwnProfile && discordError && (
+        <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          {discordError}
+        </div>
+      )}
+      {isOwnProfile && discordLinked && !discordError && user?.discord_id && (
+        <div className="p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded-lg text-sm">
+          Discord account linked. You can now sign in with Discord.
+        </div>
+      )}
+
+      {evaluationError && (
+        <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          {evaluationError}
+        </div>
+      )}
+
+      {/* Evaluation requests */}
+      {evaluations.length > 0 && (
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
+          <div className="px-5 py-3 border-b border-gray-100 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/40">
+            <h2 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-widest">Evaluation Requests</h2>
+          </div>
+          <div className="divide-y divide-gray-100 dark:divide-gray-800">
+            {evaluations.map(e => (
+              <div key={e.id} className="flex items-start justify-between gap-4 px-5 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">{e.skill_name}</p>
+                  <p className="text-xs text-gray-400 dark:text-gray-500">
+                    Requested {new Date(e.created_at).toLocaleDateString()}{e.message && ` · ${e.message}`}
+                  </p>
+                  {(e.response || e.handled_by) && (
+                    <p className="text-xs text-gray-600 dark:text-gray-300 mt-0.5">
+                      {e.handled_by}{e.response && `: ${e.response}`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  {isOwnProfile && OPEN_EVALUATION.includes(e.status) && (
+                    <button
+                      onClick={() => handleWithdrawEvaluation(e.id)}
+                      className="text-xs text-gray-500 dark:text-gray-400 hover:underline"
+                    >
+                      Withdraw
+                    </button>
+                  )}
+                  <span className={`px-2 py-0.5 rounded text-xs ${evaluationStyle[e.status].badge}`}>
+                    {e.status === 'scheduled' && e.scheduled_for
+                      ? `Scheduled ${new Date(e.scheduled_for).toLocaleString()}`
+                      : evaluationStyle[e.status].label}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Skills by category */}
       <div className="space-y-4">
         {Object.entries(skillsByCategory).map(([category, categorySkills]) => {
-          const catFmq = categorySkills.filter(s => {
-            const q = qualifications.find(q => q.skill_id === s.id)
-            return q?.status === 'FMQ' || q?.status === 'IP'
-          }).length
+          const catFmq = categorySkills.filter(s => isCurrentQual(qualifications.find(q => q.skill_id === s.id))).length
           const catPct = categorySkills.length > 0 ? (catFmq / categorySkills.length) * 100 : 0
 
           return (
@@ -168,18 +370,76 @@ export const PilotProfile: React.FC = () => {
                   const qualification = qualifications.find(q => q.skill_id === skill.id)
                   const status = qualification?.status ?? 'NMQ'
                   const style = statusStyle[status] ?? defaultStyle
+                  const currency = qualification?.currency_state
+                  const currencyText = qualification ? currencyLabel(qualification) : undefined
+                  const evaluation = openEvaluation(skill.id)
 
                   return (
-                    <div key={skill.id} className="flex items-center justify-between px-5 py-3 hover:bg-gray-50 dark:hover:bg-gray-800/40 transition-colors">
-                      <div>
-                        <p className="text-sm font-medium text-gray-900 dark:text-white">{skill.name}</p>
-                        {skill.description && (
-                          <p className="text-xs text-gray-400 dark:text-gray-500 mt-0.5">{skill.description}</p>
-                        )}
+                    <div key={skill.id} className="px-5 py-3 hover:bg-gray-50 dark:hover:bg-gray-800/40 transition-colors">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900 dark:text-white">{skill.name}</p>
+                          {skill.description && (
+                            <p className="text-xs text-gray-400 dark:text-gray-500 mt-0.5">{skill.description}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-3 shrink-0">
+                          {currency && currencyText && (
+                            <span className={`text-xs ${currencyStyle[currency]}`}>{currencyText}</span>
+                          )}
+                          {canEdit && currency && currency !== 'current' && (
+                            <button
+                              onClick={() => handleMarkFlown(skill.id)}
+                              disabled={markingSkillId === skill.id}
+                              className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                            >
+                              {markingSkillId === skill.id ? 'Saving...' : 'Mark flown'}
+                            </button>
+                          )}
+                          {evaluation && (
+                            <span className={`px-2 py-0.5 rounded text-xs ${evaluationStyle[evaluation.status].badge}`}>
+                              {evaluationLabel(evaluation)}
+                            </span>
+                          )}
+                          {isOwnProfile && !evaluation && status !== 'IP' && requestSkillId !== skill.id && (
+                            <button
+                              onClick={() => { setRequestSkillId(skill.id); setRequestMessage('') }}
+                              className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              Request evaluation
+                            </button>
+                          )}
+                          <span className={`px-2.5 py-1 rounded text-xs font-semibold ${style.badge} ${currency === 'expired' ? 'line-through opacity-60' : ''}`}>
+                            {status}
+                          </span>
+                        </div>
                       </div>
-                      <span className={`px-2.5 py-1 rounded text-xs font-semibold ${style.badge}`}>
-                        {status}
-                      </span>
+                      {requestSkillId === skill.id && (
+                        <div className="flex items-center gap-2 mt-2">
+                          <input
+                            type="text"
+                            value={requestMessage}
+                            onChange={(e) => setRequestMessage(e.target.value)}
+                            placeholder="Message for your instructors, e.g. ready for checkride"
+                            maxLength={1000}
+                            className="flex-1 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm"
+                            autoFocus
+                          />
+                          <button
+                            onClick={() => handleRequestEvaluation(skill.id)}
+                            disabled={requesting}
+                            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded transition disabled:opacity-50"
+                          >
+                            {requesting ? 'Sending...' : 'Send request'}
+                          </button>
+                          <button
+                            onClick={() => setRequestSkillId(null)}
+                            className="px-2 py-1.5 text-xs text-gray-500 dark:text-gray-400 hover:underline"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      )}
                     </div>
                   )
                 })}
@@ -0,0 +1,91 @@
+import React, { useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { api } from '@/lib/api'
+
+const inputCls = 'w-full px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-1 focus:ring-gray-400 dark:focus:ring-gray-500 dark:bg-gray-800 dark:text-white text-gray-900'
+
+// Landing page for emailed password links; `welcome=1` marks a new-account onboarding link
+export const ResetPassword: React.FC = () => {
+  const [searchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const token = searchParams.get('token') || ''
+  const welcome = searchParams.get('welcome') === '1'
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(token ? null : 'This reset link is missing its token')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    if (newPassword.length < 8) {
+      setError('Password must be at least 8 characters')
+      return
+    }
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await api.auth.resetPassword(token, newPassword)
+      navigate('/login', { replace: true, state: { notice: 'Password set. You can now sign in.' } })
+    } catch (err: any) {
+      setError(err.message || 'Failed to set password')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-white dark:bg-gray-950">
+      <div className="w-full max-w-md">
+        <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-800 p-8">
+          <div className="text-center mb-8">
+            <p className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-1">
+              {welcome ? 'Welcome to the' : 'Reset your password'}
+            </p>
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white">
+              {welcome ? '8th Virtual Fighter Wing' : 'Choose a new password'}
+            </h1>
+            {welcome && (
+              <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">Set a password to finish setting up your account.</p>
+            )}
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 rounded">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">New password</label>
+              <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} placeholder="At least 8 characters" className={inputCls} autoComplete="new-password" required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-900 dark:text-white mb-2">Confirm password</label>
+              <input type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} className={inputCls} autoComplete="new-password" required />
+            </div>
+            <button
+              type="submit"
+              disabled={saving || !token}
+              className="w-full bg-gray-900 dark:bg-white hover:bg-gray-800 dark:hover:bg-gray-100 text-white dark:text-gray-900 font-semibold py-2 rounded-lg transition disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Set Password'}
+            </button>
+            <button
+              type="button"
+              onClick={() => navigate('/login')}
+              className="w-full text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition"
+            >
+              Back to sign in
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,11 @@
 import React, { useEffect, useState } from 'react'
-import { api } from '@/lib/api'
+import { api, ApiError } from '@/lib/api'
+import { can, seesAllWings } from '@/lib/permissions'
+import { unitSubtree } from '@/lib/orgUnits'
+import { ROSTER_STATUSES, ROSTER_STATUS_LABELS, RosterFilter, matchesRosterFilter } from '@/lib/roster'
 import { SkillMatrix } from '@/components/SkillMatrix'
-import { Pilot, Skill, Qualification, QualificationStatus, Wing } from '@/types'
+import { OrgTreeSelect } from '@/components/OrgTreeSelect'
+import { OrgUnit, Pilot, Skill, Qualification, QualificationStatus, SignoffAuthority, SignoffRequest, Wing } from '@/types'
 import { useAuthStore } from '@/store/authStore'
 import { Save, Undo2 } from 'lucide-react'
 
@@ -21,7 +25,15 @@ export const SkillBoard: React.FC = () => {
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [saveError, setSaveError] = useState<string | null>(null)
+  const [saveNotice, setSaveNotice] = useState<string | null>(null)
+  const [signoffs, setSignoffs] = useState<SignoffRequest[]>([])
+  const [authority, setAuthority] = useState<SignoffAuthority | null>(null)
+  // Change held back by missing prerequisites; the user may save it anyway
+  const [blockedChange, setBlockedChange] = useState<PendingChange | null>(null)
   const [selectedWingId, setSelectedWingId] = useState<string | null>(null)
+  const [units, setUnits] = useState<OrgUnit[]>([])
+  const [selectedUnitId, setSelectedUnitId] = useState<string | null>(null)
+  const [rosterFilter, setRosterFilter] = useState<RosterFilter>('active')
   const [pendingChanges, setPendingChanges] = useState<PendingChange[]>([])
   const [categoryColors, setCategoryColors] = useState<Record<string, string>>({})
   const [categoryOrder, setCategoryOrder] = useState<string[]>([])
@@ -56,17 +68,23 @@ export const SkillBoard: React.FC = () => {
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [pilotsData, skillsData, qualsData, wingsData] = await Promise.all([
+        const [pilotsData, skillsData, qualsData, wingsData, signoffsData, authorityData, unitsData] = await Promise.all([
           api.pilots.getAll(),
           api.skills.getAll(),
           api.qualifications.getAll(),
           api.wings.getAll(),
+          api.signoffs.getAll({ status: 'pending' }),
+          api.qualifications.getAuthority(),
+          api.units.getAll(),
         ])
 
         setPilots(pilotsData)
         setSkills(skillsData)
         setQualifications(qualsData)
         setWings(wingsData)
+        setSignoffs(signoffsData)
+        setAuthority(authorityData)
+        setUnits(unitsData)
 
         // Try to restore from localStorage, or default to first wing
         if (wingsData.length > 0 && !selectedWingId) {
@@ -111,31 +129,60 @@ export const SkillBoard: React.FC = () => {
     })
   }
 
-   const handleSave = async () => {
+   const handleSave = async (override?: PendingChange) => {
      if (pendingChanges.length === 0) return
 
      setSaving(true)
      setSaveError(null)
+     setSaveNotice(null)
+     setBlockedChange(null)
+     const remaining = [...pendingChanges]
+     let requested = 0
      try {
        // Process all changes sequentially to avoid race conditions
-       for (const change of pendingChanges) {
-         await api.qualifications.update(change.pilotId, change.skillId, change.status)
+       while (remaining.length > 0) {
+         const change = remaining[0]
+         const result = await api.qualifications.update(change.pilotId, change.skillId, change.status, undefined, change === override)
+         // FMQ/IP promotions by instructors and IP holders come back as sign-off requests
+         if (result?.signoff_request) requested++
+         remaining.shift()
        }
-
-       // Refetch fresh data from server
-       const qualsData = await api.qualifications.getAll()
-       setQualifications(qualsData)
-       setPendingChanges([])
      } catch (error: any) {
        console.error('Error saving changes:', error)
-       setSaveError(error.message || 'Failed to save changes')
+       if (error instanceof ApiError && error.status === 409 && error.body?.missing_prerequisites) {
+         const change = remaining[0]
+         const callsign = pilots.find(p => p.id === change.pilotId)?.callsign
+         const skillName = skills.find(s => s.id === change.skillId)?.name
+         setSaveError(`${callsign} cannot be signed off on ${skillName}. ${error.message}`)
+         setBlockedChange(change)
+       } else {
+         setSaveError(error.message || 'Failed to save changes')
+       }
      } finally {
+       // Refetch fresh data from server and keep only the changes that were not saved
+       try {
+         const [qualsData, signoffsData] = await Promise.all([
+           api.qualifications.getAll(),
+           api.signoffs.getAll({ status: 'pending' }),
+         ])
+         setQualifications(qualsData)
+         setSignoffs(signoffsData)
+       } catch (error) {
+         console.error('Error refreshing qualifications:', error)
+       }
+       if (requested > 0) {
+         setSaveNotice(`${requested} sign-off request${requested !== 1 ? 's' : ''} sent for approval`)
+       }
+       setPendingChanges(remaining)
        setSaving(false)
      }
    }
 
   const handleDiscard = () => {
     setPendingChanges([])
+    setSaveError(null)
+    setSaveNotice(null)
+    setBlockedChange(null)
   }
 
    // Build an effective qualifications list that merges server data with pending changes
@@ -148,8 +195,8 @@ export const SkillBoard: React.FC = () => {
        const idx = result.findIndex(q => q.pilot_id === change.pilotId && q.skill_id === change.skillId)
 
        if (idx >= 0) {
-         // Update existing
-         result[idx] = { ...result[idx], status: change.status }
+         // Update existing; currency is recomputed by the server once saved
+         result[idx] = { ...result[idx], status: change.status, currency_state: null }
        } else {
          // New qualification
          result.push({
@@ -165,12 +212,34 @@ export const SkillBoard: React.FC = () => {
      return result
    }, [qualifications, pendingChanges])
 
+  const pendingSignoffs = React.useMemo(() => {
+    return new Map(signoffs.map(r => [`${r.pilot_id}-${r.skill_id}`, r]))
+  }, [signoffs])
+
   // Set of changed cell keys for visual highlighting
   const changedCells = React.useMemo(() => {
     return new Set(pendingChanges.map(c => `${c.pilotId}-${c.skillId}`))
   }, [pendingChanges])
 
-  const filteredPilots = selectedWingId ? pilots.filter(p => p.wing_id === selectedWingId) : []
+  // The wing's own pilots, then its guests and dual members. With a unit
+  // selected, only the pilots assigned to it or the units beneath it. Either
+  // way narrowed to the chosen roster status.
+  const filteredPilots = React.useMemo(() => {
+    if (!selectedWingId) return []
+    const onRoster = pilots.filter(p => matchesRosterFilter(p.roster_status, rosterFilter))
+    if (selectedUnitId) {
+      const inUnit = unitSubtree(units, selectedUnitId)
+      return onRoster.filter(p => p.wing_id === selectedWingId && p.unit_id !== null && inUnit.has(p.unit_id))
+    }
+    const own = onRoster.filter(p => p.wing_id === selectedWingId)
+    const members = onRoster
+      .filter(p => p.memberships?.some(m => m.wing_id === selectedWingId))
+      .map(p => ({ ...p, guest_from: p.wing_name }))
+    return [...own, ...members]
+  }, [pilots, units, selectedWingId, selectedUnitId, rosterFilter])
+
+  const wingUnits = units.filter(u => u.wing_id === selectedWingId)
+  const selectedWing = wings.find(w => w.id === selectedWingId)
 
   // Filter skills by selected wing too
   const filteredSkills = selectedWingId ? skills.filter(s => s.wing_id === selectedWingId) : []
@@ -186,7 +255,17 @@ export const SkillBoard: React.FC = () => {
     }
   }
 
-  const canManageCategories = user?.role === 'instructor' || user?.role === 'admin'
+  // Wing-scoped roles only edit the matrix of their own wing
+  const inReach = seesAllWings(user) || selectedWingId === user?.wing_id
+  const canManageCategories = inReach && can(user, 'categories:manage')
+
+  // Mirrors the server's sign-off authority: the whole wing, or only skills the user holds IP on
+  const canEditCell = (pilotId: string, skillId: string) => {
+    if (!authority) return false
+    if (authority.wing_wide && inReach) return true
+    return authority.ip_skill_ids.includes(skillId) && pilotId !== authority.pilot_id
+  }
+  const canEditAny = !!authority && ((authority.wing_wide && inReach) || filteredSkills.some(s => authority.ip_skill_ids.includes(s.id)))
 
   return (
     <div className="space-y-6">
@@ -211,7 +290,7 @@ export const SkillBoard: React.FC = () => {
               Discard
             </button>
             <button
-              onClick={handleSave}
+              onClick={() => handleSave()}
               disabled={saving}
               className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm bg-green-600 hover:bg-green-700 text-white transition disabled:opacity-50"
             >
@@ -223,8 +302,23 @@ export const SkillBoard: React.FC = () => {
       </div>
 
       {saveError && (
-        <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-lg text-sm">
-          {saveError}
+        <div className="flex items-center justify-between gap-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          <span>{saveError}</span>
+          {blockedChange && (
+            <button
+              onClick={() => handleSave(blockedChange)}
+              disabled={saving}
+              className="shrink-0 px-3 py-1.5 rounded-lg font-medium bg-red-600 hover:bg-red-700 text-white transition disabled:opacity-50"
+            >
+              Save anyway
+            </button>
+          )}
+        </div>
+      )}
+
+      {saveNotice && (
+        <div className="p-3 bg-sky-50 dark:bg-sky-950 border border-sky-200 dark:border-sky-800 text-sky-700 dark:text-sky-300 rounded-lg text-sm">
+          {saveNotice}
         </div>
       )}
 
@@ -233,7 +327,10 @@ export const SkillBoard: React.FC = () => {
           {wings.map(wing => (
             <button
               key={wing.id}
-              onClick={() => setSelectedWingId(wing.id)}
+              onClick={() => {
+                setSelectedWingId(wing.id)
+                setSelectedUnitId(null)
+              }}
               className={`px-5 py-3 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${
                 selectedWingId === wing.id
                   ? 'border-blue-600 text-blue-600 dark:border-blue-400 dark:text-blue-400'
@@ -246,21 +343,59 @@ export const SkillBoard: React.FC = () => {
         </nav>
       </div>
 
+      {selectedWing && (
+        <div className="flex items-center gap-4">
+          {wingUnits.length > 0 && (
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-gray-600 dark:text-gray-400">Unit</label>
+              <OrgTreeSelect
+                wings={[selectedWing]}
+                units={wingUnits}
+                value={{ wingId: selectedWing.id, unitId: selectedUnitId }}
+                onChange={v => setSelectedUnitId(v.unitId)}
+              />
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <label className="text-sm text-gray-600 dark:text-gray-400">Roster</label>
+            <select
+              value={rosterFilter}
+              onChange={e => setRosterFilter(e.target.value as RosterFilter)}
+              className="px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {ROSTER_STATUSES.map(s => <option key={s} value={s}>{ROSTER_STATUS_LABELS[s]}</option>)}
+              <option value="all">All statuses</option>
+            </select>
+          </div>
+        </div>
+      )}
+
       {!loading && filteredPilots.length === 0 && selectedWingId && (
         <div className="text-center py-12 bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800">
-          <p className="text-gray-500 dark:text-gray-400">There are no pilots in this wing.</p>
+          <p className="text-gray-500 dark:text-gray-400">
+            {rosterFilter !== 'all'
+              ? `There are no ${ROSTER_STATUS_LABELS[rosterFilter]} pilots in this ${selectedUnitId ? 'unit' : 'wing'}.`
+              : selectedUnitId ? 'There are no pilots in this unit.' : 'There are no pilots in this wing.'}
+          </p>
         </div>
       )}
 
+      {!loading && canEditAny && authority && !(authority.wing_wide && inReach) && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          You can sign other pilots off on the skills you hold IP on. Promotions to FMQ or IP go to an instructor for approval.
+        </p>
+      )}
+
       {/* Single wing selected — one matrix */}
       {!loading && selectedWingId && filteredPilots.length > 0 && (
          <SkillMatrix
           pilots={filteredPilots}
           skills={filteredSkills}
           qualifications={effectiveQualifications}
-          onCellUpdate={canManageCategories ? handleCellUpdate : undefined}
-          editable={canManageCategories}
+          onCellUpdate={canEditAny ? handleCellUpdate : undefined}
+          canEditCell={canEditCell}
           changedCells={changedCells}
+          pendingSignoffs={pendingSignoffs}
           categoryColors={categoryColors}
           categoryOrder={categoryOrder}
           onCategoryColorChange={canManageCategories ? handleCategoryColorChange : undefined}
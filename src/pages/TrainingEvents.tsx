@@ -0,0 +1,502 @@
+import React, { useEffect, useState } from 'react'
+import { useAuthStore } from '@/store/authStore'
+import { api } from '@/lib/api'
+import { can, seesAllWings } from '@/lib/permissions'
+import { EventOutcome, EventProposal, Pilot, Skill, TrainingEvent, TrainingEventInput, Wing } from '@/types'
+import { CalendarDays, Plus, Pencil, Trash2, Check, X, Save, ArrowUpCircle } from 'lucide-react'
+
+const OUTCOME_LABELS: Record<EventOutcome, string> = {
+  pending: 'Pending',
+  pass: 'Pass',
+  partial: 'Partial',
+  fail: 'Fail',
+  no_show: 'No-show',
+}
+
+const OUTCOME_STYLES: Record<EventOutcome, string> = {
+  pending: 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400',
+  pass: 'bg-emerald-50 dark:bg-emerald-950 text-emerald-700 dark:text-emerald-300',
+  partial: 'bg-amber-50 dark:bg-amber-950 text-amber-700 dark:text-amber-300',
+  fail: 'bg-red-50 dark:bg-red-950 text-red-700 dark:text-red-300',
+  no_show: 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-500',
+}
+
+const proposalKey = (p: { pilot_id: string; skill_id: string }) => `${p.pilot_id}:${p.skill_id}`
+
+const inputCls = 'px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm'
+
+export const TrainingEvents: React.FC = () => {
+  const { user } = useAuthStore()
+  const canEdit = can(user, 'events:manage')
+
+  const [wings, setWings] = useState<Wing[]>([])
+  const [wingId, setWingId] = useState('')
+  const [events, setEvents] = useState<TrainingEvent[]>([])
+  const [pilots, setPilots] = useState<Pilot[]>([])
+  const [skills, setSkills] = useState<Skill[]>([])
+  const [selected, setSelected] = useState<TrainingEvent | null>(null)
+  const [proposals, setProposals] = useState<EventProposal[]>([])
+  const [chosen, setChosen] = useState<Set<string>>(new Set())
+  const [form, setForm] = useState<TrainingEventInput | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [successMsg, setSuccessMsg] = useState<string | null>(null)
+
+  useEffect(() => {
+    api.wings.getAll().then((w: Wing[]) => {
+      setWings(w)
+      setWingId(seesAllWings(user) ? w[0]?.id || '' : user?.wing_id || w[0]?.id || '')
+    }).catch(console.error)
+  }, [user?.wing_scoped, user?.wing_id])
+
+  useEffect(() => {
+    if (!wingId) return
+    setSelected(null)
+    setForm(null)
+    Promise.all([api.events.getAll(wingId), api.pilots.getAll(), api.skills.getAll(wingId)])
+      .then(([eventsData, pilotsData, skillsData]) => {
+        setEvents(eventsData)
+        setPilots((pilotsData as Pilot[]).filter(p => p.wing_id === wingId))
+        setSkills(skillsData)
+      })
+      .catch(err => setError(err.message || 'Failed to load training events'))
+  }, [wingId])
+
+  const showSuccess = (msg: string) => {
+    setSuccessMsg(msg)
+    setTimeout(() => setSuccessMsg(null), 3000)
+  }
+
+  const refreshEvents = async () => setEvents(await api.events.getAll(wingId))
+
+  const openEvent = async (id: string) => {
+    setForm(null)
+    setError(null)
+    try {
+      const event = await api.events.getById(id)
+      setSelected(event)
+      if (canEdit && !event.applied_at) {
+        const props = await api.events.getProposals(id)
+        setProposals(props)
+        setChosen(new Set(props.filter(p => p.missing_prerequisites.length === 0).map(proposalKey)))
+      } else {
+        setProposals([])
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load event')
+    }
+  }
+
+  const startCreate = () => {
+    setSelected(null)
+    setEditingId(null)
+    setForm({
+      wing_id: wingId,
+      title: '',
+      event_date: new Date().toISOString().slice(0, 10),
+      lead_instructor_id: user?.pilot_id || null,
+      notes: null,
+      skill_ids: [],
+      attendees: [],
+    })
+  }
+
+  const startEdit = (event: TrainingEvent) => {
+    setEditingId(event.id)
+    setForm({
+      wing_id: event.wing_id,
+      title: event.title,
+      event_date: event.event_date,
+      lead_instructor_id: event.lead_instructor_id,
+      notes: event.notes,
+      skill_ids: (event.skills || []).map(s => s.id),
+      attendees: (event.attendees || []).map(a => ({ pilot_id: a.pilot_id, outcome: a.outcome, notes: a.notes })),
+    })
+  }
+
+  const submitForm = async () => {
+    if (!form) return
+    setBusy(true)
+    setError(null)
+    try {
+      const saved = editingId ? await api.events.update(editingId, form) : await api.events.create(form)
+      showSuccess(editingId ? 'Event updated' : 'Event logged')
+      await refreshEvents()
+      await openEvent(saved.id)
+    } catch (err: any) {
+      setError(err.message || 'Failed to save event')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const deleteEvent = async (event: TrainingEvent) => {
+    if (!confirm(`Delete "${event.title}"? Applied qualification changes are kept.`)) return
+    try {
+      await api.events.delete(event.id)
+      setSelected(null)
+      await refreshEvents()
+      showSuccess('Event deleted')
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete event')
+    }
+  }
+
+  const applyProposals = async () => {
+    if (!selected) return
+    const picks = proposals.filter(p => chosen.has(proposalKey(p)))
+    if (!confirm(`Apply ${picks.length} qualification change(s) from "${selected.title}"? The event becomes read-only afterwards.`)) return
+    setBusy(true)
+    setError(null)
+    try {
+      const result = await api.events.apply(selected.id, picks.map(p => ({ pilot_id: p.pilot_id, skill_id: p.skill_id })))
+      const notes = [
+        result.requested.length ? `${result.requested.length} sent for sign-off approval` : '',
+        result.skipped.length ? `skipped ${result.skipped.length} with missing prerequisites` : '',
+      ].filter(Boolean)
+      showSuccess(`Applied ${result.applied.length} change(s)${notes.length ? `, ${notes.join(', ')}` : ''}`)
+      await refreshEvents()
+      await openEvent(selected.id)
+    } catch (err: any) {
+      setError(err.message || 'Failed to apply upgrades')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const toggleChosen = (key: string) => {
+    const next = new Set(chosen)
+    if (next.has(key)) next.delete(key)
+    else next.add(key)
+    setChosen(next)
+  }
+
+  return (
+    <div className="space-y-6 pb-12">
+      <div className="flex items-end justify-between">
+        <div>
+          <p className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-1">Training</p>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Training Events</h1>
+        </div>
+        <div className="flex items-center gap-3">
+          {seesAllWings(user) ? (
+            <select value={wingId} onChange={(e) => setWingId(e.target.value)} className={inputCls}>
+              {wings.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+            </select>
+          ) : (
+            <span className="text-sm text-gray-500 dark:text-gray-400">{wings.find(w => w.id === wingId)?.name}</span>
+          )}
+          {canEdit && (
+            <button
+              onClick={startCreate}
+              className="flex items-center gap-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded transition"
+            >
+              <Plus className="w-4 h-4" />
+              Log Event
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded text-sm">
+          {error}
+        </div>
+      )}
+      {successMsg && (
+        <div className="p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded text-sm">
+          {successMsg}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Event list */}
+        <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 divide-y divide-gray-100 dark:divide-gray-800 self-start">
+          {events.length === 0 ? (
+            <div className="p-10 text-center">
+              <CalendarDays className="w-8 h-8 text-gray-300 dark:text-gray-700 mx-auto mb-2" />
+              <p className="text-sm text-gray-400 dark:text-gray-500">No events logged yet</p>
+            </div>
+          ) : events.map(event => (
+            <button
+              key={event.id}
+              onClick={() => openEvent(event.id)}
+              className={`w-full text-left px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800/40 transition-colors ${selected?.id === event.id ? 'bg-gray-50 dark:bg-gray-800/60' : ''}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-sm text-gray-900 dark:text-white truncate">{event.title}</span>
+                {event.applied_at && <Check className="w-4 h-4 text-emerald-500 shrink-0" />}
+              </div>
+              <p className="text-xs text-gray-400 dark:text-gray-500 mt-0.5">
+                {event.event_date} · {event.attendee_count} pilot(s) · {event.skill_count} skill(s)
+              </p>
+            </button>
+          ))}
+        </div>
+
+        {/* Detail / form */}
+        <div className="lg:col-span-2">
+          {form ? (
+            <EventForm
+              form={form}
+              setForm={setForm}
+              pilots={pilots}
+              skills={skills}
+              busy={busy}
+              isEdit={!!editingId}
+              onSubmit={submitForm}
+              onCancel={() => setForm(null)}
+            />
+          ) : selected ? (
+            <div className="bg-white dark:bg-gray-900 rounded-lg p-6 border border-gray-200 dark:border-gray-800 space-y-5">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{selected.title}</h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {selected.event_date}
+                    {selected.lead_instructor_callsign && ` · Lead: ${selected.lead_instructor_callsign}`}
+                    {selected.applied_at && ` · Applied by ${selected.applied_by}`}
+                  </p>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    {!selected.applied_at && (
+                      <button onClick={() => startEdit(selected)} className="p-1.5 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded" title="Edit event">
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button onClick={() => deleteEvent(selected)} className="p-1.5 text-red-500 hover:bg-red-100 dark:hover:bg-red-900 rounded" title="Delete event">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {selected.notes && <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{selected.notes}</p>}
+
+              <div>
+                <h3 className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-2">Skills covered</h3>
+                <div className="flex flex-wrap gap-1.5">
+                  {(selected.skills || []).map(s => (
+                    <span key={s.id} className="px-2 py-1 rounded text-xs bg-blue-50 dark:bg-blue-950 text-blue-700 dark:text-blue-300">{s.name}</span>
+                  ))}
+                  {(selected.skills || []).length === 0 && <span className="text-sm text-gray-400">None</span>}
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-2">Attendees</h3>
+                <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                  {(selected.attendees || []).map(a => (
+                    <div key={a.pilot_id} className="flex items-center justify-between py-2 text-sm">
+                      <span className="text-gray-900 dark:text-white">{a.callsign}</span>
+                      <div className="flex items-center gap-3">
+                        {a.notes && <span className="text-xs text-gray-400 dark:text-gray-500">{a.notes}</span>}
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${OUTCOME_STYLES[a.outcome]}`}>{OUTCOME_LABELS[a.outcome]}</span>
+                      </div>
+                    </div>
+                  ))}
+                  {(selected.attendees || []).length === 0 && <p className="text-sm text-gray-400 py-2">No attendees</p>}
+                </div>
+              </div>
+
+              {canEdit && !selected.applied_at && (
+                <div>
+                  <h3 className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-2">Proposed qualification changes</h3>
+                  {proposals.length === 0 ? (
+                    <p className="text-sm text-gray-400 dark:text-gray-500">Grade attendees as pass or partial to propose upgrades.</p>
+                  ) : (
+                    <div className="space-y-1.5">
+                      {proposals.map(p => {
+                        const key = proposalKey(p)
+                        const blocked = p.missing_prerequisites.length > 0
+                        return (
+                          <label key={key} className="flex items-start gap-2 text-sm cursor-pointer">
+                            <input type="checkbox" checked={chosen.has(key)} onChange={() => toggleChosen(key)} className="mt-1" />
+                            <span className="text-gray-900 dark:text-white">
+                              <span className="font-medium">{p.callsign}</span> · {p.skill_name}:{' '}
+                              {p.action === 'renew'
+                                ? <span className="text-gray-500 dark:text-gray-400">renew {p.proposed_status} currency</span>
+                                : <span>{p.current_status || 'NMQ'} → <span className="font-semibold">{p.proposed_status}</span></span>}
+                              {blocked && (
+                                <span className="block text-xs text-amber-600 dark:text-amber-400">
+                                  Missing prerequisites: {p.missing_prerequisites.map(m => m.name).join(', ')}
+                                </span>
+                              )}
+                            </span>
+                          </label>
+                        )
+                      })}
+                      <button
+                        onClick={applyProposals}
+                        disabled={busy || chosen.size === 0}
+                        className="mt-3 flex items-center gap-1 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-medium rounded transition disabled:opacity-50"
+                      >
+                        <ArrowUpCircle className="w-4 h-4" />
+                        {busy ? 'Applying...' : `Apply ${chosen.size} change(s)`}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-10 text-center">
+              <p className="text-sm text-gray-400 dark:text-gray-500">Select an event to review it</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+const EventForm: React.FC<{
+  form: TrainingEventInput
+  setForm: (form: TrainingEventInput) => void
+  pilots: Pilot[]
+  skills: Skill[]
+  busy: boolean
+  isEdit: boolean
+  onSubmit: () => void
+  onCancel: () => void
+}> = ({ form, setForm, pilots, skills, busy, isEdit, onSubmit, onCancel }) => {
+  const attending = new Set(form.attendees.map(a => a.pilot_id))
+  const categories = [...new Set(skills.map(s => s.category))]
+
+  const toggleSkill = (id: string) => {
+    setForm({
+      ...form,
+      skill_ids: form.skill_ids.includes(id) ? form.skill_ids.filter(s => s !== id) : [...form.skill_ids, id],
+    })
+  }
+
+  const toggleAttendee = (id: string) => {
+    setForm({
+      ...form,
+      attendees: attending.has(id)
+        ? form.attendees.filter(a => a.pilot_id !== id)
+        : [...form.attendees, { pilot_id: id, outcome: 'pending' }],
+    })
+  }
+
+  const setOutcome = (id: string, outcome: EventOutcome) => {
+    setForm({ ...form, attendees: form.attendees.map(a => (a.pilot_id === id ? { ...a, outcome } : a)) })
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg p-6 border border-gray-200 dark:border-gray-800 space-y-4">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{isEdit ? 'Edit Event' : 'Log Training Event'}</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <input
+          type="text"
+          value={form.title}
+          onChange={(e) => setForm({ ...form, title: e.target.value })}
+          placeholder="Title (e.g. Tuesday BFM night)"
+          className={`${inputCls} sm:col-span-2`}
+        />
+        <input
+          type="date"
+          value={form.event_date}
+          onChange={(e) => setForm({ ...form, event_date: e.target.value })}
+          className={inputCls}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-gray-500 dark:text-gray-400">Lead instructor</span>
+        <select
+          value={form.lead_instructor_id || ''}
+          onChange={(e) => setForm({ ...form, lead_instructor_id: e.target.value || null })}
+          className={inputCls}
+        >
+          <option value="">None</option>
+          {pilots.map(p => <option key={p.id} value={p.id}>{p.callsign}</option>)}
+        </select>
+      </div>
+
+      <textarea
+        value={form.notes || ''}
+        onChange={(e) => setForm({ ...form, notes: e.target.value })}
+        placeholder="Notes"
+        rows={2}
+        className={`${inputCls} w-full`}
+      />
+
+      <div>
+        <h3 className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-2">Skills covered</h3>
+        <div className="space-y-2 max-h-56 overflow-auto">
+          {categories.map(category => (
+            <div key={category}>
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{category}</p>
+              <div className="flex flex-wrap gap-1.5">
+                {skills.filter(s => s.category === category).map(s => {
+                  const on = form.skill_ids.includes(s.id)
+                  return (
+                    <button
+                      key={s.id}
+                      onClick={() => toggleSkill(s.id)}
+                      className={`px-2 py-1 rounded text-xs border transition ${on
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                    >
+                      {s.name}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-medium text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-2">Attendees and outcomes</h3>
+        <div className="divide-y divide-gray-100 dark:divide-gray-800 max-h-72 overflow-auto">
+          {pilots.map(p => {
+            const attendee = form.attendees.find(a => a.pilot_id === p.id)
+            return (
+              <div key={p.id} className="flex items-center justify-between py-1.5 text-sm">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={!!attendee} onChange={() => toggleAttendee(p.id)} />
+                  <span className="text-gray-900 dark:text-white">{p.callsign}</span>
+                </label>
+                {attendee && (
+                  <select
+                    value={attendee.outcome}
+                    onChange={(e) => setOutcome(p.id, e.target.value as EventOutcome)}
+                    className={inputCls}
+                  >
+                    {(Object.keys(OUTCOME_LABELS) as EventOutcome[]).map(o => (
+                      <option key={o} value={o}>{OUTCOME_LABELS[o]}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onSubmit}
+          disabled={busy || !form.title.trim() || !form.event_date}
+          className="flex items-center gap-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded transition disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          {busy ? 'Saving...' : isEdit ? 'Save Changes' : 'Log Event'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 px-3 py-2 text-sm text-gray-500 dark:text-gray-400 hover:underline"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,11 @@
 // Type definitions for the DCS Squadron Dashboard
 export type QualificationStatus = 'NMQ' | 'MQT' | 'FMQ' | 'IP'
+export type CurrencyState = 'current' | 'expiring' | 'expired'
 
 export interface Wing {
   id: string
   name: string
+  syllabus_version: number
   created_at: string
   updated_at: string
 }
@@ -15,9 +17,15 @@ export interface Skill {
   category: string
   description?: string
   sort_order: number
+  currency_days?: number | null
   created_at: string
 }
 
+export interface SkillPrerequisite {
+  skill_id: string
+  prerequisite_id: string
+}
+
 export interface Qualification {
   id: string
   pilot_id: string
@@ -25,6 +33,21 @@ export interface Qualification {
   status: QualificationStatus
   last_updated: string
   updated_by?: string
+  last_performed?: string | null
+  currency_state?: CurrencyState | null
+  currency_expires_at?: string | null
+}
+
+export interface QualificationHistoryEntry {
+  id: string
+  pilot_id: string
+  skill_id: string
+  skill_name: string
+  old_status: QualificationStatus | null
+  new_status: QualificationStatus
+  changed_by?: string
+  note?: string
+  changed_at: string
 }
 
 export interface Pilot {
@@ -35,31 +58,526 @@ export interface Pilot {
   wing_id: string
   wing_name: string
   board_number?: string
-  role: 'pilot' | 'instructor' | 'admin'
+  role: string | null // the linked account's role; null without an account
   email: string
+  memberships: WingMembership[] // wings besides the primary one
+  unit_id: string | null
+  unit_name: string | null
+  roster_status: RosterStatus
+  roster_status_date: string | null // YYYY-MM-DD; null until the status is first changed
+  roster_status_reason: string | null
   created_at: string
   updated_at: string
 }
 
+// Only active pilots count towards readiness unless the stats ask for everyone
+export type RosterStatus = 'active' | 'reserve' | 'loa' | 'retired'
+
+export interface PilotStatusChange {
+  id: string
+  pilot_id: string
+  from_status: RosterStatus
+  status: RosterStatus
+  effective_date: string // YYYY-MM-DD
+  reason: string | null
+  changed_by: string
+  changed_at: string
+}
+
+export type MembershipKind = 'guest' | 'dual'
+
+export interface WingMembership {
+  wing_id: string
+  wing_name: string
+  kind: MembershipKind
+}
+
+// archive: archive the old wing's qualifications; carry_over: also copy them onto
+// same-named skills in the new wing; keep: stay a dual member of the old wing
+export type TransferMode = 'archive' | 'carry_over' | 'keep'
+
+export interface TransferPreview {
+  pilot: { id: string; callsign: string; wing_id: string; wing_name: string }
+  to_wing: { id: string; name: string }
+  mode: TransferMode
+  carried: Array<{ from_skill_id: string; to_skill_id: string; skill_name: string; status: QualificationStatus; replaces: QualificationStatus | null }>
+  archived: Array<{ skill_id: string; skill_name: string; category: string; status: QualificationStatus }>
+  created: Array<{ skill_id: string; skill_name: string; category: string }>
+  cancelled_signoffs: number
+  cancelled_evaluations: number
+}
+
+export interface PilotTransfer {
+  id: string
+  pilot_id: string
+  from_wing_id: string | null
+  from_wing_name: string
+  to_wing_id: string | null
+  to_wing_name: string
+  mode: TransferMode
+  carried_count: number
+  archived_count: number
+  created_count: number
+  note: string | null
+  transferred_by: string
+  transferred_at: string
+}
+
+export interface ArchivedQualification {
+  id: string
+  pilot_id: string
+  skill_id: string | null
+  wing_id: string | null
+  wing_name: string
+  skill_name: string
+  category: string
+  status: QualificationStatus
+  last_performed: string | null
+  last_updated: string | null
+  updated_by: string | null
+  transfer_id: string | null
+  revision_id: string | null
+  archived_by: string
+  archived_at: string
+}
+
+export interface ArchivedUser {
+  id: string
+  email: string
+  role: string
+  pilot_id: string | null
+  callsign: string | null
+  first_name: string | null
+  last_name: string | null
+  wing_id: string | null
+  wing_name: string | null
+  qualified_count: number
+  archived_by: string | null
+  archived_at: string
+}
+
+export interface ArchivedWing {
+  id: string
+  name: string
+  skill_count: number
+  archived_pilot_count: number
+  archived_by: string | null
+  archived_at: string
+}
+
+export interface ArchivedSkill {
+  id: string
+  wing_id: string
+  wing_name: string
+  name: string
+  category: string
+  holder_count: number
+  archived_by: string | null
+  archived_at: string
+}
+
+export interface ArchivedCategory {
+  wing_id: string
+  wing_name: string
+  category: string
+  color: string | null
+  skill_count: number
+  archived_by: string | null
+  archived_at: string
+}
+
+// Sections the caller may not manage come back empty
+export interface ArchiveListing {
+  users: ArchivedUser[]
+  wings: ArchivedWing[]
+  skills: ArchivedSkill[]
+  categories: ArchivedCategory[]
+}
+
 export interface PilotProfile extends Pilot {
   qualifications: (Qualification & { skill: Skill })[]
   completion_percentage: number
 }
 
+// Permission names a role can grant; mirrors server/src/services/permissions.ts
+export type Permission =
+  | 'pilots:create'
+  | 'qualifications:write'
+  | 'qualifications:approve'
+  | 'qualifications:skip_signoff'
+  | 'skills:manage'
+  | 'categories:manage'
+  | 'readiness:manage'
+  | 'events:manage'
+  | 'evaluations:respond'
+  | 'export:all'
+  | 'wings:manage'
+  | 'users:manage'
+  | 'roles:manage'
+  | 'settings:manage'
+  | 'webhooks:manage'
+
 export interface User {
   id: string
   email: string
-  role: 'pilot' | 'instructor' | 'admin'
+  role: string
+  // Effective permissions of the role; wing-scoped roles only exercise them in their own wing
+  permissions: Permission[]
+  wing_scoped: boolean
   pilot_id?: string
   wing_id?: string
   wing_name?: string
+  // Set while the account still has a temporary password
+  must_change_password?: boolean
+  discord_id?: string | null
+  discord_username?: string | null
+}
+
+export interface Role {
+  name: string
+  description: string | null
+  permissions: Permission[]
+  wing_scoped: boolean
+  builtin: boolean
+  user_count: number
+  created_at: string
+  updated_at: string
+}
+
+export interface RoleInput {
+  name: string
+  description: string | null
+  permissions: Permission[]
+  wing_scoped: boolean
+}
+
+export interface PermissionInfo {
+  name: Permission
+  description: string
+  site_wide: boolean // only roles that reach every wing can hold it
 }
 
 export interface QuickStats {
   total_pilots: number
+  inactive_pilots: number // reserve, LOA and retired pilots in scope, whether counted or not
   combat_ready_pilots: number
   overall_readiness_percentage: number
   average_completion_percentage: number
+  combat_ready_rule?: string | null // summary of the wing's readiness rules; null when wings differ
+  units?: UnitStats[] // every unit of the wing, rolled up over its subtree; only for a single wing
+}
+
+// One day of a readiness trend, from the daily snapshots
+export interface ReadinessTrendPoint {
+  date: string // YYYY-MM-DD
+  total_pilots: number // active pilots only
+  ready_pilots: number // combat ready, or for a category FMQ/IP and current in all of it
+  readiness_percentage: number
+  completion_percentage: number
+}
+
+export interface ReadinessTrends {
+  wing_id: string | null // null when the caller's wings are combined
+  from: string
+  to: string
+  points: ReadinessTrendPoint[]
+  categories: Array<{ category: string; color: string | null; points: ReadinessTrendPoint[] }> // only for a single wing
+}
+
+export type UnitKind = 'squadron' | 'flight'
+
+// A squadron or flight beneath a wing; top-level units have no parent
+export interface OrgUnit {
+  id: string
+  wing_id: string
+  parent_id: string | null
+  name: string
+  kind: UnitKind
+  pilot_count: number // pilots assigned directly, not through sub-units
+  created_at: string
+  updated_at: string
+}
+
+export interface OrgUnitInput {
+  wing_id: string
+  parent_id: string | null
+  name: string
+  kind: UnitKind
+}
+
+export interface UnitStats {
+  id: string
+  parent_id: string | null
+  name: string
+  kind: UnitKind
+  total_pilots: number
+  inactive_pilots: number
+  combat_ready_pilots: number
+  overall_readiness_percentage: number
+  average_completion_percentage: number
+}
+
+// A shareable set of categories and skills; categories and skills are in display order
+export interface SyllabusCategory {
+  name: string
+  color: string
+}
+
+export interface SyllabusSkill {
+  name: string
+  category: string
+  description: string | null
+  currency_days: number | null
+  prerequisites: string[] // names of other skills in the template
+}
+
+export interface SyllabusTemplate {
+  id: string
+  name: string
+  airframe: string | null
+  description: string | null
+  version: number
+  source_wing_id: string | null
+  source_wing_name: string | null
+  created_by: string
+  created_at: string
+  updated_at: string
+  category_count: number
+  skill_count: number
+  // Only from GET /api/syllabi/:id
+  content?: { categories: SyllabusCategory[]; skills: SyllabusSkill[] }
+}
+
+export interface SyllabusTemplateInput {
+  name: string
+  airframe: string | null
+  description: string | null
+  // Required when creating; when updating, replaces the content as a new version
+  wing_id?: string | null
+}
+
+export interface SyllabusApplyResult {
+  template_id: string
+  version: number
+  categories_created: number
+  skills_created: number
+  skills_skipped: string[]
+  prerequisites_created: number
+  qualifications_created: number
+}
+
+// One retired skill and the skills that replace it; no replacements drops it
+export interface RevisionMapping {
+  from_skill_id: string
+  to_skill_ids: string[]
+}
+
+export interface SyllabusRevision {
+  id: string
+  wing_id: string
+  version: number
+  note: string | null
+  mapping: Array<{
+    from_skill_id: string
+    from_skill_name: string
+    category: string
+    to: Array<{ skill_id: string; skill_name: string }>
+  }>
+  carried_count: number
+  archived_count: number
+  created_by: string
+  created_at: string
+}
+
+// What POST /api/wings/:id/syllabus-revisions would do, per pilot
+export interface RevisionPreview {
+  wing_id: string
+  from_version: number
+  to_version: number
+  skills: Array<SyllabusRevision['mapping'][number] & { holders: number }>
+  pilots: Array<{
+    pilot_id: string
+    callsign: string
+    carried: Array<{
+      skill_id: string
+      skill_name: string
+      from_status: QualificationStatus | null
+      status: QualificationStatus
+      sources: string[]
+      last_performed: string | null
+    }>
+    archived: Array<{ skill_name: string; status: QualificationStatus }>
+  }>
+  carried_count: number
+  archived_count: number
+  cancelled_signoffs: number
+  cancelled_evaluations: number
+  readiness_rules_updated: number
+  prerequisites_archived: number
+}
+
+export type ReadinessRuleType = 'min_qualified' | 'category_complete' | 'skills_required'
+
+export interface ReadinessRule {
+  id?: string
+  rule_type: ReadinessRuleType
+  category: string | null
+  skill_ids: string[]
+  min_count: number
+}
+
+export type NotificationEvent = 'qualified_fmq' | 'qualified_ip' | 'checkride_passed' | 'currency_lost'
+
+export interface DiscordWebhookSettings {
+  configured: boolean
+  webhook_url: string
+  enabled: boolean
+  events: Record<NotificationEvent, { enabled: boolean; template: string }>
+  // Placeholders the templates may use, e.g. "callsign" for {callsign}
+  template_fields: string[]
+}
+
+export type WebhookEvent = 'pilot.created' | 'qualification.changed' | 'skill.created' | 'wing.renamed'
+
+export interface WebhookSubscription {
+  id: string
+  name: string
+  url: string
+  events: WebhookEvent[]
+  // null delivers events from every wing
+  wing_id: string | null
+  wing_name: string | null
+  enabled: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+  pending_count: number
+  failed_count: number
+  // Only present right after creating the subscription or rotating its secret
+  secret?: string
+}
+
+export type WebhookSubscriptionInput = Pick<WebhookSubscription, 'name' | 'url' | 'events' | 'wing_id' | 'enabled'>
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+export interface WebhookDelivery {
+  id: string
+  subscription_id: string
+  subscription_name: string
+  event_type: WebhookEvent | 'ping'
+  payload: { event: string; occurred_at: string; data: Record<string, unknown> }
+  status: WebhookDeliveryStatus
+  attempts: number
+  next_attempt_at: string
+  last_attempt_at: string | null
+  last_response_status: number | null
+  last_error: string | null
+  delivered_at: string | null
+  created_at: string
+}
+
+export type EventOutcome = 'pending' | 'pass' | 'partial' | 'fail' | 'no_show'
+
+export interface TrainingEventAttendee {
+  pilot_id: string
+  callsign?: string
+  outcome: EventOutcome
+  notes?: string | null
+}
+
+export interface TrainingEvent {
+  id: string
+  wing_id: string
+  wing_name?: string
+  title: string
+  event_date: string // YYYY-MM-DD
+  lead_instructor_id: string | null
+  lead_instructor_callsign?: string | null
+  notes: string | null
+  created_by?: string
+  applied_at: string | null
+  applied_by?: string | null
+  attendee_count?: number
+  skill_count?: number
+  skills?: { id: string; name: string; category: string }[]
+  attendees?: TrainingEventAttendee[]
+  created_at: string
+  updated_at: string
+}
+
+export interface TrainingEventInput {
+  wing_id: string
+  title: string
+  event_date: string
+  lead_instructor_id: string | null
+  notes: string | null
+  skill_ids: string[]
+  attendees: { pilot_id: string; outcome: EventOutcome; notes?: string | null }[]
+}
+
+export interface EventProposal {
+  pilot_id: string
+  callsign: string
+  skill_id: string
+  skill_name: string
+  current_status: QualificationStatus | null
+  proposed_status: QualificationStatus
+  action: 'upgrade' | 'renew'
+  missing_prerequisites: { id: string; name: string }[]
+}
+
+export type SignoffRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled'
+
+// Which qualifications the current user may sign off
+export interface SignoffAuthority {
+  wing_wide: boolean // every skill in the wings the role reaches
+  ip_only: boolean // limited to the skills the user holds IP on
+  ip_skill_ids: string[]
+  pilot_id: string | null // the user's own pilot, which they cannot sign off
+}
+
+export interface SignoffRequest {
+  id: string
+  pilot_id: string
+  skill_id: string
+  requested_status: 'FMQ' | 'IP'
+  note: string | null
+  status: SignoffRequestStatus
+  requested_by: string
+  requested_by_user_id: string | null
+  reviewed_by: string | null
+  review_comment: string | null
+  reviewed_at: string | null
+  created_at: string
+  // Joined for display by GET /api/signoffs
+  callsign?: string
+  skill_name?: string
+  category?: string
+  wing_id?: string
+  wing_name?: string
+  current_status?: QualificationStatus | null
+}
+
+export type EvaluationRequestStatus = 'pending' | 'accepted' | 'scheduled' | 'declined' | 'cancelled'
+
+export interface EvaluationRequest {
+  id: string
+  pilot_id: string
+  skill_id: string
+  message: string | null
+  status: EvaluationRequestStatus
+  response: string | null
+  scheduled_for: string | null
+  handled_by: string | null
+  created_at: string
+  updated_at: string
+  // Joined for display by GET /api/evaluation-requests
+  callsign?: string
+  wing_id?: string
+  skill_name?: string
+  category?: string
+  current_status?: QualificationStatus | null
 }
 
 export interface SkillMatrixCell {